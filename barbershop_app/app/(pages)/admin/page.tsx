@@ -15,16 +15,20 @@ import AdminDashboardClient from "@/app/components/sections/admin/AdminDashboard
 import connectDB from "@/lib/mongoose";
 import Product from "@/models/Product";
 import Service from "@/models/Service";
+import Barber from "@/models/Barber";
+import Closure from "@/models/Closure";
 import User from "@/models/User";
 import Appointment from "@/models/Appointment";
+import { getShopSettings } from "@/lib/shopSettings";
+import { getQueue } from "@/lib/queue";
 
-// Directly imports the 'cookies' function from Next.js headers
-import { cookies } from "next/headers";
+// Reads the signed, server-side session
+import { getSession } from "@/lib/session";
 
 /**
  * @function getAdminData
  * @description An asynchronous function that connects to the database and fetches all
- * data required for the admin dashboard (products, services, clients, and appointments).
+ * data required for the admin dashboard (products, services, barbers, closures, clients, appointments, today's queue and shop settings).
  * It uses Promise.all to run all database queries concurrently for better performance.
  * @returns {Promise<object>} An object containing the lists of all fetched data.
  */
@@ -36,26 +40,35 @@ async function getAdminData() {
   // .lean() is used for performance optimization, returning plain JavaScript objects.
   const productsPromise = Product.find({}).sort({ createdAt: -1 }).lean();
   const servicesPromise = Service.find({}).sort({ createdAt: -1 }).lean();
+  const barbersPromise = Barber.find({}).sort({ name: 1 }).lean();
+  // Closures are listed by first day, each with the name of the barber it applies to (if any).
+  const closuresPromise = Closure.find({}).populate('barber', 'name').sort({ startDate: 1 }).lean();
   const clientsPromise = User.find({ role: 'client' }).sort({ createdAt: -1 }).lean();
   
-  // The appointments query uses .populate() to include the associated user's and service's name.
+  // The appointments query uses .populate() to include the associated user's, service's and barber's name,
+  // along with the client's style profile and the service's duration and buffers (for the calendar grid).
   const appointmentsPromise = Appointment.find({})
-    .populate('user', 'name')
-    .populate('service', 'name')
+    .populate('user', 'name styleProfile')
+    .populate('service', 'name duration bufferBefore bufferAfter')
+    .populate('barber', 'name')
     .sort({ date: -1 })
     .lean();
 
   // Executes all prepared queries in parallel.
-  const [products, services, clients, appointments] = await Promise.all([
+  const [products, services, barbers, closures, clients, appointments, queue, shopSettings] = await Promise.all([
     productsPromise,
     servicesPromise,
+    barbersPromise,
+    closuresPromise,
     clientsPromise,
     appointmentsPromise,
+    getQueue(), // Walk-ins and checked-in clients waiting today, with their estimated starts.
+    getShopSettings(),
   ]);
   
   // Converts the fetched data to a JSON string and back to an object to ensure
   // that only serializable data is passed from the server to the client.
-  return JSON.parse(JSON.stringify({ products, services, clients, appointments }));
+  return JSON.parse(JSON.stringify({ products, services, barbers, closures, clients, appointments, queue, shopSettings }));
 }
 
 /**
@@ -64,19 +77,17 @@ async function getAdminData() {
  * it operates as a Server Component, handling authorization and data fetching on the server-side.
  */
 export default async function AdminPage() {
-  // Reads the session cookie directly on the server to check for authentication.
-  const sessionCookie = cookies().get('session')?.value;
-  // Parses the cookie value into a session object if it exists.
-  const session = sessionCookie ? JSON.parse(sessionCookie) : null;
+  // Reads the session on the server; its role comes from the user's record, not the cookie.
+  const session = await getSession();
 
-  // Authorization logic: if there is no session or the user's role is not 'admin',
-  // redirects to the homepage before any content is rendered.
+  // Authorization logic: `middleware.ts` already keeps non-admins out; this check stays as a
+  // safeguard and redirects to the homepage before any content is rendered.
   if (session?.role !== 'admin') {
     redirect('/');
   }
 
   // Fetches all the necessary data for the dashboard.
-  const { products, services, clients, appointments } = await getAdminData();
+  const { products, services, barbers, closures, clients, appointments, queue, shopSettings } = await getAdminData();
 
   // Returns only the main content of the page, passing the server-fetched data as props.
   // The Navbar and Footer are handled by the root layout.
@@ -85,8 +96,12 @@ export default async function AdminPage() {
       <AdminDashboardClient
         initialProducts={products}
         initialServices={services}
+        initialBarbers={barbers}
+        initialClosures={closures}
         initialClients={clients}
         initialAppointments={appointments}
+        queue={queue}
+        shopSettings={shopSettings}
       />
     </main>
   );
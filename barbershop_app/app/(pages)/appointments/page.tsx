@@ -1,55 +1,78 @@
 /**
  * @file app/(pages)/appointments/page.tsx
  * @description This is the main page for booking and managing appointments.
- * As a Server Component, it is responsible for protecting the route by checking for
- * a user session, fetching all necessary data (services and existing appointments),
- * and then passing that data to a client-side component for UI and interactivity.
+ * As a Server Component, it reads the user session, fetches all necessary data (services, existing appointments,
+ * waitlist entries and the user's style profile), and then passes that data to a client-side component for UI and interactivity.
+ * Visitors who are not logged in can still book as guests; they manage that booking through the link sent to them.
  */
 
 // Import React and Next.js utilities
 import React from 'react';
-import { redirect } from 'next/navigation';
 
 // Import UI components and database models
 import AppointmentClientPage from '@/app/components/sections/appointments/AppointmentClientPage';
 import connectDB from '@/lib/mongoose';
 import Service from '@/models/Service';
+import Barber from '@/models/Barber';
 import Appointment from '@/models/Appointment';
+import User from '@/models/User';
+import { getShopSettings } from '@/lib/shopSettings';
+import { getUserWaitlist } from '@/lib/waitlist';
 
-// Directly imports the 'cookies' function from Next.js headers to be used on the server.
-import { cookies } from 'next/headers';
+// Reads the signed, server-side session.
+import { getSession } from '@/lib/session';
 
 /**
  * @function getPageData
  * @description An asynchronous function that fetches all data required for the appointments page.
- * It fetches the full list of services for the booking form and the specific appointments
- * belonging to the logged-in user.
+ * It fetches the full list of services and active barbers for the booking form and the
+ * specific appointments, open waitlist entries and style profile belonging to the logged-in user.
+ * Staff notes are left out of the appointments; they are for the shop only.
+ * Guests only get the services and barbers, as they have no appointments or waitlist entries to show here.
  * @param {string | undefined} userId - The ID of the currently logged-in user.
- * @returns {Promise<object>} An object containing the lists of services and user's appointments.
+ * It also reads the shop's time zone, in which the client page shows and books times, and its cancellation policy.
+ * @returns {Promise<object>} An object containing the lists of services, barbers, user's appointments and waitlist entries, the style profile, the time zone and the cancellation policy.
  */
 async function getPageData(userId: string | undefined) {
-  // If no user ID is provided, return empty arrays to prevent errors.
-  if (!userId) {
-    return { services: [], initialAppointments: [] };
-  }
   // Ensure a database connection is established.
   await connectDB();
 
   // Prepare the database queries to run in parallel.
   const servicesPromise = Service.find({}).sort({ name: 1 }).lean();
+  const barbersPromise = Barber.find({ active: true }).sort({ name: 1 }).lean();
+
+  // Guests book without an account, so there is nothing of theirs to load.
+  if (!userId) {
+    const [services, barbers, { timeZone, cancellationPolicy }] = await Promise.all([
+      servicesPromise,
+      barbersPromise,
+      getShopSettings(),
+    ]);
+    return JSON.parse(JSON.stringify({
+      services, barbers, initialAppointments: [], waitlist: [], styleProfile: '', timeZone, cancellationPolicy,
+    }));
+  }
   const appointmentsPromise = Appointment.find({ user: userId })
+    .select('-staffNotes') // Staff notes are not shown to the client.
     .sort({ date: -1 })
     .populate('service', 'name') // Includes the service name in the appointment data.
+    .populate('barber', 'name') // Includes the barber name, when one is assigned.
     .lean();
+  const userPromise = User.findById(userId).select('styleProfile').lean<{ styleProfile?: string }>();
   
-  // Execute both queries concurrently for better performance.
-  const [services, initialAppointments] = await Promise.all([
+  // Execute all queries concurrently for better performance.
+  const [services, barbers, initialAppointments, waitlist, { timeZone, cancellationPolicy }, userDoc] = await Promise.all([
     servicesPromise, 
-    appointmentsPromise
+    barbersPromise,
+    appointmentsPromise,
+    getUserWaitlist(userId),
+    getShopSettings(),
+    userPromise,
   ]);
+  const styleProfile = userDoc?.styleProfile ?? '';
   
   // Serialize the data to ensure only plain objects are passed to the client component.
-  return JSON.parse(JSON.stringify({ services, initialAppointments }));
+  return JSON.parse(JSON.stringify({ services, barbers, initialAppointments, waitlist, styleProfile, timeZone, cancellationPolicy }));
 }
 
 /**
@@ -58,34 +81,29 @@ async function getPageData(userId: string | undefined) {
  * it operates as a Server Component.
  */
 export default async function AppointmentsPage() {
-  // 2. Reads the session cookie directly on the server.
-  const sessionCookie = cookies().get('session')?.value;
-
-  // If no cookie is found, redirects the user to the login page.
-  // It includes a 'redirect' query parameter to return the user here after login.
-  if (!sessionCookie) {
-    redirect('/login?redirect=/appointments');
-  }
-
-  // If the cookie exists, parse its JSON content to get the session object.
-  const session = JSON.parse(sessionCookie);
+  // 2. Reads the session on the server. Without one, the visitor books as a guest.
+  const session = await getSession();
   
   // Fetches the page data using the user's ID from the session.
-  const { services, initialAppointments } = await getPageData(session.userId);
+  const { services, barbers, initialAppointments, waitlist, styleProfile, timeZone, cancellationPolicy } = await getPageData(session?.userId);
 
   // Prepares a session object to be passed to the client component.
   // This avoids passing the entire server-side session object to the client.
-  const clientSession = { 
-    isAuthenticated: true, 
-    user: { _id: session.userId, name: session.name } 
-  };
+  const clientSession = session
+    ? { isAuthenticated: true, user: { _id: session.userId, name: session.name } }
+    : { isAuthenticated: false };
 
   // Renders the client-side component, passing all fetched data and the session as props.
   // The page itself only returns this component; Navbar and Footer are handled by the root layout.
   return (
     <AppointmentClientPage
       services={services}
+      barbers={barbers}
       initialAppointments={initialAppointments}
+      waitlist={waitlist}
+      timeZone={timeZone}
+      cancellationPolicy={cancellationPolicy}
+      styleProfile={styleProfile}
       session={clientSession}
     />
   );
@@ -2,35 +2,24 @@
 
 import React from 'react';
 import CartClientPage from '@/app/components/sections/cart/CartClientPage';
-
-// The logic to fetch the user's session remains here,
-// as it is required for rendering the page content.
-async function getUserSession() {
-  // In a real application, use NextAuth.js or another authentication solution.
-  return {
-    isAuthenticated: true, 
-    user: {
-      _id: "66763a81282136e3c8332f14" // EXAMPLE - USE A VALID _ID
-    }
-  };
-}
+import { getSession } from '@/lib/session';
 
 /**
  * @page CartPage (Server Component)
- * @description This page fetches the user session and renders only the main cart component.
+ * @description This page reads the user session (see `lib/session.ts`) and renders only the main cart component.
+ * The checkout itself is made for the session's user on the server, whatever the browser sends.
  * The Navbar and Footer are handled by layout.tsx.
  * 
  * @returns {JSX.Element} The main container rendering the CartClientPage
  *                        with user session data passed as props.
  */
 export default async function CartPage() {
-  const session = await getUserSession();
+  const session = await getSession();
 
   return (
     <main className="flex-grow container mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <CartClientPage 
-        isAuthenticated={session.isAuthenticated}
-        userId={session.user?._id}
+        isAuthenticated={!!session}
       />
     </main>
   );
@@ -5,8 +5,8 @@
  * It is responsible for rendering a confirmation message after a successful purchase.
  * 
  * Key features of this page:
- * - Performs server-side session validation by reading cookies directly using Next.js built-in tools.
- * - If no session cookie is found, the user is redirected to the login page.
+ * - Performs server-side session validation (see `lib/session.ts`).
+ * - If there is no valid session, the user is redirected to the login page.
  * - Clears the user's cart using the <ClearCartTrigger /> component.
  * - Displays a success message with two action buttons:
  *   1. Continue shopping (navigates to /shop).
@@ -21,28 +21,27 @@ import { Button } from "@/app/components/ui/button";
 import { ClearCartTrigger } from "@/app/components/sections/cart/ClearCartTrigger";
 import { CheckCircle, Calendar, ShoppingBag } from "lucide-react";
 
-// 1. Server-side cookie access
-// This import allows reading cookies in a server component using Next.js 13+ "app" directory.
-import { cookies } from "next/headers";
+// 1. Server-side session access
+import { getSession } from "@/lib/session";
+import { loginPath } from "@/lib/routeAccess";
 
-export default function CheckoutSuccessPage() {
+export default async function CheckoutSuccessPage() {
   /**
    * Step 2: Session Validation
    * 
-   * We access the cookies on the server using `cookies()` and attempt to retrieve the 'session' cookie.
-   * This is a simplified simulation of user authentication — in a real app, NextAuth.js or another
-   * authentication mechanism should be used to ensure security and manage session state.
+   * We read the session on the server; its signed cookie is checked against the stored session,
+   * so forged, expired or revoked sessions count as logged out.
    */
-  const sessionCookie = cookies().get('session')?.value;
+  const session = await getSession();
 
   /**
    * Redirect Handling:
-   * If the session cookie is not found, the user is not authenticated.
+   * If there is no valid session, the user is not authenticated.
    * In this case, the user is immediately redirected to the login page using Next.js's
    * built-in `redirect()` function from `next/navigation`.
    */
-  if (!sessionCookie) {
-    redirect("/login");
+  if (!session) {
+    redirect(loginPath("/checkoutSuccess"));
   }
 
   /**
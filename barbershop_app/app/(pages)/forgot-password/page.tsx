@@ -0,0 +1,54 @@
+/**
+ * @file app/(pages)/forgot-password/page.tsx
+ * @description
+ * This page lets a user who forgot their password ask for a reset link by email
+ * (see `lib/passwordReset.ts`), linked from the login form.
+ *
+ * Key Features:
+ * - Renders the <ForgotPasswordForm /> in the same centered card as the login page.
+ * - Logged-in users are sent home, like on the login page.
+ * - Relies on layout.tsx to handle common UI elements such as the Navbar and Footer.
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { ForgotPasswordForm } from "@/app/components/sections/login/forgotPasswordForm";
+import { getSession } from "@/lib/session";
+
+export default async function ForgotPasswordPage() {
+  // A logged-in user has no forgotten password to reset.
+  if (await getSession()) {
+    redirect("/");
+  }
+
+  return (
+    <div className="flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 mt-8 mb-8">
+      <div className="max-w-md w-full space-y-8">
+
+        {/** Heading Section */}
+        <div className="text-center">
+          <h1 className="text-3xl sm:text-4xl font-extrabold font-serif text-barber-brown">
+            Forgot Your Password?
+          </h1>
+          <p className="mt-2 text-sm sm:text-base text-muted-foreground">
+            Enter the email of your account and we will send you a link to choose a new password.
+          </p>
+        </div>
+
+        {/** Form Container */}
+        <div className="bg-white p-6 sm:p-8 rounded-lg shadow-xl border border-barber-cream">
+          <ForgotPasswordForm />
+
+          {/** Link back to the Login Page */}
+          <div className="mt-6 text-center">
+            <Link href="/login">
+              <span className="text-sm font-medium text-barber-brown hover:underline cursor-pointer">
+                Back to login
+              </span>
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * @file app/(pages)/kiosk/page.tsx
+ * @description This is the page shown on the in-shop kiosk, where walk-in clients join the queue
+ * and booked clients check in. As a Server Component, it fetches the services and today's queue
+ * and passes them to a client-side component for UI and interactivity.
+ * The kiosk is used without logging in, so the route is not protected and the queue only shows shortened names.
+ */
+
+// Import UI components and database models
+import KioskClientPage from '@/app/components/sections/kiosk/KioskClientPage';
+import connectDB from '@/lib/mongoose';
+import Service from '@/models/Service';
+import { getShopSettings } from '@/lib/shopSettings';
+import { getKioskQueueAction } from '@/app/actions/kioskActions';
+
+// The queue changes all the time, so the page is never cached.
+export const dynamic = 'force-dynamic';
+
+/**
+ * @function getKioskData
+ * @description Fetches the services a walk-in can choose from, today's queue and the shop's time zone.
+ * @returns {Promise<object>} An object containing the services, the queue and the time zone.
+ */
+async function getKioskData() {
+  await connectDB();
+  const [services, queue, { timeZone }] = await Promise.all([
+    Service.find({}).sort({ name: 1 }).lean(),
+    getKioskQueueAction(),
+    getShopSettings(),
+  ]);
+  // Serialize the data to ensure only plain objects are passed to the client component.
+  return JSON.parse(JSON.stringify({ services, queue, timeZone }));
+}
+
+/**
+ * @component KioskPage
+ * @description The main component for the kiosk page. As an `async` function,
+ * it operates as a Server Component.
+ */
+export default async function KioskPage() {
+  const { services, queue, timeZone } = await getKioskData();
+  return <KioskClientPage services={services} initialQueue={queue} timeZone={timeZone} />;
+}
@@ -4,8 +4,8 @@
  * This page serves as the login interface for the application.
  * 
  * Key Responsibilities:
- * - Reads the session cookie on the server side using Next.js's built-in `cookies()` function.
- * - Redirects authenticated users away from the login screen if they already have a session cookie.
+ * - Reads the session on the server side (see `lib/session.ts`).
+ * - Redirects authenticated users away from the login screen if they already have a valid session.
  * - Renders a responsive and styled login form, including a link to the signup page.
  * - Relies on layout.tsx to handle common UI elements such as the Navbar and Footer.
  */
@@ -14,33 +14,32 @@ import Link from "next/link";
 import { redirect } from "next/navigation";
 import { LoginForm } from "@/app/components/sections/login/loginForm";
 
-// 1. Import the cookies() utility from Next.js
-// Allows secure access to cookies on the server side.
-import { cookies } from "next/headers";
+// 1. Import the session reader
+// Checks the signed session cookie against the stored session on the server side.
+import { getSession } from "@/lib/session";
 
-export default function LoginPage() {
+export default async function LoginPage() {
   /**
-   * Step 2: Read the session cookie on the server side.
+   * Step 2: Read the session on the server side.
    * 
-   * The 'cookies()' function accesses HTTP cookies in a server component.
-   * We check for the existence of a 'session' cookie to determine
-   * if the user is already authenticated.
+   * A forged, expired or revoked session cookie counts as logged out,
+   * so only users who are really authenticated are sent away.
    */
-  const sessionCookie = cookies().get('session')?.value;
+  const session = await getSession();
 
   /**
-   * If the session cookie is present, the user is considered logged in.
+   * If the session is valid, the user is logged in.
    * Therefore, we redirect them to the home page to prevent them
    * from seeing the login screen unnecessarily.
    */
-  if (sessionCookie) {
+  if (session) {
     redirect("/");
   }
 
   /**
    * Render the login form.
    * 
-   * This component is only shown to unauthenticated users (i.e., those without a session cookie).
+   * This component is only shown to unauthenticated users (i.e., those without a valid session).
    * The layout includes:
    * - A centered container for the form.
    * - A heading welcoming the user back.
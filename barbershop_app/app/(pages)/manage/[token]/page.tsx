@@ -0,0 +1,76 @@
+/**
+ * @file app/(pages)/manage/[token]/page.tsx
+ * @description This is the page a guest reaches through the link sent with their booking (see `lib/manageLinks.ts`),
+ * where they can view, reschedule or cancel it without an account. As a Server Component, it checks the link,
+ * fetches the appointment and the shop's time zone and cancellation policy, and passes them to a client-side component.
+ * The route is not protected: the signed link is the guest's proof of access, and only opens its own appointment.
+ */
+
+// Import UI components and database models
+import GuestAppointmentClient from '@/app/components/sections/appointments/GuestAppointmentClient';
+import connectDB from '@/lib/mongoose';
+import Appointment from '@/models/Appointment';
+import '@/models/Service'; // Registers the models used by populate()
+import '@/models/Barber';
+import { getShopSettings } from '@/lib/shopSettings';
+import { verifyManageToken } from '@/lib/manageLinks';
+
+// The booking can change at any time, so the page is never cached.
+export const dynamic = 'force-dynamic';
+
+/**
+ * @function getManageData
+ * @description Fetches the appointment a manage link was issued for, without the shop's staff notes,
+ * and the shop's time zone and cancellation policy.
+ * @param {string} token - The token of the manage link.
+ * @returns {Promise<object | null>} The appointment, time zone and cancellation policy, or null when
+ * the link is invalid or expired, or the appointment no longer exists.
+ */
+async function getManageData(token: string) {
+  const appointmentId = verifyManageToken(token);
+  if (!appointmentId) return null;
+
+  await connectDB();
+  const [appointment, { timeZone, cancellationPolicy }] = await Promise.all([
+    Appointment.findById(appointmentId)
+      .select('-staffNotes') // Staff notes are not shown to the client.
+      .populate('service', 'name')
+      .populate('barber', 'name')
+      .lean(),
+    getShopSettings(),
+  ]);
+  if (!appointment) return null;
+
+  // Serialize the data to ensure only plain objects are passed to the client component.
+  return JSON.parse(JSON.stringify({ appointment, timeZone, cancellationPolicy }));
+}
+
+/**
+ * @component ManageBookingPage
+ * @description The main component for the manage page. As an `async` function,
+ * it operates as a Server Component.
+ */
+export default async function ManageBookingPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const data = await getManageData(decodeURIComponent(token));
+
+  if (!data) {
+    return (
+      <main className="container mx-auto px-4 py-12 max-w-xl text-center">
+        <h1 className="text-2xl font-bold font-serif text-barber-brown mb-4">Link expired</h1>
+        <p className="text-gray-600">
+          This link is invalid or has expired. Please check the latest message we sent you, or contact the shop.
+        </p>
+      </main>
+    );
+  }
+
+  return (
+    <GuestAppointmentClient
+      token={decodeURIComponent(token)}
+      appointment={data.appointment}
+      timeZone={data.timeZone}
+      cancellationPolicy={data.cancellationPolicy}
+    />
+  );
+}
@@ -4,7 +4,7 @@
  * This page renders the authenticated user's profile page.
  * 
  * Key Features:
- * - Server-side session validation via cookies using Next.js's native support.
+ * - Server-side session validation (see `lib/session.ts`).
  * - Securely connects to the MongoDB database via Mongoose.
  * - Fetches the current authenticated user's data.
  * - Redirects unauthenticated users to the login page (with redirect back to profile).
@@ -20,29 +20,24 @@ import ProfileFormClient from '@/app/components/sections/profile/ProfileFormClie
 import connectDB from '@/lib/mongoose';
 import User from '@/models/User';
 
-// 1. Directly import the 'cookies' utility from Next.js
-// Allows secure server-side access to HTTP cookies.
-import { cookies } from 'next/headers';
+// 1. Reads the signed, server-side session.
+import { getSession } from '@/lib/session';
+import { loginPath } from '@/lib/routeAccess';
 
 /**
  * getServerSideUser
  * -----------------
  * This async helper function performs the following:
- * - Reads the 'session' cookie from the request.
- * - Parses the session to extract the userId.
+ * - Reads the session of the request (see `getSession`) to get the userId.
  * - Connects to the MongoDB database using Mongoose.
  * - Queries the user by ID and returns the user document in plain JS format.
  * 
  * @returns {Object|null} The user document (plain object) or null if unauthenticated.
  */
 async function getServerSideUser() {
-  // 2. Read the session cookie from the server headers.
-  const sessionCookie = cookies().get('session')?.value;
-  if (!sessionCookie) return null;
-
-  // Attempt to parse the session cookie to extract session data
-  const session = JSON.parse(sessionCookie);
-  if (!session?.userId) return null;
+  // 2. Read the session; forged, expired or revoked ones count as logged out.
+  const session = await getSession();
+  if (!session) return null;
 
   // Connect to the MongoDB database before querying
   await connectDB();
@@ -74,7 +69,7 @@ export default async function ProfilePage() {
    * redirect them to the login page with a redirect query param.
    */
   if (!user) {
-    redirect('/login?redirect=/profile');
+    redirect(loginPath('/profile'));
   }
 
   /**
@@ -0,0 +1,56 @@
+/**
+ * @file app/(pages)/reset-password/[token]/page.tsx
+ * @description
+ * This is the page a user reaches through the password reset link sent by email (see `lib/passwordReset.ts`),
+ * where they choose a new password. As a Server Component, it checks that the link can still be used
+ * before showing the form; the link is checked again, and used up, when the new password is saved.
+ * The route is not protected: the link is the user's proof of access to their account.
+ */
+
+import Link from "next/link";
+import { ResetPasswordForm } from "@/app/components/sections/login/resetPasswordForm";
+import { isResetTokenValid } from "@/lib/passwordReset";
+
+// The link can be used up at any time, so the page is never cached.
+export const dynamic = "force-dynamic";
+
+/**
+ * @component ResetPasswordPage
+ * @description The main component for the reset page. As an `async` function,
+ * it operates as a Server Component.
+ */
+export default async function ResetPasswordPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const resetToken = decodeURIComponent(token);
+
+  if (!(await isResetTokenValid(resetToken))) {
+    return (
+      <main className="container mx-auto px-4 py-12 max-w-xl text-center">
+        <h1 className="text-2xl font-bold font-serif text-barber-brown mb-4">Link expired</h1>
+        <p className="text-gray-600">
+          This link is invalid, has expired or was already used.{" "}
+          <Link href="/forgot-password" className="underline">Ask for a new one</Link>.
+        </p>
+      </main>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 mt-8 mb-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <h1 className="text-3xl sm:text-4xl font-extrabold font-serif text-barber-brown">
+            Choose a New Password
+          </h1>
+          <p className="mt-2 text-sm sm:text-base text-muted-foreground">
+            Once it is saved, you will be logged out everywhere and can log in with the new password.
+          </p>
+        </div>
+
+        <div className="bg-white p-6 sm:p-8 rounded-lg shadow-xl border border-barber-cream">
+          <ResetPasswordForm token={resetToken} />
+        </div>
+      </div>
+    </div>
+  );
+}
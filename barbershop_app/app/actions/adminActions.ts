@@ -2,7 +2,7 @@
  * @file app/actions/adminActions.ts
  * @description
  * Server-side actions used in the Admin Panel to perform CRUD operations on
- * products, services, users, and appointments. These functions use Mongoose
+ * products, services, barbers, closures, users, and appointments, to edit the shop settings, and to call clients from the in-shop queue. These functions use Mongoose
  * to interact with a MongoDB database and revalidate static paths using Next.js 13+ cache utilities.
  * 
  * Key Features:
@@ -10,6 +10,7 @@
  * - Generalized helpers (`createOrUpdate`, `deleteById`) for code reuse.
  * - Uses `revalidatePath('/admin')` to ensure the UI stays updated after any data change.
  * - Error handling and typed return values for safe async operations.
+ * - Every action is refused unless the caller is logged in as an admin (see `lib/authorization.ts`).
  */
 
 'use server';
@@ -19,8 +20,55 @@ import Product from "@/models/Product";
 import Service from "@/models/Service";
 import User from "@/models/User";
 import Appointment from "@/models/Appointment";
+import Barber from "@/models/Barber";
+import ShopSettings from "@/models/ShopSettings";
+import Closure from "@/models/Closure";
+import SlotReservation from "@/models/SlotReservation";
+import WaitlistEntry from "@/models/WaitlistEntry";
+import WalkIn from "@/models/WalkIn";
 import { revalidatePath } from "next/cache";
-import { ProductType, ServiceType, User as UserType, Appointment as AppointmentType } from "@/app/types";
+import { getShopSettings, normalizeShopSettings, validateShopSettings } from "@/lib/shopSettings";
+import { getClosureIntervals, validateClosure } from "@/lib/closures";
+import { addMinutesTo, formatInZone, intervalsOverlap, toDateTime } from "@/lib/availability";
+import {
+  bookSlot,
+  cancelAppointments,
+  FALLBACK_DURATION,
+  getAppointmentBuffers,
+  getAppointmentDuration,
+  getReservedBuffers,
+  getVisitItems,
+  getSeriesTargets,
+  holdSlot,
+  isSlotTaken,
+  releaseSlot,
+  rescheduleAppointments,
+  reserveSlot,
+  runBookingTransaction,
+  SLOT_TAKEN_MESSAGE,
+} from "@/lib/booking";
+import { daysBetween, shiftDate } from "@/lib/recurrence";
+import { validateVisit, visitBuffers, visitDuration } from "@/lib/visit";
+import { offerFreedSlots } from "@/lib/waitlist";
+import { notifyAppointments } from "@/lib/notifications";
+import { getQueue } from "@/lib/queue";
+import { validateNote } from "@/lib/appointmentNotes";
+import { revokeUserSessions } from "@/lib/session";
+import { FORBIDDEN, requireAdmin } from "@/lib/authorization";
+import { ACTIVE_STATUSES, isActiveStatus, statusUpdate, validateStatusChange } from "@/lib/appointmentStatus";
+import {
+  ProductType,
+  ServiceType,
+  BarberType,
+  ClosureType,
+  ShopSettingsType,
+  User as UserType,
+  Appointment as AppointmentType,
+  AppointmentChanges,
+  NewAppointmentData,
+  SeriesConflict,
+  SeriesScope,
+} from "@/app/types";
 
 /**
  * createOrUpdate
@@ -59,6 +107,9 @@ async function deleteById(model: any, id: string) {
  * Triggers a revalidation of the /admin path to update cached data.
  */
 export async function saveProduct(productData: Partial<ProductType>) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
   try {
     await connectDB();
     await createOrUpdate(Product, productData);
@@ -75,6 +126,9 @@ export async function saveProduct(productData: Partial<ProductType>) {
  * Deletes a product by ID and triggers revalidation.
  */
 export async function deleteProduct(productId: string) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
   try {
     await connectDB();
     await deleteById(Product, productId);
@@ -92,6 +146,9 @@ export async function deleteProduct(productId: string) {
  * Triggers revalidation of the admin path.
  */
 export async function saveService(serviceData: Partial<ServiceType>) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
   try {
     await connectDB();
     await createOrUpdate(Service, serviceData);
@@ -108,6 +165,9 @@ export async function saveService(serviceData: Partial<ServiceType>) {
  * Deletes a service by ID and revalidates the admin page.
  */
 export async function deleteService(serviceId: string) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
   try {
     await connectDB();
     await deleteById(Service, serviceId);
@@ -118,13 +178,194 @@ export async function deleteService(serviceId: string) {
   }
 }
 
+/**
+ * saveBarber
+ * ----------------------
+ * Saves (creates or updates) a barber in the database.
+ * Triggers revalidation of the admin and appointments paths, since the booking
+ * page lists the active barbers.
+ */
+export async function saveBarber(barberData: Partial<BarberType>) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  try {
+    await connectDB();
+    await createOrUpdate(Barber, barberData);
+    revalidatePath("/admin");
+    revalidatePath("/appointments");
+    return { success: true, message: "Barber saved successfully." };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * deleteBarber
+ * ----------------------
+ * Deletes a barber by ID, along with their closures. Their appointments are kept
+ * but unassigned, so they still occupy a chair until an admin reassigns or cancels them.
+ * Waitlist entries asking for this barber are canceled.
+ */
+export async function deleteBarber(barberId: string) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  try {
+    await connectDB();
+    await Appointment.updateMany({ barber: barberId }, { barber: null });
+    await Closure.deleteMany({ barber: barberId });
+    await SlotReservation.deleteMany({ chair: barberId });
+    await WaitlistEntry.updateMany(
+      { barber: barberId, status: { $in: ['waiting', 'offered'] } },
+      { status: 'cancelled' }
+    );
+    await deleteById(Barber, barberId);
+    revalidatePath("/admin");
+    revalidatePath("/appointments");
+    return { success: true, message: "Barber deleted." };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * findAffectedAppointments
+ * ----------------------
+ * Lists the active (not yet finished or cancelled) appointments that overlap a closure: all of them for a shop-wide
+ * closure, or only the affected barber's for a per-barber one.
+ * Each appointment is checked over its service's full duration.
+ */
+async function findAffectedAppointments(closure: ClosureType): Promise<AppointmentType[]> {
+  const { timeZone } = await getShopSettings();
+  const intervals = getClosureIntervals(closure, timeZone);
+  const query: Record<string, unknown> = {
+    // Starts from a day earlier so late appointments running into the closure are found too.
+    date: { $gte: addMinutesTo(intervals[0].start, -24 * 60), $lt: intervals[intervals.length - 1].end },
+    status: { $in: ACTIVE_STATUSES },
+  };
+  if (closure.barber) {
+    query.barber = closure.barber._id;
+  }
+
+  const appointments = await Appointment.find(query)
+    .populate('user', 'name')
+    .populate('service', 'name duration')
+    .populate('barber', 'name')
+    .sort({ date: 1 })
+    .lean();
+
+  const affected = appointments.filter((app) => {
+    const start = new Date(app.date);
+    const duration = app.items?.length > 0 ? visitDuration(app.items) : app.service?.duration ?? FALLBACK_DURATION;
+    const end = addMinutesTo(start, duration);
+    return intervals.some((interval) => intervalsOverlap(start, end, interval.start, interval.end));
+  });
+  return JSON.parse(JSON.stringify(affected));
+}
+
+/**
+ * saveClosure
+ * ----------------------
+ * Validates and saves (creates or updates) a closure. Full-day closures are stored
+ * without times. Booking checks pick the closure up immediately, but existing bookings
+ * are left untouched: the scheduled appointments it overlaps are returned as `affected`
+ * so the admin can contact those clients and reschedule or cancel them.
+ */
+export async function saveClosure(closureData: Partial<ClosureType>) {
+  if (!(await requireAdmin())) {
+    return { ...FORBIDDEN, affected: [] };
+  }
+  try {
+    const validationError = validateClosure(closureData);
+    if (validationError) {
+      return { success: false, message: validationError, affected: [] };
+    }
+
+    await connectDB();
+    const closure = {
+      _id: closureData._id,
+      startDate: closureData.startDate as string,
+      endDate: closureData.endDate as string,
+      startTime: closureData.startTime || null,
+      endTime: closureData.endTime || null,
+      barber: closureData.barber?._id || null,
+      reason: (closureData.reason as string).trim(),
+    };
+    await createOrUpdate(Closure, closure);
+
+    const affected = await findAffectedAppointments(closureData as ClosureType);
+    revalidatePath("/admin");
+    revalidatePath("/appointments");
+    return { success: true, message: "Closure saved successfully.", affected };
+  } catch (error: any) {
+    return { success: false, message: error.message, affected: [] };
+  }
+}
+
+/**
+ * deleteClosure
+ * ----------------------
+ * Deletes a closure by ID, reopening its days for booking.
+ */
+export async function deleteClosure(closureId: string) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  try {
+    await connectDB();
+    await deleteById(Closure, closureId);
+    revalidatePath("/admin");
+    revalidatePath("/appointments");
+    return { success: true, message: "Closure deleted." };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * saveShopSettings
+ * ----------------------
+ * Validates and stores the shop-wide settings (opening hours, breaks, slot interval, time zone,
+ * cancellation policy, reminder offsets)
+ * in the single settings document, creating it on first save.
+ * Revalidates the admin and appointments paths, whose time pickers read these settings.
+ */
+export async function saveShopSettings(settingsData: ShopSettingsType) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  try {
+    const settings = normalizeShopSettings(settingsData);
+    const validationError = validateShopSettings(settings);
+    if (validationError) {
+      return { success: false, message: validationError };
+    }
+
+    await connectDB();
+    await ShopSettings.findOneAndUpdate({}, settings, { upsert: true });
+    revalidatePath("/admin");
+    revalidatePath("/appointments");
+    return { success: true, message: "Shop settings saved successfully." };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
 /**
  * updateUser
  * ----------------------
  * Updates a user document based on its ID.
- * Used for role changes, contact updates, etc.
+ * Used for role changes, contact updates, the client's style profile, etc.
  */
 export async function updateUser(userId: string, userData: Partial<UserType>) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  const styleError = validateNote(userData.styleProfile, 'The style profile');
+  if (styleError) {
+    return { success: false, message: styleError };
+  }
   await connectDB();
   try {
     await User.findByIdAndUpdate(userId, userData);
@@ -138,12 +379,16 @@ export async function updateUser(userId: string, userData: Partial<UserType>) {
 /**
  * deleteUser
  * ----------------------
- * Deletes a user account by ID and triggers revalidation.
+ * Deletes a user account by ID, logs it out everywhere, and triggers revalidation.
  */
 export async function deleteUser(userId: string) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
   await connectDB();
   try {
     await User.findByIdAndDelete(userId);
+    await revokeUserSessions(userId);
     revalidatePath('/admin');
     return { success: true, message: 'User deleted.' };
   } catch (error: any) {
@@ -151,40 +396,289 @@ export async function deleteUser(userId: string) {
   }
 }
 
+/**
+ * createAppointment
+ * ----------------------
+ * Books an appointment on a client's behalf, e.g. from an empty cell of the calendar grid.
+ * The slot goes through the same checks and reservation as a client's own booking (see `bookSlot`),
+ * so it must be open, in the future and free for the chosen barber (or any barber).
+ * The client is sent the usual confirmation.
+ *
+ * @param data - The client, the visit's services, the barber ('any' or omitted for any barber),
+ *   the date and time in the shop's time zone, and optional staff notes.
+ */
+export async function createAppointment(data: NewAppointmentData) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  const { userId, serviceIds, barberId, date, time, staffNotes } = data;
+  if (!userId || !serviceIds?.length || !date || !time) {
+    return { success: false, message: 'Client, services, date and time are required.' };
+  }
+  const inputError = validateVisit(serviceIds) ?? validateNote(staffNotes, 'Staff notes');
+  if (inputError) {
+    return { success: false, message: inputError };
+  }
+
+  await connectDB();
+  try {
+    const items = await getVisitItems(serviceIds);
+    if (!items) {
+      return { success: false, message: 'Service not found.' };
+    }
+
+    const slot = await bookSlot({ date, time, duration: visitDuration(items), buffers: visitBuffers(items), barberId }, async ({ start, barberId }, session) => {
+      const [appointment] = await Appointment.create([{
+        user: userId,
+        service: items[0].service,
+        items,
+        barber: barberId,
+        date: start,
+        status: 'scheduled',
+        staffNotes: staffNotes?.trim() ?? '',
+      }], { session });
+      return String(appointment._id);
+    });
+    if (!slot.ok) {
+      return { success: false, message: slot.message };
+    }
+    await notifyAppointments('booked', [slot.appointmentId]);
+
+    revalidatePath('/admin');
+    return { success: true, message: 'Appointment booked successfully.' };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * The fields an update writes to the appointment: the changes sent, with `date` merged from
+ * the date and time into the new start.
+ */
+type AppointmentFieldChanges = Omit<AppointmentChanges, 'date' | 'time' | 'status' | 'barberId'> & { date?: Date };
+
 /**
  * updateAppointment
  * ----------------------
  * Updates an appointment record.
- * If both date and time are provided, they are merged into a single `Date` object.
+ * A date and a time are read together as wall-clock time in the shop's time zone and
+ * merged into a single `Date` object; a request with only one of them is refused.
+ * A status change must be allowed by the status lifecycle (see `lib/appointmentStatus.ts`),
+ * e.g. a completed appointment cannot go back to scheduled; it is recorded in `statusHistory`.
+ * Marking an appointment as a no-show adds to the client's no-show count.
+ * Admins are not bound by the cancellation policy's notice period.
+ * Staff notes about the visit are saved with the other changes.
+ * Moving an active appointment to another time or barber goes through the same check as a
+ * booking (`checkSlot`): the whole visit must fit the opening hours, start in the future and
+ * find the barber free. Without a barber (`barberId` null), any free barber is assigned.
+ * The appointment's slot reservation is rewritten in the same transaction: released when
+ * it is no longer active, made again when it becomes active, and moved with it, failing if
+ * the new time is taken. Other changes leave it as it is.
+ * 
+ * With the 'following' scope, a cancellation or a move is also applied to the later occurrences
+ * of the appointment's series: they are cancelled, or moved to the new time and by the same
+ * number of days. Occurrences that cannot move are returned as `conflicts`.
+ * The time the appointments leave (by moving or no longer being active) is offered to the waitlist.
+ * The client is told when their appointments are cancelled, and, unless `notifyClient` is false,
+ * when they are moved.
  */
-export async function updateAppointment(appointmentId: string, appointmentData: Partial<AppointmentType>) {
+export async function updateAppointment(
+  appointmentId: string,
+  appointmentData: AppointmentChanges,
+  scope: SeriesScope = 'one',
+  notifyClient = true
+) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  if (!appointmentData.date !== !appointmentData.time) {
+    return { success: false, message: 'Send both a date and a time to move an appointment.' };
+  }
   await connectDB();
   try {
+    const { timeZone } = await getShopSettings();
+    // Read before the update so the later occurrences can be shifted from the original date.
+    const [current, ...following] = scope === 'following' ? await getSeriesTargets(appointmentId, scope) : [];
+    const previous = await Appointment.findById(appointmentId).select('date status user barber service items');
+    if (!previous) {
+      return { success: false, message: 'Appointment not found.' };
+    }
+
+    // Status changes go through the lifecycle rules and are recorded with their time
+    const { status, barberId, date, time, ...otherChanges } = appointmentData;
+    const statusChanged = !!status && status !== previous.status;
+    if (statusChanged) {
+      const statusError = validateStatusChange(previous.status, status);
+      if (statusError) {
+        return { success: false, message: statusError };
+      }
+    }
+
+    const notesError = validateNote(appointmentData.staffNotes, 'Staff notes');
+    if (notesError) {
+      return { success: false, message: notesError };
+    }
+
     // Merge date and time fields if both are present
-    if (appointmentData.date && appointmentData.time) {
-      (appointmentData as any).date = new Date(`${appointmentData.date}T${appointmentData.time}`);
+    const newStart = date && time ? toDateTime(date, time, timeZone) : null;
+    const changes: AppointmentFieldChanges = newStart ? { ...otherChanges, date: newStart } : otherChanges;
+    const previousBarberId = previous.barber ? String(previous.barber) : null;
+    const fields = barberId === undefined ? changes : { ...changes, barber: barberId };
+
+    // A move of an appointment that still takes up time is checked like a new booking
+    const timeChanged = !!newStart && newStart.getTime() !== previous.date.getTime();
+    const barberChanged = barberId !== undefined && barberId !== previousBarberId;
+    const checkMove = (timeChanged || barberChanged) && isActiveStatus(statusChanged ? status : previous.status);
+
+    const move = await runBookingTransaction(async (session) => {
+      const update = statusChanged ? { ...fields, ...statusUpdate(status) } : fields;
+      if (checkMove) {
+        return holdSlot(
+          {
+            date: date && time ? date : formatInZone(previous.date, "yyyy-MM-dd", timeZone),
+            time: date && time ? time : formatInZone(previous.date, "HH:mm", timeZone),
+            duration: await getAppointmentDuration(previous),
+            buffers: await getAppointmentBuffers(previous),
+            barberId: barberId === undefined ? previousBarberId : barberId,
+            excludeAppointmentId: appointmentId,
+          },
+          async (slot, session) => {
+            await Appointment.findByIdAndUpdate(
+              appointmentId,
+              { ...update, date: slot.start, barber: slot.barberId },
+              { session }
+            );
+            return appointmentId;
+          },
+          session
+        );
+      }
+
+      // Without a move, the reservations made when it was booked stay as they are (today's
+      // buffers may differ); they only go or come back when the appointment stops or starts taking up time.
+      const appointment = await Appointment.findByIdAndUpdate(appointmentId, update, { new: true, session });
+      const wasActive = isActiveStatus(previous.status);
+      const isActive = !!appointment && isActiveStatus(appointment.status);
+      if (wasActive && !isActive) {
+        await releaseSlot(appointmentId, session);
+      } else if (!wasActive && isActive) {
+        const duration = await getAppointmentDuration(appointment);
+        const barberId = appointment.barber ? String(appointment.barber) : null;
+        const buffers = await getReservedBuffers(appointment);
+        await reserveSlot(appointmentId, appointment.date, duration, barberId, session, buffers);
+      }
+      return null;
+    });
+    if (move && !move.ok) {
+      return { success: false, message: move.message };
+    }
+    if (statusChanged && status === 'no-show') {
+      await User.updateOne({ _id: previous.user }, { $inc: { noShows: 1 } });
+    }
+
+    let conflicts: SeriesConflict[] = [];
+    let moved: string[] = [];
+    if (current && following.length > 0) {
+      if (status === 'cancelled') {
+        await cancelAppointments(following);
+      } else if (date && time) {
+        const shift = daysBetween(formatInZone(current.date, "yyyy-MM-dd", timeZone), date);
+        const nextDate = shiftDate(formatInZone(following[0].date, "yyyy-MM-dd", timeZone), shift);
+        ({ conflicts, moved } = await rescheduleAppointments(following, nextDate, time));
+      }
+    }
+    await offerFreedSlots([previous.date, ...following.map((appointment) => appointment.date)]);
+
+    // Let the client know their appointments were cancelled or moved
+    if (statusChanged && status === 'cancelled') {
+      await notifyAppointments('cancelled', [appointmentId, ...following.map((appointment) => String(appointment._id))]);
+    } else if (notifyClient && (timeChanged || barberChanged)) {
+      await notifyAppointments('rescheduled', [appointmentId, ...moved]);
     }
 
-    await Appointment.findByIdAndUpdate(appointmentId, appointmentData);
     revalidatePath('/admin');
-    return { success: true, message: 'Appointment updated successfully.' };
+    return { success: true, message: 'Appointment updated successfully.', conflicts };
   } catch (error: any) {
-    return { success: false, message: error.message };
+    return { success: false, message: isSlotTaken(error) ? SLOT_TAKEN_MESSAGE : error.message };
   }
 }
 
 /**
  * deleteAppointment
  * ----------------------
- * Deletes an appointment by its ID and revalidates the admin page.
+ * Deletes an appointment by its ID, releasing its slot (and offering it to the waitlist),
+ * and revalidates the admin page.
  */
 export async function deleteAppointment(appointmentId: string) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
   await connectDB();
   try {
-    await Appointment.findByIdAndDelete(appointmentId);
+    const appointment = await Appointment.findByIdAndDelete(appointmentId);
+    await releaseSlot(appointmentId);
+    if (appointment && isActiveStatus(appointment.status)) {
+      await offerFreedSlots([appointment.date]);
+    }
     revalidatePath('/admin');
     return { success: true, message: 'Appointment deleted.' };
   } catch (error: any) {
     return { success: false, message: error.message };
   }
 }
+
+/**
+ * callNextClient
+ * ----------------------
+ * Calls the next client in today's queue (see `lib/queue.ts`) to a chair: a checked-in client's
+ * appointment goes in progress, and a walk-in is marked as called, with the barber expected to serve them.
+ */
+export async function callNextClient() {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  await connectDB();
+  try {
+    const [next] = await getQueue();
+    if (!next) {
+      return { success: false, message: 'Nobody is waiting.' };
+    }
+
+    const called = next.kind === 'appointment'
+      ? await Appointment.findOneAndUpdate({ _id: next._id, status: 'checked-in' }, statusUpdate('in-progress'))
+      : await WalkIn.findOneAndUpdate(
+          { _id: next._id, status: 'waiting' },
+          { status: 'called', calledAt: new Date(), barber: next.barber?._id ?? null }
+        );
+    if (!called) {
+      return { success: false, message: 'The queue changed in the meantime. Please try again.' };
+    }
+
+    revalidatePath('/admin');
+    revalidatePath('/kiosk');
+    const barber = next.barber ? ` to ${next.barber.name}` : '';
+    return { success: true, message: `Calling ${next.name} (${next.service})${barber}.` };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * removeWalkIn
+ * ----------------------
+ * Takes a walk-in who left without being served out of the queue.
+ */
+export async function removeWalkIn(walkInId: string) {
+  if (!(await requireAdmin())) {
+    return FORBIDDEN;
+  }
+  await connectDB();
+  try {
+    await WalkIn.updateOne({ _id: walkInId, status: 'waiting' }, { status: 'left' });
+    revalidatePath('/admin');
+    revalidatePath('/kiosk');
+    return { success: true, message: 'Walk-in removed from the queue.' };
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+}
@@ -2,58 +2,241 @@
  * @file app/actions/appointmentActions.ts
  * @description
  * Server-side actions for managing user appointments in the barbershop application.
- * Includes booking, canceling, updating appointments, and retrieving occupied time slots.
+ * Includes booking (one-off or recurring), canceling, updating appointments, and retrieving bookable time slots,
+ * on a chosen day or the next available ones across days, and how busy each day of a month is.
+ * An appointment is a visit of one or more services performed back to back (see `lib/visit.ts`).
+ * Availability is computed per barber and spans each visit's combined duration, plus the
+ * buffer time its services and barber keep free around it (see `lib/availability.ts` and `lib/booking.ts`).
  * 
  * Features:
  * - All actions are declared as server functions using `'use server'`.
  * - Uses Mongoose for database operations (CRUD) with MongoDB.
  * - Applies `revalidatePath()` from Next.js to update static pages after mutations.
  * - Includes validation and error handling for each function.
+ * - Sends the client a message when appointments are booked, moved or cancelled (see `lib/notifications.ts`).
+ * - Bookings carry the client's note and reference photos for their barber (see `lib/appointmentNotes.ts`).
+ * - Looking up availability needs no login. Uploading reference photos needs a logged-in client
+ *   or a guest's contact details. Booking needs a logged-in client, who books for
+ *   themselves; an appointment can only be cancelled or moved by its client, an admin, or a
+ *   guest through its manage link (see `lib/authorization.ts`).
  */
 
 'use server';
 
+import mongoose from "mongoose";
 import connectDB from "@/lib/mongoose";
 import Appointment from "@/models/Appointment";
+import User from "@/models/User";
 import { revalidatePath } from "next/cache";
-import { format } from "date-fns";
+import { endOfMonth, format, parseISO } from "date-fns";
+import { findAvailableTimes, rateDayAvailability } from "@/lib/availability";
+import {
+  bookSlot,
+  bookVisit,
+  cancelAppointments,
+  getDaySchedule,
+  getSchedules,
+  getSeriesTargets,
+  getVisitItems,
+  rescheduleAppointments,
+  VisitRequest,
+} from "@/lib/booking";
+import { findClosedDates, getClosures } from "@/lib/closures";
+import { getShopSettings } from "@/lib/shopSettings";
+import { expandRecurrence, validateRecurrence } from "@/lib/recurrence";
+import { validateVisit, visitBuffers, visitDuration } from "@/lib/visit";
+import { offerFreedSlots } from "@/lib/waitlist";
+import { notifyAppointments } from "@/lib/notifications";
+import { UPCOMING_STATUSES } from "@/lib/appointmentStatus";
+import { checkCancellation, checkReschedule, formatNotice, isWithinNotice } from "@/lib/cancellationPolicy";
+import { validateBookingNotes } from "@/lib/appointmentNotes";
+import { canAccessAppointment, FORBIDDEN, requireUser } from "@/lib/authorization";
+import { keepPhotos, savePhotos } from "@/lib/photoStorage";
+import { manageLinksEnabled } from "@/lib/manageLinks";
+import { validateGuest } from "@/lib/guests";
+import { findNextAvailable } from "@/lib/nextAvailable";
+import {
+  AppointmentStatus,
+  DayAvailability,
+  RecurrenceRule,
+  SeriesConflict,
+  SeriesScope,
+  SlotSuggestion,
+  TimeOfDay,
+} from "@/app/types";
 
-interface BookingData {
-  userId: string;
-  serviceId: string;
-  date: string; // Format: 'YYYY-MM-DD'
-  time: string; // Format: 'HH:mm'
+/**
+ * A booking sent by the browser: the visit's services, and the slot, note and reference photos
+ * (URLs of photos stored with `uploadReferencePhotosAction`). The client is the caller.
+ */
+export interface BookingData extends VisitRequest {
+  serviceIds: string[]; // The visit's services, in the order they are performed
+}
+
+/**
+ * Whether an upload comes from a guest booking in progress: guests can book, and the
+ * guest's contact details are sent along with the photos.
+ */
+function isGuestUpload(formData: FormData): boolean {
+  const field = (name: string) => String(formData.get(name) ?? '');
+  return manageLinksEnabled() && !validateGuest({ name: field('name'), email: field('email'), phone: field('phone') });
+}
+
+/**
+ * uploadReferencePhotosAction
+ * ----------------------------------
+ * Stores the reference photos a client attaches to a booking (see `lib/photoStorage.ts`),
+ * before the booking itself is made; photos that are never booked are deleted after a day.
+ * Only a logged-in client, or a guest booking with their contact details, may upload.
+ *
+ * @param formData - The photos, as 'photos' entries, and for guests their 'name', 'email' and 'phone'.
+ * @returns A success/failure object with a message and the URLs of the stored photos.
+ */
+export async function uploadReferencePhotosAction(formData: FormData) {
+  if (!(await requireUser()) && !isGuestUpload(formData)) {
+    return { ...FORBIDDEN, photos: [] as string[] };
+  }
+  const files = formData.getAll('photos').filter((entry): entry is File => entry instanceof File && entry.size > 0);
+  try {
+    const photos = await savePhotos(files);
+    return { success: true, message: "Photos uploaded.", photos };
+  } catch (error: any) {
+    return { success: false, message: `Failed to upload photos: ${error.message}`, photos: [] as string[] };
+  }
 }
 
 /**
- * getBookedTimes
+ * getAvailableTimes
  * ----------------------------------
- * Fetches all booked time slots for a specific day.
+ * Computes the start times at which a visit can still be booked on a specific day.
  * 
- * Converts the input date to a full UTC range (00:00:00 to 23:59:59),
- * then queries for appointments scheduled on that day with status 'scheduled'.
+ * Loads the day's scheduled appointments as intervals spanning their visit's
+ * duration, then asks the availability engine (`lib/availability.ts`) for the
+ * grid times where the whole visit (all chosen services, back to back) fits the day's opening hours from the
+ * shop settings, avoids the day's closures, is not in the past, and the requested
+ * barber (or, for "any barber", some active barber) is free.
  * 
  * @param date - The selected date in ISO format (e.g., "2025-06-01")
- * @returns An array of strings (e.g., ["10:00", "14:30"]) representing occupied time slots.
+ * @param serviceIds - The services of the visit; their combined duration sizes the slot.
+ * @param barberId - Optional barber ID; omitted or 'any' means any barber.
+ * @param excludeAppointmentId - Optional appointment to ignore (when rescheduling it).
+ * @returns An array of strings (e.g., ["10:00", "14:30"]) representing bookable start times.
  */
-export async function getBookedTimes(date: string) {
+export async function getAvailableTimes(
+  date: string,
+  serviceIds: string[],
+  barberId?: string,
+  excludeAppointmentId?: string
+) {
+  if (!date || !serviceIds?.length || validateVisit(serviceIds)) return [];
+
   try {
-    await connectDB();
+    const items = await getVisitItems(serviceIds);
+    if (!items) return [];
+    const duration = visitDuration(items);
 
-    const startDate = new Date(date);
-    startDate.setUTCHours(0, 0, 0, 0);
+    const schedule = await getDaySchedule(date, excludeAppointmentId);
 
-    const endDate = new Date(date);
-    endDate.setUTCHours(23, 59, 59, 999);
+    return findAvailableTimes({
+      date,
+      duration,
+      buffers: visitBuffers(items),
+      ...schedule,
+      requestedBarberId: barberId,
+    });
+  } catch (error) {
+    console.error("Failed to get available times:", error);
+    return [];
+  }
+}
 
-    const appointments = await Appointment.find({
-      date: { $gte: startDate, $lte: endDate },
-      status: 'scheduled',
-    }).lean();
+/**
+ * getNextAvailableSlots
+ * ----------------------------------
+ * Finds the earliest times a visit can be booked, scanning forward from today
+ * (see `lib/nextAvailable.ts`), for the booking page to offer as one-click suggestions.
+ * 
+ * @param serviceIds - The services of the visit; their combined duration sizes the slot.
+ * @param barberId - Optional barber ID; omitted or 'any' means any barber.
+ * @param timeOfDay - Optional part of the day the visit should start in.
+ * @returns The suggested dates and times, earliest first; empty when none were found.
+ */
+export async function getNextAvailableSlots(
+  serviceIds: string[],
+  barberId?: string,
+  timeOfDay?: TimeOfDay
+): Promise<SlotSuggestion[]> {
+  if (!serviceIds?.length || validateVisit(serviceIds)) return [];
 
-    return appointments.map(app => format(new Date(app.date), "HH:mm"));
+  try {
+    const items = await getVisitItems(serviceIds);
+    if (!items) return [];
+    return await findNextAvailable({ duration: visitDuration(items), buffers: visitBuffers(items), barberId, timeOfDay });
   } catch (error) {
-    console.error("Failed to get booked times:", error);
+    console.error("Failed to find the next available slots:", error);
+    return [];
+  }
+}
+
+/**
+ * getMonthAvailability
+ * ----------------------------------
+ * Tells how busy each day of a month is for a visit, for the heatmap on the booking calendar:
+ * open, nearly full, fully booked, or closed (see `rateDayAvailability`).
+ * 
+ * The whole month is loaded at once (see `getSchedules`) rather than one query per day.
+ * 
+ * @param month - The month in 'YYYY-MM' format (e.g., "2025-12").
+ * @param serviceIds - The services of the visit; their combined duration sizes the slots.
+ * @param barberId - Optional barber ID; omitted or 'any' means any barber.
+ * @returns One entry per day of the month; empty when the input is invalid.
+ */
+export async function getMonthAvailability(
+  month: string,
+  serviceIds: string[],
+  barberId?: string
+): Promise<DayAvailability[]> {
+  if (!/^\d{4}-\d{2}$/.test(month) || !serviceIds?.length || validateVisit(serviceIds)) return [];
+
+  try {
+    const items = await getVisitItems(serviceIds);
+    if (!items) return [];
+    const duration = visitDuration(items);
+    const buffers = visitBuffers(items);
+
+    const from = `${month}-01`;
+    const to = format(endOfMonth(parseISO(from)), "yyyy-MM-dd");
+    const schedules = await getSchedules(from, to);
+
+    return Object.entries(schedules).map(([date, schedule]) =>
+      rateDayAvailability({ date, duration, buffers, ...schedule, requestedBarberId: barberId })
+    );
+  } catch (error) {
+    console.error("Failed to get the month's availability:", error);
+    return [];
+  }
+}
+
+/**
+ * getClosedDates
+ * ----------------------------------
+ * Lists the days in a date range on which nothing can be booked, so date pickers
+ * can grey them out: weekdays the shop does not open, shop-wide full-day closures,
+ * and full-day closures of the selected barber.
+ * 
+ * @param from - First date of the range (e.g., "2025-12-01").
+ * @param to - Last date of the range, inclusive (e.g., "2025-12-31").
+ * @param barberId - Optional barber ID; omitted or 'any' means any barber.
+ * @returns An array of 'YYYY-MM-DD' strings.
+ */
+export async function getClosedDates(from: string, to: string, barberId?: string) {
+  if (!from || !to) return [];
+
+  try {
+    const [settings, closures] = await Promise.all([getShopSettings(), getClosures(from, to)]);
+    return findClosedDates(settings, closures, from, to, barberId);
+  } catch (error) {
+    console.error("Failed to get closed dates:", error);
     return [];
   }
 }
@@ -61,68 +244,197 @@ export async function getBookedTimes(date: string) {
 /**
  * bookAppointmentAction
  * ----------------------------------
- * Books a new appointment if the selected time slot is available.
+ * Books a new appointment (a visit of one or more services) for the logged-in client
+ * if the selected time slot is available.
  * 
  * Performs:
- * - Validation of all input fields.
- * - Conflict check to ensure the time slot is not already booked.
- * - Creation of a new appointment with 'scheduled' status.
+ * - Validation of all input fields, including the visit's services (see `validateVisit`).
+ * - Server-side check (`checkSlot`) that the whole visit fits the shop's opening hours
+ *   and that the chosen barber (or any barber) is free for its combined duration.
+ * - Creation of a new appointment with 'scheduled' status and the visit's line items, assigned to that barber,
+ *   in the same transaction that reserves its slot (`bookVisit`), so a concurrent
+ *   booking of the same slot fails instead of double-booking.
+ * - A confirmation message to the client (see `lib/notifications.ts`).
  * - Revalidates the `/appointments` route for updated display.
  * 
- * @param data - Booking data including userId, serviceId, date, and time.
- * @returns A success/failure object with a status message.
+ * @param data - Booking data including serviceIds, optional barberId, date, time, and the client's note and photos.
+ * @returns A success/failure object with a status message, and the new appointment's ID on success.
  */
 export async function bookAppointmentAction(data: BookingData) {
-  const { userId, serviceId, date, time } = data;
-  if (!userId || !serviceId || !date || !time) {
+  const user = await requireUser();
+  if (!user) {
+    return FORBIDDEN;
+  }
+  const { serviceIds, date, time } = data;
+  if (!serviceIds || !date || !time) {
     return { success: false, message: "All fields are required." };
   }
+  const visitError = validateVisit(serviceIds) ?? validateBookingNotes(data.notes, data.photos);
+  if (visitError) {
+    return { success: false, message: visitError };
+  }
 
   try {
     await connectDB();
-    const appointmentDate = new Date(`${date}T${time}`);
 
-    const existingAppointment = await Appointment.findOne({
-      date: appointmentDate,
-      status: 'scheduled',
-    });
-
-    if (existingAppointment) {
-      return { success: false, message: "Sorry, this time slot is no longer available." };
+    const items = await getVisitItems(serviceIds);
+    if (!items) {
+      return { success: false, message: "Service not found." };
     }
 
-    await Appointment.create({
-      user: userId,
-      service: serviceId,
-      date: appointmentDate,
-      status: 'scheduled',
-    });
+    const slot = await bookVisit(user.userId, items, data);
+    if (!slot.ok) {
+      return { success: false, message: slot.message };
+    }
+    await notifyAppointments('booked', [slot.appointmentId]);
 
     revalidatePath('/appointments');
-    return { success: true, message: "Appointment booked successfully!" };
+    return { success: true, message: "Appointment booked successfully!", appointmentId: slot.appointmentId };
   } catch (error: any) {
     return { success: false, message: `Failed to book appointment: ${error.message}` };
   }
 }
 
+/**
+ * bookRecurringAppointmentAction
+ * ----------------------------------
+ * Books a linked series of appointments at the same time every `intervalWeeks` weeks,
+ * starting on `data.date` and ending after `recurrence.count` occurrences or on `recurrence.until`.
+ * 
+ * Every occurrence is checked and booked on its own (see `bookAppointmentAction`), so the
+ * free dates are booked even when others conflict; the conflicting dates are reported back.
+ * With "any barber", each occurrence goes to whichever barber is free that day.
+ * Every occurrence carries the client's note and reference photos. The series is booked for the logged-in client.
+ * The client gets one confirmation listing every booked occurrence.
+ * 
+ * @param data - Booking data for the first occurrence.
+ * @param recurrence - How often and until when to repeat.
+ * @returns A success/failure object with a message and the occurrences that could not be booked.
+ */
+export async function bookRecurringAppointmentAction(data: BookingData, recurrence: RecurrenceRule) {
+  const conflicts: SeriesConflict[] = [];
+  const user = await requireUser();
+  if (!user) {
+    return { ...FORBIDDEN, conflicts };
+  }
+  const { serviceIds, barberId, date, time } = data;
+  if (!serviceIds || !date || !time) {
+    return { success: false, message: "All fields are required.", conflicts };
+  }
+  const visitError = validateVisit(serviceIds) ?? validateBookingNotes(data.notes, data.photos);
+  if (visitError) {
+    return { success: false, message: visitError, conflicts };
+  }
+  const recurrenceError = validateRecurrence(recurrence, date);
+  if (recurrenceError) {
+    return { success: false, message: recurrenceError, conflicts };
+  }
+
+  try {
+    await connectDB();
+
+    const items = await getVisitItems(serviceIds);
+    if (!items) {
+      return { success: false, message: "Service not found.", conflicts };
+    }
+    const duration = visitDuration(items);
+    const buffers = visitBuffers(items);
+    await keepPhotos(data.photos ?? []);
+
+    const series = new mongoose.Types.ObjectId();
+    const dates = expandRecurrence(date, recurrence);
+    const booked: string[] = [];
+
+    for (const occurrenceDate of dates) {
+      const slot = await bookSlot({ date: occurrenceDate, time, duration, buffers, barberId }, async ({ start, barberId }, session) => {
+        const [appointment] = await Appointment.create([{
+          user: user.userId,
+          service: items[0].service,
+          items,
+          barber: barberId,
+          date: start,
+          status: 'scheduled',
+          series,
+          clientNotes: data.notes?.trim() ?? '',
+          photos: data.photos ?? [],
+        }], { session });
+        return String(appointment._id);
+      });
+      if (slot.ok) booked.push(slot.appointmentId);
+      else conflicts.push({ date: occurrenceDate, message: slot.message });
+    }
+
+    revalidatePath('/appointments');
+    if (booked.length === 0) {
+      return { success: false, message: "None of the requested dates are available.", conflicts };
+    }
+    await notifyAppointments('booked', booked);
+    return { success: true, message: `Booked ${booked.length} of ${dates.length} appointments.`, conflicts };
+  } catch (error: any) {
+    return { success: false, message: `Failed to book appointments: ${error.message}`, conflicts };
+  }
+}
+
 /**
  * cancelAppointmentAction
  * ----------------------------------
- * Cancels an existing appointment by updating its status to 'canceled'.
+ * Cancels an existing appointment by updating its status to 'cancelled',
+ * releasing its reserved slot for other clients and offering it to the waitlist.
+ * Only appointments the status lifecycle still lets be cancelled are changed.
+ * For a recurring booking, the cancellation can cover the rest of the series.
+ * 
+ * Enforces the shop's cancellation policy (see `lib/cancellationPolicy.ts`): inside the
+ * notice period the cancellation is refused, or, if the policy allows late cancellations,
+ * flagged as late and added to the client's late-cancellation count.
+ * The client is sent a message confirming the cancellation.
+ * Only the appointment's client, an admin, or a guest holding its manage link may cancel it.
  * 
- * @param appointmentId - The ID of the appointment to be canceled.
+ * @param appointmentId - The ID of the appointment to be cancelled.
+ * @param scope - 'one' for just this appointment, 'following' for it and the later occurrences.
+ * @param manageToken - The token of the guest's manage link, when cancelling through one.
  * @returns A success/failure object with a message.
  */
-export async function cancelAppointmentAction(appointmentId: string) {
+export async function cancelAppointmentAction(appointmentId: string, scope: SeriesScope = 'one', manageToken?: string) {
   if (!appointmentId) {
     return { success: false, message: "Appointment ID is missing." };
   }
+  if (!(await canAccessAppointment(appointmentId, manageToken))) {
+    return FORBIDDEN;
+  }
 
   try {
-    await connectDB();
-    await Appointment.findByIdAndUpdate(appointmentId, { status: 'canceled' });
+    const targets = await getSeriesTargets(appointmentId, scope);
+    if (targets.length === 0) {
+      return { success: false, message: "Appointment not found." };
+    }
+
+    const { cancellationPolicy } = await getShopSettings();
+    const policy = checkCancellation(targets[0].date, cancellationPolicy);
+    if (!policy.allowed) {
+      return { success: false, message: policy.reason };
+    }
+
+    const late = targets.filter((target) => isWithinNotice(target.date, cancellationPolicy));
+    const onTime = targets.filter((target) => !late.includes(target));
+    const lateCancelled = await cancelAppointments(late, true);
+    const cancelled = lateCancelled + (await cancelAppointments(onTime));
+    if (cancelled === 0) {
+      return { success: false, message: "This appointment can no longer be cancelled." };
+    }
+    if (lateCancelled > 0) {
+      await User.updateOne({ _id: targets[0].user }, { $inc: { lateCancellations: lateCancelled } });
+    }
+
+    await notifyAppointments('cancelled', targets.map((target) => String(target._id)));
+    await offerFreedSlots(targets.map((target) => target.date));
     revalidatePath('/appointments');
-    return { success: true, message: "Appointment canceled." };
+    const message = cancelled > 1 ? `${cancelled} appointments cancelled.` : "Appointment cancelled.";
+    return {
+      success: true,
+      message: lateCancelled > 0
+        ? `${message} It was cancelled with less than ${formatNotice(cancellationPolicy.noticeHours)} of notice, so it is recorded as a late cancellation.`
+        : message,
+    };
   } catch (error: any) {
     return { success: false, message: `Failed to cancel appointment: ${error.message}` };
   }
@@ -131,26 +443,70 @@ export async function cancelAppointmentAction(appointmentId: string) {
 /**
  * updateAppointmentAction
  * ----------------------------------
- * Updates the date and time of an existing appointment.
- * The new date and time are combined into a new Date object.
+ * Updates the date and time of an existing, upcoming (pending or scheduled) appointment.
+ * Like cancelling, rescheduling is refused inside the cancellation policy's notice period.
+ * The new date and time must fit the shop's opening hours, and the appointment's
+ * barber must be free for the service's whole duration from then on
+ * (unassigned appointments may move to any free barber). The move and its slot
+ * reservation are written atomically, like a new booking. The time it leaves is offered to the waitlist.
+ * 
+ * For a recurring booking, the change can cover the rest of the series: every later
+ * occurrence moves to the new time and by the same number of days. Occurrences that
+ * cannot move stay where they are and are reported as conflicts.
+ * The client is sent the new dates of the appointments that moved.
+ * Only the appointment's client, an admin, or a guest holding its manage link may move it.
  * 
  * @param appointmentId - The ID of the appointment to update.
  * @param newDate - New date in 'YYYY-MM-DD' format.
  * @param newTime - New time in 'HH:mm' format.
- * @returns A success/failure object with a message.
+ * @param scope - 'one' for just this appointment, 'following' for it and the later occurrences.
+ * @param manageToken - The token of the guest's manage link, when moving it through one.
+ * @returns A success/failure object with a message and the occurrences that could not be moved.
  */
-export async function updateAppointmentAction(appointmentId: string, newDate: string, newTime: string) {
+export async function updateAppointmentAction(
+  appointmentId: string,
+  newDate: string,
+  newTime: string,
+  scope: SeriesScope = 'one',
+  manageToken?: string
+) {
+  const conflicts: SeriesConflict[] = [];
   if (!appointmentId || !newDate || !newTime) {
-    return { success: false, message: "Missing data for update." };
+    return { success: false, message: "Missing data for update.", conflicts };
+  }
+  if (!(await canAccessAppointment(appointmentId, manageToken))) {
+    return { ...FORBIDDEN, conflicts };
   }
 
   try {
-    await connectDB();
-    const newAppointmentDate = new Date(`${newDate}T${newTime}`);
-    await Appointment.findByIdAndUpdate(appointmentId, { date: newAppointmentDate });
+    const targets = await getSeriesTargets(appointmentId, scope);
+    if (targets.length === 0) {
+      return { success: false, message: "Appointment not found.", conflicts };
+    }
+    if (!UPCOMING_STATUSES.includes(targets[0].status as AppointmentStatus)) {
+      return { success: false, message: "This appointment can no longer be changed.", conflicts };
+    }
+    const { cancellationPolicy } = await getShopSettings();
+    const policy = checkReschedule(targets[0].date, cancellationPolicy);
+    if (!policy.allowed) {
+      return { success: false, message: policy.reason, conflicts };
+    }
+
+    const result = await rescheduleAppointments(targets, newDate, newTime);
+    await notifyAppointments('rescheduled', result.moved);
+    await offerFreedSlots(targets.map((target) => target.date));
     revalidatePath('/appointments');
-    return { success: true, message: "Appointment updated successfully!" };
+    if (result.moved.length === 0) {
+      return { success: false, message: result.conflicts[0]?.message ?? "Failed to update appointment.", conflicts: result.conflicts };
+    }
+    return {
+      success: true,
+      message: targets.length > 1
+        ? `Moved ${result.moved.length} of ${targets.length} appointments.`
+        : "Appointment updated successfully!",
+      conflicts: result.conflicts,
+    };
   } catch (error: any) {
-    return { success: false, message: `Failed to update appointment: ${error.message}` };
+    return { success: false, message: `Failed to update appointment: ${error.message}`, conflicts };
   }
 }
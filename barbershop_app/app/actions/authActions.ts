@@ -1,18 +1,22 @@
 /**
  * @file app/actions/authActions.ts
  * @description
- * Server-side authentication actions for login, signup, and logout.
+ * Server-side authentication actions for login, signup, logout, and resetting a forgotten password.
  * 
  * This file handles:
- * - User login with session cookie creation
- * - User registration with validations
- * - User logout by clearing the session cookie
+ * - User login, starting a signed, server-side session (see `lib/session.ts`)
+ * - User registration with validations, turning a guest's record into their account once they
+ *   prove the email is theirs
+ * - User logout by revoking the session and clearing its cookie
+ * - Password reset through an expiring, single-use link sent by email (see `lib/passwordReset.ts`)
  * 
  * Key points:
  * - Uses Mongoose to connect and query MongoDB.
- * - Manages authentication state via HTTP-only cookies.
+ * - Manages authentication state via HTTP-only cookies carrying signed session tokens.
  * - Redirects users after actions using Next.js navigation utilities.
  * - Includes basic security measures such as cookie flags and validation.
+ * - Passwords are stored hashed (see `lib/passwords.ts`); a password still stored in plain text
+ *   from before hashing is replaced by its hash on the user's next successful login.
  */
 
 'use server';
@@ -20,14 +24,18 @@
 import connectDB from "@/lib/mongoose";
 import User from "@/models/User";
 import { redirect } from "next/navigation";
-import { cookies } from 'next/headers'; // Used to read and set cookies
+import { createSession, destroySession } from "@/lib/session";
+import { hashPassword, needsRehash, verifyPassword } from "@/lib/passwords";
+import { safeRedirectPath } from "@/lib/routeAccess";
+import { requestAccountActivation, requestPasswordReset, resetPassword } from "@/lib/passwordReset";
 
 /**
  * loginAction
  * ----------------------
- * Handles user login by verifying email and password.
- * On success, creates a HTTP-only cookie with session data.
- * Redirects user to a callback URL or home page.
+ * Handles user login by verifying email and password against the stored hash.
+ * On success, rehashes a password stored in plain text (or with outdated parameters),
+ * then starts a session for the user (see `createSession`).
+ * Redirects user to a callback URL on this site (see `safeRedirectPath`) or home page.
  * 
  * @param formData - FormData containing email, password, and optional callbackUrl.
  * @returns An error object on failure or performs redirect on success.
@@ -42,42 +50,40 @@ export async function loginAction(formData: FormData) {
     // Find user and explicitly select password field (usually excluded by default)
     const user = await User.findOne({ email }).select('+password');
 
-    // Basic credential check; no hashing in this example, consider adding it in real apps
-    if (!user || password !== user.password) {
+    // Guests have no password to log in with until they sign up.
+    if (!user || user.isGuest || !(await verifyPassword(password, user.password))) {
       return { error: "Invalid credentials." };
     }
 
-    // Successful login: create session object
-    const sessionData = { 
-      userId: user._id.toString(), 
-      name: user.name, 
-      role: user.role 
-    };
-
-    // Set secure, HTTP-only session cookie with 1-day expiration
-    cookies().set('session', JSON.stringify(sessionData), {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 60 * 60 * 24,
-      path: '/',
-    });
-    
+    // Migrate a legacy plain-text password now that the user has proven they know it
+    if (needsRehash(user.password)) {
+      user.password = await hashPassword(password);
+      await user.save();
+    }
+
+    // Successful login: store the session and set its signed, HTTP-only cookie (1-day expiration)
+    await createSession(user._id.toString());
   } catch (error: any) {
     return { error: "An unexpected error occurred." };
   }
 
   // Redirect to callbackUrl or root after successful login
-  redirect(callbackUrl || '/');
+  redirect(safeRedirectPath(callbackUrl));
 }
 
 /**
  * signupAction
  * ----------------------
  * Handles user registration by validating inputs, checking for existing users,
- * creating a new user document with role 'client', and then redirecting to login.
+ * creating a new user document with role 'client' and a hashed password, and then redirecting to login.
+ * A guest who booked without an account signs up with the same email: as anyone can type it,
+ * the account is only created once they choose a password through a link sent to that email
+ * (see `requestAccountActivation`). Their record then becomes the account, so the bookings
+ * made as a guest show up once they log in.
  * 
  * @param formData - FormData containing name, email, phone, password, confirmPassword.
- * @returns An error object on validation or creation failure, or redirects on success.
+ * @returns An error object on validation or creation failure, a message telling a guest to
+ *          check their email, or redirects on success.
  */
 export async function signupAction(formData: FormData) {
   // Extract form values
@@ -100,12 +106,19 @@ export async function signupAction(formData: FormData) {
 
     // Check if email is already registered
     const existingUser = await User.findOne({ email });
-    if (existingUser) {
+    if (existingUser && !existingUser.isGuest) {
       return { error: "An account with this email already exists." };
     }
 
+    if (existingUser) {
+      // The guest's bookings are only attached once the email is proven theirs
+      await requestAccountActivation(email);
+      return { message: "You have booked with this email before. We have sent it a link to choose your password and finish creating your account." };
+    }
+
     // Create new user with default role 'client'
-    await User.create({ name, email, password, phone, role: 'client' });
+    const passwordHash = await hashPassword(password);
+    await User.create({ name, email, password: passwordHash, phone, role: 'client' });
   } catch (error: any) {
     return { error: "An unexpected error occurred." };
   }
@@ -117,11 +130,67 @@ export async function signupAction(formData: FormData) {
 /**
  * logoutAction
  * ----------------------
- * Clears the user's session by expiring the 'session' cookie immediately.
+ * Revokes the user's session and expires its cookie immediately.
  * Then redirects the user to the login page.
  */
 export async function logoutAction() {
-  // Clear session cookie by setting expiration date to the past
-  cookies().set('session', '', { expires: new Date(0), path: '/' });
+  await destroySession();
   redirect('/login');
 }
+
+/**
+ * requestPasswordResetAction
+ * ----------------------
+ * Sends a password reset link to the account registered with an email.
+ * Answers the same whether or not such an account exists, so it cannot be used to find accounts.
+ * 
+ * @param formData - FormData containing email.
+ * @returns An error object on failure, or a message telling the user to check their email.
+ */
+export async function requestPasswordResetAction(formData: FormData) {
+  const email = formData.get('email') as string;
+  if (!email?.trim()) {
+    return { error: "Please enter your email." };
+  }
+
+  try {
+    await requestPasswordReset(email);
+  } catch (error) {
+    console.error("Failed to send a password reset link:", error);
+    return { error: "An unexpected error occurred." };
+  }
+  return { message: "If an account exists for this email, we have sent it a link to reset the password." };
+}
+
+/**
+ * resetPasswordAction
+ * ----------------------
+ * Sets a new password with a reset link, then redirects to login. The link is used up,
+ * and every session of the user is revoked, so anyone logged in with the old password is logged out.
+ * 
+ * @param formData - FormData containing token, password, confirmPassword.
+ * @returns An error object on validation failure or an invalid link, or redirects on success.
+ */
+export async function resetPasswordAction(formData: FormData) {
+  const token = formData.get('token') as string;
+  const password = formData.get('password') as string;
+  const confirmPassword = formData.get('confirmPassword') as string;
+
+  if (!token || !password || !confirmPassword) {
+    return { error: "Please fill in all required fields." };
+  }
+  if (password !== confirmPassword) {
+    return { error: "Passwords do not match." };
+  }
+
+  try {
+    if (!(await resetPassword(token, password))) {
+      return { error: "This link is invalid or has expired. Please ask for a new one." };
+    }
+  } catch (error) {
+    console.error("Failed to reset a password:", error);
+    return { error: "An unexpected error occurred." };
+  }
+
+  redirect('/login?reset=success');
+}
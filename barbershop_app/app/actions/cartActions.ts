@@ -5,11 +5,14 @@
  * Supports booking appointments for services and purchasing products with stock validation.
  * 
  * Key features:
- * - Validates user authentication and cart content.
+ * - Checks out for the logged-in user (see `lib/authorization.ts`) and validates the cart content.
+ * - Runs the whole checkout in one transaction: either every appointment is booked
+ *   and every product sold, or nothing is written.
  * - For each cart item:
- *    - Creates an appointment if item is a service with date/time.
+ *    - Creates an appointment if item is a service with date/time and a barber is free.
  *    - Validates stock and updates product quantity and sold count if item is a product.
  * - Uses Mongoose to interact with MongoDB.
+ * - Sends the client one confirmation covering the booked appointments.
  * - Revalidates caches for affected pages after successful checkout.
  * - Redirects to a checkout success page upon completion.
  */
@@ -21,7 +24,12 @@ import Appointment from "@/models/Appointment";
 import Product from "@/models/Product"; // Product model
 import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
-import { CartItem } from "@/app/contexts/CartContext";
+import { CartItem } from "@/app/types";
+import { getVisitItems, holdSlot, isSlotTaken, runBookingTransaction, SLOT_TAKEN_MESSAGE } from "@/lib/booking";
+import { addMinutesTo, BusyInterval } from "@/lib/availability";
+import { visitBuffers, visitDuration } from "@/lib/visit";
+import { notifyAppointments } from "@/lib/notifications";
+import { FORBIDDEN, requireUser } from "@/lib/authorization";
 
 /**
  * checkoutAction
@@ -29,25 +37,31 @@ import { CartItem } from "@/app/contexts/CartContext";
  * Processes the checkout of cart items for a logged-in user.
  * 
  * @param items - Array of cart items, each can be a product or a service.
- * @param userId - The ID of the authenticated user performing the checkout.
  * 
  * Behavior:
- * - If user is not authenticated, returns an error.
+ * - If no user is logged in, refuses the checkout.
  * - If cart is empty, returns an error.
  * - For service items:
- *    - Creates scheduled appointments with the provided date and time.
+ *    - Reads the item's date and time as wall-clock time in the shop's time zone.
+ *    - Checks that the service fits the shop's opening hours and that the chosen
+ *      barber (or any barber) is free for its whole duration, counting the appointments
+ *      booked by earlier items of the same cart.
+ *    - Creates scheduled appointments assigned to that barber and reserves their slots,
+ *      so a concurrent booking of the same slot makes the checkout fail instead of double-booking.
  * - For product items:
  *    - Validates available stock on the server.
  *    - Throws an error if stock is insufficient.
  *    - Updates product stock and sold quantity atomically.
+ * - Confirms the booked appointments to the client (see `lib/notifications.ts`).
  * - Revalidates cache for /appointments, /shop, and /admin pages.
  * - Redirects to the checkout success page if all operations succeed.
  * 
  * @returns Object with success status and message if checkout fails.
  */
-export async function checkoutAction(items: CartItem[], userId: string | undefined) {
-  if (!userId) {
-    return { success: false, message: "User is not authenticated." };
+export async function checkoutAction(items: CartItem[]) {
+  const user = await requireUser();
+  if (!user) {
+    return FORBIDDEN;
   }
   if (!items || items.length === 0) {
     return { success: false, message: "Your cart is empty." };
@@ -56,45 +70,83 @@ export async function checkoutAction(items: CartItem[], userId: string | undefin
   await connectDB();
 
   try {
-    for (const item of items) {
-      // Service item: create appointment if date and time are provided
-      if (item.type === 'service' && item.date && item.time) {
-        const appointmentDate = new Date(`${item.date}T${item.time}`);
-        await Appointment.create({
-          user: userId,
-          service: item.id,
-          date: appointmentDate,
-          status: 'scheduled',
-        });
-      }
-
-      // =========================================================================
-      // Product item logic
-      // =========================================================================
-      if (item.type === 'product') {
-        // 1. Fetch product from DB to check real stock
-        const productInDb = await Product.findById(item.id);
+    const booked = await runBookingTransaction(async (session) => {
+      const appointmentIds: string[] = [];
+      // Slots booked by earlier items, so a later one at the same time goes to another barber.
+      const held: BusyInterval[] = [];
+      for (const item of items) {
+        // Service item: create appointment if date and time are provided
+        if (item.type === 'service' && item.date && item.time) {
+          const visit = await getVisitItems([item.id]);
+          if (!visit) {
+            throw new Error(`Service "${item.name}" not found in database.`);
+          }
 
-        if (!productInDb) {
-          throw new Error(`Product "${item.name}" not found in database.`);
+          const duration = visitDuration(visit);
+          const slot = await holdSlot(
+            {
+              date: item.date,
+              time: item.time,
+              duration,
+              buffers: visitBuffers(visit),
+              barberId: item.barberId,
+              held,
+            },
+            async ({ start, barberId }) => {
+              const [appointment] = await Appointment.create([{
+                user: user.userId,
+                service: item.id,
+                items: visit,
+                barber: barberId,
+                date: start,
+                status: 'scheduled',
+              }], { session });
+              return String(appointment._id);
+            },
+            session
+          );
+          if (!slot.ok) {
+            throw new Error(`"${item.name}": ${slot.message}`);
+          }
+          appointmentIds.push(slot.appointmentId);
+          held.push({
+            start: slot.start,
+            end: addMinutesTo(slot.start, duration),
+            barberId: slot.barberId,
+            buffers: slot.buffers,
+          });
         }
 
-        // 2. Server-side stock validation
-        if (productInDb.quantity < item.quantity) {
-          throw new Error(`Sorry, there is not enough stock for "${item.name}".`);
-        }
+        // =========================================================================
+        // Product item logic
+        // =========================================================================
+        if (item.type === 'product') {
+          // 1. Fetch product from DB to check real stock
+          const productInDb = await Product.findById(item.id).session(session);
 
-        // 3. Calculate updated stock and sold quantity
-        const newStock = productInDb.quantity - item.quantity;
-        const newSoldQuantity = (productInDb.soldQuantity || 0) + item.quantity;
+          if (!productInDb) {
+            throw new Error(`Product "${item.name}" not found in database.`);
+          }
 
-        // 4. Update product stock and sold count in DB
-        await Product.findByIdAndUpdate(item.id, {
-          quantity: newStock,
-          soldQuantity: newSoldQuantity,
-        });
+          // 2. Server-side stock validation
+          if (productInDb.quantity < item.quantity) {
+            throw new Error(`Sorry, there is not enough stock for "${item.name}".`);
+          }
+
+          // 3. Calculate updated stock and sold quantity
+          const newStock = productInDb.quantity - item.quantity;
+          const newSoldQuantity = (productInDb.soldQuantity || 0) + item.quantity;
+
+          // 4. Update product stock and sold count in DB
+          await Product.findByIdAndUpdate(item.id, {
+            quantity: newStock,
+            soldQuantity: newSoldQuantity,
+          }, { session });
+        }
       }
-    }
+      return appointmentIds;
+    });
+    await notifyAppointments('booked', booked);
 
     // After success, clear cache for affected pages to show updated data
     revalidatePath('/appointments');
@@ -103,7 +155,8 @@ export async function checkoutAction(items: CartItem[], userId: string | undefin
 
   } catch (error: any) {
     // On any failure (e.g., stock shortage), abort checkout with error message
-    return { success: false, message: `Checkout failed: ${error.message}` };
+    const message = isSlotTaken(error) ? SLOT_TAKEN_MESSAGE : error.message;
+    return { success: false, message: `Checkout failed: ${message}` };
   }
   
   // Redirect to success confirmation page after successful checkout
@@ -0,0 +1,161 @@
+/**
+ * @file app/actions/guestActions.ts
+ * @description
+ * Server-side actions for guests: clients who book without an account.
+ * A guest leaves their name, email and phone, kept as a lightweight client record (`isGuest`),
+ * and manages the booking through the signed link sent with its confirmation (see `lib/manageLinks.ts`).
+ *
+ * Key points:
+ * - Booking goes through the same booking core as for clients with an account (`bookVisit`),
+ *   and rescheduling and cancelling through the same actions (see `appointmentActions.ts`),
+ *   so availability, the cancellation policy and the messages to the client apply unchanged.
+ * - These actions need no login: the manage link's token is the guest's proof of access
+ *   to their appointment (see `lib/authorization.ts`).
+ * - A guest booking again with the same email reuses their record, only filling in the name or
+ *   phone it lacks. An email that belongs to an account is refused, so a guest cannot book in
+ *   someone else's name.
+ * - When a guest signs up with the same email and chooses a password through the link sent to it,
+ *   their record becomes the account and keeps its bookings (see `signupAction`).
+ */
+
+'use server';
+
+import connectDB from "@/lib/mongoose";
+import User from "@/models/User";
+import Appointment from "@/models/Appointment";
+import { revalidatePath } from "next/cache";
+import { createManageToken, MANAGE_PATH, manageLinksEnabled, verifyManageToken } from "@/lib/manageLinks";
+import { bookVisit, getVisitItems } from "@/lib/booking";
+import { validateVisit } from "@/lib/visit";
+import { validateBookingNotes } from "@/lib/appointmentNotes";
+import { notifyAppointments } from "@/lib/notifications";
+import { validateGuest } from "@/lib/guests";
+import {
+  BookingData,
+  cancelAppointmentAction,
+  updateAppointmentAction,
+} from "@/app/actions/appointmentActions";
+import { GuestDetails } from "@/app/types";
+
+/**
+ * Returned when a manage link does not check out.
+ */
+const INVALID_LINK_MESSAGE = "This link is invalid or has expired.";
+
+/**
+ * The relative manage link of an appointment, valid until a day after it starts.
+ */
+async function manageLinkFor(appointmentId: string): Promise<string | null> {
+  const appointment = await Appointment.findById(appointmentId).select('date');
+  return appointment ? `${MANAGE_PATH}${createManageToken(appointmentId, appointment.date)}` : null;
+}
+
+/**
+ * bookGuestAppointmentAction
+ * ----------------------------------
+ * Books an appointment for a guest (see `bookAppointmentAction`), first finding or creating
+ * their client record by email. The name and phone of an existing record are not changed,
+ * so a booking made with someone else's email cannot redirect their messages. The confirmation sent to them carries the manage link,
+ * which is also returned so the booking page can show it.
+ *
+ * @param guest - The guest's name, email and phone.
+ * @param data - The booking, as for `bookAppointmentAction`.
+ * @returns A success/failure object with a message, and the manage link on success.
+ */
+export async function bookGuestAppointmentAction(guest: GuestDetails, data: BookingData) {
+  if (!manageLinksEnabled()) {
+    return { success: false, message: "Booking without an account is not available right now. Please log in to book." };
+  }
+  const guestError = validateGuest(guest);
+  if (guestError) {
+    return { success: false, message: guestError };
+  }
+  const { serviceIds, date, time } = data;
+  if (!serviceIds || !date || !time) {
+    return { success: false, message: "All fields are required." };
+  }
+  const visitError = validateVisit(serviceIds) ?? validateBookingNotes(data.notes, data.photos);
+  if (visitError) {
+    return { success: false, message: visitError };
+  }
+
+  try {
+    await connectDB();
+    const items = await getVisitItems(serviceIds);
+    if (!items) {
+      return { success: false, message: "Service not found." };
+    }
+
+    const email = guest.email.trim();
+    const contact = { name: guest.name.trim(), phone: guest.phone.trim() };
+
+    let user = await User.findOne({ email });
+    if (user && !user.isGuest) {
+      return { success: false, message: "An account with this email already exists. Please log in to book." };
+    }
+    if (user) {
+      // Anyone can book with any email, so the details already on record are kept.
+      if (!user.name) user.name = contact.name;
+      if (!user.phone) user.phone = contact.phone;
+      await user.save();
+    } else {
+      user = await User.create({ ...contact, email, role: 'client', isGuest: true });
+    }
+
+    const slot = await bookVisit(String(user._id), items, data);
+    if (!slot.ok) {
+      return { success: false, message: slot.message };
+    }
+    await notifyAppointments('booked', [slot.appointmentId]);
+
+    revalidatePath('/appointments');
+    return { success: true, message: "Appointment booked successfully!", manageLink: await manageLinkFor(slot.appointmentId) };
+  } catch (error: any) {
+    return { success: false, message: `Failed to book appointment: ${error.message}` };
+  }
+}
+
+/**
+ * rescheduleGuestAppointmentAction
+ * ----------------------------------
+ * Moves the appointment a manage link was issued for (see `updateAppointmentAction`).
+ * As the link expires with the old time, a link for the new time is returned.
+ *
+ * @param token - The token of the manage link.
+ * @param newDate - New date in 'YYYY-MM-DD' format.
+ * @param newTime - New time in 'HH:mm' format.
+ * @returns A success/failure object with a message, and the new manage link on success.
+ */
+export async function rescheduleGuestAppointmentAction(token: string, newDate: string, newTime: string) {
+  const appointmentId = verifyManageToken(token);
+  if (!appointmentId) {
+    return { success: false, message: INVALID_LINK_MESSAGE };
+  }
+
+  try {
+    await connectDB();
+    const result = await updateAppointmentAction(appointmentId, newDate, newTime, 'one', token);
+    if (!result.success) {
+      return { success: false, message: result.message };
+    }
+    return { success: true, message: result.message, manageLink: await manageLinkFor(appointmentId) };
+  } catch (error: any) {
+    return { success: false, message: `Failed to update appointment: ${error.message}` };
+  }
+}
+
+/**
+ * cancelGuestAppointmentAction
+ * ----------------------------------
+ * Cancels the appointment a manage link was issued for (see `cancelAppointmentAction`).
+ *
+ * @param token - The token of the manage link.
+ * @returns A success/failure object with a message.
+ */
+export async function cancelGuestAppointmentAction(token: string) {
+  const appointmentId = verifyManageToken(token);
+  if (!appointmentId) {
+    return { success: false, message: INVALID_LINK_MESSAGE };
+  }
+  return cancelAppointmentAction(appointmentId, 'one', token);
+}
@@ -0,0 +1,155 @@
+/**
+ * @file app/actions/kioskActions.ts
+ * @description
+ * Server-side actions behind the in-shop kiosk (see `lib/queue.ts`): walk-in clients join
+ * today's queue, booked clients check in, and the screen keeps the queue up to date.
+ *
+ * Features:
+ * - All actions are declared as server functions using `'use server'`.
+ * - The kiosk is used without logging in, so clients are found by the email or phone they
+ *   booked with, and the queue is shown with shortened names only.
+ * - Applies `revalidatePath()` from Next.js to update the kiosk and the admin dashboard after mutations.
+ */
+
+'use server';
+
+import connectDB from "@/lib/mongoose";
+import Appointment from "@/models/Appointment";
+import Service from "@/models/Service";
+import User from "@/models/User";
+import WalkIn from "@/models/WalkIn";
+import { revalidatePath } from "next/cache";
+import { addMinutesTo, formatInZone } from "@/lib/availability";
+import { getShopSettings } from "@/lib/shopSettings";
+import { statusUpdate } from "@/lib/appointmentStatus";
+import { CHECK_IN_EARLY_MINUTES, CHECK_IN_LATE_MINUTES, estimateWalkIn, getQueue, shortName } from "@/lib/queue";
+import { QueueEntryType } from "@/app/types";
+
+interface WalkInData {
+  name: string;
+  serviceId: string;
+}
+
+/**
+ * Lists today's queue for the kiosk screen, with each client's name shortened.
+ */
+export async function getKioskQueueAction(): Promise<QueueEntryType[]> {
+  const queue = await getQueue();
+  return queue.map((entry) => ({ ...entry, name: shortName(entry.name) }));
+}
+
+/**
+ * joinQueueAction
+ * ----------------------------------
+ * Adds a walk-in client to today's queue, unless the shop is closed or they could not be
+ * seen before closing time.
+ *
+ * @param data - The client's name and the service they want.
+ * @returns A success/failure object with a message, and the expected start when added.
+ */
+export async function joinQueueAction(data: WalkInData) {
+  const name = data.name?.trim();
+  if (!name || !data.serviceId) {
+    return { success: false, message: "Please enter your name and choose a service." };
+  }
+
+  try {
+    await connectDB();
+    const service = await Service.findById(data.serviceId).select('name duration');
+    if (!service) {
+      return { success: false, message: "Service not found." };
+    }
+
+    const estimate = await estimateWalkIn(service.duration);
+    if (!estimate) {
+      return { success: false, message: "Sorry, the shop is closed today." };
+    }
+    if (estimate.afterClosing) {
+      return { success: false, message: "Sorry, we can't fit in another walk-in before closing time today." };
+    }
+
+    const { timeZone } = await getShopSettings();
+    await WalkIn.create({
+      name,
+      service: service._id,
+      duration: service.duration,
+      date: formatInZone(new Date(), "yyyy-MM-dd", timeZone),
+    });
+
+    revalidatePath('/kiosk');
+    revalidatePath('/admin');
+    return {
+      success: true,
+      message: `Thanks, ${shortName(name)}! You're in the queue for a ${service.name}.`,
+      estimatedStart: estimate.start.toISOString(),
+    };
+  } catch (error: any) {
+    return { success: false, message: `Failed to join the queue: ${error.message}` };
+  }
+}
+
+/**
+ * checkInAction
+ * ----------------------------------
+ * Checks in a booked client who has arrived, putting them in today's queue. The client is found
+ * by the email or phone they booked with; their scheduled appointment must start within
+ * `CHECK_IN_EARLY_MINUTES` from now, or have started at most `CHECK_IN_LATE_MINUTES` ago.
+ *
+ * @param contact - The client's email address or phone number.
+ * @returns A success/failure object with a message.
+ */
+export async function checkInAction(contact: string) {
+  const value = contact?.trim();
+  if (!value) {
+    return { success: false, message: "Please enter your email or phone number." };
+  }
+
+  try {
+    await connectDB();
+    let user;
+    if (value.includes('@')) {
+      user = await User.findOne({ email: value }).select('name');
+    } else {
+      // Phone numbers are matched on their digits, however they were typed.
+      const digits = value.replace(/\D/g, '');
+      if (digits.length < 6) {
+        return { success: false, message: "Please enter your full phone number." };
+      }
+      user = await User.findOne({ phone: new RegExp(`^\\D*${digits.split('').join('\\D*')}\\D*$`) }).select('name');
+    }
+    if (!user) {
+      return { success: false, message: "We couldn't find a booking under those details. Please ask at the desk." };
+    }
+
+    const now = new Date();
+    const window = {
+      $gte: addMinutesTo(now, -CHECK_IN_LATE_MINUTES),
+      $lte: addMinutesTo(now, CHECK_IN_EARLY_MINUTES),
+    };
+    const appointment = await Appointment.findOneAndUpdate(
+      { user: user._id, status: 'scheduled', date: window },
+      statusUpdate('checked-in'),
+      { sort: { date: 1 }, new: true }
+    );
+    if (!appointment) {
+      const pending = await Appointment.exists({ user: user._id, status: 'pending', date: window });
+      return {
+        success: false,
+        message: pending
+          ? "Your booking hasn't been confirmed yet. Please ask at the desk."
+          : `We couldn't find an appointment for you in the next ${CHECK_IN_EARLY_MINUTES} minutes. Please ask at the desk.`,
+      };
+    }
+
+    const { timeZone } = await getShopSettings();
+    revalidatePath('/kiosk');
+    revalidatePath('/admin');
+    revalidatePath('/appointments');
+    return {
+      success: true,
+      message: `Welcome, ${shortName(user.name)}! You're checked in for ${formatInZone(appointment.date, "p", timeZone)}.`,
+    };
+  } catch (error: any) {
+    return { success: false, message: `Failed to check in: ${error.message}` };
+  }
+}
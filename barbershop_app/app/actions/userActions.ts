@@ -3,11 +3,13 @@
 import connectDB from "@/lib/mongoose";
 import User from "@/models/User";
 import { revalidatePath } from "next/cache";
+import { validateNote } from "@/lib/appointmentNotes";
+import { FORBIDDEN, requireUser } from "@/lib/authorization";
 
 interface ProfileUpdateData {
-  userId: string;
   name: string;
   phone: string;
+  styleProfile?: string;
   address: {
     street: string;
     city: string;
@@ -19,29 +21,34 @@ interface ProfileUpdateData {
 /**
  * @action updateUserProfileAction
  * @description
- * Server-side action to update a user's profile data in the database.
+ * Server-side action to update the logged-in user's profile data in the database.
  * 
  * This function:
- * - Expects a structured data object including userId and updated profile fields.
- * - Validates that the userId is provided.
+ * - Expects a structured data object with the updated profile fields.
+ * - Refuses when nobody is logged in (see `lib/authorization.ts`), and validates that the style profile is not too long.
  * - Connects to MongoDB via Mongoose.
- * - Updates the user document matching the userId with the provided fields.
+ * - Updates only the profile fields (name, phone, address, style profile) of the logged-in user,
+ *   so the role or other account fields cannot be changed through it.
  * - Triggers Next.js cache revalidation for the '/profile' path to reflect updated data.
  * - Returns success status and message on completion or an error message if failed.
  * 
- * @param data - Object containing userId and profile update information including name, phone, and address.
+ * @param data - Object containing the profile update information: name, phone, address, and style profile.
  * @returns Object with success boolean and message string indicating result.
  */
 export async function updateUserProfileAction(data: ProfileUpdateData) {
-  const { userId, ...updateData } = data;
-
-  if (!userId) {
-    return { success: false, message: "User ID is missing." };
+  const user = await requireUser();
+  if (!user) {
+    return FORBIDDEN;
+  }
+  const { name, phone, styleProfile, address } = data;
+  const styleError = validateNote(styleProfile, "Your style profile");
+  if (styleError) {
+    return { success: false, message: styleError };
   }
 
   try {
     await connectDB();
-    await User.findByIdAndUpdate(userId, updateData);
+    await User.findByIdAndUpdate(user.userId, { name, phone, styleProfile, address });
 
     // Informs Next.js to invalidate cache for /profile page to fetch fresh data
     revalidatePath('/profile');
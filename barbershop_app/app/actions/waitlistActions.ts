@@ -0,0 +1,207 @@
+/**
+ * @file app/actions/waitlistActions.ts
+ * @description
+ * Server-side actions for the appointment waitlist: joining it for a day and time window,
+ * leaving it, and accepting a slot offered when someone else's appointment is freed
+ * (see `lib/waitlist.ts`).
+ *
+ * Features:
+ * - All actions are declared as server functions using `'use server'`.
+ * - Accepting an offer books it like any other appointment (`bookSlot`), so the
+ *   opening hours, closures and capacity are re-checked on the server.
+ * - Applies `revalidatePath()` from Next.js to update the appointments page after mutations.
+ * - Every action acts for the logged-in client, on their own entries only (see `lib/authorization.ts`).
+ */
+
+'use server';
+
+import connectDB from "@/lib/mongoose";
+import Appointment from "@/models/Appointment";
+import WaitlistEntry from "@/models/WaitlistEntry";
+import { revalidatePath } from "next/cache";
+import { ANY_BARBER, formatInZone } from "@/lib/availability";
+import { bookSlot, getVisitItems } from "@/lib/booking";
+import { validateVisit, visitBuffers, visitDuration } from "@/lib/visit";
+import { getShopSettings } from "@/lib/shopSettings";
+import { entryServiceIds, offerFreedSlots, offerSlotsOn, refreshWaitlist, validateWaitlistWindow } from "@/lib/waitlist";
+import { notifyAppointments } from "@/lib/notifications";
+import { FORBIDDEN, requireUser } from "@/lib/authorization";
+
+interface WaitlistData {
+  serviceIds: string[]; // The visit's services, in the order they are performed
+  barberId?: string; // A barber ID, or omitted / 'any' for no preference
+  date: string; // Format: 'YYYY-MM-DD'
+  windowStart: string; // Format: 'HH:mm', earliest acceptable start
+  windowEnd: string; // Format: 'HH:mm', latest acceptable start
+}
+
+/**
+ * joinWaitlistAction
+ * ----------------------------------
+ * Puts the logged-in client on the waitlist for a visit (one or more services) on a day, starting within a time window.
+ * If a matching slot is already free, it is offered straight away.
+ *
+ * @param data - The services, optional barber, date and time window.
+ * @returns A success/failure object with a message.
+ */
+export async function joinWaitlistAction(data: WaitlistData) {
+  const user = await requireUser();
+  if (!user) {
+    return FORBIDDEN;
+  }
+  const { serviceIds, barberId, date, windowStart, windowEnd } = data;
+  if (!serviceIds || !date || !windowStart || !windowEnd) {
+    return { success: false, message: "All fields are required." };
+  }
+  const visitError = validateVisit(serviceIds);
+  if (visitError) {
+    return { success: false, message: visitError };
+  }
+  const windowError = validateWaitlistWindow(windowStart, windowEnd);
+  if (windowError) {
+    return { success: false, message: windowError };
+  }
+
+  try {
+    await connectDB();
+
+    const { timeZone } = await getShopSettings();
+    if (date < formatInZone(new Date(), "yyyy-MM-dd", timeZone)) {
+      return { success: false, message: "Cannot join the waitlist for a past day." };
+    }
+    if (!(await getVisitItems(serviceIds))) {
+      return { success: false, message: "Service not found." };
+    }
+
+    const existing = await WaitlistEntry.findOne({
+      user: user.userId,
+      service: serviceIds[0],
+      date,
+      status: { $in: ['waiting', 'offered'] },
+    });
+    if (existing) {
+      return { success: false, message: "You are already on the waitlist for this service that day." };
+    }
+
+    await WaitlistEntry.create({
+      user: user.userId,
+      service: serviceIds[0],
+      services: serviceIds,
+      barber: barberId && barberId !== ANY_BARBER ? barberId : null,
+      date,
+      windowStart,
+      windowEnd,
+    });
+    await offerSlotsOn(date);
+
+    revalidatePath('/appointments');
+    return { success: true, message: "You're on the waitlist. We'll offer you a slot if one frees up." };
+  } catch (error: any) {
+    return { success: false, message: `Failed to join the waitlist: ${error.message}` };
+  }
+}
+
+/**
+ * leaveWaitlistAction
+ * ----------------------------------
+ * Takes the logged-in client off the waitlist. Declining an open offer passes its slot to the next client in line.
+ *
+ * @param entryId - The waitlist entry to cancel; only the client's own entries can be canceled.
+ * @returns A success/failure object with a message.
+ */
+export async function leaveWaitlistAction(entryId: string) {
+  const user = await requireUser();
+  if (!user) {
+    return FORBIDDEN;
+  }
+  try {
+    await connectDB();
+    const entry = await WaitlistEntry.findOneAndUpdate(
+      { _id: entryId, user: user.userId, status: { $in: ['waiting', 'offered'] } },
+      { status: 'cancelled' }
+    );
+    if (!entry) {
+      return { success: false, message: "Waitlist entry not found." };
+    }
+    if (entry.status === 'offered' && entry.offer) {
+      await offerFreedSlots([entry.offer.start]);
+    }
+
+    revalidatePath('/appointments');
+    return { success: true, message: "You have left the waitlist." };
+  } catch (error: any) {
+    return { success: false, message: `Failed to leave the waitlist: ${error.message}` };
+  }
+}
+
+/**
+ * acceptWaitlistOfferAction
+ * ----------------------------------
+ * Turns an open waitlist offer of the logged-in client into an appointment.
+ *
+ * The held slot is booked like a new appointment (`bookSlot`), ignoring the offer's own hold,
+ * and the entry is marked as booked in the same transaction. If the offer has expired or the
+ * slot can no longer be booked, the client goes back to waiting and the slot moves on.
+ * A booked offer is confirmed to the client like any other booking.
+ *
+ * @param entryId - The waitlist entry holding the offer; only the client's own offers can be accepted.
+ * @returns A success/failure object with a message.
+ */
+export async function acceptWaitlistOfferAction(entryId: string) {
+  const user = await requireUser();
+  if (!user) {
+    return FORBIDDEN;
+  }
+  try {
+    await refreshWaitlist();
+
+    const entry = await WaitlistEntry.findOne({ _id: entryId, user: user.userId });
+    if (!entry || entry.status !== 'offered' || !entry.offer) {
+      revalidatePath('/appointments');
+      return { success: false, message: "This offer is no longer available." };
+    }
+
+    const items = await getVisitItems(entryServiceIds(entry));
+    if (!items) {
+      return { success: false, message: "Service not found." };
+    }
+
+    const { timeZone } = await getShopSettings();
+    const slot = await bookSlot({
+      date: entry.date,
+      time: formatInZone(entry.offer.start, "HH:mm", timeZone),
+      duration: visitDuration(items),
+      buffers: visitBuffers(items),
+      barberId: entry.offer.barber ? String(entry.offer.barber) : undefined,
+      excludeOfferId: entryId,
+    }, async ({ start, barberId }, session) => {
+      const [appointment] = await Appointment.create([{
+        user: user.userId,
+        service: items[0].service,
+        items,
+        barber: barberId,
+        date: start,
+        status: 'scheduled',
+      }], { session });
+      await WaitlistEntry.updateOne(
+        { _id: entryId },
+        { status: 'booked', appointment: appointment._id },
+        { session }
+      );
+      return String(appointment._id);
+    });
+
+    if (!slot.ok) {
+      await WaitlistEntry.updateOne({ _id: entryId, status: 'offered' }, { status: 'waiting', offer: null });
+      await offerFreedSlots([entry.offer.start]);
+      revalidatePath('/appointments');
+      return { success: false, message: slot.message };
+    }
+    await notifyAppointments('booked', [slot.appointmentId]);
+
+    revalidatePath('/appointments');
+    return { success: true, message: "Appointment booked successfully!" };
+  } catch (error: any) {
+    return { success: false, message: `Failed to accept the offer: ${error.message}` };
+  }
+}
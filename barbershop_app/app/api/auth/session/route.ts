@@ -0,0 +1,23 @@
+/**
+ * @file app/api/auth/session/route.ts
+ * @description
+ * Reports the role of the request's session, for `middleware.ts`. The middleware runs on the
+ * Edge runtime, which cannot reach the database, so it asks this route (on the Node.js runtime)
+ * to check the session cookie it forwards (see `getSession`).
+ * Only the role is returned: the middleware needs nothing else to decide.
+ */
+
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+
+// Sessions can be revoked at any time, so the answer is never cached.
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/auth/session
+ * @returns `{ role }`, the role of the logged-in user, or null when the session is missing or invalid.
+ */
+export async function GET() {
+  const session = await getSession();
+  return NextResponse.json({ role: session?.role ?? null }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -2,8 +2,9 @@
  * @file barbershop_app/app/components/sections/admin/AdminDashboardClient.tsx
  * @description
  * This file exports the AdminDashboardClient component, a comprehensive admin panel for managing
- * products, services, clients, and appointments in the barbershop app. It features tabbed navigation,
+ * products, services, barbers, closures, clients, appointments, today's in-shop queue and shop settings in the barbershop app. It features tabbed navigation,
  * search filtering, modals for editing/creating entities, and integrates server-side actions for CRUD operations.
+ * Appointments can be viewed as a list or on a day/week calendar grid, where empty cells book new appointments.
  * 
  * The component is a Client Component using React state and effects, and leverages server actions for data persistence.
  */
@@ -13,30 +14,52 @@
 import React, { useState } from "react";
 import { toast } from "sonner";
 import { Tabs, TabsContent } from "@/app/components/ui/tabs";
+import { Button } from "@/app/components/ui/button";
+import { CalendarDays, List } from "lucide-react";
 import { AdminDashboardHeader } from "./adminDashboardHeader";
 import { ProductManagementTab } from "./productManagementTab";
 import { ServiceManagementTab } from "./serviceManagementTab";
+import { BarberManagementTab } from "./barberManagementTab";
+import { ClosureManagementTab } from "./closureManagementTab";
 import { ClientManagementTab } from "./clientManagementTab";
 import { AppointmentManagementTab } from "./appointmentManagementTab";
+import { AppointmentCalendarGrid } from "./appointmentCalendarGrid";
+import { QueueManagementTab } from "./queueManagementTab";
+import { ShopSettingsTab } from "./shopSettingsTab";
 import { EditProductModal } from "./editProductModal";
 import { EditServiceModal } from "./editServiceModal";
+import { EditBarberModal } from "./editBarberModal";
+import { EditClosureModal } from "./editClosureModal";
 import { EditClientModal } from "./editClientModal";
 import { EditAppointmentModal } from "./editAppointmentModal";
-import { ProductType, ServiceType, User, Appointment } from "@/app/types";
+import { NewAppointmentModal } from "./newAppointmentModal";
+import { MoveAppointmentModal } from "./moveAppointmentModal";
+import { AffectedAppointmentsModal } from "./affectedAppointmentsModal";
+import { ProductType, ServiceType, BarberType, ClosureType, User, Appointment, AppointmentChanges, SeriesScope, ShopSettingsType, QueueEntryType, NewAppointmentData } from "@/app/types";
 
 // Import all server actions for CRUD operations
 import { 
   saveProduct, deleteProduct,
   saveService, deleteService,
+  saveBarber, deleteBarber,
+  saveClosure, deleteClosure,
   updateUser, deleteUser,
-  updateAppointment, deleteAppointment
+  createAppointment, updateAppointment, deleteAppointment,
+  callNextClient, removeWalkIn,
+  saveShopSettings
 } from "@/app/actions/adminActions";
+import { describeVisit } from "@/lib/visit";
+import { GridSlot } from "@/lib/calendarGrid";
 
 interface AdminDashboardClientProps {
   initialProducts: ProductType[];
   initialServices: ServiceType[];
+  initialBarbers: BarberType[];
+  initialClosures: ClosureType[];
   initialClients: User[];
   initialAppointments: Appointment[];
+  queue: QueueEntryType[];
+  shopSettings: ShopSettingsType;
 }
 
 /**
@@ -44,16 +67,24 @@ interface AdminDashboardClientProps {
  * 
  * @param initialProducts - Array of product objects initially loaded from the server
  * @param initialServices - Array of service objects initially loaded from the server
+ * @param initialBarbers - Array of barber objects initially loaded from the server
+ * @param initialClosures - Array of closure objects initially loaded from the server
  * @param initialClients - Array of client user objects initially loaded from the server
  * @param initialAppointments - Array of appointment objects initially loaded from the server
+ * @param queue - Today's waiting walk-ins and checked-in clients, next client first
+ * @param shopSettings - Opening hours, slot interval and time zone currently stored for the shop
  * 
  * @returns JSX.Element rendering the admin dashboard with tabs for managing all entities
  */
 export default function AdminDashboardClient({
   initialProducts,
   initialServices,
+  initialBarbers,
+  initialClosures,
   initialClients,
   initialAppointments,
+  queue,
+  shopSettings,
 }: AdminDashboardClientProps) {
   // UI state for active tab and search input
   const [activeTab, setActiveTab] = useState("products");
@@ -63,18 +94,33 @@ export default function AdminDashboardClient({
   const [editingItem, setEditingItem] = useState<any>(null);
   const [isProductModalOpen, setIsProductModalOpen] = useState(false);
   const [isServiceModalOpen, setIsServiceModalOpen] = useState(false);
+  const [isBarberModalOpen, setIsBarberModalOpen] = useState(false);
+  const [isClosureModalOpen, setIsClosureModalOpen] = useState(false);
   const [isClientModalOpen, setIsClientModalOpen] = useState(false);
   const [isAppointmentModalOpen, setIsAppointmentModalOpen] = useState(false);
 
+  // Appointments tab: list or calendar grid, the grid cell a new appointment is being booked in,
+  // and the booking being dragged to another cell
+  const [appointmentView, setAppointmentView] = useState<"list" | "calendar">("list");
+  const [newAppointmentSlot, setNewAppointmentSlot] = useState<GridSlot | null>(null);
+  const [isNewAppointmentModalOpen, setIsNewAppointmentModalOpen] = useState(false);
+  const [appointmentMove, setAppointmentMove] = useState<{ appointment: Appointment; slot: GridSlot } | null>(null);
+  const [isMoveModalOpen, setIsMoveModalOpen] = useState(false);
+
+  // Bookings overlapping the last saved closure, listed so the admin can follow up
+  const [affectedAppointments, setAffectedAppointments] = useState<Appointment[]>([]);
+
   /**
    * Opens the appropriate modal for editing or creating an item
    * @param item - The item to edit, or null to create new
-   * @param type - The type of item: 'product', 'service', 'client', or 'appointment'
+   * @param type - The type of item: 'product', 'service', 'barber', 'closure', 'client', or 'appointment'
    */
   const openModal = (item: any, type: string) => {
     setEditingItem(item);
     if (type === 'product') setIsProductModalOpen(true);
     if (type === 'service') setIsServiceModalOpen(true);
+    if (type === 'barber') setIsBarberModalOpen(true);
+    if (type === 'closure') setIsClosureModalOpen(true);
     if (type === 'client') setIsClientModalOpen(true);
     if (type === 'appointment') setIsAppointmentModalOpen(true);
   };
@@ -110,6 +156,30 @@ export default function AdminDashboardClient({
     setIsServiceModalOpen(false);
   };
 
+  /**
+   * Handles saving a barber by calling the corresponding server action
+   * @param data - Partial barber data to save or create
+   */
+  const handleSaveBarber = async (data: Partial<BarberType>) => {
+    const result = await saveBarber(data);
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+    setIsBarberModalOpen(false);
+  };
+
+  /**
+   * Handles saving a closure by calling the corresponding server action,
+   * then lists any existing bookings the closure overlaps
+   * @param data - Partial closure data to save or create
+   */
+  const handleSaveClosure = async (data: Partial<ClosureType>) => {
+    const result = await saveClosure(data);
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+    setIsClosureModalOpen(false);
+    setAffectedAppointments(result.affected);
+  };
+
   /**
    * Handles updating a client user by calling the corresponding server action
    * @param id - User ID to update
@@ -126,18 +196,84 @@ export default function AdminDashboardClient({
    * Handles updating an appointment by calling the corresponding server action
    * @param id - Appointment ID to update
    * @param data - Partial appointment data to update
+   * @param scope - Whether the change also applies to the later occurrences of a recurring appointment
    */
-  const handleSaveAppointment = async (id: string, data: Partial<Appointment>) => {
-    const result = await updateAppointment(id, data);
-    if (result.success) toast.success(result.message);
+  const handleSaveAppointment = async (id: string, data: AppointmentChanges, scope: SeriesScope) => {
+    const result = await updateAppointment(id, data, scope);
+    if (result.success && result.conflicts?.length) {
+      const dates = result.conflicts.map((c) => c.date).join(", ");
+      toast.warning(result.message, { description: `These later appointments could not be moved: ${dates}` });
+    } else if (result.success) toast.success(result.message);
     else toast.error(result.message);
     setIsAppointmentModalOpen(false);
   };
 
+  /**
+   * Handles booking an appointment from the calendar grid by calling the corresponding server action
+   * @param data - The client, services, barber, date and time chosen in the modal
+   * @returns Whether the appointment was booked, so the modal stays open on failure
+   */
+  const handleCreateAppointment = async (data: NewAppointmentData) => {
+    const result = await createAppointment(data);
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+    return result.success;
+  };
+
+  /**
+   * Handles moving the booking dragged on the calendar grid by calling the corresponding server action,
+   * which checks the new time and barber
+   * @param notifyClient - Whether the client is told about the new time
+   * @returns Whether the appointment was moved, so the modal stays open on failure
+   */
+  const handleMoveAppointment = async (notifyClient: boolean) => {
+    if (!appointmentMove) return false;
+    const { appointment, slot } = appointmentMove;
+    const result = await updateAppointment(
+      appointment._id,
+      { date: slot.date, time: slot.time, barberId: slot.barberId },
+      'one',
+      notifyClient
+    );
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+    return result.success;
+  };
+
+  /**
+   * Handles saving the shop settings by calling the corresponding server action
+   * @param data - The full settings edited in the settings tab
+   */
+  const handleSaveSettings = async (data: ShopSettingsType) => {
+    const result = await saveShopSettings(data);
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+  };
+
+  /**
+   * Handles calling the next client in the queue to a chair
+   */
+  const handleCallNext = async () => {
+    const result = await callNextClient();
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+  };
+
+  /**
+   * Handles taking a walk-in who left out of the queue, with confirmation
+   * @param walkInId - ID of the walk-in to remove
+   */
+  const handleRemoveWalkIn = async (walkInId: string) => {
+    if (!confirm("Remove this client from the queue?")) return;
+    const result = await removeWalkIn(walkInId);
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+  };
+
   /**
    * Handles deleting an item by type using server actions, with confirmation
    * @param id - ID of the item to delete
-   * @param type - Item type: 'product', 'service', 'client', or 'appointment'
+   * @param type - Item type: 'product', 'service', 'barber', 'closure', 'client', or 'appointment'
    */
   const handleDelete = async (id: string, type: string) => {
     if (!confirm(`Are you sure you want to delete this ${type}?`)) return;
@@ -145,6 +281,8 @@ export default function AdminDashboardClient({
     let result;
     if (type === 'product') result = await deleteProduct(id);
     if (type === 'service') result = await deleteService(id);
+    if (type === 'barber') result = await deleteBarber(id);
+    if (type === 'closure') result = await deleteClosure(id);
     if (type === 'client') result = await deleteUser(id);
     if (type === 'appointment') result = await deleteAppointment(id);
 
@@ -164,6 +302,15 @@ export default function AdminDashboardClient({
     s.name.toLowerCase().includes(lowerSearchTerm)
   );
 
+  const filteredBarbers = initialBarbers.filter(b =>
+    b.name.toLowerCase().includes(lowerSearchTerm)
+  );
+
+  const filteredClosures = initialClosures.filter(c =>
+    c.reason.toLowerCase().includes(lowerSearchTerm) ||
+    c.barber?.name.toLowerCase().includes(lowerSearchTerm)
+  );
+
   const filteredClients = initialClients.filter(c =>
     c.name.toLowerCase().includes(lowerSearchTerm) ||
     c.email.toLowerCase().includes(lowerSearchTerm)
@@ -171,7 +318,13 @@ export default function AdminDashboardClient({
 
   const filteredAppointments = initialAppointments.filter(a =>
     (a as any).user?.name.toLowerCase().includes(lowerSearchTerm) ||
-    (a as any).service?.name.toLowerCase().includes(lowerSearchTerm)
+    describeVisit(a).toLowerCase().includes(lowerSearchTerm) ||
+    a.barber?.name.toLowerCase().includes(lowerSearchTerm)
+  );
+
+  const filteredQueue = queue.filter(q =>
+    q.name.toLowerCase().includes(lowerSearchTerm) ||
+    q.service.toLowerCase().includes(lowerSearchTerm)
   );
 
   return (
@@ -207,6 +360,24 @@ export default function AdminDashboardClient({
         />
       </TabsContent>
 
+      {/* Barbers management tab */}
+      <TabsContent value="barbers">
+        <BarberManagementTab
+          barbers={filteredBarbers}
+          onEdit={item => openModal(item, 'barber')}
+          onDelete={id => handleDelete(id, 'barber')}
+        />
+      </TabsContent>
+
+      {/* Closures management tab */}
+      <TabsContent value="closures">
+        <ClosureManagementTab
+          closures={filteredClosures}
+          onEdit={item => openModal(item, 'closure')}
+          onDelete={id => handleDelete(id, 'closure')}
+        />
+      </TabsContent>
+
       {/* Clients management tab */}
       <TabsContent value="clients">
         <ClientManagementTab
@@ -218,13 +389,58 @@ export default function AdminDashboardClient({
 
       {/* Appointments management tab */}
       <TabsContent value="appointments">
-        <AppointmentManagementTab
-          appointments={filteredAppointments}
-          onEdit={item => openModal(item, 'appointment')}
-          onDelete={id => handleDelete(id, 'appointment')}
+        <div className="flex justify-end mb-4">
+          <div className="bg-barber-cream p-1 rounded-lg inline-flex">
+            <Button size="sm" variant={appointmentView === "list" ? "default" : "ghost"} onClick={() => setAppointmentView("list")}>
+              <List className="h-4 w-4 mr-2" />
+              List
+            </Button>
+            <Button size="sm" variant={appointmentView === "calendar" ? "default" : "ghost"} onClick={() => setAppointmentView("calendar")}>
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Calendar
+            </Button>
+          </div>
+        </div>
+        {appointmentView === "list" ? (
+          <AppointmentManagementTab
+            appointments={filteredAppointments}
+            timeZone={shopSettings.timeZone}
+            onEdit={item => openModal(item, 'appointment')}
+            onDelete={id => handleDelete(id, 'appointment')}
+          />
+        ) : (
+          <AppointmentCalendarGrid
+            appointments={filteredAppointments}
+            barbers={initialBarbers}
+            settings={shopSettings}
+            onEdit={item => openModal(item, 'appointment')}
+            onCreate={slot => {
+              setNewAppointmentSlot(slot);
+              setIsNewAppointmentModalOpen(true);
+            }}
+            onMove={(appointment, slot) => {
+              setAppointmentMove({ appointment, slot });
+              setIsMoveModalOpen(true);
+            }}
+          />
+        )}
+      </TabsContent>
+
+      {/* In-shop queue tab */}
+      <TabsContent value="queue">
+        <QueueManagementTab
+          queue={filteredQueue}
+          timeZone={shopSettings.timeZone}
+          onCallNext={handleCallNext}
+          onRemove={handleRemoveWalkIn}
         />
       </TabsContent>
 
+      {/* Shop settings tab */}
+      <TabsContent value="settings">
+        <ShopSettingsTab settings={shopSettings} onSave={handleSaveSettings} />
+      </TabsContent>
+
       {/* Edit modals for each entity */}
       <EditProductModal
         isOpen={isProductModalOpen}
@@ -238,6 +454,19 @@ export default function AdminDashboardClient({
         service={editingItem}
         onSave={handleSaveService}
       />
+      <EditBarberModal
+        isOpen={isBarberModalOpen}
+        onOpenChange={setIsBarberModalOpen}
+        barber={editingItem}
+        onSave={handleSaveBarber}
+      />
+      <EditClosureModal
+        isOpen={isClosureModalOpen}
+        onOpenChange={setIsClosureModalOpen}
+        closure={editingItem}
+        barbers={initialBarbers}
+        onSave={handleSaveClosure}
+      />
       <EditClientModal
         isOpen={isClientModalOpen}
         onOpenChange={setIsClientModalOpen}
@@ -248,8 +477,32 @@ export default function AdminDashboardClient({
         isOpen={isAppointmentModalOpen}
         onOpenChange={setIsAppointmentModalOpen}
         appointment={editingItem}
+        timeZone={shopSettings.timeZone}
         onSave={handleSaveAppointment}
       />
+      <NewAppointmentModal
+        isOpen={isNewAppointmentModalOpen}
+        onOpenChange={setIsNewAppointmentModalOpen}
+        slot={newAppointmentSlot}
+        clients={initialClients}
+        services={initialServices}
+        barbers={initialBarbers}
+        onSave={handleCreateAppointment}
+      />
+      <MoveAppointmentModal
+        isOpen={isMoveModalOpen}
+        onOpenChange={setIsMoveModalOpen}
+        move={appointmentMove}
+        barbers={initialBarbers}
+        timeZone={shopSettings.timeZone}
+        onConfirm={handleMoveAppointment}
+      />
+      <AffectedAppointmentsModal
+        isOpen={affectedAppointments.length > 0}
+        onOpenChange={isOpen => !isOpen && setAffectedAppointments([])}
+        appointments={affectedAppointments}
+        timeZone={shopSettings.timeZone}
+      />
     </Tabs>
   );
 }
@@ -14,9 +14,13 @@ import {
   Users,
   Package,
   Scissors,
+  UserCog,
   Calendar as CalendarIconLucide,
   Search,
   PlusCircle,
+  Settings,
+  CalendarOff,
+  ListOrdered,
 } from "lucide-react";
 
 /**
@@ -47,8 +51,10 @@ export function AdminDashboardHeader({
   onAddItem,
 }: AdminDashboardHeaderProps) {
   // Determines if the "Add New" button should be displayed based on the active tab.
-  // This functionality is only available for 'products' and 'services'.
-  const isAddable = ["products", "services"].includes(activeTab);
+  // This functionality is only available for 'products', 'services', 'barbers' and 'closures'.
+  const isAddable = ["products", "services", "barbers", "closures"].includes(activeTab);
+  // The settings tab is a single form, so there is nothing to search.
+  const isSearchable = activeTab !== "settings";
 
   return (
     <>
@@ -57,7 +63,7 @@ export function AdminDashboardHeader({
       </h1>
 
       {/* Navigation tabs for switching between different management areas. */}
-      <TabsList className="w-full mb-8 bg-barber-cream grid grid-cols-2 md:grid-cols-4">
+      <TabsList className="w-full mb-8 bg-barber-cream h-auto grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8">
         <TabsTrigger
           value="products"
           className="flex-1 data-[state=active]:bg-barber-brown data-[state=active]:text-white"
@@ -70,6 +76,18 @@ export function AdminDashboardHeader({
         >
           <Scissors className="h-4 w-4 mr-2" /> Services
         </TabsTrigger>
+        <TabsTrigger
+          value="barbers"
+          className="flex-1 data-[state=active]:bg-barber-brown data-[state=active]:text-white"
+        >
+          <UserCog className="h-4 w-4 mr-2" /> Barbers
+        </TabsTrigger>
+        <TabsTrigger
+          value="closures"
+          className="flex-1 data-[state=active]:bg-barber-brown data-[state=active]:text-white"
+        >
+          <CalendarOff className="h-4 w-4 mr-2" /> Closures
+        </TabsTrigger>
         <TabsTrigger
           value="clients"
           className="flex-1 data-[state=active]:bg-barber-brown data-[state=active]:text-white"
@@ -82,24 +100,38 @@ export function AdminDashboardHeader({
         >
           <CalendarIconLucide className="h-4 w-4 mr-2" /> Appointments
         </TabsTrigger>
+        <TabsTrigger
+          value="queue"
+          className="flex-1 data-[state=active]:bg-barber-brown data-[state=active]:text-white"
+        >
+          <ListOrdered className="h-4 w-4 mr-2" /> Queue
+        </TabsTrigger>
+        <TabsTrigger
+          value="settings"
+          className="flex-1 data-[state=active]:bg-barber-brown data-[state=active]:text-white"
+        >
+          <Settings className="h-4 w-4 mr-2" /> Settings
+        </TabsTrigger>
       </TabsList>
 
       {/* Container for search input and the "Add New" button. */}
       <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
-        {/* Search input field with a search icon. */}
-        <div className="relative w-full sm:max-w-sm">
-          <Search
-            className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground"
-            size={18}
-          />
-          <Input
-            type="text"
-            placeholder={`Search in ${activeTab}...`}
-            className="pl-10 border-barber-cream w-full"
-            value={searchTerm}
-            onChange={(e) => onSearchTermChange(e.target.value)}
-          />
-        </div>
+        {/* Search input field with a search icon, hidden on the settings form. */}
+        {isSearchable && (
+          <div className="relative w-full sm:max-w-sm">
+            <Search
+              className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground"
+              size={18}
+            />
+            <Input
+              type="text"
+              placeholder={`Search in ${activeTab}...`}
+              className="pl-10 border-barber-cream w-full"
+              value={searchTerm}
+              onChange={(e) => onSearchTermChange(e.target.value)}
+            />
+          </div>
+        )}
 
         {/* Conditionally renders the "Add New" button if the current tab supports it. */}
         {isAddable && (
@@ -0,0 +1,87 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/affectedAppointmentsModal.tsx
+ * @description Provides a modal dialog listing the scheduled appointments that fall inside
+ * a newly saved closure, so the admin can contact those clients.
+ */
+
+"use client";
+
+import React from "react";
+import { Button } from "@/app/components/ui/button";
+import { Appointment } from "@/app/types";
+import { formatInZone } from "@/lib/availability";
+import { describeVisit } from "@/lib/visit";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/app/components/ui/dialog";
+
+/**
+ * Props for the AffectedAppointmentsModal component.
+ *
+ * @property {boolean} isOpen – Whether the modal is currently displayed.
+ * @property {(isOpen: boolean) => void} onOpenChange – Callback to open or close the modal.
+ * @property {Appointment[]} appointments – The bookings overlapping the closure.
+ * @property {string} timeZone – The shop's time zone, used to display the bookings' times.
+ */
+interface AffectedAppointmentsModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  appointments: Appointment[];
+  timeZone: string;
+}
+
+/**
+ * AffectedAppointmentsModal
+ *
+ * Renders the client, service, barber and time of every booking the closure overlaps.
+ * The bookings themselves are left untouched; they can be moved or canceled from
+ * the appointments tab.
+ */
+export function AffectedAppointmentsModal({
+  isOpen,
+  onOpenChange,
+  appointments,
+  timeZone,
+}: AffectedAppointmentsModalProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Bookings affected by this closure</DialogTitle>
+          <DialogDescription>
+            These appointments are still scheduled. Contact the clients, then reschedule
+            or cancel them from the Appointments tab.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y divide-barber-cream max-h-80 overflow-y-auto text-sm">
+          {appointments.map((app) => (
+            <li key={app._id} className="py-3">
+              <p className="font-medium text-barber-navy">
+                {app.user?.name || "Unknown client"} – {describeVisit(app)}
+              </p>
+              <p className="text-gray-600">
+                {formatInZone(app.date, "MMM dd, yyyy 'at' HH:mm", timeZone)}
+                {app.barber?.name && ` with ${app.barber.name}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button className="bg-barber-brown text-white hover:bg-barber-dark-brown">
+              Got it
+            </Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,281 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/appointmentCalendarGrid.tsx
+ * @description This file contains the AppointmentCalendarGrid component, a day or week calendar of the appointments
+ * with a column per barber (when staff exist), so gaps, overlaps and each barber's day can be seen at a glance.
+ * It is drawn from the same appointment data as the appointment list; the layout is computed by `lib/calendarGrid.ts`.
+ * Upcoming bookings can be dragged onto another cell to move them to that time and barber.
+ * The buffer time kept around each booking (for setup and cleanup) is drawn as a hatched band above and below it.
+ */
+
+"use client";
+
+import React, { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/app/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Appointment, BarberType, ShopSettingsType } from "@/app/types";
+import { fitsBusinessHours, formatInZone, getBusinessHours, minutesToTime, toDateTime } from "@/lib/availability";
+import { STATUS_BADGE_CLASSES, STATUS_LABELS } from "@/lib/appointmentStatus";
+import { shiftDate } from "@/lib/recurrence";
+import { describeVisit } from "@/lib/visit";
+import {
+  buildColumns,
+  gridDates,
+  gridRange,
+  GridColumn,
+  GridSlot,
+  GridView,
+  isMovable,
+  layoutColumn,
+  visibleAppointments,
+} from "@/lib/calendarGrid";
+
+/**
+ * Height, in pixels, of one row of the grid (one slot interval).
+ */
+const ROW_HEIGHT = 28;
+
+/**
+ * @interface AppointmentCalendarGridProps
+ * @description Defines the props for the AppointmentCalendarGrid component.
+ * @property {Appointment[]} appointments - The appointments to draw (already filtered by the search).
+ * @property {BarberType[]} barbers - Every barber; active ones get a column each day.
+ * @property {ShopSettingsType} settings - Opening hours, slot interval and time zone of the shop.
+ * @property {(appointment: Appointment) => void} onEdit - Callback invoked when a booking is clicked.
+ * @property {(slot: GridSlot) => void} onCreate - Callback invoked when an empty cell is clicked,
+ *   with its date, time and barber (null for any barber).
+ * @property {(appointment: Appointment, slot: GridSlot) => void} onMove - Callback invoked when a booking
+ *   is dropped on another cell, with the cell it was dropped on.
+ */
+interface AppointmentCalendarGridProps {
+  appointments: Appointment[];
+  barbers: BarberType[];
+  settings: ShopSettingsType;
+  onEdit: (appointment: Appointment) => void;
+  onCreate: (slot: GridSlot) => void;
+  onMove: (appointment: Appointment, slot: GridSlot) => void;
+}
+
+/**
+ * @component AppointmentCalendarGrid
+ * @description Renders the toolbar (previous/today/next and the day/week switch) and the grid:
+ * a time gutter, then for each day its barbers' columns. Open, future cells can be clicked to book;
+ * closed or past cells are greyed out. Overlapping bookings are drawn side by side, with their buffers
+ * as bands that cells can still be clicked through.
+ * While a booking is dragged, the other bookings let the cells under them receive the drop,
+ * and the cell under the pointer is highlighted; closed, past and "Unassigned" cells refuse it.
+ * @param {AppointmentCalendarGridProps} props - The props for the component.
+ */
+export function AppointmentCalendarGrid({
+  appointments,
+  barbers,
+  settings,
+  onEdit,
+  onCreate,
+  onMove,
+}: AppointmentCalendarGridProps) {
+  const { timeZone, slotInterval } = settings;
+  const [view, setView] = useState<GridView>("day");
+  const [anchor, setAnchor] = useState(() => formatInZone(new Date(), "yyyy-MM-dd", timeZone));
+  // The booking being dragged, and the cell it is over
+  const [dragged, setDragged] = useState<Appointment | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const dates = gridDates(view, anchor);
+  const shown = visibleAppointments(appointments, dates, timeZone);
+  const columns = buildColumns(dates, barbers, shown, timeZone);
+  const range = gridRange(settings, dates, shown);
+  const rows = Array.from({ length: (range.end - range.start) / slotInterval }, (_, i) => range.start + i * slotInterval);
+  const pixelsPerMinute = ROW_HEIGHT / slotInterval;
+  const hasBarberColumns = columns.some((column) => !column.allBarbers);
+  const now = Date.now();
+
+  /**
+   * Moves the grid one day or one week back or forward.
+   */
+  const step = (direction: 1 | -1) => setAnchor((current) => shiftDate(current, direction * (view === "day" ? 1 : 7)));
+
+  /**
+   * Whether a cell can be clicked to book: the shop is open for the whole slot and it has not started yet.
+   */
+  const isBookable = (date: string, minute: number) => {
+    const hours = getBusinessHours(settings, date);
+    const time = minutesToTime(minute);
+    return !!hours && fitsBusinessHours(time, slotInterval, hours) && toDateTime(date, time, timeZone).getTime() > now;
+  };
+
+  /**
+   * Starts dragging a booking. The grid switches to drop mode on the next tick, as changing
+   * the dragged element during `dragstart` cancels the drag in some browsers.
+   */
+  const startDrag = (event: React.DragEvent, appointment: Appointment) => {
+    event.dataTransfer.setData("text/plain", appointment._id);
+    event.dataTransfer.effectAllowed = "move";
+    setTimeout(() => setDragged(appointment));
+  };
+
+  /**
+   * Ends a drag, dropped or not.
+   */
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  /**
+   * Whether a column's open cells take the dragged booking: every column but "Unassigned" does.
+   */
+  const acceptsDrop = (column: GridColumn) => !!dragged && (column.allBarbers || column.barberId !== null);
+
+  /**
+   * Moves the dragged booking to a cell, unless it was dropped where it already is.
+   */
+  const drop = (column: GridColumn, minute: number) => {
+    if (!dragged || !acceptsDrop(column)) return;
+    const slot = { date: column.date, time: minutesToTime(minute), barberId: column.barberId };
+    const unchanged =
+      formatInZone(dragged.date, "yyyy-MM-dd HH:mm", timeZone) === `${slot.date} ${slot.time}` &&
+      (column.allBarbers || (dragged.barber?._id ?? null) === slot.barberId);
+    endDrag();
+    if (!unchanged) onMove(dragged, slot);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 space-y-4">
+      {/* Toolbar: navigation and view switch */}
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" onClick={() => step(-1)} aria-label={`Previous ${view}`}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setAnchor(formatInZone(new Date(), "yyyy-MM-dd", timeZone))}>
+            Today
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => step(1)} aria-label={`Next ${view}`}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="ml-2 font-semibold text-barber-brown">
+            {view === "day"
+              ? format(parseISO(anchor), "EEEE, MMMM d, yyyy")
+              : `${format(parseISO(dates[0]), "MMM d")} – ${format(parseISO(dates[dates.length - 1]), "MMM d, yyyy")}`}
+          </span>
+        </div>
+        <div className="bg-barber-cream p-1 rounded-lg inline-flex">
+          <Button size="sm" variant={view === "day" ? "default" : "ghost"} onClick={() => setView("day")}>
+            Day
+          </Button>
+          <Button size="sm" variant={view === "week" ? "default" : "ghost"} onClick={() => setView("week")}>
+            Week
+          </Button>
+        </div>
+      </div>
+
+      {/* Grid: time gutter, then each day's columns */}
+      <div className="overflow-x-auto">
+        <div className="flex min-w-max text-xs">
+          <div className="w-14 flex-shrink-0">
+            <div className={hasBarberColumns ? "h-14" : "h-8"} />
+            {rows.map((minute) => (
+              <div key={minute} style={{ height: ROW_HEIGHT }} className="pr-2 text-right text-gray-500 -translate-y-2">
+                {minute % 60 === 0 || slotInterval >= 60 ? minutesToTime(minute) : ""}
+              </div>
+            ))}
+          </div>
+          {dates.map((date) => {
+            const dayColumns = columns.filter((column) => column.date === date);
+            return (
+              <div key={date} className="flex flex-col border-l border-barber-cream">
+                <div className="h-8 flex items-center justify-center font-semibold text-gray-700 bg-barber-cream/50">
+                  {format(parseISO(date), view === "day" ? "EEEE" : "EEE MMM d")}
+                </div>
+                <div className="flex">
+                  {dayColumns.map((column) => (
+                    <div key={column.key} className="w-32 flex-shrink-0 border-l first:border-l-0 border-gray-100">
+                      {hasBarberColumns && (
+                        <div className="h-6 flex items-center justify-center text-gray-600 truncate px-1">{column.label}</div>
+                      )}
+                      <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+                        {/* Cells: open, future ones book an appointment when clicked, or take a dragged booking */}
+                        {rows.map((minute) =>
+                          isBookable(date, minute) ? (
+                            <button
+                              key={minute}
+                              type="button"
+                              onClick={() => onCreate({ date, time: minutesToTime(minute), barberId: column.barberId })}
+                              onDragEnter={() => acceptsDrop(column) && setDropTarget(`${column.key}-${minute}`)}
+                              onDragOver={(event) => acceptsDrop(column) && event.preventDefault()}
+                              onDrop={(event) => {
+                                event.preventDefault();
+                                drop(column, minute);
+                              }}
+                              style={{ height: ROW_HEIGHT }}
+                              className={`block w-full border-t border-gray-100 hover:bg-barber-cream/60 ${
+                                dropTarget === `${column.key}-${minute}` ? "bg-barber-cream" : ""
+                              }`}
+                              aria-label={`Book ${column.label} on ${date} at ${minutesToTime(minute)}`}
+                            />
+                          ) : (
+                            <div key={minute} style={{ height: ROW_HEIGHT }} className="border-t border-gray-100 bg-gray-50" />
+                          )
+                        )}
+                        {/* Bookings: as long as their visit, side by side where they overlap, between their buffers */}
+                        {layoutColumn(column, shown, timeZone, barbers).map(({ appointment, start, end, lane, lanes, buffers }) => (
+                          <React.Fragment key={appointment._id}>
+                            {[
+                              { key: "before", from: Math.max(start - buffers.before, range.start), to: start },
+                              { key: "after", from: end, to: Math.min(end + buffers.after, range.end) },
+                            ]
+                              .filter((band) => band.to > band.from)
+                              .map((band) => (
+                                <div
+                                  key={band.key}
+                                  aria-hidden
+                                  style={{
+                                    top: (band.from - range.start) * pixelsPerMinute,
+                                    height: (band.to - band.from) * pixelsPerMinute,
+                                    left: `${(lane / lanes) * 100}%`,
+                                    width: `${100 / lanes}%`,
+                                    backgroundImage:
+                                      "repeating-linear-gradient(45deg, transparent 0 4px, rgba(107, 114, 128, 0.25) 4px 8px)",
+                                  }}
+                                  className="absolute pointer-events-none"
+                                />
+                              ))}
+                            <button
+                              type="button"
+                              onClick={() => onEdit(appointment)}
+                              draggable={isMovable(appointment)}
+                              onDragStart={(event) => startDrag(event, appointment)}
+                              onDragEnd={endDrag}
+                              style={{
+                                top: (start - range.start) * pixelsPerMinute,
+                                height: Math.max((end - start) * pixelsPerMinute, ROW_HEIGHT / 2),
+                                left: `${(lane / lanes) * 100}%`,
+                                width: `${100 / lanes}%`,
+                              }}
+                              className={`absolute overflow-hidden rounded-md border border-white px-1 text-left leading-tight shadow-sm ${
+                                STATUS_BADGE_CLASSES[appointment.status] ?? "bg-gray-100 text-gray-700"
+                              } ${isMovable(appointment) ? "cursor-grab" : ""} ${dragged ? "pointer-events-none" : ""} ${
+                                dragged?._id === appointment._id ? "opacity-50" : ""
+                              }`}
+                              title={`${minutesToTime(start)}–${minutesToTime(end)} ${appointment.user?.name ?? "Client not found"}: ${describeVisit(appointment)} (${STATUS_LABELS[appointment.status] ?? appointment.status})`}
+                            >
+                              <span className="block font-semibold truncate">
+                                {minutesToTime(start)} {appointment.user?.name ?? "Client not found"}
+                              </span>
+                              <span className="block truncate">{describeVisit(appointment)}</span>
+                            </button>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 /**
  * @file barbershop_app/app/components/sections/admin/appointmentManagementTab.tsx
  * @description Final version of the AppointmentManagementTab component.
- * This component displays a sortable list of appointments, showing client and service information,
- * formatted date and time, status indicators, and action buttons to edit or delete each appointment.
+ * This component displays a sortable list of appointments, showing client, services (every service of a visit) and barber information,
+ * date and time formatted in the shop's time zone, status indicators (marking recurring appointments), and action buttons to edit or delete each appointment.
  * It is designed to handle nested populated data and uses the MongoDB _id as the unique key.
  */
 
@@ -10,9 +10,11 @@
 
 import React from "react";
 import { Button } from "@/app/components/ui/button";
-import { Edit, Trash } from "lucide-react";
-import { format, parseISO } from "date-fns";
+import { Edit, Repeat, Trash } from "lucide-react";
 import { Appointment } from "@/app/types";
+import { formatInZone } from "@/lib/availability";
+import { STATUS_BADGE_CLASSES, STATUS_LABELS } from "@/lib/appointmentStatus";
+import { describeVisit, visitDuration } from "@/lib/visit";
 
 /**
  * Defines the props accepted by the AppointmentManagementTab component.
@@ -20,9 +22,11 @@ import { Appointment } from "@/app/types";
  * @property {Appointment[]} appointments - The list of appointments to display.
  * @property {(appointment: Appointment) => void} onEdit - Callback for handling the edit action.
  * @property {(appointmentId: string) => void} onDelete - Callback for handling the delete action.
+ * @property {string} timeZone - The shop's time zone, used to display dates and times.
  */
 interface AppointmentManagementTabProps {
   appointments: Appointment[];
+  timeZone: string;
   onEdit: (appointment: Appointment) => void;
   onDelete: (appointmentId: string) => void;
 }
@@ -31,7 +35,7 @@ interface AppointmentManagementTabProps {
  * AppointmentManagementTab component.
  *
  * This component renders a table that lists all appointments.
- * It displays the client name, service name, formatted date and time,
+ * It displays the client name, service name, barber, formatted date and time,
  * status with a color-coded badge, and action buttons to edit or delete each appointment.
  * The appointments are sorted by date in descending order (most recent first).
  * If no appointments are available, an empty state message is shown.
@@ -41,6 +45,7 @@ interface AppointmentManagementTabProps {
  */
 export function AppointmentManagementTab({
   appointments,
+  timeZone,
   onEdit,
   onDelete,
 }: AppointmentManagementTabProps) {
@@ -51,11 +56,12 @@ export function AppointmentManagementTab({
 
   return (
     <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
-      <table className="w-full min-w-[600px]">
+      <table className="w-full min-w-[700px]">
         <thead className="bg-barber-cream text-left text-sm text-gray-700">
           <tr>
             <th className="p-3 sm:p-4 font-semibold">Client</th>
-            <th className="p-3 sm:p-4 font-semibold">Service</th>
+            <th className="p-3 sm:p-4 font-semibold">Services</th>
+            <th className="p-3 sm:p-4 font-semibold">Barber</th>
             <th className="p-3 sm:p-4 font-semibold">Date</th>
             <th className="p-3 sm:p-4 font-semibold">Time</th>
             <th className="p-3 sm:p-4 font-semibold">Status</th>
@@ -72,30 +78,39 @@ export function AppointmentManagementTab({
                   {(appt.user as any)?.name || "Client not found"}
                 </td>
                 <td className="p-3 sm:p-4 whitespace-nowrap">
-                  {/* Safely access the populated service name; fallback if missing */}
-                  {(appt.service as any)?.name || "Service not found"}
+                  {/* Every service of the visit; older appointments only have the populated service */}
+                  {describeVisit(appt)}
+                  {appt.items && appt.items.length > 1 && (
+                    <span className="block text-xs text-gray-500">{visitDuration(appt.items)} min</span>
+                  )}
+                </td>
+                <td className="p-3 sm:p-4 whitespace-nowrap">
+                  {/* Unassigned appointments were booked against the shop's single chair */}
+                  {appt.barber?.name || "Any barber"}
                 </td>
                 <td className="p-3 sm:p-4">
                   {/* Format appointment date as MM/dd/yyyy */}
-                  {format(parseISO(appt.date), "MM/dd/yyyy")}
+                  {formatInZone(appt.date, "MM/dd/yyyy", timeZone)}
                 </td>
                 <td className="p-3 sm:p-4">
                   {/* Format appointment time as HH:mm */}
-                  {format(parseISO(appt.date), "HH:mm")}
+                  {formatInZone(appt.date, "HH:mm", timeZone)}
                 </td>
                 <td className="p-3 sm:p-4">
                   {/* Display status with dynamic styling based on status value */}
                   <span
-                    className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${
-                      appt.status === "scheduled"
-                        ? "bg-blue-100 text-blue-700"
-                        : appt.status === "completed"
-                        ? "bg-green-100 text-green-700"
-                        : "bg-red-100 text-red-700"
+                    className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${
+                      STATUS_BADGE_CLASSES[appt.status] ?? "bg-gray-100 text-gray-700"
                     }`}
                   >
-                    {appt.status}
+                    {STATUS_LABELS[appt.status] ?? appt.status}
                   </span>
+                  {appt.lateCancellation && (
+                    <span className="ml-2 text-xs font-medium text-red-600">Late</span>
+                  )}
+                  {appt.series && (
+                    <Repeat className="inline h-3 w-3 ml-2 text-gray-500" aria-label="Recurring appointment" />
+                  )}
                 </td>
                 <td className="p-3 sm:p-4">
                   {/* Action buttons: Edit and Delete with accessible labels */}
@@ -126,7 +141,7 @@ export function AppointmentManagementTab({
             // Render fallback row if there are no appointments.
             <tr>
               <td
-                colSpan={6}
+                colSpan={7}
                 className="text-center p-8 text-muted-foreground"
                 aria-live="polite"
               >
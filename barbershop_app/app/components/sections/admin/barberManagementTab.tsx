@@ -0,0 +1,106 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/barberManagementTab.tsx
+ * @description Provides a table listing all barbers (staff), using MongoDB `_id` for keys and action handlers.
+ */
+
+"use client";
+
+import React from "react";
+import { Button } from "@/app/components/ui/button";
+import { Edit, Trash } from "lucide-react";
+import { BarberType } from "@/app/types";
+
+/**
+ * Props for the BarberManagementTab component.
+ *
+ * @interface BarberManagementTabProps
+ * @property {BarberType[]} barbers - Array of barbers to display.
+ * @property {(barber: BarberType) => void} onEdit - Callback invoked with the selected barber for editing.
+ * @property {(barberId: string) => void} onDelete - Callback invoked with the barber's `_id` to delete it.
+ */
+interface BarberManagementTabProps {
+  barbers: BarberType[];
+  onEdit: (barber: BarberType) => void;
+  onDelete: (barberId: string) => void;
+}
+
+/**
+ * BarberManagementTab
+ *
+ * Renders a responsive table that lists each barber's name, contact details and
+ * whether they currently accept bookings, along with edit and delete actions.
+ *
+ * @param {BarberManagementTabProps} props - Component properties.
+ * @returns {JSX.Element} The rendered table of barbers.
+ */
+export function BarberManagementTab({
+  barbers,
+  onEdit,
+  onDelete,
+}: BarberManagementTabProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+      <table className="w-full min-w-[600px]">
+        <thead className="bg-barber-cream text-left text-sm text-gray-700">
+          <tr>
+            <th className="p-3 sm:p-4 font-semibold">Name</th>
+            <th className="p-3 sm:p-4 font-semibold">Email</th>
+            <th className="p-3 sm:p-4 font-semibold">Phone</th>
+            <th className="p-3 sm:p-4 font-semibold">Status</th>
+            <th className="p-3 sm:p-4 font-semibold text-center">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-barber-cream text-sm">
+          {barbers.length > 0 ? (
+            barbers.map((barber) => (
+              <tr key={barber._id}>
+                <td className="p-3 sm:p-4 whitespace-nowrap">{barber.name}</td>
+                <td className="p-3 sm:p-4 whitespace-nowrap">{barber.email || "N/A"}</td>
+                <td className="p-3 sm:p-4">{barber.phone || "N/A"}</td>
+                <td className="p-3 sm:p-4">
+                  {/* Only active barbers are offered on the booking page */}
+                  <span
+                    className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      barber.active ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-600"
+                    }`}
+                  >
+                    {barber.active ? "Active" : "Inactive"}
+                  </span>
+                </td>
+                <td className="p-3 sm:p-4">
+                  <div className="flex justify-center space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onEdit(barber)}
+                      className="text-barber-navy border-barber-navy hover:bg-barber-navy hover:text-white"
+                      aria-label={`Edit barber ${barber.name}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onDelete(barber._id)}
+                      className="text-red-500 border-red-500 hover:bg-red-500 hover:text-white"
+                      aria-label={`Delete barber ${barber.name}`}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))
+          ) : (
+            // Render a fallback row when no barbers are registered
+            <tr>
+              <td colSpan={5} className="text-center p-8 text-muted-foreground">
+                No barbers found. Appointments are booked against a single chair.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
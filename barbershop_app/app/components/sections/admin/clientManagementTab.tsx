@@ -1,6 +1,8 @@
 /**
  * @file barbershop_app/app/components/sections/admin/clientManagementTab.tsx
  * @description FINAL VERSION: Corrected to use _id as the React key and for action buttons.
+ * Also shows each client's late cancellations and no-shows recorded under the cancellation policy,
+ * and marks guests who booked without an account.
  */
 
 "use client";
@@ -43,7 +45,7 @@ interface ClientManagementTabProps {
  * ClientManagementTab component.
  *
  * This component renders a table that lists all registered clients,
- * including name, email, phone, and formatted address.
+ * including name, email, phone, formatted address, and late-cancellation and no-show counts.
  * It also provides action buttons to edit or delete each client.
  * Uses the MongoDB _id as the unique React key for each row and for identifying the client in callbacks.
  * Handles the empty state gracefully.
@@ -58,13 +60,15 @@ export function ClientManagementTab({
 }: ClientManagementTabProps) {
   return (
     <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
-      <table className="w-full min-w-[700px]">
+      <table className="w-full min-w-[860px]">
         <thead className="bg-barber-cream text-left text-sm text-gray-700">
           <tr>
             <th className="p-3 sm:p-4 font-semibold">Name</th>
             <th className="p-3 sm:p-4 font-semibold">Email</th>
             <th className="p-3 sm:p-4 font-semibold">Phone</th>
             <th className="p-3 sm:p-4 font-semibold">Address</th>
+            <th className="p-3 sm:p-4 font-semibold text-center">Late cancels</th>
+            <th className="p-3 sm:p-4 font-semibold text-center">No-shows</th>
             <th className="p-3 sm:p-4 font-semibold text-center">Actions</th>
           </tr>
         </thead>
@@ -73,10 +77,17 @@ export function ClientManagementTab({
             clients.map((client) => (
               // Uses client._id as a unique key to ensure stable rendering.
               <tr key={client._id}>
-                <td className="p-3 sm:p-4 whitespace-nowrap">{client.name}</td>
+                <td className="p-3 sm:p-4 whitespace-nowrap">
+                  {client.name}
+                  {client.isGuest && (
+                    <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">Guest</span>
+                  )}
+                </td>
                 <td className="p-3 sm:p-4 whitespace-nowrap">{client.email}</td>
                 <td className="p-3 sm:p-4">{client.phone}</td>
                 <td className="p-3 sm:p-4">{formatAddress(client.address)}</td>
+                <td className="p-3 sm:p-4 text-center">{client.lateCancellations ?? 0}</td>
+                <td className="p-3 sm:p-4 text-center">{client.noShows ?? 0}</td>
                 <td className="p-3 sm:p-4">
                   <div className="flex justify-center space-x-2">
                     <Button
@@ -103,7 +114,7 @@ export function ClientManagementTab({
           ) : (
             // Displays a fallback row when there are no clients to list.
             <tr>
-              <td colSpan={5} className="text-center p-8 text-muted-foreground">
+              <td colSpan={7} className="text-center p-8 text-muted-foreground">
                 No clients found.
               </td>
             </tr>
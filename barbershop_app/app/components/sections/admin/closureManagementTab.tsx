@@ -0,0 +1,112 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/closureManagementTab.tsx
+ * @description Provides a table listing all closures (holidays, renovations, barbers' days off),
+ * using MongoDB `_id` for keys and action handlers.
+ */
+
+"use client";
+
+import React from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/app/components/ui/button";
+import { Edit, Trash } from "lucide-react";
+import { ClosureType } from "@/app/types";
+
+/**
+ * Props for the ClosureManagementTab component.
+ *
+ * @interface ClosureManagementTabProps
+ * @property {ClosureType[]} closures - Array of closures to display.
+ * @property {(closure: ClosureType) => void} onEdit - Callback invoked with the selected closure for editing.
+ * @property {(closureId: string) => void} onDelete - Callback invoked with the closure's `_id` to delete it.
+ */
+interface ClosureManagementTabProps {
+  closures: ClosureType[];
+  onEdit: (closure: ClosureType) => void;
+  onDelete: (closureId: string) => void;
+}
+
+/**
+ * Formats a closure's dates as a single day or an inclusive range (e.g. "Dec 24 – Dec 26, 2025").
+ */
+const formatDates = (closure: ClosureType) => {
+  const start = format(parseISO(closure.startDate), "MMM dd, yyyy");
+  if (closure.startDate === closure.endDate) return start;
+  return `${start} – ${format(parseISO(closure.endDate), "MMM dd, yyyy")}`;
+};
+
+/**
+ * ClosureManagementTab
+ *
+ * Renders a responsive table that lists each closure's dates, hours, the barber
+ * it applies to (or the whole shop) and its reason, along with edit and delete actions.
+ *
+ * @param {ClosureManagementTabProps} props - Component properties.
+ * @returns {JSX.Element} The rendered table of closures.
+ */
+export function ClosureManagementTab({
+  closures,
+  onEdit,
+  onDelete,
+}: ClosureManagementTabProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+      <table className="w-full min-w-[600px]">
+        <thead className="bg-barber-cream text-left text-sm text-gray-700">
+          <tr>
+            <th className="p-3 sm:p-4 font-semibold">Dates</th>
+            <th className="p-3 sm:p-4 font-semibold">Hours</th>
+            <th className="p-3 sm:p-4 font-semibold">Applies to</th>
+            <th className="p-3 sm:p-4 font-semibold">Reason</th>
+            <th className="p-3 sm:p-4 font-semibold text-center">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-barber-cream text-sm">
+          {closures.length > 0 ? (
+            closures.map((closure) => (
+              <tr key={closure._id}>
+                <td className="p-3 sm:p-4 whitespace-nowrap">{formatDates(closure)}</td>
+                <td className="p-3 sm:p-4 whitespace-nowrap">
+                  {closure.startTime && closure.endTime
+                    ? `${closure.startTime} – ${closure.endTime}`
+                    : "All day"}
+                </td>
+                <td className="p-3 sm:p-4">{closure.barber?.name || "Whole shop"}</td>
+                <td className="p-3 sm:p-4">{closure.reason}</td>
+                <td className="p-3 sm:p-4">
+                  <div className="flex justify-center space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onEdit(closure)}
+                      className="text-barber-navy border-barber-navy hover:bg-barber-navy hover:text-white"
+                      aria-label={`Edit closure ${closure.reason}`}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onDelete(closure._id)}
+                      className="text-red-500 border-red-500 hover:bg-red-500 hover:text-white"
+                      aria-label={`Delete closure ${closure.reason}`}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))
+          ) : (
+            // Render a fallback row when no closures are scheduled
+            <tr>
+              <td colSpan={5} className="text-center p-8 text-muted-foreground">
+                No closures scheduled.
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 /**
  * @file barbershop_app/app/components/sections/admin/editAppointmentModal.tsx
- * @description FINAL VERSION: The 'capitalize' utility is now safe for undefined and null values.
+ * @description The status picker only offers the changes the status lifecycle allows from the current status.
+ * The time picker lists the slots the shop settings and availability engine allow on the chosen date.
+ * Dates and times are shown and edited in the shop's time zone.
+ * For recurring appointments, the change can also be applied to the later occurrences of the series.
+ * The client's style profile, their note and reference photos are shown alongside, and staff can record notes on the visit.
  */
 
 "use client";
 
 import React, { useState, useEffect } from "react";
-import { format, parseISO } from "date-fns";
+import Image from "next/image";
 import {
   Dialog,
   DialogContent,
@@ -18,8 +22,14 @@ import {
 import { Button } from "@/app/components/ui/button";
 import { Input } from "@/app/components/ui/input";
 import { Label } from "@/app/components/ui/label";
+import { Textarea } from "@/app/components/ui/textArea";
 import { toast } from "sonner";
-import { Appointment } from "@/app/types";
+import { Appointment, AppointmentChanges, AppointmentStatus, SeriesScope } from "@/app/types";
+import { getAvailableTimes } from "@/app/actions/appointmentActions";
+import { formatInZone } from "@/lib/availability";
+import { STATUS_LABELS, STATUS_TRANSITIONS } from "@/lib/appointmentStatus";
+import { describeVisit, visitDuration, visitPrice, visitServiceIds } from "@/lib/visit";
+import { MAX_NOTE_LENGTH } from "@/lib/appointmentNotes";
 
 /**
  * Props definition for the EditAppointmentModal component.
@@ -27,39 +37,27 @@ import { Appointment } from "@/app/types";
  * @property {boolean} isOpen - Controls the visibility of the modal.
  * @property {(isOpen: boolean) => void} onOpenChange - Callback to toggle the modal state.
  * @property {Appointment | null} appointment - The appointment being edited.
- * @property {(appointmentId: string, appointmentData: Partial<Appointment>) => Promise<void>} onSave - Async function to save the updated appointment.
+ * @property {string} timeZone - The shop's time zone, in which the date and time are edited.
+ * @property {(appointmentId: string, appointmentData: AppointmentChanges, scope: SeriesScope) => Promise<void>} onSave - Async function to save the updated appointment (and, with the 'following' scope, the rest of its series).
  */
 interface EditAppointmentModalProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
   appointment: Appointment | null;
+  timeZone: string;
   onSave: (
     appointmentId: string,
-    appointmentData: Partial<Appointment>
+    appointmentData: AppointmentChanges,
+    scope: SeriesScope
   ) => Promise<void>;
 }
 
-// =========================================================================
-// IMPROVED: 'capitalize' now safely handles empty, null, or undefined input.
-// =========================================================================
-
-/**
- * Converts the first character of a string to uppercase.
- * If the input is nullish or empty, returns an empty string instead.
- *
- * @param {string | undefined | null} s - The input string.
- * @returns {string} The capitalized string.
- */
-const capitalize = (s: string | undefined | null): string => {
-  if (!s) return "";
-  return s.charAt(0).toUpperCase() + s.slice(1);
-};
-
 /**
  * Modal component for editing an existing appointment.
  *
  * Displays a form with pre-filled appointment data,
- * allows the admin to modify date, time, or status,
+ * allows the admin to modify date, time (from the slots available that day), status
+ * (limited to the current status and the ones it may change to), or staff notes,
  * validates input fields, and submits changes via the onSave callback.
  * Automatically resets form fields when reopened.
  *
@@ -70,14 +68,25 @@ export function EditAppointmentModal({
   isOpen,
   onOpenChange,
   appointment,
+  timeZone,
   onSave,
 }: EditAppointmentModalProps) {
-  // Local state to store the form inputs for date, time, and status.
-  const [formState, setFormState] = useState({
+  // Local state to store the form inputs for date, time, status, and staff notes.
+  const [formState, setFormState] = useState<{
+    date: string;
+    time: string;
+    status: AppointmentStatus;
+    staffNotes: string;
+  }>({
     date: "",
     time: "",
-    status: "Scheduled",
+    status: "scheduled",
+    staffNotes: "",
   });
+  // Which occurrences of a recurring appointment the change applies to.
+  const [scope, setScope] = useState<SeriesScope>("one");
+  // Start times the appointment can move to on the selected date.
+  const [availableTimes, setAvailableTimes] = useState<string[]>([]);
 
   /**
    * Effect to initialize or reset form fields whenever
@@ -86,29 +95,60 @@ export function EditAppointmentModal({
   useEffect(() => {
     if (appointment) {
       const formDate = appointment.date
-        ? format(parseISO(appointment.date), "yyyy-MM-dd")
+        ? formatInZone(appointment.date, "yyyy-MM-dd", timeZone)
         : "";
       const formTime = appointment.date
-        ? format(parseISO(appointment.date), "HH:mm")
+        ? formatInZone(appointment.date, "HH:mm", timeZone)
         : "";
       setFormState({
         date: formDate,
         time: formTime,
-        status: capitalize(appointment.status),
+        status: appointment.status,
+        staffNotes: appointment.staffNotes || "",
       });
+      setScope("one");
     }
-  }, [appointment, isOpen]);
+  }, [appointment, isOpen, timeZone]);
+
+  /**
+   * Effect to load the free slots for the appointment's visit and barber
+   * whenever the selected date changes.
+   */
+  useEffect(() => {
+    if (!appointment || !formState.date) {
+      setAvailableTimes([]);
+      return;
+    }
+    const fetchTimes = async () => {
+      const times = await getAvailableTimes(
+        formState.date,
+        visitServiceIds(appointment),
+        appointment.barber?._id,
+        appointment._id
+      );
+      setAvailableTimes(times);
+    };
+    fetchTimes();
+  }, [appointment, formState.date]);
 
   // If no appointment is selected, render nothing.
   if (!appointment) return null;
 
+  // Keep the current time selectable on its own date so past appointments can still change status.
+  const originalDate = appointment.date ? formatInZone(appointment.date, "yyyy-MM-dd", timeZone) : "";
+  const originalTime = appointment.date ? formatInZone(appointment.date, "HH:mm", timeZone) : "";
+  const timeOptions =
+    formState.date === originalDate && originalTime && !availableTimes.includes(originalTime)
+      ? [originalTime, ...availableTimes].sort()
+      : availableTimes;
+
   /**
    * Handles updates to form input fields.
    *
-   * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement>} e - Change event.
+   * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>} e - Change event.
    */
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
   ) => {
     const { name, value } = e.target;
     setFormState((prev) => ({ ...prev, [name]: value }));
@@ -125,13 +165,14 @@ export function EditAppointmentModal({
       return;
     }
 
-    const saveData: Partial<Appointment> = {
+    const saveData: AppointmentChanges = {
       date: formState.date,
       time: formState.time, // Server will combine date and time if needed.
-      status: formState.status.toLowerCase() as Appointment["status"],
+      status: formState.status,
+      staffNotes: formState.staffNotes,
     };
 
-    await onSave(appointment._id, saveData);
+    await onSave(appointment._id, saveData, scope);
     onOpenChange(false);
   };
 
@@ -149,9 +190,44 @@ export function EditAppointmentModal({
             <p className="col-span-3 font-medium">{(appointment.user as any)?.name || 'N/A'}</p>
           </div>
           <div className="grid grid-cols-4 items-center gap-4">
-            <Label className="text-right col-span-1">Service</Label>
-            <p className="col-span-3 font-medium">{(appointment.service as any)?.name || 'N/A'}</p>
+            <Label className="text-right col-span-1">Services</Label>
+            <p className="col-span-3 font-medium">
+              {describeVisit(appointment)}
+              {appointment.items && appointment.items.length > 1 && (
+                <span className="block text-xs font-normal text-gray-500">
+                  {visitDuration(appointment.items)} min · ${visitPrice(appointment.items).toFixed(2)}
+                </span>
+              )}
+            </p>
           </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label className="text-right col-span-1">Barber</Label>
+            <p className="col-span-3 font-medium">{appointment.barber?.name || 'Any barber'}</p>
+          </div>
+          {appointment.user?.styleProfile && (
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right col-span-1">Style</Label>
+              <p className="col-span-3 text-sm whitespace-pre-line">{appointment.user.styleProfile}</p>
+            </div>
+          )}
+          {appointment.clientNotes && (
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right col-span-1">Client note</Label>
+              <p className="col-span-3 text-sm whitespace-pre-line">{appointment.clientNotes}</p>
+            </div>
+          )}
+          {appointment.photos && appointment.photos.length > 0 && (
+            <div className="grid grid-cols-4 items-start gap-4">
+              <Label className="text-right col-span-1">Photos</Label>
+              <div className="col-span-3 flex gap-2">
+                {appointment.photos.map((photo, index) => (
+                  <a key={photo} href={photo} target="_blank" rel="noopener noreferrer" className="relative h-16 w-16 rounded-md overflow-hidden border">
+                    <Image src={photo} alt={`Reference photo ${index + 1}`} fill unoptimized className="object-cover" />
+                  </a>
+                ))}
+              </div>
+            </div>
+          )}
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="apptFormDateModal" className="text-right col-span-1">Date</Label>
             <Input
@@ -165,14 +241,18 @@ export function EditAppointmentModal({
           </div>
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="apptFormTimeModal" className="text-right col-span-1">Time</Label>
-            <Input
+            <select
               id="apptFormTimeModal"
               name="time"
-              type="time"
               value={formState.time}
               onChange={handleChange}
-              className="col-span-3"
-            />
+              className="col-span-3 border-input rounded-md p-2 h-10 w-full bg-transparent border"
+            >
+              {!timeOptions.includes(formState.time) && <option value="">Select a time</option>}
+              {timeOptions.map((time) => (
+                <option key={time} value={time}>{time}</option>
+              ))}
+            </select>
           </div>
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="apptFormStatusModal" className="text-right col-span-1">Status</Label>
@@ -183,11 +263,39 @@ export function EditAppointmentModal({
               onChange={handleChange}
               className="col-span-3 border-input rounded-md p-2 h-10 w-full bg-transparent border"
             >
-              <option value="Scheduled">Scheduled</option>
-              <option value="Completed">Completed</option>
-              <option value="Cancelled">Cancelled</option>
+              {[appointment.status, ...(STATUS_TRANSITIONS[appointment.status] ?? [])].map((status) => (
+                <option key={status} value={status}>
+                  {STATUS_LABELS[status] ?? status}
+                </option>
+              ))}
             </select>
           </div>
+          {appointment.series && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="apptFormScopeModal" className="text-right col-span-1">Apply to</Label>
+              <select
+                id="apptFormScopeModal"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as SeriesScope)}
+                className="col-span-3 border-input rounded-md p-2 h-10 w-full bg-transparent border"
+              >
+                <option value="one">Only this appointment</option>
+                <option value="following">This and following appointments</option>
+              </select>
+            </div>
+          )}
+          <div className="grid grid-cols-4 items-start gap-4">
+            <Label htmlFor="apptFormStaffNotesModal" className="text-right col-span-1 pt-2">Staff notes</Label>
+            <Textarea
+              id="apptFormStaffNotesModal"
+              name="staffNotes"
+              value={formState.staffNotes}
+              onChange={handleChange}
+              maxLength={MAX_NOTE_LENGTH}
+              placeholder="e.g. 0.5 guard on sides, scissor top"
+              className="col-span-3"
+            />
+          </div>
         </div>
         <DialogFooter>
           <DialogClose asChild>
@@ -0,0 +1,208 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/editBarberModal.tsx
+ * @description Provides a modal dialog for creating new barbers or editing existing ones,
+ * preserving any provided `_id` on save.
+ */
+
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { BarberType } from "@/app/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/app/components/ui/dialog";
+
+/**
+ * Props for the EditBarberModal component.
+ *
+ * @property {boolean} isOpen – Whether the modal is currently displayed.
+ * @property {(isOpen: boolean) => void} onOpenChange – Callback to open or close the modal.
+ * @property {BarberType | null} barber – The barber to edit; null triggers creation mode.
+ * @property {(barberData: Partial<BarberType>) => Promise<void>} onSave – Async handler
+ *   that receives the barber object (including `_id` when editing) to persist.
+ */
+interface EditBarberModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  barber: BarberType | null;
+  onSave: (barberData: Partial<BarberType>) => Promise<void>;
+}
+
+/**
+ * EditBarberModal
+ *
+ * Renders a form inside a modal for creating or updating a barber.
+ * - If `barber` is provided, the form is pre-filled with its values.
+ * - Otherwise, fields start empty and the barber is active by default.
+ * - Validates that a name is supplied before saving.
+ * - Buffers are the minutes the barber keeps free before and after each appointment, on top of
+ *   the service's own (the longer applies); they only show on the admin calendar.
+ */
+export function EditBarberModal({
+  isOpen,
+  onOpenChange,
+  barber,
+  onSave,
+}: EditBarberModalProps) {
+  // Holds the form data; uses Partial<BarberType> to allow empty initial state.
+  const [formState, setFormState] = useState<Partial<BarberType>>({});
+
+  /**
+   * Synchronize form fields with the incoming `barber` prop whenever it changes
+   * or the modal is opened/closed.
+   */
+  useEffect(() => {
+    if (barber) {
+      setFormState({ ...barber });
+    } else {
+      setFormState({ name: "", email: "", phone: "", active: true, bufferBefore: 0, bufferAfter: 0 });
+    }
+  }, [barber, isOpen]);
+
+  /**
+   * Change handler for text and number inputs and the active checkbox.
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target;
+    setFormState((prev) => ({
+      ...prev,
+      [name]: type === "checkbox" ? checked : type === "number" ? parseInt(value, 10) || 0 : value,
+    }));
+  };
+
+  /**
+   * handleSave
+   *
+   * - Ensures `name` is non-empty and the buffers are not negative.
+   * - On success, invokes `onSave` with the full `formState` and closes the modal.
+   */
+  const handleSave = async () => {
+    if (!formState.name?.trim()) {
+      toast.error("Barber name is required.");
+      return;
+    }
+    if ((formState.bufferBefore ?? 0) < 0 || (formState.bufferAfter ?? 0) < 0) {
+      toast.error("Buffers cannot be negative.");
+      return;
+    }
+    await onSave({ ...formState, name: formState.name.trim() });
+    onOpenChange(false);
+  };
+
+  // Determines if the dialog is in creation mode (no existing barber).
+  const isNewBarber = !barber;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>
+            {isNewBarber ? "Create New Barber" : `Edit Barber: ${barber?.name}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="barberFormNameModal" className="text-right col-span-1">
+              Name
+            </Label>
+            <Input
+              id="barberFormNameModal"
+              name="name"
+              value={formState.name || ""}
+              onChange={handleChange}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="barberFormEmailModal" className="text-right col-span-1">
+              Email
+            </Label>
+            <Input
+              id="barberFormEmailModal"
+              name="email"
+              type="email"
+              value={formState.email || ""}
+              onChange={handleChange}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="barberFormPhoneModal" className="text-right col-span-1">
+              Phone
+            </Label>
+            <Input
+              id="barberFormPhoneModal"
+              name="phone"
+              value={formState.phone || ""}
+              onChange={handleChange}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="barberFormBufferBeforeModal" className="text-right col-span-1">
+              Buffer before (min)
+            </Label>
+            <Input
+              id="barberFormBufferBeforeModal"
+              name="bufferBefore"
+              type="number"
+              value={formState.bufferBefore ?? 0}
+              onChange={handleChange}
+              className="col-span-3"
+              min="0"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="barberFormBufferAfterModal" className="text-right col-span-1">
+              Buffer after (min)
+            </Label>
+            <Input
+              id="barberFormBufferAfterModal"
+              name="bufferAfter"
+              type="number"
+              value={formState.bufferAfter ?? 0}
+              onChange={handleChange}
+              className="col-span-3"
+              min="0"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="barberFormActiveModal" className="text-right col-span-1">
+              Active
+            </Label>
+            <input
+              id="barberFormActiveModal"
+              name="active"
+              type="checkbox"
+              checked={formState.active ?? true}
+              onChange={handleChange}
+              className="col-span-3 h-4 w-4 justify-self-start"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button
+            onClick={handleSave}
+            className="bg-barber-brown text-white hover:bg-barber-dark-brown"
+          >
+            Save Barber
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
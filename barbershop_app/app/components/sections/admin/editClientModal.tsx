@@ -17,8 +17,10 @@ import {
 import { Button } from "@/app/components/ui/button";
 import { Input } from "@/app/components/ui/input";
 import { Label } from "@/app/components/ui/label";
+import { Textarea } from "@/app/components/ui/textArea";
 import { toast } from "sonner";
 import { User } from "@/app/types";
+import { MAX_NOTE_LENGTH } from "@/lib/appointmentNotes";
 
 /**
  * Defines the props accepted by the EditClientModal component.
@@ -42,7 +44,7 @@ const PHONE_REGEX = /^[0-9\s-()+]*$/;
  * EditClientModal component.
  *
  * This modal provides a form to edit a user's information,
- * including name, email, phone number, and role.
+ * including name, email, phone number, role, and style profile.
  * It validates required fields and ensures phone number format.
  * Changes are submitted via the provided onSave handler.
  *
@@ -69,6 +71,7 @@ export function EditClientModal({
         phone: client.phone,
         address: client.address,
         role: client.role,
+        styleProfile: client.styleProfile || "",
       });
     }
   }, [client]);
@@ -79,10 +82,10 @@ export function EditClientModal({
   /**
    * Updates the form state when an input or select value changes.
    *
-   * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement>} e - The change event.
+   * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>} e - The change event.
    */
   const handleChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
   ) => {
     const { name, value } = e.target;
     setFormState((prev: Partial<User>) => ({ ...prev, [name]: value }));
@@ -168,6 +171,18 @@ export function EditClientModal({
               <option value="admin">Admin</option>
             </select>
           </div>
+          <div className="grid grid-cols-4 items-start gap-4">
+            <Label htmlFor="clientFormStyleModal" className="text-right col-span-1 pt-2">Style</Label>
+            <Textarea
+              id="clientFormStyleModal"
+              name="styleProfile"
+              value={formState.styleProfile || ""}
+              onChange={handleChange}
+              maxLength={MAX_NOTE_LENGTH}
+              placeholder="How the client likes their hair done"
+              className="col-span-3"
+            />
+          </div>
         </div>
         <DialogFooter>
           <DialogClose asChild>
@@ -0,0 +1,241 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/editClosureModal.tsx
+ * @description Provides a modal dialog for creating new closures or editing existing ones,
+ * preserving any provided `_id` on save.
+ */
+
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { BarberType, ClosureType } from "@/app/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/app/components/ui/dialog";
+
+/**
+ * Props for the EditClosureModal component.
+ *
+ * @property {boolean} isOpen – Whether the modal is currently displayed.
+ * @property {(isOpen: boolean) => void} onOpenChange – Callback to open or close the modal.
+ * @property {ClosureType | null} closure – The closure to edit; null triggers creation mode.
+ * @property {BarberType[]} barbers – Barbers a closure can be restricted to.
+ * @property {(closureData: Partial<ClosureType>) => Promise<void>} onSave – Async handler
+ *   that receives the closure object (including `_id` when editing) to persist.
+ */
+interface EditClosureModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  closure: ClosureType | null;
+  barbers: BarberType[];
+  onSave: (closureData: Partial<ClosureType>) => Promise<void>;
+}
+
+/**
+ * EditClosureModal
+ *
+ * Renders a form inside a modal for creating or updating a closure.
+ * - If `closure` is provided, the form is pre-filled with its values.
+ * - Otherwise, the closure starts as a single, full day for the whole shop.
+ * - Unchecking "All day" reveals the time range the closure applies to on each day.
+ * - Validates that a reason and the dates are supplied before saving.
+ */
+export function EditClosureModal({
+  isOpen,
+  onOpenChange,
+  closure,
+  barbers,
+  onSave,
+}: EditClosureModalProps) {
+  // Holds the form data; uses Partial<ClosureType> to allow empty initial state.
+  const [formState, setFormState] = useState<Partial<ClosureType>>({});
+  const [isAllDay, setIsAllDay] = useState(true);
+
+  /**
+   * Synchronize form fields with the incoming `closure` prop whenever it changes
+   * or the modal is opened/closed.
+   */
+  useEffect(() => {
+    if (closure) {
+      setFormState({ ...closure });
+      setIsAllDay(!closure.startTime || !closure.endTime);
+    } else {
+      setFormState({ startDate: "", endDate: "", reason: "", barber: null });
+      setIsAllDay(true);
+    }
+  }, [closure, isOpen]);
+
+  /**
+   * Change handler for text, date and time inputs.
+   */
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormState((prev) => ({ ...prev, [name]: value }));
+  };
+
+  /**
+   * Stores the selected barber as `{ _id, name }`, or null for the whole shop.
+   */
+  const handleBarberChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const barber = barbers.find((b) => b._id === e.target.value);
+    setFormState((prev) => ({ ...prev, barber: barber ? { _id: barber._id, name: barber.name } : null }));
+  };
+
+  /**
+   * handleSave
+   *
+   * - Ensures the reason and first day are non-empty; a missing last day means a single day.
+   * - Drops the times for full-day closures.
+   * - On success, invokes `onSave` with the full `formState` and closes the modal.
+   */
+  const handleSave = async () => {
+    if (!formState.reason?.trim() || !formState.startDate) {
+      toast.error("Reason and date are required.");
+      return;
+    }
+    if (!isAllDay && (!formState.startTime || !formState.endTime)) {
+      toast.error("Please set both times or mark the closure as all day.");
+      return;
+    }
+    await onSave({
+      ...formState,
+      endDate: formState.endDate || formState.startDate,
+      startTime: isAllDay ? undefined : formState.startTime,
+      endTime: isAllDay ? undefined : formState.endTime,
+      reason: formState.reason.trim(),
+    });
+    onOpenChange(false);
+  };
+
+  // Determines if the dialog is in creation mode (no existing closure).
+  const isNewClosure = !closure;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>
+            {isNewClosure ? "Create New Closure" : `Edit Closure: ${closure?.reason}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="closureFormReasonModal" className="text-right col-span-1">
+              Reason
+            </Label>
+            <Input
+              id="closureFormReasonModal"
+              name="reason"
+              placeholder="e.g. Christmas"
+              value={formState.reason || ""}
+              onChange={handleChange}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="closureFormStartDateModal" className="text-right col-span-1">
+              From
+            </Label>
+            <Input
+              id="closureFormStartDateModal"
+              name="startDate"
+              type="date"
+              value={formState.startDate || ""}
+              onChange={handleChange}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="closureFormEndDateModal" className="text-right col-span-1">
+              Until
+            </Label>
+            <Input
+              id="closureFormEndDateModal"
+              name="endDate"
+              type="date"
+              value={formState.endDate || ""}
+              min={formState.startDate}
+              onChange={handleChange}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="closureFormAllDayModal" className="text-right col-span-1">
+              All day
+            </Label>
+            <input
+              id="closureFormAllDayModal"
+              type="checkbox"
+              checked={isAllDay}
+              onChange={(e) => setIsAllDay(e.target.checked)}
+              className="col-span-3 h-4 w-4 justify-self-start"
+            />
+          </div>
+          {!isAllDay && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="closureFormStartTimeModal" className="text-right col-span-1">
+                Hours
+              </Label>
+              <div className="col-span-3 flex items-center gap-2">
+                <Input
+                  id="closureFormStartTimeModal"
+                  name="startTime"
+                  type="time"
+                  value={formState.startTime || ""}
+                  onChange={handleChange}
+                />
+                <span className="text-sm text-muted-foreground">to</span>
+                <Input
+                  name="endTime"
+                  type="time"
+                  value={formState.endTime || ""}
+                  onChange={handleChange}
+                  aria-label="Closure end time"
+                />
+              </div>
+            </div>
+          )}
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="closureFormBarberModal" className="text-right col-span-1">
+              Applies to
+            </Label>
+            <select
+              id="closureFormBarberModal"
+              value={formState.barber?._id ?? ""}
+              onChange={handleBarberChange}
+              className="col-span-3 border-input rounded-md p-2 h-10 bg-transparent border"
+            >
+              <option value="">Whole shop</option>
+              {barbers.map((barber) => (
+                <option key={barber._id} value={barber._id}>
+                  {barber.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button
+            onClick={handleSave}
+            className="bg-barber-brown text-white hover:bg-barber-dark-brown"
+          >
+            Save Closure
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -45,6 +45,8 @@ interface EditServiceModalProps {
  * - If `service` is provided, the form is pre-filled with its values.  
  * - Otherwise, fields start empty or at zero for number inputs.  
  * - Validates that name, price, and duration are supplied before saving.  
+ * - Buffers are the minutes kept free before and after the service (setup, cleanup);
+ *   they only show on the admin calendar, never to clients.  
  * - Uses toast notifications for validation feedback and closes on success.
  */
 export function EditServiceModal({
@@ -70,6 +72,8 @@ export function EditServiceModal({
         name: "",
         price: 0,
         duration: 0,
+        bufferBefore: 0,
+        bufferAfter: 0,
         description: "",
         image: "",
         type: "service",
@@ -101,6 +105,7 @@ export function EditServiceModal({
    * handleSave
    *
    * - Ensures `name` is non-empty, `price` is not null, and `duration` is positive.  
+   * - Ensures the buffers are not negative.  
    * - On validation failure, displays an error toast.  
    * - On success, invokes `onSave` with the full `formState` (including `_id` if editing)
    *   and closes the modal.
@@ -110,6 +115,10 @@ export function EditServiceModal({
       toast.error("Please fill all required service fields (name, price, duration).");
       return;
     }
+    if ((formState.bufferBefore ?? 0) < 0 || (formState.bufferAfter ?? 0) < 0) {
+      toast.error("Buffers cannot be negative.");
+      return;
+    }
     await onSave(formState);
     onOpenChange(false);
   };
@@ -175,6 +184,36 @@ export function EditServiceModal({
             />
           </div>
 
+          {/* Buffer fields: minutes kept free before and after the service */}
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="serviceFormBufferBeforeModal" className="text-right col-span-1">
+              Buffer before (min)
+            </Label>
+            <Input
+              id="serviceFormBufferBeforeModal"
+              name="bufferBefore"
+              type="number"
+              value={formState.bufferBefore ?? 0}
+              onChange={handleChange}
+              className="col-span-3"
+              min="0"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="serviceFormBufferAfterModal" className="text-right col-span-1">
+              Buffer after (min)
+            </Label>
+            <Input
+              id="serviceFormBufferAfterModal"
+              name="bufferAfter"
+              type="number"
+              value={formState.bufferAfter ?? 0}
+              onChange={handleChange}
+              className="col-span-3"
+              min="0"
+            />
+          </div>
+
           {/* Image URL field */}
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="serviceFormImageModal" className="text-right col-span-1">
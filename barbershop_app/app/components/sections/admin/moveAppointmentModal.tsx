@@ -0,0 +1,132 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/moveAppointmentModal.tsx
+ * @description Provides a modal dialog confirming a booking dragged to another cell of the calendar grid,
+ * showing where it moves from and to, and letting the admin choose whether the client is told.
+ */
+
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { parseISO, format } from "date-fns";
+import { Button } from "@/app/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from "@/app/components/ui/dialog";
+import { Appointment, BarberType } from "@/app/types";
+import { formatInZone } from "@/lib/availability";
+import { GridSlot } from "@/lib/calendarGrid";
+import { describeVisit } from "@/lib/visit";
+
+/**
+ * Props for the MoveAppointmentModal component.
+ *
+ * @property {boolean} isOpen – Whether the modal is currently displayed.
+ * @property {(isOpen: boolean) => void} onOpenChange – Callback to open or close the modal.
+ * @property {{ appointment: Appointment; slot: GridSlot } | null} move – The booking dragged and the cell it was dropped on.
+ * @property {BarberType[]} barbers – Every barber, to name the new one.
+ * @property {string} timeZone – The shop's time zone, used to display the current time.
+ * @property {(notifyClient: boolean) => Promise<boolean>} onConfirm – Async handler that moves the booking
+ *   and resolves to whether it succeeded.
+ */
+interface MoveAppointmentModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  move: { appointment: Appointment; slot: GridSlot } | null;
+  barbers: BarberType[];
+  timeZone: string;
+  onConfirm: (notifyClient: boolean) => Promise<boolean>;
+}
+
+/**
+ * MoveAppointmentModal
+ *
+ * Renders the booking's current and new time and barber, and a checkbox (ticked by default)
+ * to notify the client of the change.
+ * - Closes once the move is saved; stays open when the server refuses it (e.g. the barber is busy).
+ */
+export function MoveAppointmentModal({
+  isOpen,
+  onOpenChange,
+  move,
+  barbers,
+  timeZone,
+  onConfirm,
+}: MoveAppointmentModalProps) {
+  const [notifyClient, setNotifyClient] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Ticks the notification box again for every new move.
+   */
+  useEffect(() => {
+    if (move && isOpen) setNotifyClient(true);
+  }, [move, isOpen]);
+
+  if (!move) return null;
+  const { appointment, slot } = move;
+  const newBarber = barbers.find((barber) => barber._id === slot.barberId);
+
+  /**
+   * Saves the move, closing the modal when it succeeds.
+   */
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    const saved = await onConfirm(notifyClient);
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Move Appointment</DialogTitle>
+          <DialogDescription>
+            {appointment.user?.name || "Unknown client"} – {describeVisit(appointment)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2 py-2 text-sm">
+          <p className="text-gray-600">
+            <span className="font-medium">From:</span>{" "}
+            {formatInZone(appointment.date, "EEE MMM d, yyyy 'at' HH:mm", timeZone)}
+            {appointment.barber?.name && ` with ${appointment.barber.name}`}
+          </p>
+          <p className="text-barber-navy">
+            <span className="font-medium">To:</span>{" "}
+            {format(parseISO(slot.date), "EEE MMM d, yyyy")} at {slot.time}
+            {newBarber && ` with ${newBarber.name}`}
+          </p>
+          <label className="flex items-center gap-2 pt-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={notifyClient}
+              onChange={(e) => setNotifyClient(e.target.checked)}
+              className="h-4 w-4"
+            />
+            Notify the client of the change
+          </label>
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button
+            onClick={handleConfirm}
+            disabled={isSaving}
+            className="bg-barber-brown text-white hover:bg-barber-dark-brown"
+          >
+            {isSaving ? "Moving..." : "Move Appointment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,273 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/newAppointmentModal.tsx
+ * @description Provides a modal dialog for booking an appointment on a client's behalf,
+ * opened from an empty cell of the calendar grid with its date, time and barber filled in.
+ * The time picker lists the slots the availability engine allows for the chosen services, barber and date.
+ */
+
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Textarea } from "@/app/components/ui/textArea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogClose,
+} from "@/app/components/ui/dialog";
+import { BarberType, NewAppointmentData, ServiceType, User } from "@/app/types";
+import { getAvailableTimes } from "@/app/actions/appointmentActions";
+import { ANY_BARBER } from "@/lib/availability";
+import { GridSlot } from "@/lib/calendarGrid";
+import { MAX_VISIT_SERVICES } from "@/lib/visit";
+import { MAX_NOTE_LENGTH } from "@/lib/appointmentNotes";
+
+/**
+ * Props for the NewAppointmentModal component.
+ *
+ * @property {boolean} isOpen – Whether the modal is currently displayed.
+ * @property {(isOpen: boolean) => void} onOpenChange – Callback to open or close the modal.
+ * @property {GridSlot | null} slot – The grid cell clicked;
+ *   a null `barberId` leaves the barber to "any barber".
+ * @property {User[]} clients – The clients an appointment can be booked for.
+ * @property {ServiceType[]} services – The services a visit can include.
+ * @property {BarberType[]} barbers – The barbers an appointment can be booked with.
+ * @property {(data: NewAppointmentData) => Promise<boolean>} onSave – Async handler that books the appointment
+ *   and resolves to whether it succeeded.
+ */
+interface NewAppointmentModalProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  slot: GridSlot | null;
+  clients: User[];
+  services: ServiceType[];
+  barbers: BarberType[];
+  onSave: (data: NewAppointmentData) => Promise<boolean>;
+}
+
+/**
+ * NewAppointmentModal
+ *
+ * Renders a form inside a modal for booking an appointment.
+ * - Date, time and barber start from the clicked cell and can still be changed.
+ * - The client and at least one service must be chosen before saving.
+ * - Stays open when the booking fails (e.g. the slot was just taken), so the admin can pick another time.
+ */
+export function NewAppointmentModal({
+  isOpen,
+  onOpenChange,
+  slot,
+  clients,
+  services,
+  barbers,
+  onSave,
+}: NewAppointmentModalProps) {
+  // Holds the form data.
+  const [formState, setFormState] = useState<NewAppointmentData>({
+    userId: "",
+    serviceIds: [],
+    barberId: ANY_BARBER,
+    date: "",
+    time: "",
+    staffNotes: "",
+  });
+  // Start times the visit can be booked at on the selected date.
+  const [availableTimes, setAvailableTimes] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * Resets the form to the clicked cell whenever the modal is opened.
+   */
+  useEffect(() => {
+    if (slot && isOpen) {
+      setFormState({
+        userId: "",
+        serviceIds: [],
+        barberId: slot.barberId ?? ANY_BARBER,
+        date: slot.date,
+        time: slot.time,
+        staffNotes: "",
+      });
+    }
+  }, [slot, isOpen]);
+
+  /**
+   * Loads the free start times whenever the services, barber or date change.
+   */
+  useEffect(() => {
+    if (!formState.date || formState.serviceIds.length === 0) {
+      setAvailableTimes([]);
+      return;
+    }
+    const fetchTimes = async () => {
+      setAvailableTimes(await getAvailableTimes(formState.date, formState.serviceIds, formState.barberId));
+    };
+    fetchTimes();
+  }, [formState.date, formState.serviceIds, formState.barberId]);
+
+  if (!slot) return null;
+
+  /**
+   * Handles updates to form input fields.
+   *
+   * @param {React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>} e - Change event.
+   */
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormState((prev) => ({ ...prev, [name]: value }));
+  };
+
+  /**
+   * Adds a service to the visit, or removes it if it is already included.
+   */
+  const toggleService = (serviceId: string) => {
+    setFormState((prev) => ({
+      ...prev,
+      serviceIds: prev.serviceIds.includes(serviceId)
+        ? prev.serviceIds.filter((id) => id !== serviceId)
+        : [...prev.serviceIds, serviceId],
+    }));
+  };
+
+  /**
+   * Validates the form and books the appointment, closing the modal when it succeeds.
+   */
+  const handleSave = async () => {
+    if (!formState.userId || formState.serviceIds.length === 0 || !formState.date || !formState.time) {
+      toast.error("Client, services, date and time are required.");
+      return;
+    }
+    setIsSaving(true);
+    const saved = await onSave(formState);
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  // Keep the clicked time selectable until services are chosen and the real slots are known.
+  const timeOptions =
+    formState.time && !availableTimes.includes(formState.time)
+      ? [formState.time, ...availableTimes].sort()
+      : availableTimes;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>New Appointment</DialogTitle>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="newApptClient" className="text-right col-span-1">Client</Label>
+            <select
+              id="newApptClient"
+              name="userId"
+              value={formState.userId}
+              onChange={handleChange}
+              className="col-span-3 border-input rounded-md p-2 h-10 w-full bg-transparent border"
+            >
+              <option value="">Select a client</option>
+              {clients.map((client) => (
+                <option key={client._id} value={client._id}>
+                  {client.name} ({client.email})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-4 items-start gap-4">
+            <span className="text-right col-span-1 text-sm font-medium pt-2">Services</span>
+            <div className="col-span-3 border rounded-md divide-y max-h-40 overflow-y-auto">
+              {services.map((service) => {
+                const checked = formState.serviceIds.includes(service._id);
+                return (
+                  <label key={service._id} className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={!checked && formState.serviceIds.length >= MAX_VISIT_SERVICES}
+                      onChange={() => toggleService(service._id)}
+                      className="h-4 w-4"
+                    />
+                    <span className="flex-1">{service.name}</span>
+                    <span className="text-gray-500">{service.duration} min</span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="newApptBarber" className="text-right col-span-1">Barber</Label>
+            <select
+              id="newApptBarber"
+              name="barberId"
+              value={formState.barberId}
+              onChange={handleChange}
+              className="col-span-3 border-input rounded-md p-2 h-10 w-full bg-transparent border"
+            >
+              <option value={ANY_BARBER}>Any barber</option>
+              {barbers.filter((barber) => barber.active).map((barber) => (
+                <option key={barber._id} value={barber._id}>{barber.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="newApptDate" className="text-right col-span-1">Date</Label>
+            <Input
+              id="newApptDate"
+              name="date"
+              type="date"
+              value={formState.date}
+              onChange={handleChange}
+              className="col-span-3"
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="newApptTime" className="text-right col-span-1">Time</Label>
+            <select
+              id="newApptTime"
+              name="time"
+              value={formState.time}
+              onChange={handleChange}
+              className="col-span-3 border-input rounded-md p-2 h-10 w-full bg-transparent border"
+            >
+              {!timeOptions.includes(formState.time) && <option value="">Select a time</option>}
+              {timeOptions.map((time) => (
+                <option key={time} value={time}>{time}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-4 items-start gap-4">
+            <Label htmlFor="newApptStaffNotes" className="text-right col-span-1 pt-2">Staff notes</Label>
+            <Textarea
+              id="newApptStaffNotes"
+              name="staffNotes"
+              value={formState.staffNotes}
+              onChange={handleChange}
+              maxLength={MAX_NOTE_LENGTH}
+              className="col-span-3"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-barber-brown text-white hover:bg-barber-dark-brown"
+          >
+            {isSaving ? "Booking..." : "Book Appointment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
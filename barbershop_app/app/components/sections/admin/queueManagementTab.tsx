@@ -0,0 +1,129 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/queueManagementTab.tsx
+ * @description This file contains the QueueManagementTab component, which lists today's in-shop queue
+ * (walk-ins and checked-in clients, next client first) with each client's estimated start,
+ * and lets the admin call the next client or remove a walk-in who left.
+ */
+
+"use client";
+
+import React from "react";
+import { Button } from "@/app/components/ui/button";
+import { BellRing, CalendarCheck, Footprints, Trash } from "lucide-react";
+import { QueueEntryType } from "@/app/types";
+import { formatInZone } from "@/lib/availability";
+
+/**
+ * @interface QueueManagementTabProps
+ * @description Defines the props for the QueueManagementTab component.
+ * @property {QueueEntryType[]} queue - Today's waiting clients, next client first.
+ * @property {string} timeZone - The shop's time zone, used to display times.
+ * @property {() => void} onCallNext - Callback that calls the first client in the queue.
+ * @property {(walkInId: string) => void} onRemove - Callback invoked with a walk-in's `_id` to take them out of the queue.
+ */
+interface QueueManagementTabProps {
+  queue: QueueEntryType[];
+  timeZone: string;
+  onCallNext: () => void;
+  onRemove: (walkInId: string) => void;
+}
+
+/**
+ * @component QueueManagementTab
+ * @description Renders the "Call next" button and a table of the waiting clients, showing how they
+ * joined (walk-in or booking), their services, when they arrived and when they are expected to be seen.
+ * @param {QueueManagementTabProps} props - The props for the component.
+ */
+export function QueueManagementTab({ queue, timeZone, onCallNext, onRemove }: QueueManagementTabProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          {queue.length === 0 ? "Nobody is waiting." : `${queue.length} waiting`}
+        </p>
+        <Button
+          onClick={onCallNext}
+          disabled={queue.length === 0}
+          className="text-white bg-barber-brown hover:bg-barber-dark-brown"
+        >
+          <BellRing className="h-4 w-4 mr-2" />
+          Call next
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm overflow-x-auto">
+        <table className="w-full min-w-[700px]">
+          <thead className="bg-barber-cream text-left text-sm text-gray-700">
+            <tr>
+              <th className="p-3 sm:p-4 font-semibold">#</th>
+              <th className="p-3 sm:p-4 font-semibold">Client</th>
+              <th className="p-3 sm:p-4 font-semibold">Services</th>
+              <th className="p-3 sm:p-4 font-semibold">Arrived</th>
+              <th className="p-3 sm:p-4 font-semibold">Expected</th>
+              <th className="p-3 sm:p-4 font-semibold">Barber</th>
+              <th className="p-3 sm:p-4 font-semibold text-center">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-barber-cream text-sm">
+            {queue.length > 0 ? (
+              queue.map((entry, index) => (
+                <tr key={entry._id}>
+                  <td className="p-3 sm:p-4">{index + 1}</td>
+                  <td className="p-3 sm:p-4 whitespace-nowrap">
+                    {/* Walk-ins joined at the kiosk; the others booked and checked in */}
+                    {entry.kind === "walk-in" ? (
+                      <Footprints className="inline h-4 w-4 mr-2 text-gray-500" aria-label="Walk-in" />
+                    ) : (
+                      <CalendarCheck className="inline h-4 w-4 mr-2 text-gray-500" aria-label="Checked in" />
+                    )}
+                    {entry.name}
+                  </td>
+                  <td className="p-3 sm:p-4 whitespace-nowrap">
+                    {entry.service}
+                    <span className="block text-xs text-gray-500">{entry.duration} min</span>
+                  </td>
+                  <td className="p-3 sm:p-4">
+                    {formatInZone(entry.arrivedAt, "HH:mm", timeZone)}
+                    {entry.scheduledAt && (
+                      <span className="block text-xs text-gray-500">
+                        Booked for {formatInZone(entry.scheduledAt, "HH:mm", timeZone)}
+                      </span>
+                    )}
+                  </td>
+                  <td className="p-3 sm:p-4">
+                    {formatInZone(entry.estimatedStart, "HH:mm", timeZone)}
+                    {entry.afterClosing && (
+                      <span className="block text-xs font-medium text-red-600">After closing</span>
+                    )}
+                  </td>
+                  <td className="p-3 sm:p-4 whitespace-nowrap">{entry.barber?.name || "Any barber"}</td>
+                  <td className="p-3 sm:p-4">
+                    <div className="flex justify-center">
+                      {entry.kind === "walk-in" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onRemove(entry._id)}
+                          className="text-red-500 border-red-500 hover:bg-red-500 hover:text-white"
+                          aria-label={`Remove ${entry.name} from the queue`}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={7} className="text-center p-8 text-muted-foreground" aria-live="polite">
+                  The queue is empty.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
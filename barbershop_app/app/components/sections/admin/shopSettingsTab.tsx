@@ -0,0 +1,233 @@
+/**
+ * @file barbershop_app/app/components/sections/admin/shopSettingsTab.tsx
+ * @description Provides a form for editing the shop settings used by every time picker and booking check:
+ * opening hours and lunch break per weekday, the interval between offered time slots,
+ * the shop's time zone, the cancellation policy, and when clients are reminded of their appointments.
+ */
+
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { CancellationPolicy, DayHours, ShopSettingsType } from "@/app/types";
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Slot intervals offered in the form, in minutes.
+const SLOT_INTERVALS = [10, 15, 20, 30, 45, 60];
+
+/**
+ * Props for the ShopSettingsTab component.
+ *
+ * @interface ShopSettingsTabProps
+ * @property {ShopSettingsType} settings - The currently stored settings.
+ * @property {(settings: ShopSettingsType) => Promise<void>} onSave - Async handler that persists the edited settings.
+ */
+interface ShopSettingsTabProps {
+  settings: ShopSettingsType;
+  onSave: (settings: ShopSettingsType) => Promise<void>;
+}
+
+/**
+ * ShopSettingsTab
+ *
+ * Renders one row per weekday with an "open" toggle, opening and closing times,
+ * and an optional lunch break, followed by the slot interval and time zone fields and the
+ * cancellation policy (notice period and whether late cancellations are allowed) and the
+ * reminder offsets, typed as a comma-separated list of hours (e.g. "24, 2").
+ * The form keeps a local copy of the settings and only persists it on save.
+ *
+ * @param {ShopSettingsTabProps} props - Component properties.
+ * @returns {JSX.Element} The settings form.
+ */
+export function ShopSettingsTab({ settings, onSave }: ShopSettingsTabProps) {
+  const [formState, setFormState] = useState<ShopSettingsType>(settings);
+  const [reminderText, setReminderText] = useState(settings.reminderHours.join(", "));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the form whenever fresh settings arrive from the server.
+  useEffect(() => {
+    setFormState(settings);
+    setReminderText(settings.reminderHours.join(", "));
+  }, [settings]);
+
+  /**
+   * Updates one weekday's fields, leaving the other days untouched.
+   */
+  const updateDay = (dayOfWeek: number, changes: Partial<DayHours>) => {
+    setFormState((prev) => ({
+      ...prev,
+      weeklyHours: prev.weeklyHours.map((day) =>
+        day.dayOfWeek === dayOfWeek ? { ...day, ...changes } : day
+      ),
+    }));
+  };
+
+  /**
+   * Sets or clears a weekday's lunch break. Clearing either time removes the break.
+   */
+  const updateLunch = (day: DayHours, field: "start" | "end", value: string) => {
+    const current = day.breaks[0] ?? { start: "", end: "" };
+    const lunch = { ...current, [field]: value };
+    updateDay(day.dayOfWeek, { breaks: lunch.start || lunch.end ? [lunch] : [] });
+  };
+
+  /**
+   * Updates one field of the cancellation policy.
+   */
+  const updatePolicy = (changes: Partial<CancellationPolicy>) => {
+    setFormState((prev) => ({ ...prev, cancellationPolicy: { ...prev.cancellationPolicy, ...changes } }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const reminderHours = reminderText
+      .split(",")
+      .map((hours) => hours.trim())
+      .filter(Boolean)
+      .map(Number);
+    await onSave({ ...formState, reminderHours });
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4 sm:p-6 space-y-6">
+      <div className="overflow-x-auto">
+        <table className="w-full min-w-[640px]">
+          <thead className="bg-barber-cream text-left text-sm text-gray-700">
+            <tr>
+              <th className="p-3 font-semibold">Day</th>
+              <th className="p-3 font-semibold">Open</th>
+              <th className="p-3 font-semibold">Opens</th>
+              <th className="p-3 font-semibold">Closes</th>
+              <th className="p-3 font-semibold">Lunch from</th>
+              <th className="p-3 font-semibold">Lunch until</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-barber-cream text-sm">
+            {formState.weeklyHours.map((day) => (
+              <tr key={day.dayOfWeek}>
+                <td className="p-3 whitespace-nowrap font-medium">{DAY_NAMES[day.dayOfWeek]}</td>
+                <td className="p-3">
+                  <input
+                    type="checkbox"
+                    checked={day.isOpen}
+                    onChange={(e) => updateDay(day.dayOfWeek, { isOpen: e.target.checked })}
+                    className="h-4 w-4"
+                    aria-label={`Open on ${DAY_NAMES[day.dayOfWeek]}`}
+                  />
+                </td>
+                <td className="p-3">
+                  <Input
+                    type="time"
+                    value={day.open}
+                    disabled={!day.isOpen}
+                    onChange={(e) => updateDay(day.dayOfWeek, { open: e.target.value })}
+                  />
+                </td>
+                <td className="p-3">
+                  <Input
+                    type="time"
+                    value={day.close}
+                    disabled={!day.isOpen}
+                    onChange={(e) => updateDay(day.dayOfWeek, { close: e.target.value })}
+                  />
+                </td>
+                <td className="p-3">
+                  <Input
+                    type="time"
+                    value={day.breaks[0]?.start ?? ""}
+                    disabled={!day.isOpen}
+                    onChange={(e) => updateLunch(day, "start", e.target.value)}
+                  />
+                </td>
+                <td className="p-3">
+                  <Input
+                    type="time"
+                    value={day.breaks[0]?.end ?? ""}
+                    disabled={!day.isOpen}
+                    onChange={(e) => updateLunch(day, "end", e.target.value)}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="settingsSlotInterval">Time slot interval</Label>
+            <select
+              id="settingsSlotInterval"
+              value={formState.slotInterval}
+              onChange={(e) =>
+                setFormState((prev) => ({ ...prev, slotInterval: parseInt(e.target.value, 10) }))
+              }
+              className="border-input rounded-md p-2 h-10 w-full sm:w-48 bg-transparent border"
+            >
+              {SLOT_INTERVALS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  Every {minutes} minutes
+                </option>
+              ))}
+            </select>
+          </div>
+          {/* Opening hours and booked times are wall-clock times in this zone */}
+          <div className="space-y-1">
+            <Label htmlFor="settingsTimeZone">Time zone</Label>
+            <Input
+              id="settingsTimeZone"
+              value={formState.timeZone}
+              placeholder="e.g. America/Sao_Paulo"
+              onChange={(e) => setFormState((prev) => ({ ...prev, timeZone: e.target.value.trim() }))}
+              className="w-full sm:w-64"
+            />
+          </div>
+          {/* Clients cannot change or cancel online closer to the appointment than this */}
+          <div className="space-y-1">
+            <Label htmlFor="settingsNoticeHours">Cancellation notice (hours)</Label>
+            <Input
+              id="settingsNoticeHours"
+              type="number"
+              min={0}
+              value={formState.cancellationPolicy.noticeHours}
+              onChange={(e) => updatePolicy({ noticeHours: parseInt(e.target.value, 10) || 0 })}
+              className="w-full sm:w-40"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formState.cancellationPolicy.allowLateCancel}
+                onChange={(e) => updatePolicy({ allowLateCancel: e.target.checked })}
+                className="h-4 w-4"
+              />
+              Allow late cancellations (flagged)
+            </label>
+          </div>
+          {/* Hours before each appointment at which the client gets a reminder */}
+          <div className="space-y-1">
+            <Label htmlFor="settingsReminderHours">Reminders (hours before)</Label>
+            <Input
+              id="settingsReminderHours"
+              value={reminderText}
+              onChange={(e) => setReminderText(e.target.value)}
+              placeholder="24, 2"
+              className="w-full sm:w-40"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="bg-barber-brown text-white hover:bg-barber-dark-brown"
+        >
+          {isSaving ? "Saving..." : "Save Settings"}
+        </Button>
+      </div>
+    </div>
+  );
+}
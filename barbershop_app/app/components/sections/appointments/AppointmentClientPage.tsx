@@ -1,67 +1,137 @@
 /**
  * @file app/components/sections/appointments/AppointmentClientPage.tsx
  * @description This is a comprehensive client-side React component for managing barber shop appointments.
- * It handles booking new appointments, viewing and managing existing ones, and editing or canceling scheduled appointments.
+ * It handles booking new appointments (with any barber or a specific one, once or repeating every few weeks), viewing and managing existing ones, and editing or canceling scheduled appointments.
+ * A booking can cover several services in one visit (e.g. a haircut and a beard trim), searched for as one slot of their combined duration.
+ * Clients can leave a note for their barber and attach reference photos when booking; upcoming appointments show them along with the client's style profile.
+ * Recurring appointments can be edited or canceled one at a time or together with the rest of their series.
+ * When the preferred time is taken, clients can join the waitlist for a time window and accept the slot offered once one frees up.
+ * Visitors who are not logged in book as guests with their name, email and phone, and are shown (and sent)
+ * a link to view, reschedule or cancel the booking; the waitlist, repeat bookings and the list of appointments need an account.
+ * The shop's cancellation policy is applied to the edit and cancel buttons, which explain why they are disabled inside the notice period.
+ * Dates are picked on a calendar that greys out days the shop (or the chosen barber) is closed
+ * and, once services are chosen, marks each day of the month open, nearly full or fully booked,
+ * or taken from the next available times, suggested across days for the chosen services, barber and time of day.
+ * All dates and times are shown and chosen in the shop's time zone, whatever the browser's zone.
  * The component uses several UI primitives (buttons, dialogs, selects) and integrates with server actions for appointment CRUD operations.
  */
 
 "use client";
 
 import { Label } from "@/app/components/ui/label";
+import { Input } from "@/app/components/ui/input";
+import { Calendar } from "@/app/components/ui/calendar";
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import Image from "next/image";
+import Link from "next/link";
 import { Button } from "@/app/components/ui/button";
+import { Textarea } from "@/app/components/ui/textArea";
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/app/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogClose } from "@/app/components/ui/dialog";
 import { toast } from "sonner";
-import { Clock, Calendar as CalendarIconLucide, Pencil, Trash2 } from "lucide-react";
-import { format, addYears, isPast, parseISO } from "date-fns";
-import { ServiceType as AppServiceType, Appointment as NewAppointmentDataType } from "@/app/types";
-import { getBookedTimes, bookAppointmentAction, cancelAppointmentAction, updateAppointmentAction } from "@/app/actions/appointmentActions";
+import {
+  CheckCircle2,
+  Clock,
+  Calendar as CalendarIconLucide,
+  Hourglass,
+  ImagePlus,
+  Pencil,
+  Repeat,
+  Sparkles,
+  Trash2,
+  X,
+} from "lucide-react";
+import { format, addYears, parseISO } from "date-fns";
+import {
+  ServiceType as AppServiceType,
+  BarberType,
+  Appointment as NewAppointmentDataType,
+  CancellationPolicy,
+  GuestDetails,
+  RecurrenceRule,
+  SeriesConflict,
+  SeriesScope,
+  SlotSuggestion,
+  TimeOfDay,
+  WaitlistEntryType,
+  DayAvailability,
+  DayAvailabilityLevel,
+} from "@/app/types";
+import {
+  getAvailableTimes,
+  getClosedDates,
+  getNextAvailableSlots,
+  getMonthAvailability,
+  bookAppointmentAction,
+  bookRecurringAppointmentAction,
+  cancelAppointmentAction,
+  updateAppointmentAction,
+  uploadReferencePhotosAction,
+} from "@/app/actions/appointmentActions";
+import { joinWaitlistAction, leaveWaitlistAction, acceptWaitlistOfferAction } from "@/app/actions/waitlistActions";
+import { bookGuestAppointmentAction } from "@/app/actions/guestActions";
+import { ANY_BARBER, formatInZone, toDateTime } from "@/lib/availability";
+import { MAX_INTERVAL_WEEKS, MAX_OCCURRENCES } from "@/lib/recurrence";
+import { STATUS_BADGE_CLASSES, STATUS_LABELS, UPCOMING_STATUSES } from "@/lib/appointmentStatus";
+import { checkCancellation, checkReschedule } from "@/lib/cancellationPolicy";
+import { describeVisit, MAX_VISIT_SERVICES, visitDuration, visitPrice, visitServiceIds } from "@/lib/visit";
+import { MAX_NOTE_LENGTH, MAX_PHOTOS, PHOTO_TYPES, validatePhotos } from "@/lib/appointmentNotes";
 
 /**
- * Utility function to generate an array of time slots from start to end hours with a given interval in minutes.
- * @param startHour - starting hour in 24h format (default 9)
- * @param endHour - ending hour in 24h format (default 17)
- * @param interval - interval in minutes between time slots (default 30)
- * @returns string[] - array of time slots formatted as "HH:mm"
+ * Get today's date in the shop's time zone as a string in the "yyyy-MM-dd" format, suitable for date input min attribute.
  */
-function generateTimes(startHour = 9, endHour = 17, interval = 30) {
-  const times: string[] = [];
-  for (let hour = startHour; hour <= endHour; hour++) {
-    for (let minute = 0; minute < 60; minute += interval) {
-      if (hour === endHour && minute >= interval) break;
-      const time = `${hour.toString().padStart(2, "0")}:${minute.toString().padStart(2, "0")}`;
-      times.push(time);
-    }
-  }
-  return times;
-}
-
-/**
- * Get today's date as a string in the "yyyy-MM-dd" format, suitable for date input min attribute.
- */
-const getTodayDateString = () => format(new Date(), "yyyy-MM-dd");
+const getTodayDateString = (timeZone: string) => formatInZone(new Date(), "yyyy-MM-dd", timeZone);
 
 /**
- * Get the maximum selectable date, one year from today, as a string in the "yyyy-MM-dd" format.
+ * Get the maximum selectable date, one year from the shop's today, as a string in the "yyyy-MM-dd" format.
  */
-const getMaxDateString = () => format(addYears(new Date(), 1), "yyyy-MM-dd");
+const getMaxDateString = (timeZone: string) =>
+  format(addYears(parseISO(getTodayDateString(timeZone)), 1), "yyyy-MM-dd");
 
 /**
  * Checks if a given date and time string represent a datetime in the past.
  * @param date - string in "yyyy-MM-dd" format
  * @param time - string in "HH:mm" format
+ * @param timeZone - the shop's time zone, in which date and time are expressed
  * @returns boolean - true if the datetime is in the past or inputs are invalid
  */
-const isTimeSlotPast = (date: string, time: string): boolean => {
+const isTimeSlotPast = (date: string, time: string, timeZone: string): boolean => {
   if (!date || !time) return true;
-  return isPast(new Date(`${date}T${time}:00`));
+  return toDateTime(date, time, timeZone).getTime() <= Date.now();
+};
+
+/**
+ * Lists the occurrences of a recurring booking that could not be booked or moved.
+ * @param conflicts - the occurrences returned by the action
+ * @returns string - e.g. "June 12, 2025: Sorry, this time slot is no longer available."
+ */
+const describeConflicts = (conflicts: SeriesConflict[]): string =>
+  conflicts.map((c) => `${format(parseISO(c.date), "MMMM dd, yyyy")}: ${c.message}`).join("; ");
+
+/**
+ * How the calendar marks each level of a day's availability (closed days are already greyed out), with its legend.
+ */
+const AVAILABILITY_MARKERS: Record<
+  Exclude<DayAvailabilityLevel, "closed">,
+  { className: string; dot: string; label: string }
+> = {
+  open: { className: "[&>button]:border-b-4 [&>button]:border-green-500", dot: "bg-green-500", label: "Open" },
+  "nearly-full": {
+    className: "[&>button]:border-b-4 [&>button]:border-amber-500",
+    dot: "bg-amber-500",
+    label: "Nearly full",
+  },
+  full: { className: "[&>button]:border-b-4 [&>button]:border-red-500", dot: "bg-red-500", label: "Fully booked" },
 };
 
 interface AppointmentClientPageProps {
   services: AppServiceType[];
+  barbers: BarberType[];
   initialAppointments: NewAppointmentDataType[];
+  waitlist: WaitlistEntryType[];
+  timeZone: string;
+  cancellationPolicy: CancellationPolicy;
+  styleProfile: string;
   session: {
     isAuthenticated: boolean;
     user?: { _id: string; name: string };
@@ -71,83 +141,270 @@ interface AppointmentClientPageProps {
 /**
  * @component AppointmentClientPage
  * @description Main client-side page component for appointment booking and management.
- * - Allows authenticated users to book new appointments by selecting service, date, and available time.
- * - Shows user's existing appointments with options to edit or cancel upcoming ones.
+ * - Allows authenticated users to book new appointments by selecting one or more services, barber, date, and available time,
+ *   with an optional note and reference photos for their barber.
+ * - Lets visitors without an account book once as a guest, then shows them the link to manage that booking.
+ * - Suggests the next available times for the chosen services and barber, filling in date and time in one click.
+ * - Shows user's existing appointments with options to edit or cancel upcoming ones, within the cancellation policy.
+ * - Lets users join the waitlist for a day and shows their waitlist entries, with any slot offered to them.
  * - Uses dialogs for editing appointments with real-time validations and updates.
  * - Integrates toast notifications for feedback on user actions.
  */
 export default function AppointmentClientPage({
   services,
+  barbers,
   initialAppointments,
+  waitlist,
+  timeZone,
+  cancellationPolicy,
+  styleProfile,
   session,
 }: AppointmentClientPageProps) {
-  const router = useRouter();
   const { isAuthenticated, user } = session;
 
   // UI state
   const [activeTab, setActiveTab] = useState<"book" | "manage">("book");
   const [selectedDate, setSelectedDate] = useState<string>("");
-  const [selectedServiceId, setSelectedServiceId] = useState<string>("");
+  const [selectedServiceIds, setSelectedServiceIds] = useState<string[]>([]);
+  const [selectedBarberId, setSelectedBarberId] = useState<string>(ANY_BARBER);
   const [selectedTime, setSelectedTime] = useState<string>("");
 
   // Booking and loading states
   const [isBooking, setIsBooking] = useState(false);
-  const [bookedTimes, setBookedTimes] = useState<string[]>([]);
+  const [availableTimes, setAvailableTimes] = useState<string[]>([]);
   const [isLoadingTimes, setIsLoadingTimes] = useState(false);
+  const [closedDates, setClosedDates] = useState<string[]>([]);
+  const [calendarMonth, setCalendarMonth] = useState<Date>(() => parseISO(getTodayDateString(timeZone)));
+  const [monthAvailability, setMonthAvailability] = useState<DayAvailability[]>([]);
+
+  // Next available times for the chosen services and barber
+  const [timeOfDay, setTimeOfDay] = useState<TimeOfDay>("any");
+  const [suggestions, setSuggestions] = useState<SlotSuggestion[]>([]);
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+
+  // Recurrence states: repeat every `intervalWeeks` weeks, a number of times or until a date
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [intervalWeeks, setIntervalWeeks] = useState(1);
+  const [endMode, setEndMode] = useState<"count" | "until">("count");
+  const [occurrenceCount, setOccurrenceCount] = useState(4);
+  const [untilDate, setUntilDate] = useState("");
+
+  // Note and reference photos for the barber
+  const [notes, setNotes] = useState("");
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
+  const [photoPreviews, setPhotoPreviews] = useState<string[]>([]);
+
+  // Guest booking: contact details, and the link to manage the booking once made
+  const [guest, setGuest] = useState<GuestDetails>({ name: "", email: "", phone: "" });
+  const [guestManageLink, setGuestManageLink] = useState<string | null>(null);
 
   // Editing appointment states
   const [editingAppointment, setEditingAppointment] = useState<NewAppointmentDataType | null>(null);
   const [newDate, setNewDate] = useState("");
   const [newTime, setNewTime] = useState("");
+  const [editTimes, setEditTimes] = useState<string[]>([]);
+  const [editScope, setEditScope] = useState<SeriesScope>("one");
   const [isUpdating, setIsUpdating] = useState(false);
 
-  // Effect: Redirect to login if not authenticated, with feedback
+  // Waitlist states: the start-time window to wait for on the selected date
+  const [isWaitlistOpen, setIsWaitlistOpen] = useState(false);
+  const [windowStart, setWindowStart] = useState("");
+  const [windowEnd, setWindowEnd] = useState("");
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
+
+  // The services chosen for the visit, in the order they were picked (and will be performed)
+  const selectedServices = selectedServiceIds
+    .map((id) => services.find((service) => service._id === id))
+    .filter((service): service is AppServiceType => !!service);
+
+  // Recurring appointment awaiting the "only this one / this and following" choice
+  const [cancelingAppointment, setCancelingAppointment] = useState<NewAppointmentDataType | null>(null);
+
+  // Effect: Fetch the days closed for the selected barber over the bookable year,
+  // clearing the selected date if it turns out to be closed
   useEffect(() => {
-    if (!isAuthenticated) {
-      toast.error("Please log in to book or manage your appointments.");
-      router.push("/login?redirect=/appointments");
-    }
-  }, [isAuthenticated, router]);
+    const fetchClosedDates = async () => {
+      const dates = await getClosedDates(getTodayDateString(timeZone), getMaxDateString(timeZone), selectedBarberId);
+      setClosedDates(dates);
+      setSelectedDate((current) => (dates.includes(current) ? "" : current));
+    };
+    fetchClosedDates();
+  }, [selectedBarberId, timeZone]);
 
-  // Effect: Fetch already booked times when a date is selected
+  // Effect: Fetch the times where the selected services fit back to back, once services and a date are chosen
   useEffect(() => {
-    if (!selectedDate) {
-      setBookedTimes([]);
+    if (!selectedDate || selectedServiceIds.length === 0) {
+      setAvailableTimes([]);
       return;
     }
-    const fetchBookedTimes = async () => {
+    const fetchAvailableTimes = async () => {
       setIsLoadingTimes(true);
-      const times = await getBookedTimes(selectedDate);
-      setBookedTimes(times);
+      const times = await getAvailableTimes(selectedDate, selectedServiceIds, selectedBarberId);
+      setAvailableTimes(times);
       setIsLoadingTimes(false);
     };
-    fetchBookedTimes();
-  }, [selectedDate]);
+    fetchAvailableTimes();
+  }, [selectedDate, selectedServiceIds, selectedBarberId]);
+
+  // Effect: Fetch how busy each day of the month on screen is for the selected services and barber
+  useEffect(() => {
+    if (selectedServiceIds.length === 0) {
+      setMonthAvailability([]);
+      return;
+    }
+    const fetchMonthAvailability = async () => {
+      setMonthAvailability(
+        await getMonthAvailability(format(calendarMonth, "yyyy-MM"), selectedServiceIds, selectedBarberId)
+      );
+    };
+    fetchMonthAvailability();
+  }, [calendarMonth, selectedServiceIds, selectedBarberId]);
+
+  // Effect: Search for the next available times whenever the services, barber or preferred time of day change
+  useEffect(() => {
+    if (selectedServiceIds.length === 0) {
+      setSuggestions([]);
+      return;
+    }
+    const fetchSuggestions = async () => {
+      setIsLoadingSuggestions(true);
+      setSuggestions(await getNextAvailableSlots(selectedServiceIds, selectedBarberId, timeOfDay));
+      setIsLoadingSuggestions(false);
+    };
+    fetchSuggestions();
+  }, [selectedServiceIds, selectedBarberId, timeOfDay]);
+
+  // Effect: Fetch the times the appointment being edited can move to (ignoring its current slot)
+  useEffect(() => {
+    if (!editingAppointment || !newDate) {
+      setEditTimes([]);
+      return;
+    }
+    const fetchEditTimes = async () => {
+      const times = await getAvailableTimes(
+        newDate,
+        visitServiceIds(editingAppointment),
+        editingAppointment.barber?._id,
+        editingAppointment._id
+      );
+      setEditTimes(times);
+    };
+    fetchEditTimes();
+  }, [editingAppointment, newDate]);
+
+  // Effect: Show the chosen photos before they are uploaded, releasing the previews when they change
+  useEffect(() => {
+    const previews = photoFiles.map((file) => URL.createObjectURL(file));
+    setPhotoPreviews(previews);
+    return () => previews.forEach((preview) => URL.revokeObjectURL(preview));
+  }, [photoFiles]);
+
+  /**
+   * Fills in the date and time of a suggested slot, showing its month on the calendar.
+   * @param suggestion - the suggested slot picked
+   */
+  const handlePickSuggestion = (suggestion: SlotSuggestion) => {
+    setSelectedDate(suggestion.date);
+    setSelectedTime(suggestion.time);
+    setCalendarMonth(parseISO(suggestion.date));
+  };
+
+  /**
+   * Adds the photos picked in the file input to the booking, if they can all be uploaded.
+   * @param files - the files picked
+   */
+  const handleAddPhotos = (files: FileList | null) => {
+    if (!files) return;
+    const next = [...photoFiles, ...Array.from(files)];
+    const error = validatePhotos(next);
+    if (error) return toast.error(error);
+    setPhotoFiles(next);
+  };
+
+  /**
+   * Adds a service to the visit, or removes it if it is already included.
+   * @param serviceId - ID of the service toggled
+   */
+  const toggleService = (serviceId: string) => {
+    setSelectedServiceIds((current) =>
+      current.includes(serviceId) ? current.filter((id) => id !== serviceId) : [...current, serviceId]
+    );
+    setSelectedTime("");
+  };
 
   /**
    * Handles booking a new appointment by validating inputs, calling the backend action,
-   * and providing user feedback.
+   * and providing user feedback. Guests book with their contact details instead of an account.
    */
   const handleBooking = async () => {
-    if (!user?._id) return toast.error("Authentication error.");
-    if (!selectedDate || !selectedServiceId || !selectedTime)
+    if (isAuthenticated && !user?._id) return toast.error("Authentication error.");
+    if (!isAuthenticated && (!guest.name.trim() || !guest.email.trim() || !guest.phone.trim()))
+      return toast.error("Please enter your name, email and phone.");
+    if (!selectedDate || selectedServiceIds.length === 0 || !selectedTime)
       return toast.error("Please fill out all fields.");
-    if (isTimeSlotPast(selectedDate, selectedTime))
+    if (isTimeSlotPast(selectedDate, selectedTime, timeZone))
       return toast.error("Cannot book in the past.");
 
     setIsBooking(true);
-    const result = await bookAppointmentAction({
-      userId: user._id,
-      serviceId: selectedServiceId,
+    // Reference photos are stored first; the booking then links to them.
+    let photos: string[] = [];
+    if (photoFiles.length > 0) {
+      const formData = new FormData();
+      photoFiles.forEach((file) => formData.append("photos", file));
+      if (!user?._id) {
+        // Guests upload with the contact details they book with.
+        formData.append("name", guest.name);
+        formData.append("email", guest.email);
+        formData.append("phone", guest.phone);
+      }
+      const upload = await uploadReferencePhotosAction(formData);
+      if (!upload.success) {
+        toast.error(upload.message);
+        setIsBooking(false);
+        return;
+      }
+      photos = upload.photos;
+    }
+    const details = {
+      serviceIds: selectedServiceIds,
+      barberId: selectedBarberId,
       date: selectedDate,
       time: selectedTime,
-    });
+      notes,
+      photos,
+    };
+    if (!user?._id) {
+      const result = await bookGuestAppointmentAction(guest, details);
+      if (result.success) {
+        toast.success(result.message);
+        setGuestManageLink(result.manageLink ?? null);
+      } else {
+        toast.error(result.message);
+      }
+      setIsBooking(false);
+      return;
+    }
+    const recurrence: RecurrenceRule =
+      endMode === "count" ? { intervalWeeks, count: occurrenceCount } : { intervalWeeks, until: untilDate };
+    const result = isRecurring
+      ? await bookRecurringAppointmentAction(details, recurrence)
+      : { ...(await bookAppointmentAction(details)), conflicts: [] };
     if (result.success) {
-      toast.success(result.message);
+      if (result.conflicts.length > 0) {
+        toast.warning(result.message, {
+          description: `These dates could not be booked: ${describeConflicts(result.conflicts)}`,
+        });
+      } else {
+        toast.success(result.message);
+      }
       setActiveTab("manage");
       setSelectedDate("");
-      setSelectedServiceId("");
+      setSelectedServiceIds([]);
+      setSelectedBarberId(ANY_BARBER);
       setSelectedTime("");
+      setIsRecurring(false);
+      setNotes("");
+      setPhotoFiles([]);
     } else {
       toast.error(result.message);
     }
@@ -155,12 +412,87 @@ export default function AppointmentClientPage({
   };
 
   /**
-   * Handles canceling an existing appointment after user confirmation.
+   * Cancels an appointment, or it and the later occurrences of its series.
    * @param appointmentId - ID of the appointment to cancel
+   * @param scope - which occurrences of a recurring booking to cancel
+   */
+  const cancelAppointment = async (appointmentId: string, scope: SeriesScope) => {
+    const result = await cancelAppointmentAction(appointmentId, scope);
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+  };
+
+  /**
+   * Handles canceling an existing appointment after user confirmation.
+   * Recurring appointments open a dialog asking whether to cancel the rest of the series too.
+   * @param appointment - the appointment to cancel
+   */
+  const handleCancelAppointment = async (appointment: NewAppointmentDataType) => {
+    if (appointment.series) return setCancelingAppointment(appointment);
+    const question = checkCancellation(appointment.date, cancellationPolicy).late
+      ? "This is within the cancellation notice period and will be recorded as a late cancellation. Cancel anyway?"
+      : "Are you sure you want to cancel this appointment?";
+    if (!window.confirm(question)) return;
+    await cancelAppointment(appointment._id, "one");
+  };
+
+  /**
+   * Handles the choice made in the recurring cancellation dialog.
+   * @param scope - 'one' for just the chosen occurrence, 'following' for it and the later ones
+   */
+  const handleCancelSeries = async (scope: SeriesScope) => {
+    if (!cancelingAppointment) return;
+    const appointmentId = cancelingAppointment._id;
+    setCancelingAppointment(null);
+    await cancelAppointment(appointmentId, scope);
+  };
+
+  /**
+   * Handles joining the waitlist for the selected services, barber and date,
+   * waiting for a slot that starts within the chosen window.
+   */
+  const handleJoinWaitlist = async () => {
+    if (!user?._id) return toast.error("Authentication error.");
+    if (!windowStart || !windowEnd) return toast.error("Please choose a time window.");
+
+    setIsJoiningWaitlist(true);
+    const result = await joinWaitlistAction({
+      serviceIds: selectedServiceIds,
+      barberId: selectedBarberId,
+      date: selectedDate,
+      windowStart,
+      windowEnd,
+    });
+    if (result.success) {
+      toast.success(result.message);
+      setIsWaitlistOpen(false);
+      setActiveTab("manage");
+    } else {
+      toast.error(result.message);
+    }
+    setIsJoiningWaitlist(false);
+  };
+
+  /**
+   * Handles accepting the slot offered to a waitlist entry, booking it as an appointment.
+   * @param entryId - ID of the waitlist entry holding the offer
+   */
+  const handleAcceptOffer = async (entryId: string) => {
+    if (!user?._id) return toast.error("Authentication error.");
+    const result = await acceptWaitlistOfferAction(entryId);
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+  };
+
+  /**
+   * Handles leaving the waitlist (or declining an offer) after user confirmation.
+   * @param entry - the waitlist entry to leave
    */
-  const handleCancelAppointment = async (appointmentId: string) => {
-    if (!window.confirm("Are you sure you want to cancel this appointment?")) return;
-    const result = await cancelAppointmentAction(appointmentId);
+  const handleLeaveWaitlist = async (entry: WaitlistEntryType) => {
+    if (!user?._id) return toast.error("Authentication error.");
+    const question = entry.status === "offered" ? "Decline this offer?" : "Leave the waitlist for this day?";
+    if (!window.confirm(question)) return;
+    const result = await leaveWaitlistAction(entry._id);
     if (result.success) toast.success(result.message);
     else toast.error(result.message);
   };
@@ -171,21 +503,27 @@ export default function AppointmentClientPage({
    */
   const handleOpenEditModal = (appointment: NewAppointmentDataType) => {
     setEditingAppointment(appointment);
-    const appointmentDate = parseISO(appointment.date);
-    setNewDate(format(appointmentDate, "yyyy-MM-dd"));
-    setNewTime(format(appointmentDate, "HH:mm"));
+    setEditScope("one");
+    setNewDate(formatInZone(appointment.date, "yyyy-MM-dd", timeZone));
+    setNewTime(formatInZone(appointment.date, "HH:mm", timeZone));
   };
 
   /**
-   * Handles updating an existing appointment with new date and time,
-   * invoking the update action and providing feedback.
+   * Handles updating an existing appointment (and, if chosen, the rest of its series)
+   * with new date and time, invoking the update action and providing feedback.
    */
   const handleUpdateAppointment = async () => {
     if (!editingAppointment?._id) return;
     setIsUpdating(true);
-    const result = await updateAppointmentAction(editingAppointment._id, newDate, newTime);
+    const result = await updateAppointmentAction(editingAppointment._id, newDate, newTime, editScope);
     if (result.success) {
-      toast.success(result.message);
+      if (result.conflicts.length > 0) {
+        toast.warning(result.message, {
+          description: `These dates kept their old time: ${describeConflicts(result.conflicts)}`,
+        });
+      } else {
+        toast.success(result.message);
+      }
       setEditingAppointment(null);
     } else {
       toast.error(result.message);
@@ -193,14 +531,6 @@ export default function AppointmentClientPage({
     setIsUpdating(false);
   };
 
-  // Generate all possible time slots for selection
-  const allAvailableTimes = generateTimes();
-
-  // Filter times to exclude past and already booked slots for the selected date
-  const filteredTimes = allAvailableTimes.filter(
-    (time) => !isTimeSlotPast(selectedDate, time) && !bookedTimes.includes(time)
-  );
-
   return (
     <main className="container mx-auto px-4 py-12 flex flex-col items-center w-full max-w-4xl">
       <div className="w-full">
@@ -214,102 +544,426 @@ export default function AppointmentClientPage({
             >
               Book New
             </Button>
-            <Button
-              onClick={() => setActiveTab("manage")}
-              variant={activeTab === "manage" ? "default" : "ghost"}
-              className="px-6 data-[state=active]:bg-barber-brown data-[state=active]:text-white"
-            >
-              My Appointments
-            </Button>
+            {isAuthenticated ? (
+              <Button
+                onClick={() => setActiveTab("manage")}
+                variant={activeTab === "manage" ? "default" : "ghost"}
+                className="px-6 data-[state=active]:bg-barber-brown data-[state=active]:text-white"
+              >
+                My Appointments
+              </Button>
+            ) : (
+              <Button asChild variant="ghost" className="px-6">
+                <Link href="/login?redirect=/appointments">Log in</Link>
+              </Button>
+            )}
           </div>
         </div>
 
+        {/* Guest booking made: the link to manage it */}
+        {activeTab === "book" && guestManageLink && (
+          <div className="bg-white p-8 rounded-lg shadow-lg border border-barber-cream text-center space-y-4">
+            <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto" />
+            <h2 className="text-2xl font-bold font-serif text-barber-brown">You&apos;re booked!</h2>
+            <p className="text-gray-600">
+              We sent the confirmation to {guest.email}. Keep this link to view, reschedule or cancel your booking:
+            </p>
+            <Link href={guestManageLink} className="inline-block text-barber-brown font-medium underline break-all">
+              Manage my booking
+            </Link>
+            <p className="text-sm text-gray-500">
+              <Link href="/signup" className="underline">Create an account</Link> with the same email to see
+              this booking with all your appointments.
+            </p>
+          </div>
+        )}
+
         {/* Booking tab content */}
-        {activeTab === "book" && (
+        {activeTab === "book" && !guestManageLink && (
           <div className="bg-white p-8 rounded-lg shadow-lg border border-barber-cream">
             <h2 className="text-2xl font-bold font-serif text-barber-brown mb-6 text-center">
               Book an Appointment
             </h2>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 items-end">
-              {/* Service selector */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-6">
+                {/* Service selector: one or more services, performed in the order picked */}
+                <div>
+                  <span className="block text-sm font-medium text-gray-700 mb-1">
+                    Services
+                  </span>
+                  <div className="border rounded-md divide-y">
+                    {services.map((service) => {
+                      const checked = selectedServiceIds.includes(service._id);
+                      return (
+                        <label
+                          key={service._id}
+                          className="flex items-center gap-2 px-3 py-2 text-sm cursor-pointer"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={checked}
+                            disabled={!checked && selectedServiceIds.length >= MAX_VISIT_SERVICES}
+                            onChange={() => toggleService(service._id)}
+                            className="h-4 w-4"
+                          />
+                          <span className="flex-1">{service.name}</span>
+                          <span className="text-gray-500">
+                            {service.duration} min - ${service.price.toFixed(2)}
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                  {selectedServices.length > 0 && (
+                    <p className="mt-2 text-sm text-gray-600">
+                      Total: {visitDuration(selectedServices)} min - ${visitPrice(selectedServices).toFixed(2)}
+                    </p>
+                  )}
+                </div>
+
+                {/* Barber selector: "any barber" or a specific one */}
+                <div>
+                  <label
+                    htmlFor="barber-select"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Barber
+                  </label>
+                  <Select
+                    value={selectedBarberId}
+                    onValueChange={(value) => {
+                      setSelectedBarberId(value);
+                      setSelectedTime("");
+                    }}
+                  >
+                    <SelectTrigger id="barber-select">
+                      <SelectValue placeholder="Any barber" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_BARBER}>Any barber</SelectItem>
+                      {barbers.map((barber) => (
+                        <SelectItem key={barber._id} value={barber._id}>
+                          {barber.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {/* Next available: one-click suggestions across days */}
+                {selectedServiceIds.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="flex items-center gap-1 text-sm font-medium text-gray-700">
+                        <Sparkles className="h-4 w-4" />
+                        Next available
+                      </span>
+                      <select
+                        aria-label="Preferred time of day"
+                        value={timeOfDay}
+                        onChange={(e) => setTimeOfDay(e.target.value as TimeOfDay)}
+                        className="h-8 border-input rounded-md px-2 border bg-transparent text-sm"
+                      >
+                        <option value="any">Any time</option>
+                        <option value="morning">Morning</option>
+                        <option value="afternoon">Afternoon</option>
+                        <option value="evening">Evening</option>
+                      </select>
+                    </div>
+                    {isLoadingSuggestions ? (
+                      <p className="text-sm text-muted-foreground">Searching...</p>
+                    ) : suggestions.length > 0 ? (
+                      <div className="flex flex-wrap gap-2">
+                        {suggestions.map((suggestion) => {
+                          const isSelected = suggestion.date === selectedDate && suggestion.time === selectedTime;
+                          return (
+                            <Button
+                              key={`${suggestion.date} ${suggestion.time}`}
+                              type="button"
+                              size="sm"
+                              variant={isSelected ? "default" : "outline"}
+                              onClick={() => handlePickSuggestion(suggestion)}
+                            >
+                              {format(parseISO(suggestion.date), "EEE, MMM d")} · {suggestion.time}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No free times in the coming weeks.</p>
+                    )}
+                  </div>
+                )}
+
+                {/* Time selector */}
+                <div>
+                  <label
+                    htmlFor="time-select"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Time
+                  </label>
+                  <Select
+                    value={selectedTime}
+                    onValueChange={setSelectedTime}
+                    disabled={!selectedDate || selectedServiceIds.length === 0 || isLoadingTimes}
+                  >
+                    <SelectTrigger>
+                      <SelectValue
+                        placeholder={
+                          isLoadingTimes
+                            ? "Loading times..."
+                            : selectedServiceIds.length === 0
+                            ? "Select a service first"
+                            : "Select a time"
+                        }
+                      />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {isLoadingTimes ? (
+                        <div className="px-2 py-1.5 text-sm text-muted-foreground">Loading...</div>
+                      ) : availableTimes.length > 0 ? (
+                        availableTimes.map((time) => (
+                          <SelectItem key={time} value={time}>
+                            {time}
+                          </SelectItem>
+                        ))
+                      ) : (
+                        <div className="px-2 py-1.5 text-sm text-muted-foreground">No available times</div>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  {/* Waitlist: for when the preferred time is already taken (account holders only) */}
+                  {isAuthenticated && selectedDate && selectedServiceIds.length > 0 && !isLoadingTimes && (
+                    <button
+                      type="button"
+                      onClick={() => setIsWaitlistOpen(true)}
+                      className="mt-2 inline-flex items-center gap-1 text-sm text-barber-brown hover:underline"
+                    >
+                      <Hourglass className="h-4 w-4" />
+                      Preferred time taken? Join the waitlist
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Date picker: past, closed and out-of-range days are disabled */}
               <div>
-                <label
-                  htmlFor="service-select"
-                  className="block text-sm font-medium text-gray-700 mb-1"
-                >
-                  Service
-                </label>
-                <Select value={selectedServiceId} onValueChange={setSelectedServiceId}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a service" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {services.map((service) => (
-                      <SelectItem key={service._id} value={service._id}>
-                        {service.name} - ${service.price.toFixed(2)}
-                      </SelectItem>
+                <span className="block text-sm font-medium text-gray-700 mb-1">Date</span>
+                <Calendar
+                  mode="single"
+                  month={calendarMonth}
+                  onMonthChange={setCalendarMonth}
+                  selected={selectedDate ? parseISO(selectedDate) : undefined}
+                  onSelect={(day) => {
+                    setSelectedDate(day ? format(day, "yyyy-MM-dd") : "");
+                    setSelectedTime("");
+                  }}
+                  disabled={[
+                    { before: parseISO(getTodayDateString(timeZone)) },
+                    { after: parseISO(getMaxDateString(timeZone)) },
+                    (day) => closedDates.includes(format(day, "yyyy-MM-dd")),
+                  ]}
+                  modifiers={Object.fromEntries(
+                    Object.keys(AVAILABILITY_MARKERS).map((level) => [
+                      level,
+                      monthAvailability.filter((day) => day.level === level).map((day) => parseISO(day.date)),
+                    ])
+                  )}
+                  modifiersClassNames={Object.fromEntries(
+                    Object.entries(AVAILABILITY_MARKERS).map(([level, marker]) => [level, marker.className])
+                  )}
+                  className="border rounded-md w-fit"
+                />
+                {monthAvailability.length > 0 && (
+                  <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+                    {Object.values(AVAILABILITY_MARKERS).map((marker) => (
+                      <span key={marker.label} className="inline-flex items-center gap-1">
+                        <span className={`h-2 w-2 rounded-full ${marker.dot}`} aria-hidden="true" />
+                        {marker.label}
+                      </span>
                     ))}
-                  </SelectContent>
-                </Select>
+                  </div>
+                )}
               </div>
+            </div>
 
-              {/* Date picker */}
+            {/* Guest details: how to reach a visitor booking without an account */}
+            {!isAuthenticated && (
+              <div className="mt-6 border-t border-barber-cream pt-6">
+                <p className="text-sm text-gray-600 mb-4">
+                  Booking as a guest. We&apos;ll send your confirmation, with a link to manage the booking, to your email.
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="guest-name">Name</Label>
+                    <Input
+                      id="guest-name"
+                      value={guest.name}
+                      onChange={(e) => setGuest((current) => ({ ...current, name: e.target.value }))}
+                      autoComplete="name"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="guest-email">Email</Label>
+                    <Input
+                      id="guest-email"
+                      type="email"
+                      value={guest.email}
+                      onChange={(e) => setGuest((current) => ({ ...current, email: e.target.value }))}
+                      autoComplete="email"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="guest-phone">Phone</Label>
+                    <Input
+                      id="guest-phone"
+                      type="tel"
+                      value={guest.phone}
+                      onChange={(e) => setGuest((current) => ({ ...current, phone: e.target.value }))}
+                      autoComplete="tel"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Note and reference photos for the barber */}
+            <div className="mt-6 border-t border-barber-cream pt-6 space-y-4">
               <div>
-                <label
-                  htmlFor="date-picker"
-                  className="block text-sm font-medium text-gray-700 mb-1"
-                >
-                  Date
-                </label>
+                <Label htmlFor="booking-notes">Notes for your barber (optional)</Label>
+                <Textarea
+                  id="booking-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  maxLength={MAX_NOTE_LENGTH}
+                  placeholder="e.g. 0.5 guard on the sides, scissors on top"
+                />
+              </div>
+              <div>
+                <Label htmlFor="booking-photos">Reference photos (optional, up to {MAX_PHOTOS})</Label>
+                <div className="flex flex-wrap gap-3 mt-2">
+                  {photoPreviews.map((preview, index) => (
+                    <div key={preview} className="relative h-20 w-20 rounded-md overflow-hidden border">
+                      <Image src={preview} alt={`Reference photo ${index + 1}`} fill unoptimized className="object-cover" />
+                      <button
+                        type="button"
+                        onClick={() => setPhotoFiles((current) => current.filter((_, i) => i !== index))}
+                        className="absolute top-1 right-1 bg-white/80 rounded-full p-0.5"
+                        aria-label={`Remove reference photo ${index + 1}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {photoFiles.length < MAX_PHOTOS && (
+                    <label
+                      htmlFor="booking-photos"
+                      className="h-20 w-20 rounded-md border border-dashed flex items-center justify-center cursor-pointer text-gray-500 hover:bg-barber-cream"
+                    >
+                      <ImagePlus className="h-6 w-6" />
+                      <span className="sr-only">Add photos</span>
+                    </label>
+                  )}
+                </div>
                 <input
-                  type="date"
-                  id="date-picker"
-                  value={selectedDate}
-                  onChange={(e) => setSelectedDate(e.target.value)}
-                  min={getTodayDateString()}
-                  max={getMaxDateString()}
-                  className="w-full h-10 border-input rounded-md p-2 border"
+                  id="booking-photos"
+                  type="file"
+                  accept={Object.keys(PHOTO_TYPES).join(",")}
+                  multiple
+                  onChange={(e) => {
+                    handleAddPhotos(e.target.files);
+                    e.target.value = "";
+                  }}
+                  className="sr-only"
                 />
               </div>
+            </div>
 
-              {/* Time selector */}
-              <div>
-                <label
-                  htmlFor="time-select"
-                  className="block text-sm font-medium text-gray-700 mb-1"
-                >
-                  Time
+            {/* Recurrence: repeat every N weeks, a number of times or until a date (account holders only) */}
+            {isAuthenticated && (
+              <div className="mt-6 border-t border-barber-cream pt-6 space-y-4">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={isRecurring}
+                    onChange={(e) => setIsRecurring(e.target.checked)}
+                    className="h-4 w-4"
+                  />
+                  <Repeat className="h-4 w-4" />
+                  Repeat this appointment
                 </label>
-                <Select
-                  value={selectedTime}
-                  onValueChange={setSelectedTime}
-                  disabled={!selectedDate || isLoadingTimes}
-                >
-                  <SelectTrigger>
-                    <SelectValue
-                      placeholder={isLoadingTimes ? "Loading times..." : "Select a time"}
-                    />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {isLoadingTimes ? (
-                      <div className="px-2 py-1.5 text-sm text-muted-foreground">Loading...</div>
-                    ) : filteredTimes.length > 0 ? (
-                      filteredTimes.map((time) => (
-                        <SelectItem key={time} value={time}>
-                          {time}
-                        </SelectItem>
-                      ))
+                {isRecurring && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                    <div>
+                      <Label htmlFor="repeat-interval">Every</Label>
+                      <select
+                        id="repeat-interval"
+                        value={intervalWeeks}
+                        onChange={(e) => setIntervalWeeks(parseInt(e.target.value, 10))}
+                        className="w-full h-10 border-input rounded-md p-2 border bg-transparent"
+                      >
+                        {Array.from({ length: MAX_INTERVAL_WEEKS }, (_, i) => i + 1).map((weeks) => (
+                          <option key={weeks} value={weeks}>
+                            {weeks === 1 ? "week" : `${weeks} weeks`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <Label htmlFor="repeat-end">Ends</Label>
+                      <select
+                        id="repeat-end"
+                        value={endMode}
+                        onChange={(e) => setEndMode(e.target.value as "count" | "until")}
+                        className="w-full h-10 border-input rounded-md p-2 border bg-transparent"
+                      >
+                        <option value="count">After a number of times</option>
+                        <option value="until">On a date</option>
+                      </select>
+                    </div>
+                    {endMode === "count" ? (
+                      <div>
+                        <Label htmlFor="repeat-count">Appointments in total</Label>
+                        <input
+                          id="repeat-count"
+                          type="number"
+                          min={2}
+                          max={MAX_OCCURRENCES}
+                          value={occurrenceCount}
+                          onChange={(e) => setOccurrenceCount(parseInt(e.target.value, 10) || 2)}
+                          className="w-full h-10 border-input rounded-md p-2 border"
+                        />
+                      </div>
                     ) : (
-                      <div className="px-2 py-1.5 text-sm text-muted-foreground">No available times</div>
+                      <div>
+                        <Label htmlFor="repeat-until">Until</Label>
+                        <input
+                          id="repeat-until"
+                          type="date"
+                          value={untilDate}
+                          onChange={(e) => setUntilDate(e.target.value)}
+                          min={selectedDate || getTodayDateString(timeZone)}
+                          max={getMaxDateString(timeZone)}
+                          className="w-full h-10 border-input rounded-md p-2 border"
+                        />
+                      </div>
                     )}
-                  </SelectContent>
-                </Select>
+                  </div>
+                )}
               </div>
-            </div>
+            )}
+
             <div className="mt-8 text-center">
               <Button
                 onClick={handleBooking}
-                disabled={isBooking || !selectedServiceId || !selectedDate || !selectedTime}
+                disabled={
+                  isBooking ||
+                  selectedServiceIds.length === 0 ||
+                  !selectedDate ||
+                  !selectedTime ||
+                  (isRecurring && endMode === "until" && !untilDate)
+                }
                 className="bg-barber-gold hover:bg-barber-gold/90 text-black font-bold px-10 py-3 text-lg"
               >
                 <CalendarIconLucide className="h-5 w-5 mr-2" />
@@ -327,57 +981,148 @@ export default function AppointmentClientPage({
             </h2>
             <div className="space-y-4">
               {initialAppointments.length > 0 ? (
-                initialAppointments.map((app) => (
-                  <div
-                    key={app._id}
-                    className="border p-4 rounded-md flex justify-between items-center flex-wrap gap-2"
-                  >
-                    <div>
-                      <p className="font-bold text-barber-navy">
-                        {(app as any).service?.name || "Service not found"}
-                      </p>
-                      <p className="text-sm text-gray-600">
-                        {format(parseISO(app.date), "MMMM dd, yyyy")} at{" "}
-                        {format(parseISO(app.date), "p")}
-                      </p>
-                      <span
-                        className={`capitalize text-xs font-semibold px-2 py-1 rounded-full ${
-                          app.status === "scheduled"
-                            ? "bg-blue-100 text-blue-800"
-                            : app.status === "completed"
-                            ? "bg-green-100 text-green-800"
-                            : "bg-red-100 text-red-800"
-                        }`}
-                      >
-                        {app.status}
-                      </span>
-                    </div>
-                    {app.status === "scheduled" && (
-                      <div className="flex gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleOpenEditModal(app)}
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleCancelAppointment(app._id)}
+                initialAppointments.map((app) => {
+                  const cancelCheck = checkCancellation(app.date, cancellationPolicy);
+                  const rescheduleCheck = checkReschedule(app.date, cancellationPolicy);
+                  return (
+                    <div
+                      key={app._id}
+                      className="border p-4 rounded-md flex justify-between items-center flex-wrap gap-2"
+                    >
+                      <div>
+                        <p className="font-bold text-barber-navy">
+                          {describeVisit(app)}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {formatInZone(app.date, "MMMM dd, yyyy", timeZone)} at{" "}
+                          {formatInZone(app.date, "p", timeZone)}
+                          {app.barber?.name && ` with ${app.barber.name}`}
+                        </p>
+                        <span
+                          className={`text-xs font-semibold px-2 py-1 rounded-full ${
+                            STATUS_BADGE_CLASSES[app.status] ?? "bg-gray-100 text-gray-800"
+                          }`}
                         >
-                          <Trash2 className="h-4 w-4 text-red-500" />
-                        </Button>
+                          {STATUS_LABELS[app.status] ?? app.status}
+                        </span>
+                        {app.series && (
+                          <span className="ml-2 inline-flex items-center gap-1 text-xs text-gray-500">
+                            <Repeat className="h-3 w-3" />
+                            Recurring
+                          </span>
+                        )}
+                        {UPCOMING_STATUSES.includes(app.status) && styleProfile && (
+                          <p className="text-sm text-gray-600 mt-2 max-w-md">
+                            <span className="font-semibold">Your style:</span> {styleProfile}
+                          </p>
+                        )}
+                        {app.clientNotes && (
+                          <p className="text-sm text-gray-600 mt-2 max-w-md whitespace-pre-line">
+                            <span className="font-semibold">Your note:</span> {app.clientNotes}
+                          </p>
+                        )}
+                        {app.photos && app.photos.length > 0 && (
+                          <div className="flex gap-2 mt-2">
+                            {app.photos.map((photo, index) => (
+                              <a key={photo} href={photo} target="_blank" rel="noopener noreferrer" className="relative h-12 w-12 rounded-md overflow-hidden border">
+                                <Image src={photo} alt={`Reference photo ${index + 1}`} fill unoptimized className="object-cover" />
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                        {UPCOMING_STATUSES.includes(app.status) && !rescheduleCheck.allowed && (
+                          <p className="text-xs text-gray-500 mt-2 max-w-md">
+                            {cancelCheck.allowed
+                              ? `${rescheduleCheck.reason} Cancelling now will be recorded as a late cancellation.`
+                              : rescheduleCheck.reason}
+                          </p>
+                        )}
                       </div>
-                    )}
-                  </div>
-                ))
+                      {UPCOMING_STATUSES.includes(app.status) && (
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleOpenEditModal(app)}
+                            disabled={!rescheduleCheck.allowed}
+                            title={rescheduleCheck.allowed ? "Change date or time" : rescheduleCheck.reason}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCancelAppointment(app)}
+                            disabled={!cancelCheck.allowed}
+                            title={cancelCheck.allowed ? "Cancel appointment" : cancelCheck.reason}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
               ) : (
                 <p className="text-center text-gray-500 py-8">
                   You have no appointments scheduled.
                 </p>
               )}
             </div>
+
+            {/* Waitlist entries, with the slot offered once one frees up */}
+            {waitlist.length > 0 && (
+              <>
+                <h2 className="text-2xl font-bold font-serif text-barber-brown mt-10 mb-6">
+                  My Waitlist
+                </h2>
+                <div className="space-y-4">
+                  {waitlist.map((entry) => (
+                    <div
+                      key={entry._id}
+                      className="border p-4 rounded-md flex justify-between items-center flex-wrap gap-2"
+                    >
+                      <div>
+                        <p className="font-bold text-barber-navy">
+                          {entry.services && entry.services.length > 0
+                            ? entry.services.map((service) => service.name).join(" + ")
+                            : entry.service?.name || "Service not found"}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {format(parseISO(entry.date), "MMMM dd, yyyy")}, starting between {entry.windowStart} and{" "}
+                          {entry.windowEnd}
+                          {entry.barber?.name && ` with ${entry.barber.name}`}
+                        </p>
+                        {entry.status === "offered" && entry.offer ? (
+                          <p className="text-sm font-semibold text-green-700">
+                            A slot opened at {formatInZone(entry.offer.start, "p", timeZone)}. Accept it by{" "}
+                            {formatInZone(entry.offer.expiresAt, "p", timeZone)}.
+                          </p>
+                        ) : (
+                          <span className="text-xs font-semibold px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                            waiting
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        {entry.status === "offered" && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleAcceptOffer(entry._id)}
+                            className="bg-barber-gold hover:bg-barber-gold/90 text-black"
+                          >
+                            Accept
+                          </Button>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => handleLeaveWaitlist(entry)}>
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
         )}
       </div>
@@ -395,7 +1140,7 @@ export default function AppointmentClientPage({
                 type="date"
                 value={newDate}
                 onChange={(e) => setNewDate(e.target.value)}
-                min={getTodayDateString()}
+                min={getTodayDateString(timeZone)}
                 className="w-full h-10 border-input rounded-md p-2 border"
               />
             </div>
@@ -406,7 +1151,8 @@ export default function AppointmentClientPage({
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {allAvailableTimes.map((time) => (
+                  {/* The appointment's own slot is excluded from the busy intervals, so it stays listed */}
+                  {editTimes.map((time) => (
                     <SelectItem key={time} value={time}>
                       {time}
                     </SelectItem>
@@ -414,6 +1160,21 @@ export default function AppointmentClientPage({
                 </SelectContent>
               </Select>
             </div>
+            {/* Recurring appointments can carry the change over to the later occurrences */}
+            {editingAppointment?.series && (
+              <div>
+                <Label>Apply to</Label>
+                <Select value={editScope} onValueChange={(value) => setEditScope(value as SeriesScope)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="one">Only this appointment</SelectItem>
+                    <SelectItem value="following">This and following appointments</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <DialogClose asChild>
@@ -425,6 +1186,78 @@ export default function AppointmentClientPage({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Join waitlist dialog */}
+      <Dialog open={isWaitlistOpen} onOpenChange={setIsWaitlistOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Join the Waitlist</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            {selectedDate && `We'll offer you the first slot that frees up on ${format(parseISO(selectedDate), "MMMM dd, yyyy")} `}
+            starting within this window. Offers are held for a limited time.
+          </p>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div>
+              <Label htmlFor="waitlist-from">From</Label>
+              <input
+                id="waitlist-from"
+                type="time"
+                value={windowStart}
+                onChange={(e) => setWindowStart(e.target.value)}
+                className="w-full h-10 border-input rounded-md p-2 border"
+              />
+            </div>
+            <div>
+              <Label htmlFor="waitlist-to">To</Label>
+              <input
+                id="waitlist-to"
+                type="time"
+                value={windowEnd}
+                onChange={(e) => setWindowEnd(e.target.value)}
+                className="w-full h-10 border-input rounded-md p-2 border"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button onClick={handleJoinWaitlist} disabled={isJoiningWaitlist}>
+              {isJoiningWaitlist ? "Joining..." : "Join Waitlist"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel recurring appointment dialog */}
+      <Dialog open={!!cancelingAppointment} onOpenChange={() => setCancelingAppointment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Recurring Appointment</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-600">
+            This appointment is part of a recurring booking. Cancel only this one, or this one and every
+            later appointment in the series?
+          </p>
+          {cancelingAppointment && checkCancellation(cancelingAppointment.date, cancellationPolicy).late && (
+            <p className="text-sm text-red-600">
+              This appointment is within the cancellation notice period and will be recorded as a late cancellation.
+            </p>
+          )}
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button variant="outline">Keep</Button>
+            </DialogClose>
+            <Button variant="outline" onClick={() => handleCancelSeries("one")}>
+              Only this appointment
+            </Button>
+            <Button variant="destructive" onClick={() => handleCancelSeries("following")}>
+              This and following
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </main>
   );
 }
@@ -0,0 +1,204 @@
+/**
+ * @file app/components/sections/appointments/GuestAppointmentClient.tsx
+ * @description Client-side component of the page a guest opens from their booking's manage link.
+ * It shows the booking and lets the guest move it to another free time or cancel it, within the
+ * shop's cancellation policy, without an account. Moving the booking opens its new manage link,
+ * as the old one expires with the old time.
+ * All dates and times are shown and chosen in the shop's time zone, whatever the browser's zone.
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/app/components/ui/button";
+import { Label } from "@/app/components/ui/label";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/app/components/ui/select";
+import { Pencil, Trash2 } from "lucide-react";
+import { Appointment, CancellationPolicy } from "@/app/types";
+import { getAvailableTimes } from "@/app/actions/appointmentActions";
+import { cancelGuestAppointmentAction, rescheduleGuestAppointmentAction } from "@/app/actions/guestActions";
+import { formatInZone } from "@/lib/availability";
+import { STATUS_BADGE_CLASSES, STATUS_LABELS, UPCOMING_STATUSES } from "@/lib/appointmentStatus";
+import { checkCancellation, checkReschedule } from "@/lib/cancellationPolicy";
+import { describeVisit, visitServiceIds } from "@/lib/visit";
+
+interface GuestAppointmentClientProps {
+  token: string;
+  appointment: Appointment;
+  timeZone: string;
+  cancellationPolicy: CancellationPolicy;
+}
+
+/**
+ * @component GuestAppointmentClient
+ * @description Shows a guest's booking with its status, and, while it is upcoming:
+ * - a form to pick a new date and one of the times the visit fits then (its own slot stays listed);
+ * - a button to cancel it after confirmation.
+ * Both follow the cancellation policy and explain why they are unavailable inside the notice period.
+ */
+export default function GuestAppointmentClient({
+  token,
+  appointment,
+  timeZone,
+  cancellationPolicy,
+}: GuestAppointmentClientProps) {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(false);
+  const [newDate, setNewDate] = useState(() => formatInZone(appointment.date, "yyyy-MM-dd", timeZone));
+  const [newTime, setNewTime] = useState(() => formatInZone(appointment.date, "HH:mm", timeZone));
+  const [times, setTimes] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isUpcoming = UPCOMING_STATUSES.includes(appointment.status);
+  const cancelCheck = checkCancellation(appointment.date, cancellationPolicy);
+  const rescheduleCheck = checkReschedule(appointment.date, cancellationPolicy);
+
+  // Effect: Fetch the times the booking can move to on the chosen date (ignoring its current slot)
+  useEffect(() => {
+    if (!isEditing || !newDate) {
+      setTimes([]);
+      return;
+    }
+    const fetchTimes = async () => {
+      setTimes(await getAvailableTimes(newDate, visitServiceIds(appointment), appointment.barber?._id, appointment._id));
+    };
+    fetchTimes();
+  }, [isEditing, newDate, appointment]);
+
+  /**
+   * Moves the booking, then opens the manage link issued for its new time.
+   */
+  const handleReschedule = async () => {
+    if (!newDate || !newTime) return toast.error("Please choose a date and time.");
+    setIsSaving(true);
+    const result = await rescheduleGuestAppointmentAction(token, newDate, newTime);
+    setIsSaving(false);
+    if (!result.success) return toast.error(result.message);
+    toast.success(result.message);
+    setIsEditing(false);
+    if (result.manageLink) router.replace(result.manageLink);
+    else router.refresh();
+  };
+
+  /**
+   * Cancels the booking after confirmation, warning first when it will count as a late cancellation.
+   */
+  const handleCancel = async () => {
+    const question = cancelCheck.late
+      ? "This is within the cancellation notice period and will be recorded as a late cancellation. Cancel anyway?"
+      : "Are you sure you want to cancel this appointment?";
+    if (!window.confirm(question)) return;
+    const result = await cancelGuestAppointmentAction(token);
+    if (result.success) toast.success(result.message);
+    else toast.error(result.message);
+    router.refresh();
+  };
+
+  return (
+    <main className="container mx-auto px-4 py-12 w-full max-w-xl">
+      <div className="bg-white p-6 rounded-lg shadow-lg border border-barber-cream space-y-4">
+        <h1 className="text-2xl font-bold font-serif text-barber-brown">Your Booking</h1>
+        <div>
+          <p className="font-bold text-barber-navy">{describeVisit(appointment)}</p>
+          <p className="text-sm text-gray-600">
+            {formatInZone(appointment.date, "MMMM dd, yyyy", timeZone)} at {formatInZone(appointment.date, "p", timeZone)}
+            {appointment.barber?.name && ` with ${appointment.barber.name}`}
+          </p>
+          <span
+            className={`text-xs font-semibold px-2 py-1 rounded-full ${
+              STATUS_BADGE_CLASSES[appointment.status] ?? "bg-gray-100 text-gray-800"
+            }`}
+          >
+            {STATUS_LABELS[appointment.status] ?? appointment.status}
+          </span>
+          {appointment.clientNotes && (
+            <p className="text-sm text-gray-600 mt-2 whitespace-pre-line">
+              <span className="font-semibold">Your note:</span> {appointment.clientNotes}
+            </p>
+          )}
+          {isUpcoming && !rescheduleCheck.allowed && (
+            <p className="text-xs text-gray-500 mt-2">
+              {cancelCheck.allowed
+                ? `${rescheduleCheck.reason} Cancelling now will be recorded as a late cancellation.`
+                : rescheduleCheck.reason}
+            </p>
+          )}
+        </div>
+
+        {isUpcoming && !isEditing && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsEditing(true)}
+              disabled={!rescheduleCheck.allowed}
+              title={rescheduleCheck.allowed ? "Change date or time" : rescheduleCheck.reason}
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Reschedule
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleCancel}
+              disabled={!cancelCheck.allowed}
+              title={cancelCheck.allowed ? "Cancel appointment" : cancelCheck.reason}
+            >
+              <Trash2 className="h-4 w-4 mr-2 text-red-500" />
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {/* Reschedule form: a new date, then one of the times the visit fits */}
+        {isEditing && (
+          <div className="grid gap-4 border-t border-barber-cream pt-4">
+            <div>
+              <Label htmlFor="guest-new-date">New Date</Label>
+              <input
+                id="guest-new-date"
+                type="date"
+                value={newDate}
+                onChange={(e) => {
+                  setNewDate(e.target.value);
+                  setNewTime("");
+                }}
+                min={formatInZone(new Date(), "yyyy-MM-dd", timeZone)}
+                className="w-full h-10 border-input rounded-md p-2 border"
+              />
+            </div>
+            <div>
+              <Label>New Time</Label>
+              <Select value={newTime} onValueChange={setNewTime}>
+                <SelectTrigger>
+                  <SelectValue placeholder={times.length > 0 ? "Select a time" : "No available times"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {times.map((time) => (
+                    <SelectItem key={time} value={time}>
+                      {time}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setIsEditing(false)}>
+                Back
+              </Button>
+              <Button onClick={handleReschedule} disabled={isSaving || !newTime}>
+                {isSaving ? "Saving..." : "Save Changes"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-gray-500 border-t border-barber-cream pt-4">
+          <Link href="/signup" className="underline">Create an account</Link> with the email you booked with to
+          manage all your appointments in one place.
+        </p>
+      </div>
+    </main>
+  );
+}
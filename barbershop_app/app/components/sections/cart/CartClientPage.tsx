@@ -26,11 +26,9 @@ import { checkoutAction } from "@/app/actions/cartActions";
  *
  * @interface CartClientPageProps
  * @property {boolean} isAuthenticated - Indicates if the user is currently logged in.
- * @property {string | undefined} userId - Unique identifier for the authenticated user.
  */
 interface CartClientPageProps {
   isAuthenticated: boolean;
-  userId: string | undefined;
 }
 
 /**
@@ -46,7 +44,7 @@ interface CartClientPageProps {
  * @param {CartClientPageProps} props - Component properties.
  * @returns {JSX.Element} The rendered cart UI.
  */
-export default function CartClientPage({ isAuthenticated, userId }: CartClientPageProps) {
+export default function CartClientPage({ isAuthenticated }: CartClientPageProps) {
   // Extract cart state and operations from context
   const {
     items: cartItems,
@@ -92,8 +90,8 @@ export default function CartClientPage({ isAuthenticated, userId }: CartClientPa
     toast.loading("Processing your order...", { id: "checkout-toast" });
 
     try {
-      // Execute server-side checkout; redirection happens on success
-      const result = await checkoutAction(cartItems, userId);
+      // Execute server-side checkout for the logged-in user; redirection happens on success
+      const result = await checkoutAction(cartItems);
       if (result?.success === false) {
         throw new Error(result.message);
       }
@@ -0,0 +1,221 @@
+/**
+ * @file app/components/sections/kiosk/KioskClientPage.tsx
+ * @description Client-side React component for the in-shop kiosk.
+ * Walk-in clients enter their name and the service they want to join today's queue; booked clients
+ * check in with the email or phone they booked with. The live queue, with each client's estimated wait,
+ * is shown alongside and refreshed every few seconds.
+ */
+
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from "@/app/components/ui/select";
+import { toast } from "sonner";
+import { CalendarCheck, Footprints, Users } from "lucide-react";
+import { ServiceType, QueueEntryType } from "@/app/types";
+import { checkInAction, getKioskQueueAction, joinQueueAction } from "@/app/actions/kioskActions";
+import { formatInZone } from "@/lib/availability";
+
+/**
+ * How often, in milliseconds, the queue on screen is refreshed.
+ */
+const REFRESH_INTERVAL_MS = 15_000;
+
+/**
+ * Describes how long a client is expected to wait, e.g. "about 25 min" or "next".
+ * @param estimatedStart - the expected start as an ISO string
+ * @param now - the current time
+ */
+const describeWait = (estimatedStart: string, now: Date): string => {
+  const minutes = Math.round((new Date(estimatedStart).getTime() - now.getTime()) / 60_000);
+  return minutes <= 0 ? "next" : `about ${minutes} min`;
+};
+
+interface KioskClientPageProps {
+  services: ServiceType[];
+  initialQueue: QueueEntryType[];
+  timeZone: string;
+}
+
+/**
+ * @component KioskClientPage
+ * @description Kiosk screen with two forms and the live queue.
+ * - "Walk in": joins the queue with a name and a service.
+ * - "I have a booking": checks in today's appointment by email or phone.
+ * - The queue lists waiting clients by shortened name, next client first, with their estimated wait.
+ */
+export default function KioskClientPage({ services, initialQueue, timeZone }: KioskClientPageProps) {
+  const [mode, setMode] = useState<"walk-in" | "check-in">("walk-in");
+  const [queue, setQueue] = useState<QueueEntryType[]>(initialQueue);
+  const [now, setNow] = useState(() => new Date());
+
+  // Walk-in and check-in form states
+  const [name, setName] = useState("");
+  const [serviceId, setServiceId] = useState("");
+  const [contact, setContact] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Reloads the queue from the server.
+   */
+  const refreshQueue = async () => {
+    setQueue(await getKioskQueueAction());
+    setNow(new Date());
+  };
+
+  // Effect: Keep the queue and the estimated waits up to date while the kiosk is on screen
+  useEffect(() => {
+    const timer = setInterval(refreshQueue, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  /**
+   * Handles a walk-in joining the queue, then clears the form for the next client.
+   */
+  const handleJoinQueue = async () => {
+    if (!name.trim() || !serviceId) return toast.error("Please enter your name and choose a service.");
+    setIsSubmitting(true);
+    const result = await joinQueueAction({ name, serviceId });
+    if (result.success) {
+      toast.success(result.message, {
+        description: result.estimatedStart
+          ? `Estimated wait: ${describeWait(result.estimatedStart, new Date())}.`
+          : undefined,
+      });
+      setName("");
+      setServiceId("");
+      await refreshQueue();
+    } else {
+      toast.error(result.message);
+    }
+    setIsSubmitting(false);
+  };
+
+  /**
+   * Handles a booked client checking in, then clears the form for the next client.
+   */
+  const handleCheckIn = async () => {
+    setIsSubmitting(true);
+    const result = await checkInAction(contact);
+    if (result.success) {
+      toast.success(result.message);
+      setContact("");
+      await refreshQueue();
+    } else {
+      toast.error(result.message);
+    }
+    setIsSubmitting(false);
+  };
+
+  return (
+    <main className="container mx-auto px-4 py-12 grid grid-cols-1 lg:grid-cols-2 gap-8 w-full max-w-5xl">
+      <div className="bg-white p-8 rounded-lg shadow-lg border border-barber-cream">
+        <h1 className="text-3xl font-bold font-serif text-barber-brown mb-6 text-center">Welcome!</h1>
+
+        {/* Switcher between joining as a walk-in and checking in a booking */}
+        <div className="flex justify-center mb-8">
+          <div className="bg-barber-cream p-1 rounded-lg inline-flex">
+            <Button onClick={() => setMode("walk-in")} variant={mode === "walk-in" ? "default" : "ghost"} className="px-6">
+              <Footprints className="h-4 w-4 mr-2" />
+              Walk in
+            </Button>
+            <Button onClick={() => setMode("check-in")} variant={mode === "check-in" ? "default" : "ghost"} className="px-6">
+              <CalendarCheck className="h-4 w-4 mr-2" />
+              I have a booking
+            </Button>
+          </div>
+        </div>
+
+        {mode === "walk-in" ? (
+          <div className="space-y-6">
+            <div>
+              <Label htmlFor="kiosk-name">Your name</Label>
+              <Input
+                id="kiosk-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                autoComplete="off"
+                className="h-12 text-lg"
+              />
+            </div>
+            <div>
+              <Label htmlFor="kiosk-service">Service</Label>
+              <Select value={serviceId} onValueChange={setServiceId}>
+                <SelectTrigger id="kiosk-service" className="h-12 text-lg">
+                  <SelectValue placeholder="Select a service" />
+                </SelectTrigger>
+                <SelectContent>
+                  {services.map((service) => (
+                    <SelectItem key={service._id} value={service._id}>
+                      {service.name} ({service.duration} min) - ${service.price.toFixed(2)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={handleJoinQueue}
+              disabled={isSubmitting || !name.trim() || !serviceId}
+              className="w-full bg-barber-gold hover:bg-barber-gold/90 text-black font-bold py-6 text-lg"
+            >
+              {isSubmitting ? "Joining..." : "Join the queue"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <Label htmlFor="kiosk-contact">Email or phone number you booked with</Label>
+              <Input
+                id="kiosk-contact"
+                value={contact}
+                onChange={(e) => setContact(e.target.value)}
+                autoComplete="off"
+                className="h-12 text-lg"
+              />
+            </div>
+            <Button
+              onClick={handleCheckIn}
+              disabled={isSubmitting || !contact.trim()}
+              className="w-full bg-barber-gold hover:bg-barber-gold/90 text-black font-bold py-6 text-lg"
+            >
+              {isSubmitting ? "Checking in..." : "Check in"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Live queue: shortened names, next client first */}
+      <div className="bg-white p-8 rounded-lg shadow-lg border border-barber-cream">
+        <h2 className="text-2xl font-bold font-serif text-barber-brown mb-6 flex items-center gap-2">
+          <Users className="h-6 w-6" />
+          Queue
+        </h2>
+        {queue.length > 0 ? (
+          <ol className="space-y-3">
+            {queue.map((entry, index) => (
+              <li key={entry._id} className="border p-4 rounded-md flex justify-between items-center gap-2">
+                <div>
+                  <p className="font-bold text-barber-navy">
+                    {index + 1}. {entry.name}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {entry.service}
+                    {entry.scheduledAt && ` · booked for ${formatInZone(entry.scheduledAt, "p", timeZone)}`}
+                  </p>
+                </div>
+                <span className="text-sm font-semibold text-barber-brown whitespace-nowrap">
+                  {describeWait(entry.estimatedStart, now)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-center text-gray-500 py-8">Nobody is waiting. You&apos;re next!</p>
+        )}
+      </div>
+    </main>
+  );
+}
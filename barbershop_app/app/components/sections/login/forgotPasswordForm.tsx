@@ -0,0 +1,70 @@
+// app/components/sections/login/forgotPasswordForm.tsx
+// Renders the form asking for a password reset link, submitted via a server action.
+
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+
+import { requestPasswordResetAction } from "@/app/actions/authActions";
+
+/**
+ * ForgotPasswordForm
+ *
+ * A React functional component asking for the email of the account whose password was forgotten.
+ * Submits it to the requestPasswordResetAction server function, then shows the answer in place
+ * of the form, or an error toast on failure.
+ *
+ * @component
+ * @returns {JSX.Element} The forgot-password form UI.
+ */
+export const ForgotPasswordForm: React.FC = () => {
+  // Tracks whether the form submission is in progress, and the answer once it is sent
+  const [isLoading, setIsLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  /**
+   * handleSubmit
+   *
+   * Prevents default form submission, sets loading state,
+   * invokes the requestPasswordResetAction server action,
+   * and shows its message or an error toast.
+   *
+   * @param {React.FormEvent<HTMLFormElement>} event - Form submission event
+   */
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsLoading(true);
+
+    const result = await requestPasswordResetAction(new FormData(event.currentTarget));
+    if ("error" in result) {
+      toast.error(result.error);
+    } else {
+      setSentMessage(result.message);
+    }
+
+    setIsLoading(false);
+  };
+
+  if (sentMessage) {
+    return <p className="text-sm text-center text-muted-foreground">{sentMessage}</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Email Input */}
+      <div className="space-y-2">
+        <Label htmlFor="forgot-email">Email</Label>
+        <Input id="forgot-email" name="email" type="email" required />
+      </div>
+
+      {/* Submit Button with loading state */}
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? "Sending..." : "Send Reset Link"}
+      </Button>
+    </form>
+  );
+};
@@ -20,6 +20,7 @@ import { loginAction } from "@/app/actions/authActions";
  * A React functional component rendering a login form with email/username and password fields.
  * - Toggles password visibility.
  * - Captures an optional 'redirect' query parameter for post-login navigation.
+ * - Confirms a password reset ('reset=success') so the user logs in with the new password.
  * - Submits credentials via loginAction and displays toast notifications for errors.
  *
  * @component
@@ -33,6 +34,7 @@ export const LoginForm: React.FC = () => {
   // Read URL search parameters to capture redirect target after login
   const searchParams = useSearchParams();
   const callbackUrl = searchParams.get('redirect');
+  const passwordReset = searchParams.get('reset') === 'success';
 
   /**
    * handleSubmit
@@ -64,6 +66,12 @@ export const LoginForm: React.FC = () => {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {passwordReset && (
+        <p className="text-sm text-green-700 bg-green-50 border border-green-200 rounded-md p-3">
+          Your password has been reset. Please log in with your new password.
+        </p>
+      )}
+
       {/* Email/Username input */}
       <div className="space-y-2">
         <Label htmlFor="login-email">Email</Label>
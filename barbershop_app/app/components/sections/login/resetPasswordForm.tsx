@@ -0,0 +1,104 @@
+// app/components/sections/login/resetPasswordForm.tsx
+// Renders the form choosing a new password from a reset link, submitted via a server action.
+
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/app/components/ui/button";
+import { Input } from "@/app/components/ui/input";
+import { Label } from "@/app/components/ui/label";
+import { Eye, EyeOff } from "lucide-react";
+
+import { resetPasswordAction } from "@/app/actions/authActions";
+
+/**
+ * Props for the ResetPasswordForm component.
+ *
+ * @interface ResetPasswordFormProps
+ * @property {string} token - The token of the reset link the form was opened from.
+ */
+interface ResetPasswordFormProps {
+  token: string;
+}
+
+/**
+ * ResetPasswordForm
+ *
+ * A React functional component providing fields for the new password and its confirmation,
+ * with a toggle to show/hide them. Submits them with the link's token to the resetPasswordAction
+ * server function, which redirects to login on success; errors are shown as toasts.
+ *
+ * @component
+ * @returns {JSX.Element} The reset-password form UI.
+ */
+export const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({ token }) => {
+  // UI state for toggling visibility of the password fields, and the submission in progress
+  const [showPassword, setShowPassword] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  /**
+   * handleSubmit
+   *
+   * Prevents default form submission, sets loading state,
+   * adds the link's token to the form data, invokes the resetPasswordAction server action,
+   * and handles potential error responses with toast notifications.
+   *
+   * @param {React.FormEvent<HTMLFormElement>} event - Form submission event
+   */
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsLoading(true);
+
+    const formData = new FormData(event.currentTarget);
+    formData.append('token', token);
+    const result = await resetPasswordAction(formData);
+
+    if (result?.error) {
+      toast.error(result.error);
+    }
+
+    setIsLoading(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* New Password Input with visibility toggle */}
+      <div>
+        <Label htmlFor="reset-password">New Password</Label>
+        <div className="relative">
+          <Input
+            id="reset-password"
+            name="password"
+            type={showPassword ? "text" : "password"}
+            required
+          />
+          <button
+            type="button"
+            onClick={() => setShowPassword(!showPassword)}
+            className="absolute inset-y-0 right-0 px-3 flex items-center text-gray-500 hover:text-barber-brown"
+            aria-label={showPassword ? "Hide password" : "Show password"}
+          >
+            {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
+          </button>
+        </div>
+      </div>
+
+      {/* Confirm Password Input */}
+      <div>
+        <Label htmlFor="reset-confirm-password">Confirm New Password</Label>
+        <Input
+          id="reset-confirm-password"
+          name="confirmPassword"
+          type={showPassword ? "text" : "password"}
+          required
+        />
+      </div>
+
+      {/* Submit Button with loading state */}
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? "Saving..." : "Reset Password"}
+      </Button>
+    </form>
+  );
+};
@@ -9,6 +9,7 @@ import { toast } from "sonner";
 import { Button } from "@/app/components/ui/button";
 import { Input } from "@/app/components/ui/input";
 import { Label } from "@/app/components/ui/label";
+import { Textarea } from "@/app/components/ui/textArea";
 import {
   Card,
   CardContent,
@@ -18,6 +19,7 @@ import {
   CardTitle,
 } from "@/app/components/ui/card";
 import { User } from "@/app/types";
+import { MAX_NOTE_LENGTH } from "@/lib/appointmentNotes";
 
 // Server Action to update user profile on the backend
 import { updateUserProfileAction } from "@/app/actions/userActions";
@@ -52,6 +54,7 @@ function SaveButton() {
  * Provides a two-column layout:
  * - Personal Information: readonly email, editable name and phone fields.
  * - Shipping Address: editable street, city, state, and ZIP fields.
+ * - Style Profile (full width below): how the client likes their hair done, shown to their barber.
  *
  * Manages form state locally and submits updates via updateUserProfileAction.
  * Displays toast notifications based on success or failure.
@@ -61,6 +64,7 @@ export default function ProfileFormClient({ initialUser }: ProfileFormClientProp
   const [formState, setFormState] = useState({
     name: initialUser.name,
     phone: initialUser.phone || "",
+    styleProfile: initialUser.styleProfile || "",
     address: initialUser.address || {
       street: "",
       city: "",
@@ -75,7 +79,7 @@ export default function ProfileFormClient({ initialUser }: ProfileFormClientProp
    * Updates nested form state fields for both top-level and address entries.
    * Uses the input's name attribute to determine which state slice to update.
    */
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     if (["street", "city", "state", "zip"].includes(name)) {
       setFormState((prev) => ({
@@ -91,13 +95,10 @@ export default function ProfileFormClient({ initialUser }: ProfileFormClientProp
    * handleFormSubmit
    *
    * Receives a FormData object (unused here) and invokes the server action with
-   * the current formState and userId. Shows toast feedback based on result.
+   * the current formState; the server updates the logged-in user. Shows toast feedback based on result.
    */
   const handleFormSubmit = async (formData: FormData) => {
-    const result = await updateUserProfileAction({
-      userId: initialUser._id,
-      ...formState,
-    });
+    const result = await updateUserProfileAction(formState);
 
     if (result.success) {
       toast.success(result.message);
@@ -205,6 +206,25 @@ export default function ProfileFormClient({ initialUser }: ProfileFormClientProp
             <SaveButton />
           </CardFooter>
         </Card>
+
+        {/* Style Profile Card */}
+        <Card className="md:col-span-3">
+          <CardHeader>
+            <CardTitle>Style Profile</CardTitle>
+            <CardDescription>How you like your hair and beard done. Your barber sees this before every visit.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Label htmlFor="styleProfile" className="sr-only">Style Profile</Label>
+            <Textarea
+              id="styleProfile"
+              name="styleProfile"
+              value={formState.styleProfile}
+              onChange={handleChange}
+              maxLength={MAX_NOTE_LENGTH}
+              placeholder="e.g. Low fade, 0.5 guard on the sides, scissors on top. Beard kept short."
+            />
+          </CardContent>
+        </Card>
       </div>
     </form>
   );
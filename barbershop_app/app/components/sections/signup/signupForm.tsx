@@ -17,7 +17,8 @@ import { signupAction } from "@/app/actions/authActions";
  *
  * A React functional component providing fields for name, email, phone, password, and
  * password confirmation. Includes toggles to show/hide password inputs and a loading state.
- * Submits collected FormData to the signupAction server function and displays error toasts on failure.
+ * Submits collected FormData to the signupAction server function and displays error toasts on failure,
+ * or the message telling a guest to check their email.
  *
  * @component
  * @returns {JSX.Element} The signup form UI.
@@ -26,15 +27,17 @@ export const SignupForm: React.FC = () => {
   // UI state for toggling visibility of password fields
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
-  // Tracks whether the form submission is in progress
+  // Tracks whether the form submission is in progress, and the answer when a link was emailed instead
   const [isLoading, setIsLoading] = useState(false);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
 
   /**
    * handleSubmit
    *
    * Prevents default form submission, sets loading state,
    * collects form data, invokes the signupAction server action,
-   * and handles potential error responses with toast notifications.
+   * and handles potential error responses with toast notifications. A guest's email gets
+   * a link to finish signing up, which the form says in place of the fields.
    *
    * @param {React.FormEvent<HTMLFormElement>} event - Form submission event
    */
@@ -47,11 +50,17 @@ export const SignupForm: React.FC = () => {
 
     if (result?.error) {
       toast.error(result.error);
+    } else if (result?.message) {
+      setSentMessage(result.message);
     }
 
     setIsLoading(false);
   };
 
+  if (sentMessage) {
+    return <p className="text-sm text-center text-muted-foreground">{sentMessage}</p>;
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Full Name Input */}
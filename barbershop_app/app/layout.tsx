@@ -2,7 +2,7 @@
  * @file barbershop_app/app/layout.tsx
  * @description This is the global Root Layout component for the SharpShears Barbershop app.
  * It sets up global providers, persistent layout structure (Navbar, Footer),
- * and handles session parsing from cookies.
+ * and reads the session (see `lib/session.ts`).
  */
 
 import "./globals.css";
@@ -12,7 +12,7 @@ import { CartProvider } from "./contexts/CartContext";
 import { Toaster } from "sonner";
 import { Navbar } from "./components/layout/navbar";
 import { Footer } from "./components/layout/footer";
-import { cookies } from "next/headers";
+import { getSession } from "@/lib/session";
 
 /**
  * @constant metadata
@@ -27,27 +27,17 @@ export const metadata: Metadata = {
  * @component RootLayout
  * @description The top-level layout for the entire application.
  * It wraps all pages with Auth and Cart providers, shows the Navbar and Footer,
- * parses the session cookie, and renders page content inside a <main> tag.
+ * reads the session, and renders page content inside a <main> tag.
  *
  * @param {React.ReactNode} children - The child pages or components to render inside the layout.
  */
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
-  // Extracts the session cookie from request headers.
-  const sessionCookie = cookies().get('session')?.value;
-  let session = null;
-
-  // Parses the session JSON if available.
-  if (sessionCookie) {
-    try {
-      session = JSON.parse(sessionCookie);
-    } catch (error) {
-      session = null;
-    }
-  }
+  // Reads the session; forged, expired or revoked cookies count as logged out.
+  const session = await getSession();
 
   return (
     <html lang="en">
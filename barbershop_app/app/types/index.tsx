@@ -34,6 +34,10 @@ export type Address = {
  * @property {string} phone - User phone number.
  * @property {"client" | "admin"} role - User role (client or admin).
  * @property {Address} [address] - Optional address details.
+ * @property {number} [lateCancellations] - How many appointments the user cancelled inside the notice period.
+ * @property {number} [noShows] - How many appointments the user missed without cancelling.
+ * @property {string} [styleProfile] - How the client usually has their hair done, shown with each appointment.
+ * @property {boolean} [isGuest] - Whether the client booked without an account and has not signed up yet.
  * @property {string} createdAt - ISO timestamp when the user was created.
  * @property {string} updatedAt - ISO timestamp when the user was last updated.
  */
@@ -44,10 +48,27 @@ export interface User {
   phone: string;
   role: "client" | "admin";
   address?: Address;
+  lateCancellations?: number;
+  noShows?: number;
+  styleProfile?: string;
+  isGuest?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * @interface GuestDetails
+ * @description How a guest booking without an account can be reached, kept as a lightweight client record.
+ * @property {string} name - Full name of the guest.
+ * @property {string} email - Email address the confirmation and manage link are sent to.
+ * @property {string} phone - Phone number of the guest.
+ */
+export interface GuestDetails {
+  name: string;
+  email: string;
+  phone: string;
+}
+
 /**
  * @typedef SessionType
  * @description Represents the structure of the session stored in the cookie.
@@ -97,6 +118,8 @@ export interface ProductType {
  * @property {string} description - Description of the service.
  * @property {number} price - Price of the service.
  * @property {number} duration - Duration of the service in minutes.
+ * @property {number} [bufferBefore] - Minutes kept free before the service, e.g. to set up; not shown to clients.
+ * @property {number} [bufferAfter] - Minutes kept free after the service, e.g. to clean up; not shown to clients.
  * @property {string} image - Image URL representing the service.
  * @property {string} [icon] - Optional icon to represent the service.
  * @property {"service"} type - Fixed value to identify this as a service.
@@ -107,41 +130,409 @@ export interface ServiceType {
   description: string;
   price: number;
   duration: number;
+  bufferBefore?: number;
+  bufferAfter?: number;
   image: string;
   icon?: string;
   type: "service";
 }
 
 
+// -----------------------------
+// Staff Types
+// -----------------------------
+
+/**
+ * @interface BarberType
+ * @description Represents a barber (staff member) who appointments can be booked with.
+ * @property {string} _id - MongoDB barber ID.
+ * @property {string} name - Display name of the barber.
+ * @property {string} [email] - Optional contact email.
+ * @property {string} [phone] - Optional contact phone number.
+ * @property {boolean} active - Whether the barber currently accepts new bookings.
+ * @property {number} [bufferBefore] - Minutes the barber keeps free before each appointment.
+ * @property {number} [bufferAfter] - Minutes the barber keeps free after each appointment.
+ */
+export interface BarberType {
+  _id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  active: boolean;
+  bufferBefore?: number;
+  bufferAfter?: number;
+}
+
+
+// -----------------------------
+// Shop Settings Types
+// -----------------------------
+
+/**
+ * @typedef TimeRange
+ * @description A time window within a day, such as a lunch break.
+ * @property {string} start - Start time in 'HH:mm' format.
+ * @property {string} end - End time in 'HH:mm' format.
+ */
+export type TimeRange = {
+  start: string;
+  end: string;
+};
+
+/**
+ * @interface DayHours
+ * @description Opening hours of the shop for one weekday.
+ * @property {number} dayOfWeek - Weekday, from 0 (Sunday) to 6 (Saturday).
+ * @property {boolean} isOpen - Whether the shop opens at all on that weekday.
+ * @property {string} open - Opening time in 'HH:mm' format.
+ * @property {string} close - Closing time in 'HH:mm' format; services must end by then.
+ * @property {TimeRange[]} breaks - Periods within the day when no appointment may run.
+ */
+export interface DayHours {
+  dayOfWeek: number;
+  isOpen: boolean;
+  open: string;
+  close: string;
+  breaks: TimeRange[];
+}
+
+/**
+ * @interface CancellationPolicy
+ * @description How much notice clients must give to cancel or reschedule on their own.
+ * @property {number} noticeHours - Minimum hours before the appointment; 0 disables the policy.
+ * @property {boolean} allowLateCancel - Whether clients may still cancel inside the notice period
+ *   (the cancellation is then flagged as late); rescheduling is never allowed there.
+ */
+export interface CancellationPolicy {
+  noticeHours: number;
+  allowLateCancel: boolean;
+}
+
+/**
+ * @interface ShopSettingsType
+ * @description Shop-wide configuration used by every time picker and booking check.
+ * @property {DayHours[]} weeklyHours - Opening hours for each weekday.
+ * @property {number} slotInterval - Minutes between the start times offered to clients.
+ * @property {string} timeZone - IANA time zone of the shop (e.g. "America/Sao_Paulo"); all booking
+ *   dates and times are wall-clock times in this zone.
+ * @property {CancellationPolicy} cancellationPolicy - Notice required for self-service cancellations and changes.
+ * @property {number[]} reminderHours - How many hours before an appointment clients are reminded of it (e.g. [24, 2]).
+ */
+export interface ShopSettingsType {
+  weeklyHours: DayHours[];
+  slotInterval: number;
+  timeZone: string;
+  cancellationPolicy: CancellationPolicy;
+  reminderHours: number[];
+}
+
+/**
+ * @type NotificationKind
+ * @description What a message sent to a client is about: a booking being made, moved or
+ *   cancelled, an upcoming appointment, or a slot offered to them from the waitlist.
+ */
+export type NotificationKind = "booked" | "rescheduled" | "cancelled" | "reminder" | "offer";
+
+/**
+ * @type NotificationChannel
+ * @description How a message reaches the client: by email, or by SMS to their phone.
+ */
+export type NotificationChannel = "email" | "sms";
+
+/**
+ * @interface ClosureType
+ * @description A holiday, closure or blackout period during which no bookings are accepted.
+ * @property {string} _id - MongoDB closure ID.
+ * @property {string} startDate - First closed day in 'YYYY-MM-DD' format.
+ * @property {string} endDate - Last closed day (inclusive) in 'YYYY-MM-DD' format.
+ * @property {string} [startTime] - Start of a partial closure in 'HH:mm'; omitted for full days.
+ * @property {string} [endTime] - End of a partial closure in 'HH:mm'; omitted for full days.
+ * @property {Object | null} [barber] - The barber affected, or null when the whole shop is closed.
+ * @property {string} barber._id - ID of the barber.
+ * @property {string} barber.name - Name of the barber.
+ * @property {string} reason - Why the shop or barber is unavailable (e.g. "Christmas").
+ */
+export interface ClosureType {
+  _id: string;
+  startDate: string;
+  endDate: string;
+  startTime?: string;
+  endTime?: string;
+  barber?: {
+    _id: string;
+    name: string;
+  } | null;
+  reason: string;
+}
+
+
 // -----------------------------
 // Appointment & Cart Types
 // -----------------------------
 
+/**
+ * @typedef AppointmentStatus
+ * @description Where an appointment stands in its lifecycle (see `lib/appointmentStatus.ts`):
+ * pending → scheduled → checked-in → in-progress → completed, or cancelled / no-show.
+ */
+export type AppointmentStatus =
+  | "pending"
+  | "scheduled"
+  | "checked-in"
+  | "in-progress"
+  | "completed"
+  | "cancelled"
+  | "no-show";
+
+/**
+ * @interface VisitItem
+ * @description One service of a visit, with its name, price and duration as they were when it was booked.
+ * @property {string} service - ID of the service.
+ * @property {string} name - Name of the service.
+ * @property {number} price - Price of the service.
+ * @property {number} duration - Duration of the service in minutes.
+ * @property {number} [bufferBefore] - Minutes kept free before the service; absent on items booked before buffers existed.
+ * @property {number} [bufferAfter] - Minutes kept free after the service; absent on items booked before buffers existed.
+ */
+export interface VisitItem {
+  service: string;
+  name: string;
+  price: number;
+  duration: number;
+  bufferBefore?: number;
+  bufferAfter?: number;
+}
+
 /**
  * @interface Appointment
- * @description Represents an appointment record with populated user and service details.
+ * @description Represents an appointment record (a visit of one or more services) with populated user and service details.
  * @property {string} _id - MongoDB appointment ID.
  * @property {string} date - Appointment date in ISO string format.
- * @property {"scheduled" | "completed" | "canceled" | "cancelled"} status - Current status of the appointment.
+ * @property {AppointmentStatus} status - Current status of the appointment.
  * @property {Object} user - Populated user details.
  * @property {string} user._id - ID of the user.
  * @property {string} user.name - Name of the user.
- * @property {Object} service - Populated service details.
+ * @property {string} [user.styleProfile] - The client's style profile, where loaded.
+ * @property {Object} service - Populated details of the visit's first service.
  * @property {string} service._id - ID of the service.
  * @property {string} service.name - Name of the service.
+ * @property {number} [service.duration] - Duration of the service in minutes, where loaded.
+ * @property {number} [service.bufferBefore] - Minutes kept free before the service, where loaded.
+ * @property {number} [service.bufferAfter] - Minutes kept free after the service, where loaded.
+ * @property {VisitItem[]} [items] - Every service of the visit, in the order they are performed; empty for
+ *   appointments booked before visits could hold several services, which consist of `service` alone.
+ * @property {Object | null} [barber] - Populated barber details, or null when booked against the shop's single chair.
+ * @property {string} barber._id - ID of the barber.
+ * @property {string} barber.name - Name of the barber.
+ * @property {string | null} [series] - ID shared by all occurrences of a recurring booking; absent for one-off appointments.
+ * @property {Object[]} [statusHistory] - Every status change, with `status` and the ISO time it happened (`changedAt`).
+ * @property {boolean} [lateCancellation] - Whether the client cancelled inside the cancellation notice period.
+ * @property {string} [clientNotes] - What the client asked for when booking.
+ * @property {string} [staffNotes] - What staff noted after the visit; not shown to the client.
+ * @property {string[]} [photos] - URLs of the reference photos the client attached when booking.
  */
 export interface Appointment {
   _id: string;
   date: string;
-  status: "scheduled" | "completed" | "canceled" | "cancelled";
+  status: AppointmentStatus;
   user: {
     _id: string;
     name: string;
+    styleProfile?: string;
   };
   service: {
     _id: string;
     name: string;
+    duration?: number;
+    bufferBefore?: number;
+    bufferAfter?: number;
   };
+  items?: VisitItem[];
+  barber?: {
+    _id: string;
+    name: string;
+  } | null;
+  series?: string | null;
+  statusHistory?: {
+    status: AppointmentStatus;
+    changedAt: string;
+  }[];
+  lateCancellation?: boolean;
+  clientNotes?: string;
+  staffNotes?: string;
+  photos?: string[];
+}
+
+/**
+ * @interface NewAppointmentData
+ * @description An appointment an admin books on a client's behalf, e.g. from the calendar grid.
+ * @property {string} userId - ID of the client.
+ * @property {string[]} serviceIds - The visit's services, in the order they are performed.
+ * @property {string} [barberId] - A barber ID, or omitted / 'any' for no preference.
+ * @property {string} date - The day in 'YYYY-MM-DD' format, in the shop's time zone.
+ * @property {string} time - The start time in 'HH:mm' format, in the shop's time zone.
+ * @property {string} [staffNotes] - Notes for the shop, not shown to the client.
+ */
+export interface NewAppointmentData {
+  userId: string;
+  serviceIds: string[];
+  barberId?: string;
+  date: string;
+  time: string;
+  staffNotes?: string;
+}
+
+/**
+ * @typedef AppointmentChanges
+ * @description The changes an admin saves to an appointment: any of its fields, where `date`
+ * is the day in 'YYYY-MM-DD' format and `time` the new start in 'HH:mm', both in the shop's time zone.
+ * `barberId` moves the appointment to another barber (null for the shop's single chair);
+ * left undefined, the barber is kept.
+ */
+export type AppointmentChanges = Partial<Appointment> & {
+  time?: string;
+  barberId?: string | null;
+};
+
+/**
+ * @interface RecurrenceRule
+ * @description How a recurring booking repeats: every `intervalWeeks` weeks, ending
+ * after `count` occurrences or on the last occurrence on or before `until`.
+ * @property {number} intervalWeeks - Weeks between occurrences (e.g. 2 for every other week).
+ * @property {number} [count] - Total number of occurrences, including the first.
+ * @property {string} [until] - Last possible date in 'YYYY-MM-DD' format.
+ */
+export interface RecurrenceRule {
+  intervalWeeks: number;
+  count?: number;
+  until?: string;
+}
+
+/**
+ * @typedef SeriesScope
+ * @description Which occurrences of a recurring booking an edit or cancellation applies to:
+ * only the chosen one, or it and every later occurrence.
+ */
+export type SeriesScope = "one" | "following";
+
+/**
+ * @interface SeriesConflict
+ * @description An occurrence of a recurring booking that could not be booked or moved.
+ * @property {string} date - The occurrence's date in 'YYYY-MM-DD' format.
+ * @property {string} message - Why it failed (e.g. the slot is taken or the shop is closed).
+ */
+export interface SeriesConflict {
+  date: string;
+  message: string;
+}
+
+/**
+ * @typedef TimeOfDay
+ * @description Part of the day a client prefers to start in when searching for the next available slots
+ * ('any' for no preference; see `lib/nextAvailable.ts` for the hours each covers).
+ */
+export type TimeOfDay = "any" | "morning" | "afternoon" | "evening";
+
+/**
+ * @interface SlotSuggestion
+ * @description A bookable start time found by the next-available search.
+ * @property {string} date - The day in 'YYYY-MM-DD' format.
+ * @property {string} time - The start time in 'HH:mm' format.
+ */
+export interface SlotSuggestion {
+  date: string;
+  time: string;
+}
+
+/**
+ * @typedef DayAvailabilityLevel
+ * @description How busy a day is for a visit, as marked on the booking calendar:
+ * 'open', 'nearly-full' (few start times left), 'full' (none left) or 'closed' (no opening hours left to book).
+ */
+export type DayAvailabilityLevel = "open" | "nearly-full" | "full" | "closed";
+
+/**
+ * @interface DayAvailability
+ * @description Availability of one day of the month shown on the booking calendar.
+ * @property {string} date - The day in 'YYYY-MM-DD' format.
+ * @property {DayAvailabilityLevel} level - How busy the day is.
+ * @property {number} freeSlots - How many start times can still be booked.
+ */
+export interface DayAvailability {
+  date: string;
+  level: DayAvailabilityLevel;
+  freeSlots: number;
+}
+
+/**
+ * @interface WaitlistEntryType
+ * @description A client's place on the waitlist for a day, with the slot offered to them once one frees up.
+ * @property {string} _id - MongoDB entry ID.
+ * @property {Object} service - Populated details (`_id`, `name`) of the first service waited for.
+ * @property {Object[]} [services] - Populated details of every service of the visit waited for;
+ *   empty for entries made before visits could hold several services.
+ * @property {Object | null} [barber] - Populated barber details, or null for any barber.
+ * @property {string} date - The day in 'YYYY-MM-DD' format.
+ * @property {string} windowStart - Earliest acceptable start time ('HH:mm').
+ * @property {string} windowEnd - Latest acceptable start time ('HH:mm').
+ * @property {"waiting" | "offered" | "booked" | "expired" | "cancelled"} status - Where the entry stands.
+ * @property {Object | null} [offer] - The slot held for the client: `start`, `end` and `expiresAt` as ISO strings, and its `barber` ID.
+ */
+export interface WaitlistEntryType {
+  _id: string;
+  service: {
+    _id: string;
+    name: string;
+  };
+  services?: {
+    _id: string;
+    name: string;
+  }[];
+  barber?: {
+    _id: string;
+    name: string;
+  } | null;
+  date: string;
+  windowStart: string;
+  windowEnd: string;
+  status: "waiting" | "offered" | "booked" | "expired" | "cancelled";
+  offer?: {
+    start: string;
+    end: string;
+    barber: string | null;
+    expiresAt: string;
+  } | null;
+}
+
+/**
+ * @interface QueueEntryType
+ * @description A client waiting in the shop today: a walk-in who joined the queue at the kiosk,
+ * or a booked client who has checked in.
+ * @property {string} _id - ID of the walk-in, or of the appointment for checked-in clients.
+ * @property {"walk-in" | "appointment"} kind - Which of the two the entry is.
+ * @property {string} name - The client's name.
+ * @property {string} service - The names of the services, e.g. "Haircut + Beard Trim".
+ * @property {number} duration - How long the services take, in minutes.
+ * @property {Object | null} barber - The barber expected to serve the client (`_id`, `name`), if any.
+ * @property {string} arrivedAt - When the client joined the queue or checked in, as an ISO string.
+ * @property {string | null} scheduledAt - The booked start for checked-in clients, as an ISO string.
+ * @property {string} estimatedStart - When the client is expected to be seen, as an ISO string.
+ * @property {boolean} afterClosing - Whether the client is not expected to be done before closing time.
+ */
+export interface QueueEntryType {
+  _id: string;
+  kind: "walk-in" | "appointment";
+  name: string;
+  service: string;
+  duration: number;
+  barber: {
+    _id: string;
+    name: string;
+  } | null;
+  arrivedAt: string;
+  scheduledAt: string | null;
+  estimatedStart: string;
+  afterClosing: boolean;
 }
 
 /**
@@ -156,6 +547,7 @@ export interface Appointment {
  * @property {string} [description] - Optional description for the item.
  * @property {string} [date] - Optional date for appointment scheduling.
  * @property {string} [time] - Optional time for appointment scheduling.
+ * @property {string} [barberId] - Optional barber for appointment scheduling; omitted means any barber.
  */
 export interface CartItem {
   id: string;
@@ -167,4 +559,5 @@ export interface CartItem {
   description?: string;
   date?: string;
   time?: string;
+  barberId?: string;
 }
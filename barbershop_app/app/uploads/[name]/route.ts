@@ -0,0 +1,28 @@
+/**
+ * @file app/uploads/[name]/route.ts
+ * @description
+ * Serves the reference photos clients attach to their bookings (see `lib/photoStorage.ts`).
+ * Photos are only reachable by their random file name, as linked from the appointment.
+ */
+
+import { readPhoto } from "@/lib/photoStorage";
+
+/**
+ * GET /uploads/:name
+ * ----------------------------------
+ * Responds with the stored photo, or 404 when there is no photo by that name.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ name: string }> }) {
+  const { name } = await params;
+  const photo = await readPhoto(name);
+  if (!photo) {
+    return new Response("Not found", { status: 404 });
+  }
+  return new Response(new Uint8Array(photo.data), {
+    headers: {
+      "Content-Type": photo.type,
+      // A name always refers to the same photo.
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
@@ -0,0 +1,123 @@
+/**
+ * @file lib/appointmentNotes.ts
+ * @description
+ * What clients and staff record about how a client wants their hair done: notes on an
+ * appointment, the client's style profile, and reference photos attached when booking.
+ *
+ * Key points:
+ * - Clients write a note when booking; staff add their own after the visit. Staff notes are
+ *   kept for the shop and are not shown to the client.
+ * - The style profile belongs to the client and applies to every visit. Clients keep it on
+ *   their profile page and staff can update it from the client's record.
+ * - Reference photos are stored on the server's disk (see `lib/photoStorage.ts`) and linked
+ *   from the appointment by URL.
+ * - Contains no database or file access, so the same checks run in the browser before uploading.
+ */
+
+/**
+ * Longest note (or style profile) accepted, in characters.
+ */
+export const MAX_NOTE_LENGTH = 1000;
+
+/**
+ * Most reference photos a booking can carry.
+ */
+export const MAX_PHOTOS = 3;
+
+/**
+ * Largest reference photo accepted, in bytes.
+ */
+export const MAX_PHOTO_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Accepted photo types and the file extension each is stored with.
+ */
+export const PHOTO_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/**
+ * Path under which stored photos are served (see `app/uploads/[name]/route.ts`).
+ */
+export const PHOTO_URL_PREFIX = "/uploads/";
+
+// A stored photo's file name: a random UUID and the extension of its type.
+const PHOTO_NAME_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.(jpg|png|webp)$/;
+
+/**
+ * Whether a file name is one `savePhotos` could have produced; anything else is refused
+ * before it gets near the file system.
+ */
+export function isPhotoName(name: string): boolean {
+  return PHOTO_NAME_PATTERN.test(name);
+}
+
+/**
+ * Whether a URL points to a stored reference photo.
+ */
+export function isPhotoUrl(url: string): boolean {
+  return url.startsWith(PHOTO_URL_PREFIX) && isPhotoName(url.slice(PHOTO_URL_PREFIX.length));
+}
+
+/**
+ * Returned when a file is not one of `PHOTO_TYPES`.
+ */
+export const PHOTO_TYPE_MESSAGE = "Photos must be JPEG, PNG or WebP images.";
+
+/**
+ * Returned when a booking links to a photo that was never uploaded, or was deleted.
+ */
+export const MISSING_PHOTO_MESSAGE = "One of the photos could not be found. Please attach it again.";
+
+/**
+ * validateNote
+ * ----------------------------------
+ * Checks a note or style profile before it is saved.
+ *
+ * @param note - The text; empty or missing notes are allowed.
+ * @param label - What the text is, for the message (e.g. "Your note").
+ * @returns An error message, or null when the text is valid.
+ */
+export function validateNote(note: string | undefined | null, label: string): string | null {
+  if (note && note.length > MAX_NOTE_LENGTH) {
+    return `${label} can be at most ${MAX_NOTE_LENGTH} characters long.`;
+  }
+  return null;
+}
+
+/**
+ * validateBookingNotes
+ * ----------------------------------
+ * Checks the note and the URLs of the reference photos sent with a booking.
+ *
+ * @returns An error message, or null when they are valid.
+ */
+export function validateBookingNotes(notes: string | undefined, photos: string[] = []): string | null {
+  const noteError = validateNote(notes, "Your note");
+  if (noteError) return noteError;
+  if (photos.length > MAX_PHOTOS) return `You can attach at most ${MAX_PHOTOS} photos.`;
+  if (!photos.every(isPhotoUrl)) return MISSING_PHOTO_MESSAGE;
+  return null;
+}
+
+/**
+ * validatePhotos
+ * ----------------------------------
+ * Checks the reference photos chosen for a booking: how many, their type and size.
+ *
+ * @returns An error message, or null when the photos can be uploaded.
+ */
+export function validatePhotos(photos: { type: string; size: number }[]): string | null {
+  if (photos.length > MAX_PHOTOS) {
+    return `You can attach at most ${MAX_PHOTOS} photos.`;
+  }
+  if (photos.some((photo) => !PHOTO_TYPES[photo.type])) {
+    return PHOTO_TYPE_MESSAGE;
+  }
+  if (photos.some((photo) => photo.size > MAX_PHOTO_BYTES)) {
+    return `Each photo can be at most ${MAX_PHOTO_BYTES / (1024 * 1024)} MB.`;
+  }
+  return null;
+}
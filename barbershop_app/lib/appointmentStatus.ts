@@ -0,0 +1,147 @@
+/**
+ * @file lib/appointmentStatus.ts
+ * @description
+ * The appointment status lifecycle, shared by the server actions (which enforce it)
+ * and the UI (which only offers the changes it allows).
+ *
+ * Key points:
+ * - The normal path is pending → scheduled → checked-in → in-progress → completed.
+ * - An appointment can be cancelled until the service starts, and a scheduled client
+ *   who never arrives is marked as a no-show.
+ * - Completed, cancelled and no-show are final.
+ * - Every change is recorded with its time in the appointment's `statusHistory`
+ *   (see `statusUpdate`); the initial status dates from the appointment's `createdAt`.
+ * - Contains no database access, so it can run on the server and in the browser.
+ */
+
+import { AppointmentStatus } from "@/app/types";
+
+/**
+ * Every status, in lifecycle order.
+ */
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  "pending",
+  "scheduled",
+  "checked-in",
+  "in-progress",
+  "completed",
+  "cancelled",
+  "no-show",
+];
+
+/**
+ * The statuses each status may change to.
+ */
+export const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ["scheduled", "cancelled"],
+  scheduled: ["checked-in", "cancelled", "no-show"],
+  "checked-in": ["in-progress", "cancelled"],
+  "in-progress": ["completed"],
+  completed: [],
+  cancelled: [],
+  "no-show": [],
+};
+
+/**
+ * Statuses in which an appointment occupies its barber's chair (and holds its slot reservation).
+ */
+export const ACTIVE_STATUSES: AppointmentStatus[] = ["pending", "scheduled", "checked-in", "in-progress"];
+
+/**
+ * Statuses in which the client can still move or cancel an appointment themselves.
+ */
+export const UPCOMING_STATUSES: AppointmentStatus[] = ["pending", "scheduled"];
+
+/**
+ * Human-readable name of each status.
+ */
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  pending: "Pending",
+  scheduled: "Scheduled",
+  "checked-in": "Checked in",
+  "in-progress": "In progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  "no-show": "No-show",
+};
+
+/**
+ * Badge colors (Tailwind classes) used to show each status.
+ */
+export const STATUS_BADGE_CLASSES: Record<AppointmentStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  scheduled: "bg-blue-100 text-blue-800",
+  "checked-in": "bg-indigo-100 text-indigo-800",
+  "in-progress": "bg-purple-100 text-purple-800",
+  completed: "bg-green-100 text-green-800",
+  cancelled: "bg-red-100 text-red-800",
+  "no-show": "bg-gray-200 text-gray-800",
+};
+
+/**
+ * Spellings found in older data (e.g. `db.json`) and the status they stand for.
+ */
+const LEGACY_STATUSES: Record<string, AppointmentStatus> = {
+  canceled: "cancelled",
+};
+
+/**
+ * Maps a stored status, in any casing or legacy spelling, to its lifecycle status.
+ * Returns null for values that are not statuses at all.
+ */
+export function normalizeStatus(status: string): AppointmentStatus | null {
+  const value = status.trim().toLowerCase();
+  if (LEGACY_STATUSES[value]) return LEGACY_STATUSES[value];
+  return APPOINTMENT_STATUSES.includes(value as AppointmentStatus) ? (value as AppointmentStatus) : null;
+}
+
+/**
+ * Whether an appointment in this status occupies a chair.
+ */
+export function isActiveStatus(status: string): boolean {
+  return ACTIVE_STATUSES.includes(status as AppointmentStatus);
+}
+
+/**
+ * Whether an appointment may change from one status to another.
+ */
+export function canTransition(from: string, to: string): boolean {
+  return STATUS_TRANSITIONS[from as AppointmentStatus]?.includes(to as AppointmentStatus) ?? false;
+}
+
+/**
+ * The statuses from which an appointment may change to `to`.
+ */
+export function statusesLeadingTo(to: AppointmentStatus): AppointmentStatus[] {
+  return APPOINTMENT_STATUSES.filter((from) => canTransition(from, to));
+}
+
+/**
+ * validateStatusChange
+ * ----------------------------------
+ * Checks a status change against the lifecycle.
+ *
+ * @returns An error message, or null when the change is allowed.
+ */
+export function validateStatusChange(from: string, to: string): string | null {
+  if (!APPOINTMENT_STATUSES.includes(to as AppointmentStatus)) {
+    return `Unknown status "${to}".`;
+  }
+  if (!canTransition(from, to)) {
+    const fromLabel = STATUS_LABELS[from as AppointmentStatus] ?? from;
+    return `An appointment cannot go from "${fromLabel}" to "${STATUS_LABELS[to as AppointmentStatus]}".`;
+  }
+  return null;
+}
+
+/**
+ * statusUpdate
+ * ----------------------------------
+ * The MongoDB update that sets an appointment's status and records when it changed.
+ */
+export function statusUpdate(status: AppointmentStatus) {
+  return {
+    status,
+    $push: { statusHistory: { status, changedAt: new Date() } },
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * @file lib/authorization.ts
+ * @description
+ * Who may call the server actions, and on what. Every action in `app/actions` is a public
+ * endpoint the browser can call with any arguments, so each one declares what it requires:
+ * - nothing (availability look-ups, the kiosk, logging in and signing up, guest booking);
+ * - a logged-in user (`requireUser`), acting on their own data only;
+ * - a logged-in user or a guest booking in progress, i.e. with the guest's contact details
+ *   (uploading reference photos, see `uploadReferencePhotosAction`);
+ * - an admin (`requireAdmin`);
+ * - access to a given appointment (`canAccessAppointment`): its client, an admin, or a guest
+ *   holding the appointment's manage link (see `lib/manageLinks.ts`).
+ *
+ * Key points:
+ * - The acting user always comes from the session (see `lib/session.ts`), never from an
+ *   action's arguments, so a browser cannot act in someone else's name.
+ * - Actions refuse with `FORBIDDEN` (plus any fields their result always carries),
+ *   so the UI can tell a refusal from other failures.
+ * - Server-only: reads the session and the database.
+ */
+
+import connectDB from "@/lib/mongoose";
+import Appointment from "@/models/Appointment";
+import { getSession } from "@/lib/session";
+import { manageLinksEnabled, verifyManageToken } from "@/lib/manageLinks";
+import { SessionType } from "@/app/types";
+
+/**
+ * Message of every refused action.
+ */
+export const FORBIDDEN_MESSAGE = "You are not allowed to do that. Please log in with an account that can.";
+
+/**
+ * Result of an action the caller is not allowed to perform.
+ */
+export const FORBIDDEN = { success: false, message: FORBIDDEN_MESSAGE, forbidden: true } as const;
+
+/**
+ * requireUser
+ * ----------------------------------
+ * The logged-in user calling an action.
+ *
+ * @returns Their session, or null when nobody is logged in.
+ */
+export async function requireUser(): Promise<SessionType | null> {
+  return getSession();
+}
+
+/**
+ * requireAdmin
+ * ----------------------------------
+ * The admin calling an action.
+ *
+ * @returns Their session, or null when the caller is not logged in as an admin.
+ */
+export async function requireAdmin(): Promise<SessionType | null> {
+  const session = await getSession();
+  return session?.role === "admin" ? session : null;
+}
+
+/**
+ * canAccessAppointment
+ * ----------------------------------
+ * Whether the caller may view or change an appointment: they are its client or an admin,
+ * or hold a valid manage link issued for it.
+ *
+ * @param appointmentId - The appointment acted on.
+ * @param manageToken - The token of a guest's manage link, when acting through one.
+ */
+export async function canAccessAppointment(appointmentId: string, manageToken?: string): Promise<boolean> {
+  if (manageToken) {
+    return manageLinksEnabled() && verifyManageToken(manageToken) === appointmentId;
+  }
+
+  const session = await getSession();
+  if (!session) return false;
+  if (session.role === "admin") return true;
+
+  await connectDB();
+  const appointment = await Appointment.findById(appointmentId).select("user");
+  return !!appointment && String(appointment.user) === session.userId;
+}
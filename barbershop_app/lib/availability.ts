@@ -0,0 +1,411 @@
+/**
+ * @file lib/availability.ts
+ * @description
+ * Pure availability engine shared by the booking server actions and the booking UI.
+ *
+ * Key points:
+ * - Every appointment is an interval `[start, start + service duration)`.
+ * - Appointments can keep buffer time before and after them (e.g. to sweep and disinfect
+ *   the chair; see `Buffers`). Buffers keep appointments apart but may run past the
+ *   opening hours and into breaks, and are never shown to clients.
+ * - A start time is offered only when the whole service fits inside the day's
+ *   opening hours (see `ShopSettings`), does not run into a break, and a barber
+ *   (or the shop's single chair) is free for the entire interval.
+ * - Closures (holidays, blackout periods) remove a whole day, part of a day,
+ *   or a single barber's time from the schedule (see `applyClosures`).
+ * - Dates and times chosen by clients ('YYYY-MM-DD', 'HH:mm') are wall-clock times in
+ *   the shop's time zone (see `ShopSettings`); `toDateTime` and `formatInZone` convert
+ *   between them and absolute instants, independent of the server's or browser's zone
+ *   and correct across DST transitions.
+ * - Contains no database access, so it can run on the server and in the browser.
+ */
+
+import { TZDate } from "@date-fns/tz";
+import { format } from "date-fns";
+import { ClosureType, DayAvailability, ShopSettingsType, TimeRange } from "@/app/types";
+
+/**
+ * Value used by the booking UI (and accepted by the actions) to mean "no barber preference".
+ */
+export const ANY_BARBER = "any";
+
+/**
+ * BusinessHours
+ * ----------------------------------
+ * Opening window of a single day and the grid start times are offered on.
+ * - `open` / `close`: 'HH:mm' strings; a service must end at or before `close`.
+ * - `breaks`: periods (e.g. lunch) no service may overlap.
+ * - `slotInterval`: minutes between offered start times.
+ */
+export interface BusinessHours {
+  open: string;
+  close: string;
+  breaks: TimeRange[];
+  slotInterval: number;
+}
+
+/**
+ * Buffers
+ * ----------------------------------
+ * Minutes kept free before and after an appointment, set per service and per barber.
+ * Where both apply, the longer one wins (see `combineBuffers`).
+ */
+export interface Buffers {
+  before: number;
+  after: number;
+}
+
+/**
+ * Buffers of an appointment that needs no time around it.
+ */
+export const NO_BUFFERS: Buffers = { before: 0, after: 0 };
+
+/**
+ * The buffers that apply when both `a` and `b` do: the longer of each.
+ */
+export function combineBuffers(a: Buffers, b: Buffers = NO_BUFFERS): Buffers {
+  return { before: Math.max(a.before, b.before), after: Math.max(a.after, b.after) };
+}
+
+/**
+ * BusyInterval
+ * ----------------------------------
+ * Time occupied by an existing appointment.
+ * `barberId` is `null` for appointments booked against the single chair / unassigned.
+ * `buffers` is the time kept around an appointment; closures and offers have none.
+ */
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+  barberId: string | null;
+  buffers?: Buffers;
+}
+
+/**
+ * SlotAssignment
+ * ----------------------------------
+ * Result of trying to place an appointment on a slot.
+ * - `available`: whether a chair is free for the whole slot.
+ * - `barberId`: the barber the appointment should be stored with (`null` for the single-chair fallback).
+ */
+export type SlotAssignment =
+  | { available: true; barberId: string | null }
+  | { available: false; barberId?: undefined };
+
+/**
+ * Converts an 'HH:mm' string to minutes since midnight.
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Converts minutes since midnight to an 'HH:mm' string.
+ */
+export function minutesToTime(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Combines a 'YYYY-MM-DD' date and an 'HH:mm' wall-clock time in `timeZone` into a Date.
+ * "24:00" resolves to the following midnight, so a day spans `[00:00, 24:00)` even
+ * when a DST change makes it 23 or 25 hours long.
+ */
+export function toDateTime(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(new TZDate(year, month - 1, day, hours, minutes, timeZone).getTime());
+}
+
+/**
+ * Formats an instant (a Date or an ISO string) as seen on the wall clock in `timeZone`,
+ * using a date-fns pattern (e.g. "yyyy-MM-dd", "HH:mm").
+ */
+export function formatInZone(date: Date | string, pattern: string, timeZone: string): string {
+  return format(new TZDate(new Date(date).getTime(), timeZone), pattern);
+}
+
+/**
+ * Weekday (0 = Sunday) of a 'YYYY-MM-DD' calendar date, independent of any time zone.
+ */
+export function dayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Adds a number of minutes to a Date, returning a new Date.
+ */
+export function addMinutesTo(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60_000);
+}
+
+/**
+ * Whether two half-open intervals `[aStart, aEnd)` and `[bStart, bEnd)` overlap.
+ * Back-to-back appointments (one ends when the next starts) do not overlap.
+ */
+export function intervalsOverlap(aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean {
+  return aStart.getTime() < bEnd.getTime() && bStart.getTime() < aEnd.getTime();
+}
+
+/**
+ * pickBarber
+ * ----------------------------------
+ * Capacity check for a single slot.
+ *
+ * @param activeBarberIds - Barbers accepting bookings.
+ * @param occupants - The barber of every appointment overlapping the slot (`null` when unassigned).
+ * @param requestedBarberId - A specific barber, or undefined / `ANY_BARBER` for no preference.
+ * @returns The assignment for a new appointment on that slot.
+ */
+export function pickBarber(
+  activeBarberIds: string[],
+  occupants: (string | null)[],
+  requestedBarberId?: string | null
+): SlotAssignment {
+  const unassigned = occupants.filter((id) => id === null).length;
+
+  // Single-chair fallback: with no staff, any overlapping appointment fills the slot.
+  if (activeBarberIds.length === 0) {
+    return occupants.length === 0 ? { available: true, barberId: null } : { available: false };
+  }
+
+  const busy = new Set(occupants.filter((id): id is string => id !== null));
+  const free = activeBarberIds.filter((id) => !busy.has(id));
+
+  // Each unassigned appointment takes one of the free chairs.
+  if (free.length <= unassigned) {
+    return { available: false };
+  }
+
+  if (requestedBarberId && requestedBarberId !== ANY_BARBER) {
+    return free.includes(requestedBarberId)
+      ? { available: true, barberId: requestedBarberId }
+      : { available: false };
+  }
+
+  return { available: true, barberId: free[0] };
+}
+
+/**
+ * assignSlot
+ * ----------------------------------
+ * Checks whether an appointment fits in `[start, start + duration)` given the busy intervals.
+ * With buffers, the appointment and each busy interval are widened by their own buffers and
+ * must not overlap. Against a barber's intervals, the appointment takes that barber's buffers
+ * where they are longer than `buffers`, as it would if assigned to them.
+ *
+ * @param buffers - The visit's own buffers.
+ * @param barberBuffers - The buffers of each barber who has any.
+ */
+export function assignSlot(
+  start: Date,
+  duration: number,
+  busy: BusyInterval[],
+  activeBarberIds: string[],
+  requestedBarberId?: string | null,
+  buffers: Buffers = NO_BUFFERS,
+  barberBuffers: Record<string, Buffers> = {}
+): SlotAssignment {
+  const end = addMinutesTo(start, duration);
+  const occupants = busy
+    .filter((interval) => {
+      const own = interval.barberId === null ? buffers : combineBuffers(buffers, barberBuffers[interval.barberId]);
+      const theirs = interval.buffers ?? NO_BUFFERS;
+      return intervalsOverlap(
+        addMinutesTo(start, -own.before),
+        addMinutesTo(end, own.after),
+        addMinutesTo(interval.start, -theirs.before),
+        addMinutesTo(interval.end, theirs.after)
+      );
+    })
+    .map((interval) => interval.barberId);
+  return pickBarber(activeBarberIds, occupants, requestedBarberId);
+}
+
+/**
+ * getBusinessHours
+ * ----------------------------------
+ * Resolves the opening hours that apply to a calendar date from the shop settings.
+ *
+ * @param settings - The shop settings.
+ * @param date - A 'YYYY-MM-DD' date.
+ * @returns The day's business hours, or null when the shop is closed that weekday.
+ */
+export function getBusinessHours(settings: ShopSettingsType, date: string): BusinessHours | null {
+  const day = settings.weeklyHours.find((entry) => entry.dayOfWeek === dayOfWeek(date));
+  if (!day || !day.isOpen) return null;
+  return {
+    open: day.open,
+    close: day.close,
+    breaks: day.breaks,
+    slotInterval: settings.slotInterval,
+  };
+}
+
+/**
+ * fitsBusinessHours
+ * ----------------------------------
+ * Whether a service of `duration` minutes starting at `time` lies entirely inside
+ * the opening window without running into a break.
+ */
+export function fitsBusinessHours(time: string, duration: number, hours: BusinessHours): boolean {
+  const start = timeToMinutes(time);
+  const end = start + duration;
+  if (start < timeToMinutes(hours.open) || end > timeToMinutes(hours.close)) return false;
+  return hours.breaks.every((b) => end <= timeToMinutes(b.start) || start >= timeToMinutes(b.end));
+}
+
+/**
+ * generateSlotTimes
+ * ----------------------------------
+ * Lists the start times on the grid at which a service of `duration` minutes fits
+ * the opening hours (see `fitsBusinessHours`).
+ *
+ * @returns An array of 'HH:mm' strings.
+ */
+export function generateSlotTimes(hours: BusinessHours, duration: number): string[] {
+  const times: string[] = [];
+  const close = timeToMinutes(hours.close);
+  for (let minute = timeToMinutes(hours.open); minute + duration <= close; minute += hours.slotInterval) {
+    const time = minutesToTime(minute);
+    if (fitsBusinessHours(time, duration, hours)) times.push(time);
+  }
+  return times;
+}
+
+/**
+ * Whether a closure covers a 'YYYY-MM-DD' date (both ends of the range are inclusive).
+ */
+export function closureCoversDate(closure: ClosureType, date: string): boolean {
+  return closure.startDate <= date && date <= closure.endDate;
+}
+
+/**
+ * Whether a closure blocks whole days rather than a time range within them.
+ */
+export function isFullDayClosure(closure: ClosureType): boolean {
+  return !closure.startTime || !closure.endTime;
+}
+
+/**
+ * DaySchedule
+ * ----------------------------------
+ * Everything the engine needs to place appointments on one day.
+ */
+export interface DaySchedule {
+  timeZone: string;
+  hours: BusinessHours | null;
+  activeBarberIds: string[];
+  barberBuffers: Record<string, Buffers>;
+  busy: BusyInterval[];
+}
+
+/**
+ * applyClosures
+ * ----------------------------------
+ * Folds the closures covering `date` into a day's schedule.
+ *
+ * - Shop-wide, full day: the shop is closed (`hours` becomes null).
+ * - Shop-wide, time range: the range is treated like an extra break.
+ * - Per barber: the barber is marked busy for the day or the range, so the
+ *   remaining barbers can still take bookings.
+ */
+export function applyClosures(date: string, schedule: DaySchedule, closures: ClosureType[]): DaySchedule {
+  let hours = schedule.hours;
+  const busy = [...schedule.busy];
+
+  for (const closure of closures.filter((c) => closureCoversDate(c, date))) {
+    const range = isFullDayClosure(closure)
+      ? { start: "00:00", end: "24:00" }
+      : { start: closure.startTime as string, end: closure.endTime as string };
+
+    if (closure.barber) {
+      busy.push({
+        start: toDateTime(date, range.start, schedule.timeZone),
+        end: toDateTime(date, range.end, schedule.timeZone),
+        barberId: closure.barber._id,
+      });
+    } else if (isFullDayClosure(closure)) {
+      hours = null;
+    } else if (hours) {
+      hours = { ...hours, breaks: [...hours.breaks, range] };
+    }
+  }
+
+  return { ...schedule, hours, busy };
+}
+
+/**
+ * AvailabilityQuery
+ * ----------------------------------
+ * Inputs of `findAvailableTimes` for a single day.
+ */
+export interface AvailabilityQuery {
+  date: string; // Format: 'YYYY-MM-DD'
+  timeZone: string; // IANA zone the date and offered times are expressed in
+  duration: number; // Minutes
+  busy: BusyInterval[];
+  activeBarberIds: string[];
+  requestedBarberId?: string | null;
+  hours: BusinessHours | null;
+  buffers?: Buffers; // The visit's own buffers
+  barberBuffers?: Record<string, Buffers>;
+  now?: Date;
+}
+
+/**
+ * findAvailableTimes
+ * ----------------------------------
+ * Lists the start times of a day where the whole service fits the opening hours,
+ * is not in the past, and a barber is free for its entire duration and buffers.
+ * Returns no times when `hours` is null (the shop is closed that day).
+ *
+ * @returns An array of 'HH:mm' strings (e.g., ["09:00", "10:30"]).
+ */
+export function findAvailableTimes({
+  date,
+  timeZone,
+  duration,
+  busy,
+  activeBarberIds,
+  requestedBarberId,
+  hours,
+  buffers,
+  barberBuffers,
+  now = new Date(),
+}: AvailabilityQuery): string[] {
+  if (!hours) return [];
+  return generateSlotTimes(hours, duration).filter((time) => {
+    const start = toDateTime(date, time, timeZone);
+    if (start.getTime() <= now.getTime()) return false;
+    return assignSlot(start, duration, busy, activeBarberIds, requestedBarberId, buffers, barberBuffers).available;
+  });
+}
+
+/**
+ * Share of a day's start times at or below which the day is marked nearly full.
+ */
+export const NEARLY_FULL_SHARE = 0.25;
+
+/**
+ * rateDayAvailability
+ * ----------------------------------
+ * Tells how busy a day is for a visit, for the booking calendar: counts the start times
+ * still bookable against every start time of the day that has not passed yet.
+ * A day with no start times left (the shop is closed, or the day is over) is 'closed'.
+ */
+export function rateDayAvailability(query: AvailabilityQuery): DayAvailability {
+  const { date, timeZone, duration, hours, now = new Date() } = query;
+  const upcoming = hours
+    ? generateSlotTimes(hours, duration).filter((time) => toDateTime(date, time, timeZone).getTime() > now.getTime())
+    : [];
+  const freeSlots = findAvailableTimes(query).length;
+
+  if (upcoming.length === 0) return { date, level: "closed", freeSlots };
+  if (freeSlots === 0) return { date, level: "full", freeSlots };
+  if (freeSlots <= upcoming.length * NEARLY_FULL_SHARE) return { date, level: "nearly-full", freeSlots };
+  return { date, level: "open", freeSlots };
+}
@@ -0,0 +1,713 @@
+/**
+ * @file lib/booking.ts
+ * @description
+ * Server-side helpers shared by the booking actions (appointments, cart checkout)
+ * that load the data the availability engine (`lib/availability.ts`) works on.
+ *
+ * Key points:
+ * - A slot is tracked per barber: one barber being busy no longer blocks the whole shop.
+ * - Each active appointment (pending, scheduled, checked in or in progress; see
+ *   `lib/appointmentStatus.ts`) occupies its visit's full duration: the combined duration of
+ *   its services (see `lib/visit.ts`), or of its single service for older appointments.
+ * - Bookings must fit the opening hours stored in the shop settings; the server
+ *   re-checks them instead of trusting the times offered to the client.
+ * - "Any barber" bookings are assigned to the first active barber who is free.
+ * - When no barbers are registered, the shop behaves as a single chair (barber `null`).
+ * - Appointments without a barber (created before staff existed) still occupy one chair.
+ * - Closures (see `lib/closures.ts`) are folded into the day's schedule, so every
+ *   check below rejects holidays and blackout periods as well.
+ * - Booking is atomic: `bookSlot` re-checks the slot and writes the appointment inside a
+ *   transaction that also inserts its `SlotReservation` blocks. Their unique index makes
+ *   the database reject the second of two concurrent bookings for the same barber and time.
+ * - Occurrences of a recurring booking are booked, moved and canceled one transaction at a
+ *   time, so one conflicting occurrence does not block the rest of the series.
+ * - Buffers (see `Buffers` in `lib/availability.ts`) widen every appointment by the time its
+ *   services and its barber keep free before and after it; the widened time is checked and
+ *   reserved like the appointment itself.
+ * - A slot offered to a waitlisted client (see `lib/waitlist.ts`) counts as busy until the
+ *   offer expires, so nobody else can book it in the meantime.
+ */
+
+import mongoose, { ClientSession } from "mongoose";
+import connectDB from "@/lib/mongoose";
+import Appointment from "@/models/Appointment";
+import SlotReservation from "@/models/SlotReservation";
+import WaitlistEntry from "@/models/WaitlistEntry";
+import Barber from "@/models/Barber";
+import Service from "@/models/Service";
+import { getShopSettings } from "@/lib/shopSettings";
+import { getClosures, listDates } from "@/lib/closures";
+import { daysBetween, shiftDate } from "@/lib/recurrence";
+import { keepPhotos } from "@/lib/photoStorage";
+import { ACTIVE_STATUSES, canTransition, statusesLeadingTo, statusUpdate, UPCOMING_STATUSES } from "@/lib/appointmentStatus";
+import { visitBuffers, visitDuration } from "@/lib/visit";
+import { SeriesConflict, SeriesScope, VisitItem } from "@/app/types";
+import {
+  addMinutesTo,
+  applyClosures,
+  assignSlot,
+  Buffers,
+  BusyInterval,
+  combineBuffers,
+  DaySchedule,
+  fitsBusinessHours,
+  formatInZone,
+  getBusinessHours,
+  intervalsOverlap,
+  NO_BUFFERS,
+  toDateTime,
+} from "@/lib/availability";
+
+/**
+ * Duration assumed for appointments whose service no longer exists.
+ */
+export const FALLBACK_DURATION = 30;
+
+/**
+ * Size, in minutes, of the blocks a reservation is made of. Times and durations are whole
+ * minutes, so the blocks cover exactly the time `checkSlot` checks: back-to-back appointments
+ * never share a block, and overlapping ones always do.
+ */
+const RESERVATION_BLOCK = 1;
+
+/**
+ * How many times a booking transaction is attempted when a concurrent booking
+ * takes the slot first; later attempts re-run the check and may pick another barber.
+ */
+const MAX_BOOKING_ATTEMPTS = 3;
+
+/**
+ * Message shown when the slot is taken, either before the check or by a concurrent booking.
+ */
+export const SLOT_TAKEN_MESSAGE = "Sorry, this time slot is no longer available.";
+
+/**
+ * Longest appointment considered when looking back for intervals that started
+ * before a window but still run into it.
+ */
+const MAX_APPOINTMENT_MINUTES = 12 * 60;
+
+/**
+ * getActiveBarberIds
+ * ----------------------------------
+ * Lists the IDs of all barbers currently accepting bookings, in a stable order.
+ */
+export async function getActiveBarberIds(): Promise<string[]> {
+  await connectDB();
+  const barbers = await Barber.find({ active: true }).sort({ name: 1 }).select('_id').lean();
+  return barbers.map((barber) => String(barber._id));
+}
+
+/**
+ * getBarberBuffers
+ * ----------------------------------
+ * Reads the buffers of every barber who keeps time free around their appointments, by ID.
+ * Inactive barbers are included, as their past appointments may still be moved.
+ */
+export async function getBarberBuffers(): Promise<Record<string, Buffers>> {
+  await connectDB();
+  const barbers = await Barber.find({ $or: [{ bufferBefore: { $gt: 0 } }, { bufferAfter: { $gt: 0 } }] })
+    .select('bufferBefore bufferAfter')
+    .lean();
+  return Object.fromEntries(
+    barbers.map((barber) => [String(barber._id), { before: barber.bufferBefore ?? 0, after: barber.bufferAfter ?? 0 }])
+  );
+}
+
+/**
+ * getServiceDuration
+ * ----------------------------------
+ * Reads a service's duration in minutes, or `null` if the service does not exist.
+ */
+export async function getServiceDuration(serviceId: string): Promise<number | null> {
+  await connectDB();
+  const service = await Service.findById(serviceId).select('duration');
+  return service ? service.duration : null;
+}
+
+/**
+ * getVisitItems
+ * ----------------------------------
+ * Builds the line items of a visit from the chosen services, in the order given, with their
+ * current name, price, duration and buffers. Returns `null` if any of the services does not exist.
+ */
+export async function getVisitItems(serviceIds: string[]): Promise<VisitItem[] | null> {
+  await connectDB();
+  const services = await Service.find({ _id: { $in: serviceIds } })
+    .select('name price duration bufferBefore bufferAfter')
+    .lean();
+  const items: VisitItem[] = [];
+  for (const serviceId of serviceIds) {
+    const service = services.find((s) => String(s._id) === serviceId);
+    if (!service) return null;
+    items.push({
+      service: serviceId,
+      name: service.name,
+      price: service.price,
+      duration: service.duration,
+      bufferBefore: service.bufferBefore ?? 0,
+      bufferAfter: service.bufferAfter ?? 0,
+    });
+  }
+  return items;
+}
+
+/**
+ * getAppointmentDuration
+ * ----------------------------------
+ * How long a stored appointment lasts: its visit's combined duration, or, for appointments
+ * without line items, its service's current duration.
+ */
+export async function getAppointmentDuration(appointment: {
+  service: unknown;
+  items?: { duration: number }[];
+}): Promise<number> {
+  if (appointment.items && appointment.items.length > 0) {
+    return visitDuration(appointment.items);
+  }
+  return (await getServiceDuration(String(appointment.service))) ?? FALLBACK_DURATION;
+}
+
+/**
+ * getAppointmentBuffers
+ * ----------------------------------
+ * The buffers a stored appointment's visit keeps around it (see `visitBuffers`), or, for
+ * appointments without line items, its service's current buffers. The barber's are not included.
+ */
+export async function getAppointmentBuffers(appointment: {
+  service: unknown;
+  items?: { bufferBefore?: number; bufferAfter?: number }[];
+}): Promise<Buffers> {
+  if (appointment.items && appointment.items.length > 0) {
+    return visitBuffers(appointment.items);
+  }
+  await connectDB();
+  const service = await Service.findById(String(appointment.service)).select('bufferBefore bufferAfter');
+  return service ? visitBuffers([service]) : NO_BUFFERS;
+}
+
+/**
+ * getReservedBuffers
+ * ----------------------------------
+ * The buffers reserved around a stored appointment: its visit's, or its barber's where longer.
+ */
+export async function getReservedBuffers(appointment: {
+  service: unknown;
+  barber?: unknown;
+  items?: { bufferBefore?: number; bufferAfter?: number }[];
+}): Promise<Buffers> {
+  const buffers = await getAppointmentBuffers(appointment);
+  if (!appointment.barber) return buffers;
+  const barberBuffers = await getBarberBuffers();
+  return combineBuffers(buffers, barberBuffers[String(appointment.barber)]);
+}
+
+/**
+ * getBusyIntervals
+ * ----------------------------------
+ * Loads every active appointment overlapping `[from, to)` as an interval
+ * spanning its visit's duration, with its visit's buffers (its barber's are added by `getSchedules`).
+ *
+ * @param from - Start of the window.
+ * @param to - End of the window.
+ * @param excludeAppointmentId - Appointment to ignore (the one being rescheduled).
+ */
+export async function getBusyIntervals(
+  from: Date,
+  to: Date,
+  excludeAppointmentId?: string
+): Promise<BusyInterval[]> {
+  await connectDB();
+
+  const query: Record<string, unknown> = {
+    date: { $gte: addMinutesTo(from, -MAX_APPOINTMENT_MINUTES), $lt: to },
+    status: { $in: ACTIVE_STATUSES },
+  };
+  if (excludeAppointmentId) {
+    query._id = { $ne: excludeAppointmentId };
+  }
+
+  const appointments = await Appointment.find(query)
+    .select('date barber service items')
+    .populate('service', 'duration bufferBefore bufferAfter')
+    .lean();
+
+  return appointments
+    .map((app) => {
+      const start = new Date(app.date);
+      const hasItems = app.items?.length > 0;
+      const duration = hasItems ? visitDuration(app.items) : app.service?.duration ?? FALLBACK_DURATION;
+      const buffers = hasItems ? visitBuffers(app.items) : app.service ? visitBuffers([app.service]) : NO_BUFFERS;
+      return {
+        start,
+        end: addMinutesTo(start, duration),
+        barberId: app.barber ? String(app.barber) : null,
+        buffers,
+      };
+    })
+    .filter((interval) => addMinutesTo(interval.end, interval.buffers.after).getTime() > from.getTime());
+}
+
+/**
+ * getOfferIntervals
+ * ----------------------------------
+ * Loads the slots held by open waitlist offers overlapping `[from, to)`, with the buffers
+ * held around them.
+ *
+ * @param excludeOfferId - Waitlist entry to ignore (the one whose offer is being accepted).
+ */
+export async function getOfferIntervals(from: Date, to: Date, excludeOfferId?: string): Promise<BusyInterval[]> {
+  await connectDB();
+
+  const query: Record<string, unknown> = {
+    status: 'offered',
+    'offer.expiresAt': { $gt: new Date() },
+    'offer.start': { $lt: to },
+    'offer.end': { $gt: from },
+  };
+  if (excludeOfferId) {
+    query._id = { $ne: excludeOfferId };
+  }
+
+  const entries = await WaitlistEntry.find(query).select('offer').lean();
+  return entries.map(({ offer }) => ({
+    start: new Date(offer.start),
+    end: new Date(offer.end),
+    barberId: offer.barber ? String(offer.barber) : null,
+    buffers: { before: offer.bufferBefore ?? 0, after: offer.bufferAfter ?? 0 },
+  }));
+}
+
+/**
+ * getSchedules
+ * ----------------------------------
+ * Loads everything needed to place appointments on each calendar day of an inclusive
+ * date range: its opening hours, the active barbers and their buffers, and the time already
+ * taken (by appointments, with their barbers' buffers, and open waitlist offers), with the day's
+ * closures applied.
+ * Each day runs from midnight to midnight in the shop's time zone.
+ * The whole range is read with one query per collection, however many days it spans.
+ *
+ * @param from - The first 'YYYY-MM-DD' date.
+ * @param to - The last 'YYYY-MM-DD' date.
+ * @param excludeAppointmentId - Appointment to ignore (the one being rescheduled).
+ * @param excludeOfferId - Waitlist offer to ignore (the one being accepted).
+ * @returns The schedule of every day, keyed by date.
+ */
+export async function getSchedules(
+  from: string,
+  to: string,
+  excludeAppointmentId?: string,
+  excludeOfferId?: string
+): Promise<Record<string, DaySchedule>> {
+  const settings = await getShopSettings();
+  const { timeZone } = settings;
+  const rangeStart = toDateTime(from, "00:00", timeZone);
+  const rangeEnd = toDateTime(to, "24:00", timeZone);
+
+  const [activeBarberIds, barberBuffers, appointments, offers, closures] = await Promise.all([
+    getActiveBarberIds(),
+    getBarberBuffers(),
+    getBusyIntervals(rangeStart, rangeEnd, excludeAppointmentId),
+    getOfferIntervals(rangeStart, rangeEnd, excludeOfferId),
+    getClosures(from, to),
+  ]);
+
+  const appointmentsWithBarberBuffers = appointments.map((interval) =>
+    interval.barberId
+      ? { ...interval, buffers: combineBuffers(interval.buffers ?? NO_BUFFERS, barberBuffers[interval.barberId]) }
+      : interval
+  );
+
+  const schedules: Record<string, DaySchedule> = {};
+  for (const date of listDates(from, to)) {
+    const dayStart = toDateTime(date, "00:00", timeZone);
+    const dayEnd = toDateTime(date, "24:00", timeZone);
+    const busy = [...appointmentsWithBarberBuffers, ...offers].filter((interval) =>
+      intervalsOverlap(dayStart, dayEnd, interval.start, interval.end)
+    );
+    const schedule = { timeZone, hours: getBusinessHours(settings, date), activeBarberIds, barberBuffers, busy };
+    schedules[date] = applyClosures(date, schedule, closures);
+  }
+  return schedules;
+}
+
+/**
+ * getDaySchedule
+ * ----------------------------------
+ * Loads the schedule of a single calendar day (see `getSchedules`).
+ *
+ * @param date - A 'YYYY-MM-DD' date.
+ * @param excludeAppointmentId - Appointment to ignore (the one being rescheduled).
+ * @param excludeOfferId - Waitlist offer to ignore (the one being accepted).
+ */
+export async function getDaySchedule(
+  date: string,
+  excludeAppointmentId?: string,
+  excludeOfferId?: string
+): Promise<DaySchedule> {
+  const schedules = await getSchedules(date, date, excludeAppointmentId, excludeOfferId);
+  return schedules[date];
+}
+
+/**
+ * SlotCheck
+ * ----------------------------------
+ * Outcome of `checkSlot`: either the barber to book with, or a user-facing reason.
+ */
+export type SlotCheck =
+  | { ok: true; start: Date; barberId: string | null; buffers: Buffers }
+  | { ok: false; message: string };
+
+/**
+ * SlotBooking
+ * ----------------------------------
+ * Outcome of `holdSlot` / `bookSlot`: a successful check plus the appointment booked on the slot.
+ */
+export type SlotBooking =
+  | { ok: true; start: Date; barberId: string | null; buffers: Buffers; appointmentId: string }
+  | { ok: false; message: string };
+
+/**
+ * SlotRequest
+ * ----------------------------------
+ * Everything `checkSlot` needs to validate a booking or a move.
+ */
+export interface SlotRequest {
+  date: string; // Format: 'YYYY-MM-DD', in the shop's time zone
+  time: string; // Format: 'HH:mm', in the shop's time zone
+  duration: number; // Minutes
+  buffers?: Buffers; // The visit's own buffers (see `visitBuffers`)
+  barberId?: string | null;
+  excludeAppointmentId?: string;
+  excludeOfferId?: string; // Waitlist entry whose held slot is being booked
+  held?: BusyInterval[]; // Slots booked earlier in the same transaction, not yet visible to its reads
+}
+
+/**
+ * checkSlot
+ * ----------------------------------
+ * The server-side booking check used by every action that creates or moves an appointment.
+ *
+ * Performs, in order:
+ * - Opening hours: the shop must be open that weekday, not closed for the day, and the
+ *   whole service must fit between opening and closing without overlapping a break
+ *   or a shop-wide partial closure.
+ * - Past check: the appointment must start in the future.
+ * - Capacity: the requested barber (or any barber) must be free, and not on leave,
+ *   for the whole duration and the buffers around it. Buffers may run outside the opening hours.
+ *   The schedule is read outside the booking transaction, so slots booked earlier in the same
+ *   transaction are passed as `held`.
+ *
+ * On success, also returns the buffers to reserve: the visit's, or the assigned barber's where longer.
+ */
+export async function checkSlot({
+  date,
+  time,
+  duration,
+  buffers = NO_BUFFERS,
+  barberId,
+  excludeAppointmentId,
+  excludeOfferId,
+  held = [],
+}: SlotRequest): Promise<SlotCheck> {
+  const { timeZone, hours, activeBarberIds, barberBuffers, busy: booked } = await getDaySchedule(
+    date,
+    excludeAppointmentId,
+    excludeOfferId
+  );
+  if (!hours || !fitsBusinessHours(time, duration, hours)) {
+    return { ok: false, message: "The shop is closed at that time." };
+  }
+
+  const start = toDateTime(date, time, timeZone);
+  if (start.getTime() <= Date.now()) {
+    return { ok: false, message: "Cannot book in the past." };
+  }
+
+  const busy = [...booked, ...held];
+  const assignment = assignSlot(start, duration, busy, activeBarberIds, barberId, buffers, barberBuffers);
+  if (!assignment.available) {
+    return { ok: false, message: SLOT_TAKEN_MESSAGE };
+  }
+
+  const reserved = assignment.barberId ? combineBuffers(buffers, barberBuffers[assignment.barberId]) : buffers;
+  return { ok: true, start, barberId: assignment.barberId, buffers: reserved };
+}
+
+/**
+ * reserveSlot
+ * ----------------------------------
+ * Inserts the reservation blocks covering `[start, start + duration)` for an appointment,
+ * widened by its buffers.
+ * Throws a duplicate key error (see `isSlotTaken`) if any block is already reserved.
+ *
+ * @param appointmentId - The appointment holding the reservation.
+ * @param barberId - The appointment's barber, or `null` for the shop's single chair.
+ * @param session - The booking transaction's session.
+ * @param buffers - The buffers to reserve around it, its barber's included.
+ */
+export async function reserveSlot(
+  appointmentId: string,
+  start: Date,
+  duration: number,
+  barberId: string | null,
+  session: ClientSession,
+  buffers: Buffers = NO_BUFFERS
+): Promise<void> {
+  const blockMs = RESERVATION_BLOCK * 60_000;
+  const first = Math.floor(addMinutesTo(start, -buffers.before).getTime() / blockMs) * blockMs;
+  const end = addMinutesTo(start, duration + buffers.after).getTime();
+
+  const reservations = [];
+  for (let slot = first; slot < end; slot += blockMs) {
+    reservations.push({ chair: barberId ?? 'shop', slot: new Date(slot), appointment: appointmentId });
+  }
+  await SlotReservation.insertMany(reservations, { session });
+}
+
+/**
+ * releaseSlot
+ * ----------------------------------
+ * Frees the time reserved by an appointment (when it is canceled, deleted or moved).
+ */
+export async function releaseSlot(appointmentId: string, session?: ClientSession): Promise<void> {
+  await connectDB();
+  await SlotReservation.deleteMany({ appointment: appointmentId }, { session });
+}
+
+/**
+ * isSlotTaken
+ * ----------------------------------
+ * Whether an error is the unique index rejecting a reservation, i.e. a concurrent
+ * booking took the slot first.
+ */
+export function isSlotTaken(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+/**
+ * runBookingTransaction
+ * ----------------------------------
+ * Runs `work` in a transaction, retrying from scratch when a concurrent booking wins
+ * the race for a slot. Once the attempts are used up, the duplicate key error is rethrown.
+ * Transactions require MongoDB to run as a replica set (as Atlas does).
+ */
+export async function runBookingTransaction<T>(work: (session: ClientSession) => Promise<T>): Promise<T> {
+  await connectDB();
+  // Builds the unique index before the first reservation relies on it.
+  await SlotReservation.init();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await mongoose.connection.transaction(work);
+    } catch (error) {
+      if (!isSlotTaken(error) || attempt >= MAX_BOOKING_ATTEMPTS) throw error;
+    }
+  }
+}
+
+/**
+ * holdSlot
+ * ----------------------------------
+ * Inside a booking transaction: checks the slot (see `checkSlot`), lets `write` create
+ * or move the appointment, then replaces the appointment's reservations with the new slot.
+ *
+ * @param req - The slot to book; `excludeAppointmentId` is the appointment being moved.
+ * @param write - Creates or updates the appointment within `session` and returns its ID.
+ * @param session - The booking transaction's session.
+ */
+export async function holdSlot(
+  req: SlotRequest,
+  write: (slot: { start: Date; barberId: string | null }, session: ClientSession) => Promise<string>,
+  session: ClientSession
+): Promise<SlotBooking> {
+  const slot = await checkSlot(req);
+  if (!slot.ok) return slot;
+
+  const { start, barberId, buffers } = slot;
+  const appointmentId = await write({ start, barberId }, session);
+  await releaseSlot(appointmentId, session);
+  await reserveSlot(appointmentId, start, req.duration, barberId, session, buffers);
+  return { ok: true, start, barberId, buffers, appointmentId };
+}
+
+/**
+ * bookSlot
+ * ----------------------------------
+ * Atomically checks and books a single slot (see `holdSlot`). Exactly one of several
+ * concurrent requests for the same barber and time succeeds; the others receive
+ * `SLOT_TAKEN_MESSAGE`.
+ */
+export async function bookSlot(
+  req: SlotRequest,
+  write: (slot: { start: Date; barberId: string | null }, session: ClientSession) => Promise<string>
+): Promise<SlotBooking> {
+  try {
+    return await runBookingTransaction((session) => holdSlot(req, write, session));
+  } catch (error) {
+    if (isSlotTaken(error)) return { ok: false, message: SLOT_TAKEN_MESSAGE };
+    throw error;
+  }
+}
+
+/**
+ * VisitRequest
+ * ----------------------------------
+ * A client's booking of a visit: when, with whom, and what they asked for.
+ */
+export interface VisitRequest {
+  date: string; // Format: 'YYYY-MM-DD', in the shop's time zone
+  time: string; // Format: 'HH:mm', in the shop's time zone
+  barberId?: string; // A barber ID, or omitted / 'any' for no preference
+  notes?: string; // What the client wants, for their barber
+  photos?: string[]; // URLs of the client's reference photos
+}
+
+/**
+ * bookVisit
+ * ----------------------------------
+ * Books a one-off visit for a client (see `bookSlot`): a 'scheduled' appointment with the
+ * visit's line items and the client's note and photos, assigned to the barber found free.
+ * The photos are kept first (see `keepPhotos`), so the appointment never links to a deleted one.
+ * Used by the booking actions for clients with an account and for guests alike.
+ *
+ * @param userId - The client the visit is for.
+ * @param items - The visit's line items (see `getVisitItems`).
+ */
+export async function bookVisit(
+  userId: string,
+  items: VisitItem[],
+  { date, time, barberId, notes, photos }: VisitRequest
+): Promise<SlotBooking> {
+  await keepPhotos(photos ?? []);
+  const request = { date, time, duration: visitDuration(items), buffers: visitBuffers(items), barberId };
+  return bookSlot(request, async ({ start, barberId }, session) => {
+    const [appointment] = await Appointment.create([{
+      user: userId,
+      service: items[0].service,
+      items,
+      barber: barberId,
+      date: start,
+      status: 'scheduled',
+      clientNotes: notes?.trim() ?? '',
+      photos: photos ?? [],
+    }], { session });
+    return String(appointment._id);
+  });
+}
+
+/**
+ * ScheduledAppointment
+ * ----------------------------------
+ * The fields of a stored appointment needed to move or cancel it.
+ */
+interface ScheduledAppointment {
+  _id: unknown;
+  date: Date;
+  status: string;
+  user?: unknown;
+  barber?: unknown;
+  service: unknown;
+  items?: { duration: number; bufferBefore?: number; bufferAfter?: number }[];
+}
+
+/**
+ * getSeriesTargets
+ * ----------------------------------
+ * Resolves which appointments an edit or cancellation applies to: the appointment itself,
+ * or, for `"following"`, it and every later upcoming (pending or scheduled) occurrence of its series (by date).
+ * One-off appointments are always targeted alone.
+ */
+export async function getSeriesTargets(appointmentId: string, scope: SeriesScope): Promise<ScheduledAppointment[]> {
+  await connectDB();
+  const appointment = await Appointment.findById(appointmentId).select('date status user barber service items series');
+  if (!appointment) return [];
+  if (scope === 'one' || !appointment.series) return [appointment];
+
+  return Appointment.find({
+    series: appointment.series,
+    status: { $in: UPCOMING_STATUSES },
+    date: { $gte: appointment.date },
+  })
+    .select('date status user barber service items')
+    .sort({ date: 1 });
+}
+
+/**
+ * rescheduleAppointments
+ * ----------------------------------
+ * Moves appointments to `newTime`, shifting every date by the number of days the first
+ * appointment moves to reach `newDate`; each occurrence keeps its barber (unassigned ones
+ * may move to any free barber). Every move is checked and booked like a new booking.
+ *
+ * @param appointments - The appointments to move, ordered by date.
+ * @param newDate - New date of the first appointment ('YYYY-MM-DD', shop time zone).
+ * @param newTime - New time of every appointment ('HH:mm', shop time zone).
+ * @returns The IDs of the appointments moved, and the occurrences that could not be.
+ */
+export async function rescheduleAppointments(
+  appointments: ScheduledAppointment[],
+  newDate: string,
+  newTime: string
+): Promise<{ moved: string[]; conflicts: SeriesConflict[] }> {
+  if (appointments.length === 0) return { moved: [], conflicts: [] };
+
+  const { timeZone } = await getShopSettings();
+  const shift = daysBetween(formatInZone(appointments[0].date, "yyyy-MM-dd", timeZone), newDate);
+  // Moving later, start from the last occurrence so none lands on a sibling that has not moved yet.
+  const ordered = shift > 0 ? [...appointments].reverse() : appointments;
+
+  const moved: string[] = [];
+  const conflicts: SeriesConflict[] = [];
+  for (const appointment of ordered) {
+    const appointmentId = String(appointment._id);
+    const date = shiftDate(formatInZone(appointment.date, "yyyy-MM-dd", timeZone), shift);
+    const duration = await getAppointmentDuration(appointment);
+    const buffers = await getAppointmentBuffers(appointment);
+
+    const slot = await bookSlot({
+      date,
+      time: newTime,
+      duration,
+      buffers,
+      barberId: appointment.barber ? String(appointment.barber) : undefined,
+      excludeAppointmentId: appointmentId,
+    }, async ({ start, barberId }, session) => {
+      await Appointment.findByIdAndUpdate(appointmentId, { date: start, barber: barberId }, { session });
+      return appointmentId;
+    });
+
+    if (slot.ok) moved.push(appointmentId);
+    else conflicts.push({ date, message: slot.message });
+  }
+
+  return { moved, conflicts: conflicts.sort((a, b) => a.date.localeCompare(b.date)) };
+}
+
+/**
+ * cancelAppointments
+ * ----------------------------------
+ * Marks appointments as cancelled, recording when, and releases their reserved slots.
+ * Appointments the lifecycle no longer lets be cancelled (e.g. completed ones) are left as they are.
+ *
+ * @param lateCancellation - Whether to flag the cancellations as late (inside the notice period).
+ * @returns The number of appointments cancelled.
+ */
+export async function cancelAppointments(
+  appointments: ScheduledAppointment[],
+  lateCancellation = false
+): Promise<number> {
+  await connectDB();
+  const ids = appointments
+    .filter((appointment) => canTransition(appointment.status, 'cancelled'))
+    .map((appointment) => String(appointment._id));
+  if (ids.length === 0) return 0;
+
+  await Appointment.updateMany(
+    { _id: { $in: ids }, status: { $in: statusesLeadingTo('cancelled') } },
+    { ...statusUpdate('cancelled'), lateCancellation }
+  );
+  await Promise.all(ids.map((id) => releaseSlot(id)));
+  return ids.length;
+}
@@ -0,0 +1,262 @@
+/**
+ * @file lib/calendarGrid.ts
+ * @description
+ * Lays out appointments on the admin calendar grid: one column per day (and per barber,
+ * when staff exist), rows on the shop's slot interval, and each appointment as a block
+ * as long as its visit.
+ *
+ * Key points:
+ * - The grid spans the earliest opening to the latest closing of the days shown, stretched
+ *   to fit any appointment booked outside those hours.
+ * - Overlapping appointments in a column are placed side by side in lanes, so double bookings
+ *   stay visible instead of hiding one another.
+ * - Cancelled appointments and no-shows free their time and are left off the grid.
+ * - The buffers kept around each appointment (its services' and its barber's) are drawn as
+ *   bands before and after its block. Only staff see the grid, so clients never see them.
+ * - Only appointments still to come (`isMovable`) can be dragged to another time or barber.
+ * - Contains no database access, so it can run on the server and in the browser.
+ */
+
+import { format, parseISO } from "date-fns";
+import { Appointment, AppointmentStatus, BarberType, ShopSettingsType } from "@/app/types";
+import {
+  Buffers,
+  combineBuffers,
+  dayOfWeek,
+  formatInZone,
+  getBusinessHours,
+  NO_BUFFERS,
+  timeToMinutes,
+} from "@/lib/availability";
+import { UPCOMING_STATUSES } from "@/lib/appointmentStatus";
+import { shiftDate } from "@/lib/recurrence";
+import { visitBuffers, visitDuration } from "@/lib/visit";
+
+/**
+ * Which span of days the grid shows.
+ */
+export type GridView = "day" | "week";
+
+/**
+ * Length assumed for appointments whose service duration is unknown (as `FALLBACK_DURATION` in `lib/booking.ts`).
+ */
+const DEFAULT_BLOCK_MINUTES = 30;
+
+/**
+ * Hours shown when none of the days shown is open.
+ */
+const DEFAULT_RANGE = { start: 9 * 60, end: 18 * 60 };
+
+/**
+ * Statuses left off the grid, as they no longer take up time.
+ */
+const HIDDEN_STATUSES: AppointmentStatus[] = ["cancelled", "no-show"];
+/**
+ * GridColumn
+ * ----------------------------------
+ * One column of the grid: a day, and the barber it belongs to (named by `label`).
+ * `barberId` is null for the column of unassigned appointments, or for the single
+ * column per day of a shop without barbers (`allBarbers`).
+ */
+export interface GridColumn {
+  key: string;
+  date: string; // Format: 'YYYY-MM-DD'
+  barberId: string | null;
+  allBarbers: boolean;
+  label: string;
+}
+
+/**
+ * GridSlot
+ * ----------------------------------
+ * A cell of the grid, where an appointment can be booked or dropped: its day, start time
+ * and barber (null for any barber).
+ */
+export interface GridSlot {
+  date: string; // Format: 'YYYY-MM-DD'
+  time: string; // Format: 'HH:mm'
+  barberId: string | null;
+}
+
+/**
+ * GridBlock
+ * ----------------------------------
+ * An appointment placed in a column, in minutes since midnight, and the lane it takes
+ * among the `lanes` overlapping appointments it is drawn next to. Its `buffers` do not
+ * count towards the lanes.
+ */
+export interface GridBlock {
+  appointment: Appointment;
+  start: number;
+  end: number;
+  lane: number;
+  lanes: number;
+  buffers: Buffers;
+}
+
+/**
+ * The days a view shows around a 'YYYY-MM-DD' date: the day itself, or its week from Sunday to Saturday.
+ */
+export function gridDates(view: GridView, anchor: string): string[] {
+  if (view === "day") return [anchor];
+  const sunday = shiftDate(anchor, -dayOfWeek(anchor));
+  return Array.from({ length: 7 }, (_, i) => shiftDate(sunday, i));
+}
+
+/**
+ * How many minutes an appointment lasts: its visit's combined duration, or its single service's.
+ */
+export function appointmentMinutes(appointment: Pick<Appointment, "service" | "items">): number {
+  if (appointment.items && appointment.items.length > 0) return visitDuration(appointment.items);
+  return appointment.service?.duration ?? DEFAULT_BLOCK_MINUTES;
+}
+
+/**
+ * The buffers kept around an appointment: its visit's (or its single service's), or its barber's where longer.
+ */
+export function appointmentBuffers(
+  appointment: Pick<Appointment, "service" | "items" | "barber">,
+  barbers: BarberType[]
+): Buffers {
+  const own = appointment.items && appointment.items.length > 0
+    ? visitBuffers(appointment.items)
+    : appointment.service ? visitBuffers([appointment.service]) : NO_BUFFERS;
+  const barber = barbers.find((b) => b._id === appointment.barber?._id);
+  return barber ? combineBuffers(own, { before: barber.bufferBefore ?? 0, after: barber.bufferAfter ?? 0 }) : own;
+}
+
+/**
+ * Whether an appointment can be dragged to another cell: it is still upcoming (pending or scheduled).
+ * The server still checks the new slot (see `updateAppointment`).
+ */
+export function isMovable(appointment: Pick<Appointment, "status">): boolean {
+  return UPCOMING_STATUSES.includes(appointment.status);
+}
+
+/**
+ * The appointments drawn on the grid for the days shown.
+ */
+export function visibleAppointments(appointments: Appointment[], dates: string[], timeZone: string): Appointment[] {
+  return appointments.filter(
+    (appointment) =>
+      !HIDDEN_STATUSES.includes(appointment.status) &&
+      dates.includes(formatInZone(appointment.date, "yyyy-MM-dd", timeZone))
+  );
+}
+
+/**
+ * gridRange
+ * ----------------------------------
+ * The time span, in minutes since midnight, the grid shows for the given days and appointments,
+ * aligned to the slot interval.
+ */
+export function gridRange(
+  settings: ShopSettingsType,
+  dates: string[],
+  appointments: Appointment[]
+): { start: number; end: number } {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  for (const date of dates) {
+    const hours = getBusinessHours(settings, date);
+    if (hours) {
+      starts.push(timeToMinutes(hours.open));
+      ends.push(timeToMinutes(hours.close));
+    }
+  }
+  for (const appointment of appointments) {
+    const start = timeToMinutes(formatInZone(appointment.date, "HH:mm", settings.timeZone));
+    starts.push(start);
+    ends.push(Math.min(start + appointmentMinutes(appointment), 24 * 60));
+  }
+  if (starts.length === 0) return DEFAULT_RANGE;
+
+  const step = settings.slotInterval;
+  return {
+    start: Math.floor(Math.min(...starts) / step) * step,
+    end: Math.ceil(Math.max(...ends) / step) * step,
+  };
+}
+
+/**
+ * buildColumns
+ * ----------------------------------
+ * Lists the columns of the grid, day by day: a column for each active barber and for any
+ * other barber with appointments that day, plus an "Unassigned" column when appointments
+ * without a barber fall on it. Without barbers, each day has a single column.
+ */
+export function buildColumns(
+  dates: string[],
+  barbers: BarberType[],
+  appointments: Appointment[],
+  timeZone: string
+): GridColumn[] {
+  if (barbers.length === 0) {
+    return dates.map((date) => ({
+      key: date,
+      date,
+      barberId: null,
+      allBarbers: true,
+      label: format(parseISO(date), "EEE MMM d"),
+    }));
+  }
+
+  const columns: GridColumn[] = [];
+  for (const date of dates) {
+    const booked = appointments.filter((appointment) => formatInZone(appointment.date, "yyyy-MM-dd", timeZone) === date);
+    const bookedBarberIds = new Set(booked.map((appointment) => appointment.barber?._id ?? null));
+    for (const barber of barbers.filter((b) => b.active || bookedBarberIds.has(b._id))) {
+      columns.push({ key: `${date}-${barber._id}`, date, barberId: barber._id, allBarbers: false, label: barber.name });
+    }
+    if (bookedBarberIds.has(null)) {
+      columns.push({ key: `${date}-unassigned`, date, barberId: null, allBarbers: false, label: "Unassigned" });
+    }
+  }
+  return columns;
+}
+
+/**
+ * layoutColumn
+ * ----------------------------------
+ * Places a column's appointments as blocks. Appointments that overlap are split into lanes:
+ * each takes the first lane free at its start, and every block of a group of overlapping
+ * appointments shares the group's lane count so their widths match.
+ *
+ * @param barbers - Every barber, whose buffers are added to their appointments'.
+ */
+export function layoutColumn(
+  column: GridColumn,
+  appointments: Appointment[],
+  timeZone: string,
+  barbers: BarberType[]
+): GridBlock[] {
+  const blocks = appointments
+    .filter(
+      (appointment) =>
+        formatInZone(appointment.date, "yyyy-MM-dd", timeZone) === column.date &&
+        (column.allBarbers || (appointment.barber?._id ?? null) === column.barberId)
+    )
+    .map((appointment) => {
+      const start = timeToMinutes(formatInZone(appointment.date, "HH:mm", timeZone));
+      const end = start + appointmentMinutes(appointment);
+      return { appointment, start, end, lane: 0, lanes: 1, buffers: appointmentBuffers(appointment, barbers) };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let group: GridBlock[] = [];
+  let laneEnds: number[] = [];
+  const closeGroup = () => group.forEach((block) => (block.lanes = laneEnds.length));
+  for (const block of blocks) {
+    if (group.length > 0 && block.start >= Math.max(...laneEnds)) {
+      closeGroup();
+      group = [];
+      laneEnds = [];
+    }
+    const lane = laneEnds.findIndex((end) => end <= block.start);
+    block.lane = lane === -1 ? laneEnds.length : lane;
+    laneEnds[block.lane] = block.end;
+    group.push(block);
+  }
+  closeGroup();
+  return blocks;
+}
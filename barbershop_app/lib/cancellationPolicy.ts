@@ -0,0 +1,76 @@
+/**
+ * @file lib/cancellationPolicy.ts
+ * @description
+ * Applies the shop's cancellation policy (see `ShopSettings`) to self-service changes.
+ *
+ * Key points:
+ * - Clients must cancel or reschedule at least `noticeHours` before the appointment starts.
+ * - Inside the notice period, rescheduling is refused; cancelling is refused too unless the
+ *   policy allows late cancellations, which are then flagged and counted against the client.
+ * - Admins are not bound by the policy.
+ * - Contains no database access, so the booking UI can explain disabled actions with the
+ *   same rules the server actions enforce.
+ */
+
+import { CancellationPolicy } from "@/app/types";
+
+/**
+ * PolicyCheck
+ * ----------------------------------
+ * Outcome of a policy check: whether the change is allowed, whether it counts as late,
+ * and, when refused, the reason to show the client.
+ */
+export type PolicyCheck =
+  | { allowed: true; late: boolean }
+  | { allowed: false; late: true; reason: string };
+
+/**
+ * Describes the notice period, e.g. "24 hours" or "1 hour".
+ */
+export function formatNotice(noticeHours: number): string {
+  return noticeHours === 1 ? "1 hour" : `${noticeHours} hours`;
+}
+
+/**
+ * Whether an appointment starting at `start` is inside the notice period at `now`.
+ */
+export function isWithinNotice(start: Date | string, policy: CancellationPolicy, now: Date = new Date()): boolean {
+  return new Date(start).getTime() - now.getTime() < policy.noticeHours * 60 * 60_000;
+}
+
+/**
+ * checkCancellation
+ * ----------------------------------
+ * Whether a client may cancel an appointment starting at `start` themselves.
+ */
+export function checkCancellation(
+  start: Date | string,
+  policy: CancellationPolicy,
+  now: Date = new Date()
+): PolicyCheck {
+  if (!isWithinNotice(start, policy, now)) return { allowed: true, late: false };
+  if (policy.allowLateCancel) return { allowed: true, late: true };
+  return {
+    allowed: false,
+    late: true,
+    reason: `Appointments can only be cancelled online up to ${formatNotice(policy.noticeHours)} before they start. Please contact the shop.`,
+  };
+}
+
+/**
+ * checkReschedule
+ * ----------------------------------
+ * Whether a client may move an appointment starting at `start` themselves.
+ */
+export function checkReschedule(
+  start: Date | string,
+  policy: CancellationPolicy,
+  now: Date = new Date()
+): PolicyCheck {
+  if (!isWithinNotice(start, policy, now)) return { allowed: true, late: false };
+  return {
+    allowed: false,
+    late: true,
+    reason: `Appointments can only be changed online up to ${formatNotice(policy.noticeHours)} before they start. Please contact the shop.`,
+  };
+}
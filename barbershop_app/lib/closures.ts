@@ -0,0 +1,130 @@
+/**
+ * @file lib/closures.ts
+ * @description
+ * Loads and validates the closures (holidays, renovations, barbers' days off)
+ * stored in the `Closure` collection.
+ *
+ * Key points:
+ * - `getClosures()` returns plain, serializable closures overlapping a date range,
+ *   with the affected barber populated.
+ * - `findClosedDates()` lists the days on which nothing can be booked, for greying out date pickers.
+ * - `validateClosure()` is used by the admin action before persisting changes.
+ */
+
+import connectDB from "@/lib/mongoose";
+import Closure from "@/models/Closure";
+import "@/models/Barber"; // Registers the model used by populate()
+import { ClosureType, ShopSettingsType } from "@/app/types";
+import {
+  closureCoversDate,
+  dayOfWeek,
+  isFullDayClosure,
+  timeToMinutes,
+  toDateTime,
+} from "@/lib/availability";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * getClosures
+ * ----------------------------------
+ * Reads every closure overlapping the inclusive date range `[from, to]`.
+ *
+ * @param from - First date in 'YYYY-MM-DD' format.
+ * @param to - Last date in 'YYYY-MM-DD' format.
+ */
+export async function getClosures(from: string, to: string): Promise<ClosureType[]> {
+  await connectDB();
+  const closures = await Closure.find({ startDate: { $lte: to }, endDate: { $gte: from } })
+    .populate('barber', 'name')
+    .lean();
+  return JSON.parse(JSON.stringify(closures));
+}
+
+/**
+ * Lists the 'YYYY-MM-DD' dates from `from` to `to`, both inclusive.
+ */
+export function listDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (
+    let day = new Date(`${from}T00:00:00Z`);
+    day.getTime() <= new Date(`${to}T00:00:00Z`).getTime();
+    day = new Date(day.getTime() + 24 * 60 * 60_000)
+  ) {
+    dates.push(day.toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/**
+ * findClosedDates
+ * ----------------------------------
+ * Lists the dates in `[from, to]` on which no booking is possible with the chosen barber:
+ * weekdays the shop does not open, shop-wide full-day closures, and the barber's own
+ * full-day closures. Partial closures leave the day bookable and are not listed.
+ *
+ * @param settings - The shop settings.
+ * @param closures - Closures overlapping the range (see `getClosures`).
+ * @param barberId - A specific barber, or undefined / 'any' for no preference.
+ */
+export function findClosedDates(
+  settings: ShopSettingsType,
+  closures: ClosureType[],
+  from: string,
+  to: string,
+  barberId?: string
+): string[] {
+  const fullDay = closures.filter(
+    (closure) => isFullDayClosure(closure) && (!closure.barber || closure.barber._id === barberId)
+  );
+  return listDates(from, to).filter((date) => {
+    const day = settings.weeklyHours.find((entry) => entry.dayOfWeek === dayOfWeek(date));
+    if (!day || !day.isOpen) return true;
+    return fullDay.some((closure) => closureCoversDate(closure, date));
+  });
+}
+
+/**
+ * validateClosure
+ * ----------------------------------
+ * Validates a closure before it is saved.
+ *
+ * @returns An error message, or null when the closure is valid.
+ */
+export function validateClosure(closure: Partial<ClosureType>): string | null {
+  if (!closure.reason?.trim()) {
+    return "A reason is required.";
+  }
+  if (!closure.startDate || !closure.endDate || !DATE_PATTERN.test(closure.startDate) || !DATE_PATTERN.test(closure.endDate)) {
+    return "Dates must use the YYYY-MM-DD format.";
+  }
+  if (closure.startDate > closure.endDate) {
+    return "The closure must end on or after its first day.";
+  }
+  if (closure.startTime || closure.endTime) {
+    if (!closure.startTime || !closure.endTime || !TIME_PATTERN.test(closure.startTime) || !TIME_PATTERN.test(closure.endTime)) {
+      return "Times must use the HH:mm format.";
+    }
+    if (timeToMinutes(closure.startTime) >= timeToMinutes(closure.endTime)) {
+      return "Start time must be before end time.";
+    }
+  }
+  return null;
+}
+
+/**
+ * getClosureIntervals
+ * ----------------------------------
+ * Expands a closure into the concrete time it blocks: one interval per covered day,
+ * spanning the whole day or the closure's time range in the shop's time zone.
+ */
+export function getClosureIntervals(closure: ClosureType, timeZone: string): { start: Date; end: Date }[] {
+  const [startTime, endTime] = isFullDayClosure(closure)
+    ? ["00:00", "24:00"]
+    : [closure.startTime as string, closure.endTime as string];
+  return listDates(closure.startDate, closure.endDate).map((date) => ({
+    start: toDateTime(date, startTime, timeZone),
+    end: toDateTime(date, endTime, timeZone),
+  }));
+}
@@ -0,0 +1,30 @@
+/**
+ * @file lib/guests.ts
+ * @description
+ * Contact details of guests: clients who book without an account (see `app/actions/guestActions.ts`).
+ * Contains no database access, so the same check runs when a guest uploads reference photos and when they book.
+ */
+
+import { GuestDetails } from "@/app/types";
+
+/**
+ * A plausible email address: something, an @, and a domain with a dot.
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * validateGuest
+ * ----------------------------------
+ * Checks the contact details of a guest.
+ *
+ * @returns An error message, or null when they are valid.
+ */
+export function validateGuest({ name, email, phone }: GuestDetails): string | null {
+  if (!name?.trim() || !email?.trim() || !phone?.trim()) {
+    return "Please enter your name, email and phone.";
+  }
+  if (!EMAIL_PATTERN.test(email.trim())) {
+    return "Please enter a valid email address.";
+  }
+  return null;
+}
@@ -0,0 +1,91 @@
+/**
+ * @file lib/manageLinks.ts
+ * @description
+ * Signed links that let a guest (a client booking without an account) view, reschedule or
+ * cancel their booking, served by `app/(pages)/manage/[token]/page.tsx`.
+ *
+ * Key points:
+ * - A token names one appointment and when it stops working, signed with HMAC-SHA256 using
+ *   `MANAGE_LINK_SECRET`, so it cannot be forged or pointed at another appointment.
+ * - A link works until a day after the appointment it was issued for starts. A new link is
+ *   sent with every message about the booking, so a moved booking gets a link for its new time.
+ * - Links are absolute, built on `APP_URL`, as they are sent by email and SMS.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * How long after the appointment starts its link keeps working, in hours.
+ */
+export const MANAGE_LINK_GRACE_HOURS = 24;
+
+/**
+ * Path the manage links point to, followed by the token.
+ */
+export const MANAGE_PATH = "/manage/";
+
+/**
+ * Whether manage links can be issued, i.e. `MANAGE_LINK_SECRET` is set. Guest booking depends on it.
+ */
+export function manageLinksEnabled(): boolean {
+  return !!process.env.MANAGE_LINK_SECRET;
+}
+
+/**
+ * The key tokens are signed with.
+ * @throws When `MANAGE_LINK_SECRET` is not set, rather than signing with a guessable key.
+ */
+function secret(): string {
+  const key = process.env.MANAGE_LINK_SECRET;
+  if (!key) throw new Error("MANAGE_LINK_SECRET is not set.");
+  return key;
+}
+
+/**
+ * Signs the payload of a token, in base64url.
+ */
+function sign(payload: string): string {
+  return createHmac("sha256", secret()).update(payload).digest("base64url");
+}
+
+/**
+ * createManageToken
+ * ----------------------------------
+ * Issues a token for an appointment, valid until `MANAGE_LINK_GRACE_HOURS` after it starts.
+ *
+ * @param appointmentId - The appointment the token gives access to.
+ * @param start - When the appointment starts.
+ */
+export function createManageToken(appointmentId: string, start: Date): string {
+  const expiresAt = Math.floor(start.getTime() / 1000) + MANAGE_LINK_GRACE_HOURS * 60 * 60;
+  const payload = `${appointmentId}.${expiresAt}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * verifyManageToken
+ * ----------------------------------
+ * Checks a token's signature and expiry.
+ *
+ * @returns The ID of the appointment the token gives access to, or null when it is
+ *          malformed, tampered with or expired.
+ */
+export function verifyManageToken(token: string, now: Date = new Date()): string | null {
+  const [appointmentId, expiresAt, signature, ...rest] = token.split(".");
+  if (!appointmentId || !expiresAt || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(`${appointmentId}.${expiresAt}`));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  if (Number(expiresAt) * 1000 <= now.getTime()) return null;
+  return appointmentId;
+}
+
+/**
+ * The absolute URL of a manage link, for messages sent outside the app.
+ */
+export function manageUrl(token: string): string {
+  const base = (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+  return `${base}${MANAGE_PATH}${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * @file lib/nextAvailable.ts
+ * @description
+ * Searches forward from today for the earliest times a visit can be booked, so clients
+ * do not have to try dates one by one.
+ *
+ * Key points:
+ * - Days are scanned in order, a few weeks at a time: each batch loads the schedules of
+ *   all its days at once (see `getSchedules`) instead of day by day.
+ * - Each day is checked with the same engine as the booking form (`findAvailableTimes`),
+ *   so every suggestion can be booked as offered.
+ * - Only a couple of times are taken from each day, so the suggestions spread over
+ *   several days instead of listing one morning in half-hour steps.
+ */
+
+import { SlotSuggestion, TimeOfDay } from "@/app/types";
+import { getShopSettings } from "@/lib/shopSettings";
+import { getSchedules } from "@/lib/booking";
+import { Buffers, findAvailableTimes, formatInZone } from "@/lib/availability";
+import { shiftDate } from "@/lib/recurrence";
+
+/**
+ * How many days ahead, today included, the search looks before giving up.
+ */
+export const SEARCH_DAYS = 60;
+
+/**
+ * How many suggestions the search returns by default.
+ */
+export const DEFAULT_SUGGESTIONS = 6;
+
+/**
+ * Most suggestions taken from a single day.
+ */
+const SUGGESTIONS_PER_DAY = 2;
+
+/**
+ * Days loaded from the database at once.
+ */
+const BATCH_DAYS = 14;
+
+/**
+ * Start times ('HH:mm', end exclusive) each part of the day covers.
+ */
+export const TIME_OF_DAY_RANGES: Record<Exclude<TimeOfDay, "any">, { start: string; end: string }> = {
+  morning: { start: "00:00", end: "12:00" },
+  afternoon: { start: "12:00", end: "17:00" },
+  evening: { start: "17:00", end: "24:00" },
+};
+
+/**
+ * Whether an 'HH:mm' start time falls in the preferred part of the day.
+ */
+export function matchesTimeOfDay(time: string, timeOfDay: TimeOfDay = "any"): boolean {
+  if (timeOfDay === "any") return true;
+  const { start, end } = TIME_OF_DAY_RANGES[timeOfDay];
+  return time >= start && time < end;
+}
+
+/**
+ * NextAvailableQuery
+ * ----------------------------------
+ * Inputs of `findNextAvailable`.
+ */
+export interface NextAvailableQuery {
+  duration: number; // Minutes of the whole visit
+  buffers?: Buffers; // The visit's own buffers (see `visitBuffers`)
+  barberId?: string; // A specific barber, or undefined / 'any' for no preference
+  timeOfDay?: TimeOfDay;
+  limit?: number;
+  now?: Date;
+}
+
+/**
+ * findNextAvailable
+ * ----------------------------------
+ * Finds the earliest start times, from now on, at which a visit of `duration` minutes
+ * fits the opening hours, avoids closures and has the requested barber (or any barber) free.
+ *
+ * @returns Up to `limit` suggestions in chronological order; fewer (or none) when
+ *          the next `SEARCH_DAYS` days have no more room.
+ */
+export async function findNextAvailable({
+  duration,
+  buffers,
+  barberId,
+  timeOfDay = "any",
+  limit = DEFAULT_SUGGESTIONS,
+  now = new Date(),
+}: NextAvailableQuery): Promise<SlotSuggestion[]> {
+  const { timeZone } = await getShopSettings();
+  const today = formatInZone(now, "yyyy-MM-dd", timeZone);
+  const lastDay = shiftDate(today, SEARCH_DAYS - 1);
+
+  const suggestions: SlotSuggestion[] = [];
+  for (let batchStart = today; batchStart <= lastDay; batchStart = shiftDate(batchStart, BATCH_DAYS)) {
+    const fullBatchEnd = shiftDate(batchStart, BATCH_DAYS - 1);
+    const batchEnd = fullBatchEnd < lastDay ? fullBatchEnd : lastDay;
+    const schedules = await getSchedules(batchStart, batchEnd);
+
+    for (const [date, schedule] of Object.entries(schedules)) {
+      const times = findAvailableTimes({ date, duration, buffers, ...schedule, requestedBarberId: barberId, now })
+        .filter((time) => matchesTimeOfDay(time, timeOfDay))
+        .slice(0, SUGGESTIONS_PER_DAY);
+      for (const time of times) {
+        suggestions.push({ date, time });
+        if (suggestions.length >= limit) return suggestions;
+      }
+    }
+  }
+  return suggestions;
+}
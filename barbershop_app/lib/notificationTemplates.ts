@@ -0,0 +1,144 @@
+/**
+ * @file lib/notificationTemplates.ts
+ * @description
+ * Text of the messages sent to clients about their appointments (see `lib/notifications.ts`).
+ *
+ * Key points:
+ * - Every kind of message has an email version (subject and body) and a short SMS version.
+ * - A message can cover several appointments, e.g. every occurrence of a recurring booking.
+ * - Times are written in the shop's time zone.
+ * - Messages to guests carry the link to view, reschedule or cancel their booking (see `lib/manageLinks.ts`).
+ * - Offers of a waitlisted slot say until when it is held and where to accept it (see `lib/waitlist.ts`).
+ * - Contains no database access, so templates can be rendered and checked on their own.
+ */
+
+import { NotificationKind } from "@/app/types";
+import { formatInZone } from "@/lib/availability";
+
+/**
+ * Name the messages are signed with.
+ */
+export const SHOP_NAME = process.env.SHOP_NAME || "SharpShears Barbershop";
+
+/**
+ * NotificationContext
+ * ----------------------------------
+ * What a message says: who it is for and which appointments, in date order,
+ * and, for guests, where they can manage the booking. An offer describes the slot
+ * offered as its one appointment.
+ */
+export interface NotificationContext {
+  clientName: string;
+  timeZone: string;
+  appointments: { start: Date; service: string; barber?: string | null }[];
+  manageUrl?: string;
+  offer?: { expiresAt: Date; acceptUrl: string };
+}
+
+/**
+ * RenderedNotification
+ * ----------------------------------
+ * A message ready to send: the email subject and body, and the SMS text.
+ */
+export interface RenderedNotification {
+  subject: string;
+  text: string;
+  sms: string;
+}
+
+// Opening line of each kind of email, and the SMS prefix.
+const HEADLINES: Record<NotificationKind, { one: string; many: string; sms: string }> = {
+  booked: {
+    one: "Your appointment is confirmed:",
+    many: "Your appointments are confirmed:",
+    sms: "Booking confirmed",
+  },
+  rescheduled: {
+    one: "Your appointment has been moved to:",
+    many: "Your appointments have been moved to:",
+    sms: "Appointment moved",
+  },
+  cancelled: {
+    one: "Your appointment has been cancelled:",
+    many: "Your appointments have been cancelled:",
+    sms: "Appointment cancelled",
+  },
+  reminder: {
+    one: "This is a reminder of your upcoming appointment:",
+    many: "This is a reminder of your upcoming appointments:",
+    sms: "Reminder",
+  },
+  offer: {
+    one: "A slot you are on the waitlist for has opened up:",
+    many: "Slots you are on the waitlist for have opened up:",
+    sms: "Waitlist slot open",
+  },
+};
+
+/**
+ * Describes one appointment, e.g. "Haircut on Friday, June 13, 2025 at 10:00 AM with John".
+ */
+function describeAppointment(appointment: NotificationContext["appointments"][number], timeZone: string): string {
+  const when = formatInZone(appointment.start, "EEEE, MMMM d, yyyy 'at' p", timeZone);
+  const barber = appointment.barber ? ` with ${appointment.barber}` : "";
+  return `${appointment.service} on ${when}${barber}`;
+}
+
+/**
+ * Builds the email subject for a kind of message.
+ */
+function subjectFor(kind: NotificationKind, context: NotificationContext): string {
+  const [first] = context.appointments;
+  const many = context.appointments.length > 1;
+  switch (kind) {
+    case "booked":
+      return many ? `Your ${context.appointments.length} appointments are confirmed` : "Your appointment is confirmed";
+    case "rescheduled":
+      return many ? "Your appointments have been moved" : "Your appointment has been moved";
+    case "cancelled":
+      return many ? "Your appointments have been cancelled" : "Your appointment has been cancelled";
+    case "reminder":
+      return `Reminder: ${first.service} on ${formatInZone(first.start, "MMM d 'at' p", context.timeZone)}`;
+    case "offer":
+      return `A slot has opened up: ${first.service} on ${formatInZone(first.start, "MMM d 'at' p", context.timeZone)}`;
+  }
+}
+
+/**
+ * renderNotification
+ * ----------------------------------
+ * Writes the email and SMS versions of a message about one or more appointments.
+ *
+ * @param kind - What the message is about.
+ * @param context - The client and the appointments concerned.
+ */
+export function renderNotification(kind: NotificationKind, context: NotificationContext): RenderedNotification {
+  const { appointments, timeZone, offer } = context;
+  const headline = HEADLINES[kind];
+  const many = appointments.length > 1;
+  const heldUntil = offer ? formatInZone(offer.expiresAt, "p", timeZone) : "";
+
+  const lines = [
+    `Hi ${context.clientName},`,
+    "",
+    many ? headline.many : headline.one,
+    "",
+    ...appointments.map((appointment) => `- ${describeAppointment(appointment, timeZone)}`),
+    "",
+    ...(context.manageUrl ? [`To view, reschedule or cancel your booking, visit: ${context.manageUrl}`, ""] : []),
+    ...(offer ? [`It is held for you until ${heldUntil}. To book it, accept the offer at: ${offer.acceptUrl}`, ""] : []),
+    kind === "cancelled" ? "We hope to see you again soon." : "See you soon!",
+    SHOP_NAME,
+  ];
+
+  const [first] = appointments;
+  const firstWhen = formatInZone(first.start, "EEE, MMM d 'at' p", timeZone);
+  const summary = many
+    ? `${SHOP_NAME}: ${headline.sms}. ${appointments.length} appointments, starting ${firstWhen}.`
+    : `${SHOP_NAME}: ${headline.sms}. ${first.service} ${firstWhen}${first.barber ? ` with ${first.barber}` : ""}.`;
+  const sms = offer
+    ? `${summary} Held until ${heldUntil}. Accept: ${offer.acceptUrl}`
+    : context.manageUrl ? `${summary} Manage: ${context.manageUrl}` : summary;
+
+  return { subject: subjectFor(kind, context), text: lines.join("\n"), sms };
+}
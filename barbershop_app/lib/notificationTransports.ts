@@ -0,0 +1,222 @@
+/**
+ * @file lib/notificationTransports.ts
+ * @description
+ * Delivery of client messages, one transport per channel (email and SMS).
+ *
+ * Key points:
+ * - Transports are chosen per channel with `NOTIFY_EMAIL_TRANSPORT` and `NOTIFY_SMS_TRANSPORT`:
+ *   - `smtp` (email only): sends with nodemailer through the SMTP server in `SMTP_HOST`, `SMTP_PORT`,
+ *     `SMTP_SECURE`, `SMTP_USER`, `SMTP_PASSWORD` and `SMTP_FROM`.
+ *   - `sms` (SMS only): posts the message as JSON to the HTTP gateway in `SMS_GATEWAY_URL`,
+ *     authenticated with `SMS_GATEWAY_TOKEN`, from `SMS_FROM`.
+ *   - `console`: prints the message to the server log (the default for both channels).
+ *   - `file`: appends the message as a JSON line to `NOTIFY_FILE` (default `notifications.log`),
+ *     so the system can run and be checked without any external service.
+ *   - `none`: the channel is switched off.
+ * - Other transports can be plugged in with `setTransport`.
+ */
+
+import { appendFile } from "node:fs/promises";
+import nodemailer from "nodemailer";
+import { NotificationChannel } from "@/app/types";
+
+// How long an SMTP server may take to answer before the send is abandoned.
+const SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * OutgoingMessage
+ * ----------------------------------
+ * A message addressed to one recipient: an email address or a phone number, depending on `channel`.
+ * SMS transports send `text` only.
+ */
+export interface OutgoingMessage {
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * NotificationTransport
+ * ----------------------------------
+ * Something that can deliver messages; `send` rejects when delivery fails.
+ */
+export interface NotificationTransport {
+  name: string;
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+/**
+ * consoleTransport
+ * ----------------------------------
+ * Prints messages to the server log.
+ */
+export function consoleTransport(): NotificationTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.info(`[notification] ${message.channel} to ${message.to}: ${message.subject}\n${message.text}`);
+    },
+  };
+}
+
+/**
+ * fileTransport
+ * ----------------------------------
+ * Appends each message, with the time it was sent, as one JSON line to a file.
+ */
+export function fileTransport(path: string): NotificationTransport {
+  return {
+    name: "file",
+    async send(message) {
+      await appendFile(path, JSON.stringify({ sentAt: new Date().toISOString(), ...message }) + "\n", "utf8");
+    },
+  };
+}
+
+/**
+ * SmtpConfig
+ * ----------------------------------
+ * Where and as whom to send email. With `secure`, the connection is TLS from the start
+ * (usually port 465); otherwise it is upgraded with STARTTLS when the server offers it,
+ * which is then required to log in with `user` and `password`.
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string; // e.g. 'SharpShears <no-reply@example.com>'
+}
+
+/**
+ * smtpTransport
+ * ----------------------------------
+ * Sends email over SMTP with nodemailer. Credentials are only ever sent over TLS: with a
+ * `user`, a server that does not offer STARTTLS on a plain connection is refused.
+ */
+export function smtpTransport(config: SmtpConfig): NotificationTransport {
+  const mailer = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    requireTLS: !config.secure && !!config.user,
+    auth: config.user ? { user: config.user, pass: config.password ?? "" } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await mailer.sendMail({ from: config.from, to: message.to, subject: message.subject, text: message.text });
+    },
+  };
+}
+
+/**
+ * SmsGatewayConfig
+ * ----------------------------------
+ * An HTTP SMS gateway that accepts `{ from, to, text }` as JSON with a bearer token.
+ */
+export interface SmsGatewayConfig {
+  url: string;
+  token?: string;
+  from?: string;
+}
+
+/**
+ * smsGatewayTransport
+ * ----------------------------------
+ * Sends SMS through an HTTP gateway; any non-2xx response is a failure.
+ */
+export function smsGatewayTransport(config: SmsGatewayConfig): NotificationTransport {
+  return {
+    name: "sms",
+    async send(message) {
+      const response = await fetch(config.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+        },
+        body: JSON.stringify({ from: config.from, to: message.to, text: message.text }),
+      });
+      if (!response.ok) {
+        throw new Error(`SMS gateway replied ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+/**
+ * Builds the transport named in the environment for a channel, or null when the channel is off.
+ */
+function transportFromEnv(channel: NotificationChannel): NotificationTransport | null {
+  const setting = channel === "email" ? process.env.NOTIFY_EMAIL_TRANSPORT : process.env.NOTIFY_SMS_TRANSPORT;
+  const name = (setting || "console").trim().toLowerCase();
+
+  switch (name) {
+    case "none":
+      return null;
+    case "console":
+      return consoleTransport();
+    case "file":
+      return fileTransport(process.env.NOTIFY_FILE || "notifications.log");
+    case "smtp": {
+      if (channel !== "email") break;
+      if (!process.env.SMTP_HOST || !process.env.SMTP_FROM) {
+        throw new Error("SMTP_HOST and SMTP_FROM must be set to send email over SMTP.");
+      }
+      const secure = process.env.SMTP_SECURE === "true";
+      return smtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.SMTP_FROM,
+      });
+    }
+    case "sms": {
+      if (channel !== "sms") break;
+      if (!process.env.SMS_GATEWAY_URL) {
+        throw new Error("SMS_GATEWAY_URL must be set to send SMS.");
+      }
+      return smsGatewayTransport({
+        url: process.env.SMS_GATEWAY_URL,
+        token: process.env.SMS_GATEWAY_TOKEN,
+        from: process.env.SMS_FROM,
+      });
+    }
+  }
+  throw new Error(`Unknown ${channel} transport "${name}".`);
+}
+
+// Transports in use, built from the environment on first use unless set with `setTransport`.
+const transports = new Map<NotificationChannel, NotificationTransport | null>();
+
+/**
+ * getTransport
+ * ----------------------------------
+ * The transport that delivers a channel's messages, or null when the channel is switched off.
+ * Throws when the environment names an unknown or incompletely configured transport.
+ */
+export function getTransport(channel: NotificationChannel): NotificationTransport | null {
+  if (!transports.has(channel)) {
+    transports.set(channel, transportFromEnv(channel));
+  }
+  return transports.get(channel) ?? null;
+}
+
+/**
+ * setTransport
+ * ----------------------------------
+ * Plugs in a transport for a channel, replacing the one configured in the environment
+ * (null switches the channel off).
+ */
+export function setTransport(channel: NotificationChannel, transport: NotificationTransport | null): void {
+  transports.set(channel, transport);
+}
@@ -0,0 +1,356 @@
+/**
+ * @file lib/notifications.ts
+ * @description
+ * Server-side notification pipeline: tells clients when their appointments are booked,
+ * moved or cancelled, reminds them ahead of each appointment, and offers them slots freed
+ * for their waitlist entries.
+ *
+ * Key points:
+ * - Every message is written once per channel (email, and SMS when the client has a phone)
+ *   to the `Notification` collection, then handed to the channel's transport
+ *   (see `lib/notificationTransports.ts`).
+ * - `notifyAppointments` is called by the actions after their change is saved, and
+ *   `notifyWaitlistOffer` by the waitlist once a slot is offered. Failures are logged and
+ *   recorded rather than thrown, so they never undo the booking or the offer itself.
+ * - Reminders go out at the offsets in the shop settings (by default 24 and 2 hours before).
+ *   `dispatchNotifications` sends the ones that are due, retries failed messages and passes lapsed
+ *   waitlist offers on to the next clients in line (see `refreshWaitlist`); it is run
+ *   periodically by `npm run notifications:dispatch` (e.g. from cron every few minutes).
+ */
+
+import connectDB from "@/lib/mongoose";
+import Appointment from "@/models/Appointment";
+import Notification from "@/models/Notification";
+import WaitlistEntry from "@/models/WaitlistEntry";
+import { getShopSettings } from "@/lib/shopSettings";
+import { UPCOMING_STATUSES } from "@/lib/appointmentStatus";
+import { RenderedNotification, renderNotification } from "@/lib/notificationTemplates";
+import { getTransport } from "@/lib/notificationTransports";
+import { describeVisit } from "@/lib/visit";
+import { refreshWaitlist } from "@/lib/waitlist";
+import { createManageToken, manageLinksEnabled, manageUrl } from "@/lib/manageLinks";
+import { Appointment as AppointmentType, NotificationChannel, NotificationKind, VisitItem } from "@/app/types";
+import "@/models/User"; // Registers the models used by populate()
+import "@/models/Service";
+import "@/models/Barber";
+
+/**
+ * How many times a message is tried before it is left as failed.
+ */
+export const MAX_ATTEMPTS = 3;
+
+// A client, with the addresses messages are sent to.
+interface NotifiableClient {
+  _id: unknown;
+  name: string;
+  email?: string;
+  phone?: string;
+  isGuest?: boolean;
+}
+
+// An appointment loaded with everything a message about it mentions.
+interface NotifiableAppointment {
+  _id: unknown;
+  date: Date;
+  createdAt: Date;
+  user?: NotifiableClient | null;
+  service?: { _id: string; name: string } | null;
+  items?: VisitItem[];
+  barber?: { name: string } | null;
+}
+
+/**
+ * Loads appointments with their client, service and barber, soonest first.
+ */
+async function loadAppointments(filter: object): Promise<NotifiableAppointment[]> {
+  return Appointment.find(filter)
+    .sort({ date: 1 })
+    .populate('user', 'name email phone isGuest')
+    .populate('service', 'name')
+    .populate('barber', 'name')
+    .lean<NotifiableAppointment[]>();
+}
+
+/**
+ * The channels a client can be reached on: the channel must have a transport, and the
+ * client an address for it.
+ */
+function recipients(user: NotifiableClient): { channel: NotificationChannel; to: string }[] {
+  const addresses: { channel: NotificationChannel; to: string }[] = [];
+  if (user.email && getTransport("email")) addresses.push({ channel: "email", to: user.email });
+  if (user.phone && getTransport("sms")) addresses.push({ channel: "sms", to: user.phone });
+  return addresses;
+}
+
+/**
+ * deliver
+ * ----------------------------------
+ * Sends a stored notification through its channel's transport and records the outcome.
+ */
+async function deliver(notification: InstanceType<typeof Notification>): Promise<void> {
+  try {
+    const transport = getTransport(notification.channel);
+    if (!transport) throw new Error(`The ${notification.channel} channel is switched off.`);
+    await transport.send({
+      channel: notification.channel,
+      to: notification.to,
+      subject: notification.subject,
+      text: notification.text,
+    });
+    notification.status = 'sent';
+    notification.sentAt = new Date();
+    notification.lastError = undefined;
+  } catch (error) {
+    notification.status = 'failed';
+    notification.lastError = (error as Error).message;
+    console.error(`Failed to send ${notification.kind} ${notification.channel} to ${notification.to}:`, error);
+  }
+  notification.attempts += 1;
+  await notification.save();
+}
+
+/**
+ * Writes and sends a rendered message to a client, on every channel they can be reached on.
+ * `fields` records what the message is about (see `models/Notification.ts`).
+ */
+async function sendMessage(
+  kind: NotificationKind,
+  user: NotifiableClient,
+  message: RenderedNotification,
+  fields: object
+): Promise<void> {
+  for (const { channel, to } of recipients(user)) {
+    let notification;
+    try {
+      notification = await Notification.create({
+        ...fields,
+        user: user._id,
+        kind,
+        channel,
+        to,
+        subject: message.subject,
+        text: channel === "sms" ? message.sms : message.text,
+      });
+    } catch (error) {
+      // Duplicate key: another dispatcher already sent this reminder.
+      if ((error as { code?: number })?.code === 11000) continue;
+      throw error;
+    }
+    await deliver(notification);
+  }
+}
+
+/**
+ * Writes and sends one client's message about some appointments, on every channel they can be reached on.
+ * For reminders, `reminderHours` identifies the reminder so it is only sent once.
+ * Guests, who have no account to log in to, also get a fresh link to manage their next appointment.
+ */
+async function sendToClient(
+  kind: NotificationKind,
+  appointments: NotifiableAppointment[],
+  timeZone: string,
+  reminderHours?: number
+): Promise<void> {
+  const [first] = appointments;
+  if (!first?.user) return;
+
+  const message = renderNotification(kind, {
+    clientName: first.user.name,
+    timeZone,
+    appointments: appointments.map((appointment) => ({
+      start: appointment.date,
+      service: describeVisit(appointment as Pick<AppointmentType, "service" | "items">),
+      barber: appointment.barber?.name,
+    })),
+    manageUrl: first.user.isGuest && kind !== "cancelled" && manageLinksEnabled()
+      ? manageUrl(createManageToken(String(first._id), first.date))
+      : undefined,
+  });
+
+  await sendMessage(kind, first.user, message, {
+    appointments: appointments.map((appointment) => appointment._id),
+    reminder: reminderHours === undefined
+      ? null
+      : { appointment: first._id, start: first.date, hours: reminderHours },
+  });
+}
+
+/**
+ * notifyAppointments
+ * ----------------------------------
+ * Tells clients that appointments were booked, moved or cancelled. Appointments of the same
+ * client are covered by a single message. Failures are logged rather than thrown.
+ *
+ * @param kind - What happened to the appointments ('booked', 'rescheduled' or 'cancelled').
+ * @param appointmentIds - The appointments concerned, as saved after the change.
+ */
+export async function notifyAppointments(
+  kind: Exclude<NotificationKind, "reminder" | "offer">,
+  appointmentIds: string[]
+): Promise<void> {
+  if (appointmentIds.length === 0) return;
+  try {
+    await connectDB();
+    const [{ timeZone }, appointments] = await Promise.all([
+      getShopSettings(),
+      loadAppointments({ _id: { $in: appointmentIds } }),
+    ]);
+
+    const byClient = new Map<string, NotifiableAppointment[]>();
+    for (const appointment of appointments) {
+      if (!appointment.user) continue;
+      const clientId = String(appointment.user._id);
+      byClient.set(clientId, [...(byClient.get(clientId) ?? []), appointment]);
+    }
+    for (const clientAppointments of byClient.values()) {
+      await sendToClient(kind, clientAppointments, timeZone);
+    }
+  } catch (error) {
+    console.error(`Failed to send ${kind} notifications:`, error);
+  }
+}
+
+/**
+ * notifyWaitlistOffer
+ * ----------------------------------
+ * Tells a waitlisted client which slot is offered to them, until when it is held, and where
+ * to accept it. Failures are logged rather than thrown.
+ *
+ * @param entryId - The waitlist entry holding the offer.
+ */
+export async function notifyWaitlistOffer(entryId: string): Promise<void> {
+  try {
+    await connectDB();
+    const [{ timeZone }, entry] = await Promise.all([
+      getShopSettings(),
+      WaitlistEntry.findById(entryId)
+        .populate('user', 'name email phone isGuest')
+        .populate('service', 'name')
+        .populate('services', 'name')
+        .populate('offer.barber', 'name')
+        .lean<{
+          _id: unknown;
+          user?: NotifiableClient | null;
+          service?: { name: string } | null;
+          services?: { name: string }[];
+          offer?: { start: Date; expiresAt: Date; barber?: { name: string } | null } | null;
+        }>(),
+    ]);
+    if (!entry?.user || !entry.offer) return;
+
+    const services = entry.services && entry.services.length > 0 ? entry.services : [entry.service];
+    const base = (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+    const message = renderNotification("offer", {
+      clientName: entry.user.name,
+      timeZone,
+      appointments: [{
+        start: entry.offer.start,
+        service: services.map((service) => service?.name ?? "Service not found").join(" + "),
+        barber: entry.offer.barber?.name,
+      }],
+      offer: { expiresAt: entry.offer.expiresAt, acceptUrl: `${base}/appointments` },
+    });
+    await sendMessage("offer", entry.user, message, { waitlistEntry: entry._id });
+  } catch (error) {
+    console.error("Failed to send a waitlist offer notification:", error);
+  }
+}
+
+/**
+ * dueReminderHours
+ * ----------------------------------
+ * Which reminder is due for an appointment at `now`: the smallest offset whose time has come.
+ * Offsets that had already passed when the appointment was booked are skipped, so a
+ * last-minute booking is not followed by a reminder straight away.
+ *
+ * @returns The offset in hours, or null when no reminder is due.
+ */
+export function dueReminderHours(
+  start: Date,
+  bookedAt: Date,
+  reminderHours: number[],
+  now: Date = new Date()
+): number | null {
+  const due = reminderHours.filter((hours) => {
+    const remindAt = start.getTime() - hours * 60 * 60_000;
+    return remindAt <= now.getTime() && remindAt >= bookedAt.getTime();
+  });
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+/**
+ * sendDueReminders
+ * ----------------------------------
+ * Sends the reminders that have come due for upcoming (pending or scheduled) appointments.
+ * Each appointment start gets at most one reminder per offset, so moving an appointment
+ * resets its reminders.
+ *
+ * @returns The number of reminders written.
+ */
+export async function sendDueReminders(now: Date = new Date()): Promise<number> {
+  await connectDB();
+  const { timeZone, reminderHours } = await getShopSettings();
+  if (reminderHours.length === 0) return 0;
+
+  const horizon = new Date(now.getTime() + Math.max(...reminderHours) * 60 * 60_000);
+  const appointments = await loadAppointments({
+    status: { $in: UPCOMING_STATUSES },
+    date: { $gt: now, $lte: horizon },
+  });
+
+  let sent = 0;
+  for (const appointment of appointments) {
+    const hours = dueReminderHours(appointment.date, appointment.createdAt, reminderHours, now);
+    if (hours === null) continue;
+
+    const already = await Notification.exists({
+      kind: 'reminder',
+      'reminder.appointment': appointment._id,
+      'reminder.start': appointment.date,
+      'reminder.hours': { $lte: hours },
+    });
+    if (already) continue;
+
+    await sendToClient('reminder', [appointment], timeZone, hours);
+    sent++;
+  }
+  return sent;
+}
+
+/**
+ * retryFailedNotifications
+ * ----------------------------------
+ * Sends failed messages again, until they have been tried `MAX_ATTEMPTS` times.
+ * Reminders for appointments that have already started are not retried, nor are waitlist
+ * offers, which are only held for a few minutes.
+ *
+ * @returns The number of messages retried.
+ */
+export async function retryFailedNotifications(now: Date = new Date()): Promise<number> {
+  await connectDB();
+  const failed = await Notification.find({
+    status: 'failed',
+    attempts: { $lt: MAX_ATTEMPTS },
+    $or: [{ kind: { $nin: ['reminder', 'offer'] } }, { 'reminder.start': { $gt: now } }],
+  }).sort({ createdAt: 1 });
+
+  for (const notification of failed) {
+    await deliver(notification);
+  }
+  return failed.length;
+}
+
+/**
+ * dispatchNotifications
+ * ----------------------------------
+ * The periodic job: expires lapsed waitlist offers (offering their slots to the next clients),
+ * sends due reminders and retries failed messages.
+ */
+export async function dispatchNotifications(
+  now: Date = new Date()
+): Promise<{ expiredOffers: number; reminders: number; retried: number }> {
+  const expiredOffers = await refreshWaitlist();
+  const reminders = await sendDueReminders(now);
+  const retried = await retryFailedNotifications(now);
+  return { expiredOffers, reminders, retried };
+}
@@ -0,0 +1,192 @@
+/**
+ * @file lib/passwordReset.ts
+ * @description
+ * Resetting a forgotten password through a link sent by email, served by
+ * `app/(pages)/reset-password/[token]/page.tsx`.
+ *
+ * Key points:
+ * - A link carries a random token. Only its SHA-256 hash is stored (see `models/PasswordResetToken.ts`),
+ *   with an expiry of `PASSWORD_RESET_TTL_MINUTES`; a token works once, and asking for a new link
+ *   invalidates the previous ones.
+ * - Asking for a link never tells whether an account exists for the email, so the form cannot be
+ *   used to find out who has an account. Guests have no password to reset.
+ * - The same links let a guest who signs up choose their first password (`requestAccountActivation`),
+ *   which proves the email is theirs before their bookings are attached to the account.
+ * - The email goes through the email transport (see `lib/notificationTransports.ts`), so with the
+ *   `console` or `file` transport the link shows up in the server log or the file instead.
+ *   It is not recorded in the `Notification` collection, as the link gives access to the account.
+ * - Resetting the password logs the user out everywhere (see `revokeUserSessions`).
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+import connectDB from "@/lib/mongoose";
+import PasswordResetToken from "@/models/PasswordResetToken";
+import User from "@/models/User";
+import { hashPassword } from "@/lib/passwords";
+import { revokeUserSessions } from "@/lib/session";
+import { getTransport } from "@/lib/notificationTransports";
+import { SHOP_NAME } from "@/lib/notificationTemplates";
+
+/**
+ * How long a reset link works after it is sent, in minutes.
+ */
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+/**
+ * Path the reset links point to, followed by the token.
+ */
+export const RESET_PATH = "/reset-password/";
+
+/**
+ * The hash a token is stored under.
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("base64url");
+}
+
+/**
+ * The absolute URL of a reset link, for the email.
+ */
+function resetUrl(token: string): string {
+  const base = (process.env.APP_URL || "http://localhost:3000").replace(/\/+$/, "");
+  return `${base}${RESET_PATH}${encodeURIComponent(token)}`;
+}
+
+/**
+ * Filter of the stored token a link carries, while it can still be used.
+ */
+function usableToken(token: string) {
+  return { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: new Date() } };
+}
+
+/**
+ * Stores a new token for a user, invalidating their earlier ones, and returns it.
+ */
+async function issueToken(userId: unknown): Promise<string> {
+  const token = randomBytes(32).toString("base64url");
+  await PasswordResetToken.updateMany({ user: userId, usedAt: null }, { usedAt: new Date() });
+  await PasswordResetToken.create({
+    tokenHash: hashToken(token),
+    user: userId,
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+  return token;
+}
+
+/**
+ * The email transport, which the links cannot be sent without.
+ */
+function emailTransport() {
+  const transport = getTransport("email");
+  if (!transport) {
+    throw new Error("The email channel is switched off, so reset links cannot be sent.");
+  }
+  return transport;
+}
+
+/**
+ * requestPasswordReset
+ * ----------------------------------
+ * Sends a reset link to the account registered with an email, if there is one.
+ * Earlier links of the account stop working.
+ *
+ * @param email - The email the user entered.
+ * @throws When the link cannot be stored or sent.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  await connectDB();
+  const user = await User.findOne({ email: email.trim() }).select("name email isGuest");
+  if (!user || user.isGuest) return;
+
+  const transport = emailTransport();
+  const token = await issueToken(user._id);
+  await transport.send({
+    channel: "email",
+    to: user.email,
+    subject: `Reset your ${SHOP_NAME} password`,
+    text: [
+      `Hello ${user.name},`,
+      "",
+      "Someone asked to reset the password of your account. To choose a new password, open this link:",
+      resetUrl(token),
+      "",
+      `The link works once, for ${PASSWORD_RESET_TTL_MINUTES} minutes.`,
+      "If you did not ask for it, you can ignore this email: your password stays the same.",
+      "",
+      SHOP_NAME,
+    ].join("\n"),
+  });
+}
+
+/**
+ * requestAccountActivation
+ * ----------------------------------
+ * Sends a guest a link to choose a password, which turns their client record into an account
+ * with the bookings they made as a guest (see `resetPassword`). Signing up with a guest's email
+ * goes through this link, so only whoever reads that email can take over the guest's bookings.
+ *
+ * @param email - The email the guest booked with.
+ * @throws When the link cannot be stored or sent.
+ */
+export async function requestAccountActivation(email: string): Promise<void> {
+  await connectDB();
+  const user = await User.findOne({ email: email.trim(), isGuest: true }).select("name email");
+  if (!user) return;
+
+  const transport = emailTransport();
+  const token = await issueToken(user._id);
+  await transport.send({
+    channel: "email",
+    to: user.email,
+    subject: `Finish creating your ${SHOP_NAME} account`,
+    text: [
+      `Hello ${user.name},`,
+      "",
+      "Someone asked to create an account with this email, which you have booked with before.",
+      "To create it, with your bookings, choose a password by opening this link:",
+      resetUrl(token),
+      "",
+      `The link works once, for ${PASSWORD_RESET_TTL_MINUTES} minutes.`,
+      "If you did not ask for it, you can ignore this email: your bookings stay as they are.",
+      "",
+      SHOP_NAME,
+    ].join("\n"),
+  });
+}
+
+/**
+ * isResetTokenValid
+ * ----------------------------------
+ * Whether a reset link can still be used, so the page can say so before the user types a new password.
+ */
+export async function isResetTokenValid(token: string): Promise<boolean> {
+  await connectDB();
+  return !!(await PasswordResetToken.exists(usableToken(token)));
+}
+
+/**
+ * resetPassword
+ * ----------------------------------
+ * Sets a new password with a reset link, using up its token, and logs the user out everywhere.
+ * The token is used up before the password changes, so a link cannot be used twice at once.
+ * A guest setting their first password this way gets an account.
+ *
+ * @param token - The token of the reset link.
+ * @param password - The new password.
+ * @returns Whether the password was changed: false when the link is invalid, used or expired.
+ */
+export async function resetPassword(token: string, password: string): Promise<boolean> {
+  await connectDB();
+  const resetToken = await PasswordResetToken.findOneAndUpdate(usableToken(token), { usedAt: new Date() });
+  if (!resetToken) return false;
+
+  const user = await User.findById(resetToken.user);
+  if (!user) return false;
+  user.password = await hashPassword(password);
+  // A guest's link comes from `requestAccountActivation`: the record becomes their account.
+  user.isGuest = false;
+  await user.save();
+
+  await revokeUserSessions(String(user._id));
+  return true;
+}
@@ -0,0 +1,103 @@
+/**
+ * @file lib/passwords.ts
+ * @description
+ * Password hashing for user accounts, with scrypt (Node's built-in key derivation function).
+ *
+ * Key points:
+ * - A hash is stored as `scrypt$N$r$p$salt$key`, salt and key in base64, so the cost
+ *   parameters can be raised later without breaking the hashes already stored.
+ * - Accounts created before hashing still hold their password in plain text. Such passwords
+ *   are still accepted, and are replaced by a hash on the user's next successful login
+ *   (see `needsRehash`) or in bulk with `npm run migrate:passwords`.
+ * - Comparisons run in constant time, so response times do not reveal how much of a password matched.
+ */
+
+import { randomBytes, scrypt as scryptCallback, ScryptOptions, timingSafeEqual } from "node:crypto";
+
+/**
+ * Prefix of every hash produced here; stored passwords without it are plain text.
+ */
+const HASH_PREFIX = "scrypt";
+
+/**
+ * Cost parameters for new hashes (N, r, p): about 16 MB of memory per hash.
+ */
+const COST = { N: 2 ** 14, r: 8, p: 1 };
+
+/**
+ * Length of the random salt and of the derived key, in bytes.
+ */
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+
+/**
+ * Derives a key from a password with scrypt.
+ */
+function scrypt(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scryptCallback(password, salt, keyLength, { ...options, maxmem: 64 * 1024 * 1024 }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Whether a stored password is a hash produced here rather than legacy plain text.
+ */
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+/**
+ * hashPassword
+ * ----------------------------------
+ * Hashes a password with a fresh random salt, ready to be stored on the user.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await scrypt(password, salt, KEY_BYTES, COST);
+  return [HASH_PREFIX, COST.N, COST.r, COST.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+/**
+ * verifyPassword
+ * ----------------------------------
+ * Checks a password against the one stored for a user: a hash, or legacy plain text.
+ *
+ * @returns Whether they match. Malformed hashes never match.
+ */
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+  if (!stored) return false;
+  if (!isPasswordHash(stored)) {
+    const given = Buffer.from(password);
+    const expected = Buffer.from(stored);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  const [, N, r, p, salt, key, ...rest] = stored.split("$");
+  if (!N || !r || !p || !salt || !key || rest.length > 0) return false;
+  const expected = Buffer.from(key, "base64");
+  try {
+    const derived = await scrypt(password, Buffer.from(salt, "base64"), expected.length, {
+      N: Number(N),
+      r: Number(r),
+      p: Number(p),
+    });
+    return timingSafeEqual(derived, expected);
+  } catch (error) {
+    console.error("Failed to verify password hash:", error);
+    return false;
+  }
+}
+
+/**
+ * needsRehash
+ * ----------------------------------
+ * Whether a stored password should be hashed again once the user proves they know it:
+ * it is plain text, or was hashed with other cost parameters than the current ones.
+ */
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+  const [, N, r, p] = stored.split("$");
+  return Number(N) !== COST.N || Number(r) !== COST.r || Number(p) !== COST.p;
+}
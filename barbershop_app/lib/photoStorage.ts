@@ -0,0 +1,156 @@
+/**
+ * @file lib/photoStorage.ts
+ * @description
+ * Stores the reference photos clients attach to their bookings on the server's local disk,
+ * in the directory named by `UPLOAD_DIR` (default `uploads`, relative to the app's folder).
+ *
+ * Key points:
+ * - Every photo is saved under a new random name, so names cannot collide or be guessed,
+ *   and a client's original file name never reaches the file system.
+ * - A photo's type is read from its first bytes, not from the type the browser declares,
+ *   so only real JPEG, PNG and WebP images are stored.
+ * - Photos are uploaded before the booking they belong to, into a `pending` folder. Booking
+ *   moves them into the upload directory (`keepPhotos`); those never booked are deleted after
+ *   `PENDING_PHOTO_TTL_HOURS`, on a later upload.
+ * - Booked photos are served back by `app/uploads/[name]/route.ts` at `PHOTO_URL_PREFIX + name`.
+ */
+
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import {
+  isPhotoName,
+  MISSING_PHOTO_MESSAGE,
+  PHOTO_TYPE_MESSAGE,
+  PHOTO_TYPES,
+  PHOTO_URL_PREFIX,
+  validatePhotos,
+} from "@/lib/appointmentNotes";
+
+/**
+ * How long an uploaded photo waits for its booking before it is deleted, in hours.
+ */
+export const PENDING_PHOTO_TTL_HOURS = 24;
+
+/**
+ * The directory booked photos are stored in.
+ */
+function uploadDir(): string {
+  return path.resolve(process.env.UPLOAD_DIR || "uploads");
+}
+
+/**
+ * The directory photos wait in until they are booked.
+ */
+function pendingDir(): string {
+  return path.join(uploadDir(), "pending");
+}
+
+/**
+ * Whether `bytes` starts with `signature` at `offset`.
+ */
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+/**
+ * detectPhotoType
+ * ----------------------------------
+ * Reads a photo's type from its file signature.
+ *
+ * @returns One of `PHOTO_TYPES`, or null when the bytes are not a JPEG, PNG or WebP image.
+ */
+export function detectPhotoType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  // "RIFF", the file size, then "WEBP".
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return "image/webp";
+  return null;
+}
+
+/**
+ * Deletes the pending photos uploaded longer than `PENDING_PHOTO_TTL_HOURS` ago.
+ */
+async function removeStalePhotos(): Promise<void> {
+  const dir = pendingDir();
+  const cutoff = Date.now() - PENDING_PHOTO_TTL_HOURS * 60 * 60 * 1000;
+  for (const name of await readdir(dir)) {
+    const file = path.join(dir, name);
+    // A photo booked in the meantime has already moved out.
+    const info = await stat(file).catch(() => null);
+    if (info && info.mtimeMs < cutoff) {
+      await rm(file, { force: true });
+    }
+  }
+}
+
+/**
+ * savePhotos
+ * ----------------------------------
+ * Checks and stores uploaded photos until they are booked (see `keepPhotos`).
+ *
+ * @param files - The uploaded files.
+ * @returns The URL every photo will have once booked, in the order given.
+ * @throws When the photos fail `validatePhotos`, or one is not really a JPEG, PNG or WebP image.
+ */
+export async function savePhotos(files: File[]): Promise<string[]> {
+  const error = validatePhotos(files);
+  if (error) throw new Error(error);
+
+  const photos = await Promise.all(files.map(async (file) => Buffer.from(await file.arrayBuffer())));
+  const types = photos.map(detectPhotoType);
+  if (types.some((type) => !type)) throw new Error(PHOTO_TYPE_MESSAGE);
+
+  const dir = pendingDir();
+  await mkdir(dir, { recursive: true });
+  await removeStalePhotos();
+  const urls: string[] = [];
+  for (const [i, data] of photos.entries()) {
+    const name = `${randomUUID()}.${PHOTO_TYPES[types[i]!]}`;
+    await writeFile(path.join(dir, name), data);
+    urls.push(PHOTO_URL_PREFIX + name);
+  }
+  return urls;
+}
+
+/**
+ * keepPhotos
+ * ----------------------------------
+ * Moves the photos linked from a booking out of the pending folder, so they are no longer
+ * deleted and can be served. Photos already kept, e.g. by another occurrence of a series, are left as they are.
+ *
+ * @param urls - The photo URLs returned by `savePhotos`.
+ * @throws When a photo was never uploaded or has been deleted.
+ */
+export async function keepPhotos(urls: string[]): Promise<void> {
+  for (const url of urls) {
+    const name = url.slice(PHOTO_URL_PREFIX.length);
+    if (!isPhotoName(name)) throw new Error(MISSING_PHOTO_MESSAGE);
+    const file = path.join(uploadDir(), name);
+    try {
+      await rename(path.join(pendingDir(), name), file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      if (!(await stat(file).catch(() => null))) throw new Error(MISSING_PHOTO_MESSAGE);
+    }
+  }
+}
+
+/**
+ * readPhoto
+ * ----------------------------------
+ * Reads a booked photo by file name.
+ *
+ * @returns The photo's bytes and content type, or null when there is no such photo.
+ */
+export async function readPhoto(name: string): Promise<{ data: Buffer; type: string } | null> {
+  if (!isPhotoName(name)) return null;
+  const extension = path.extname(name).slice(1);
+  const type = Object.keys(PHOTO_TYPES).find((key) => PHOTO_TYPES[key] === extension);
+  try {
+    return { data: await readFile(path.join(uploadDir(), name)), type: type ?? "application/octet-stream" };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
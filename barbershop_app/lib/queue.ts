@@ -0,0 +1,248 @@
+/**
+ * @file lib/queue.ts
+ * @description
+ * Server-side in-shop queue: walk-in clients join it at the kiosk, booked clients join it
+ * by checking in, and the shop calls them to a chair one at a time.
+ *
+ * Key points:
+ * - Only today's queue (in the shop's time zone) exists; walk-ins left over from earlier
+ *   days are ignored.
+ * - Walk-ins are fitted around the day's appointments: each is expected at the earliest time
+ *   a chair is free for their whole service, after everyone ahead of them (see `estimateStarts`).
+ *   Breaks, closures, open waitlist offers and clients already in a chair count as busy.
+ * - Checked-in clients are expected at their booked time, or straight away when it has passed.
+ * - The queue is ordered by expected start, so the first entry is the next client to call.
+ */
+
+import connectDB from "@/lib/mongoose";
+import Appointment from "@/models/Appointment";
+import Barber from "@/models/Barber";
+import WalkIn from "@/models/WalkIn";
+import { getShopSettings } from "@/lib/shopSettings";
+import { getDaySchedule } from "@/lib/booking";
+import { describeVisit, visitDuration } from "@/lib/visit";
+import { addMinutesTo, assignSlot, BusyInterval, formatInZone, toDateTime } from "@/lib/availability";
+import { Appointment as AppointmentType, QueueEntryType } from "@/app/types";
+import "@/models/User"; // Registers the models used by populate()
+import "@/models/Service";
+
+/**
+ * How early, in minutes, a booked client can check in before their appointment.
+ */
+export const CHECK_IN_EARLY_MINUTES = 60;
+
+/**
+ * How late, in minutes, a booked client can still check in after their appointment's start.
+ */
+export const CHECK_IN_LATE_MINUTES = 15;
+
+/**
+ * QueueCandidate
+ * ----------------------------------
+ * Someone waiting for a chair, with how long they will occupy it.
+ */
+export interface QueueCandidate {
+  id: string;
+  duration: number;
+}
+
+/**
+ * estimateStarts
+ * ----------------------------------
+ * Places the waiting clients, in order, at the earliest time a chair is free for their whole
+ * service. Each placed client counts as busy for the ones after them, and nobody is expected
+ * before the client ahead of them, so the queue stays first come, first served.
+ *
+ * @param candidates - The waiting clients, first in line first.
+ * @param busy - Time already taken (appointments, breaks, clients in a chair).
+ * @param activeBarberIds - The barbers working; none means the shop's single chair.
+ * @param earliest - No one is expected before this time (now, or opening time).
+ * @returns The expected start and barber of every candidate, by ID.
+ */
+export function estimateStarts(
+  candidates: QueueCandidate[],
+  busy: BusyInterval[],
+  activeBarberIds: string[],
+  earliest: Date
+): Map<string, { start: Date; barberId: string | null }> {
+  const taken = [...busy];
+  const estimates = new Map<string, { start: Date; barberId: string | null }>();
+  let notBefore = earliest;
+
+  for (const candidate of candidates) {
+    // The earliest free start is either `notBefore` or the moment some busy interval ends, after its buffer.
+    const times = [notBefore, ...taken.map((interval) => addMinutesTo(interval.end, interval.buffers?.after ?? 0))]
+      .filter((time) => time.getTime() >= notBefore.getTime())
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    for (const start of times) {
+      const assignment = assignSlot(start, candidate.duration, taken, activeBarberIds);
+      if (!assignment.available) continue;
+      estimates.set(candidate.id, { start, barberId: assignment.barberId });
+      taken.push({ start, end: addMinutesTo(start, candidate.duration), barberId: assignment.barberId });
+      notBefore = start;
+      break;
+    }
+  }
+  return estimates;
+}
+
+/**
+ * Shortens a name to the first name and the initial of the last, e.g. "John D.",
+ * for screens other clients can see.
+ */
+export function shortName(name: string): string {
+  const [first, ...rest] = name.trim().split(/\s+/);
+  const last = rest[rest.length - 1];
+  return last ? `${first} ${last[0].toUpperCase()}.` : first;
+}
+
+/**
+ * Loads everything the queue is worked out from: today's schedule with the clients
+ * in a chair and the breaks marked busy, and the clients waiting.
+ */
+async function loadQueueState(now: Date) {
+  await connectDB();
+  const { timeZone } = await getShopSettings();
+  const today = formatInZone(now, "yyyy-MM-dd", timeZone);
+
+  const [schedule, walkIns, checkedIn] = await Promise.all([
+    getDaySchedule(today),
+    WalkIn.find({ date: today, status: { $in: ['waiting', 'called'] } })
+      .sort({ createdAt: 1 })
+      .populate('service', 'name')
+      .lean(),
+    Appointment.find({
+      status: 'checked-in',
+      date: { $gte: toDateTime(today, "00:00", timeZone), $lt: toDateTime(today, "24:00", timeZone) },
+    })
+      .sort({ date: 1 })
+      .populate('user', 'name')
+      .populate('service', 'name duration')
+      .populate('barber', 'name')
+      .lean(),
+  ]);
+
+  const busy = [...schedule.busy];
+  // Breaks keep every chair busy.
+  const chairs = schedule.activeBarberIds.length > 0 ? schedule.activeBarberIds : [null];
+  for (const range of schedule.hours?.breaks ?? []) {
+    for (const barberId of chairs) {
+      busy.push({ start: toDateTime(today, range.start, timeZone), end: toDateTime(today, range.end, timeZone), barberId });
+    }
+  }
+  // Walk-ins already called sit in a chair for their service's length.
+  for (const walkIn of walkIns.filter((entry) => entry.status === 'called' && entry.calledAt)) {
+    const start = new Date(walkIn.calledAt);
+    busy.push({ start, end: addMinutesTo(start, walkIn.duration), barberId: walkIn.barber ? String(walkIn.barber) : null });
+  }
+
+  const opensAt = schedule.hours ? toDateTime(today, schedule.hours.open, timeZone) : null;
+  const closesAt = schedule.hours ? toDateTime(today, schedule.hours.close, timeZone) : null;
+  const earliest = opensAt && opensAt.getTime() > now.getTime() ? opensAt : now;
+
+  return {
+    today,
+    schedule,
+    busy,
+    earliest,
+    closesAt,
+    waiting: walkIns.filter((entry) => entry.status === 'waiting'),
+    checkedIn,
+  };
+}
+
+/**
+ * getQueue
+ * ----------------------------------
+ * Lists today's waiting clients (walk-ins and checked-in clients) with when each is expected
+ * to be seen, next client first, as plain serializable objects.
+ */
+export async function getQueue(now: Date = new Date()): Promise<QueueEntryType[]> {
+  const { schedule, busy, earliest, closesAt, waiting, checkedIn } = await loadQueueState(now);
+
+  const estimates = estimateStarts(
+    waiting.map((walkIn) => ({ id: String(walkIn._id), duration: walkIn.duration })),
+    busy,
+    schedule.activeBarberIds,
+    earliest
+  );
+  const barbers = await Barber.find({ _id: { $in: schedule.activeBarberIds } }).select('name').lean();
+  const barberById = (id: string | null) => {
+    const barber = barbers.find((b) => String(b._id) === id);
+    return barber ? { _id: String(barber._id), name: barber.name } : null;
+  };
+  const isAfterClosing = (start: Date, duration: number) =>
+    !closesAt || addMinutesTo(start, duration).getTime() > closesAt.getTime();
+
+  const entries: QueueEntryType[] = [
+    ...checkedIn.map((appointment) => {
+      const scheduled = new Date(appointment.date);
+      const start = scheduled.getTime() > now.getTime() ? scheduled : now;
+      const duration = appointment.items?.length > 0
+        ? visitDuration(appointment.items)
+        : appointment.service?.duration ?? 0;
+      const checkIn = [...(appointment.statusHistory ?? [])]
+        .reverse()
+        .find((change: { status: string }) => change.status === 'checked-in');
+      return {
+        _id: String(appointment._id),
+        kind: 'appointment' as const,
+        name: appointment.user?.name ?? "Client",
+        service: describeVisit(appointment as unknown as AppointmentType),
+        duration,
+        barber: appointment.barber ? { _id: String(appointment.barber._id), name: appointment.barber.name } : null,
+        arrivedAt: new Date(checkIn?.changedAt ?? appointment.updatedAt).toISOString(),
+        scheduledAt: scheduled.toISOString(),
+        estimatedStart: start.toISOString(),
+        afterClosing: isAfterClosing(start, duration),
+      };
+    }),
+    ...waiting.map((walkIn) => {
+      const estimate = estimates.get(String(walkIn._id));
+      const start = estimate?.start ?? earliest;
+      return {
+        _id: String(walkIn._id),
+        kind: 'walk-in' as const,
+        name: walkIn.name,
+        service: walkIn.service?.name ?? "Service not found",
+        duration: walkIn.duration,
+        barber: barberById(estimate?.barberId ?? null),
+        arrivedAt: new Date(walkIn.createdAt).toISOString(),
+        scheduledAt: null,
+        estimatedStart: start.toISOString(),
+        afterClosing: isAfterClosing(start, walkIn.duration),
+      };
+    }),
+  ];
+
+  // Next client first; at the same time, booked clients go before walk-ins.
+  return entries.sort((a, b) =>
+    a.estimatedStart.localeCompare(b.estimatedStart) || (a.kind === b.kind ? 0 : a.kind === 'appointment' ? -1 : 1)
+  );
+}
+
+/**
+ * estimateWalkIn
+ * ----------------------------------
+ * When a new walk-in needing `duration` minutes would be seen if they joined the queue now.
+ *
+ * @returns The expected start and whether they would finish after closing time, or null
+ *   when the shop is closed today.
+ */
+export async function estimateWalkIn(
+  duration: number,
+  now: Date = new Date()
+): Promise<{ start: Date; afterClosing: boolean } | null> {
+  const { schedule, busy, earliest, closesAt, waiting } = await loadQueueState(now);
+  if (!closesAt) return null;
+
+  const estimates = estimateStarts(
+    [...waiting.map((walkIn) => ({ id: String(walkIn._id), duration: walkIn.duration })), { id: 'new', duration }],
+    busy,
+    schedule.activeBarberIds,
+    earliest
+  );
+  const start = estimates.get('new')?.start ?? earliest;
+  return { start, afterClosing: addMinutesTo(start, duration).getTime() > closesAt.getTime() };
+}
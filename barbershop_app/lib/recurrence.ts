@@ -0,0 +1,83 @@
+/**
+ * @file lib/recurrence.ts
+ * @description
+ * Pure date helpers for recurring bookings ("repeat every N weeks, M times or until a date").
+ *
+ * Key points:
+ * - Occurrences keep the first booking's weekday and wall-clock time; only the date moves.
+ * - A series is limited to `MAX_OCCURRENCES` appointments within the one-year booking window.
+ * - Contains no database access, so it can run on the server and in the browser.
+ */
+
+import { RecurrenceRule } from "@/app/types";
+
+/**
+ * Most occurrences a single recurring booking may create.
+ */
+export const MAX_OCCURRENCES = 26;
+
+/**
+ * Longest gap between occurrences, in weeks.
+ */
+export const MAX_INTERVAL_WEEKS = 12;
+
+const DAY_MS = 24 * 60 * 60_000;
+
+/**
+ * Moves a 'YYYY-MM-DD' date by a number of days (negative to go back).
+ */
+export function shiftDate(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Number of days from one 'YYYY-MM-DD' date to another (negative when `to` is earlier).
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+}
+
+/**
+ * validateRecurrence
+ * ----------------------------------
+ * Checks a recurrence rule before a series is booked.
+ *
+ * @param startDate - Date of the first occurrence ('YYYY-MM-DD').
+ * @returns An error message, or null when the rule is valid.
+ */
+export function validateRecurrence(rule: RecurrenceRule, startDate: string): string | null {
+  if (!Number.isInteger(rule.intervalWeeks) || rule.intervalWeeks < 1 || rule.intervalWeeks > MAX_INTERVAL_WEEKS) {
+    return `Repeat every 1 to ${MAX_INTERVAL_WEEKS} weeks.`;
+  }
+  if (rule.count === undefined && !rule.until) {
+    return "Choose how many times to repeat or an end date.";
+  }
+  if (rule.count !== undefined && (!Number.isInteger(rule.count) || rule.count < 2 || rule.count > MAX_OCCURRENCES)) {
+    return `A recurring booking has between 2 and ${MAX_OCCURRENCES} appointments.`;
+  }
+  if (rule.until && rule.until <= startDate) {
+    return "The end date must be after the first appointment.";
+  }
+  return null;
+}
+
+/**
+ * expandRecurrence
+ * ----------------------------------
+ * Lists the dates of every occurrence of a series, starting with `startDate` itself.
+ * Stops after `count` occurrences, after `until`, a year after the first date,
+ * or at `MAX_OCCURRENCES`, whichever comes first.
+ *
+ * @returns An array of 'YYYY-MM-DD' strings.
+ */
+export function expandRecurrence(startDate: string, rule: RecurrenceRule): string[] {
+  const lastDate = shiftDate(startDate, 365);
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+
+  const dates: string[] = [];
+  for (let date = startDate; dates.length < limit; date = shiftDate(date, rule.intervalWeeks * 7)) {
+    if (date > lastDate || (rule.until && date > rule.until)) break;
+    dates.push(date);
+  }
+  return dates;
+}
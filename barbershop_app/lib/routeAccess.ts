@@ -0,0 +1,79 @@
+/**
+ * @file lib/routeAccess.ts
+ * @description
+ * Which pages need a login, and which role, checked by `middleware.ts` before the page renders.
+ *
+ * Key points:
+ * - `ROUTE_ACCESS` maps a path to who may open it and every page below it; pages not listed are public.
+ * - Visitors who are not logged in are sent to the login page with the `?redirect=` parameter the
+ *   login form reads, so they come back after logging in. Logged-in users without the role go home.
+ * - Loaded by the middleware, so it must not import the database or Node-only modules.
+ */
+
+/**
+ * Who may open a protected page: any logged-in user, or admins only.
+ */
+export type RouteAccess = "user" | "admin";
+
+/**
+ * The protected pages. `/appointments` stays public: visitors book there as guests
+ * (see `app/actions/guestActions.ts`), and only see their own appointments once logged in.
+ */
+export const ROUTE_ACCESS: Record<string, RouteAccess> = {
+  "/admin": "admin",
+  "/profile": "user",
+  "/cart": "user",
+  "/checkoutSuccess": "user",
+};
+
+/**
+ * The page logged-in users are sent to when a page needs a role they do not have.
+ */
+export const FORBIDDEN_REDIRECT = "/";
+
+/**
+ * requiredAccess
+ * ----------------------------------
+ * Who may open a path, from the closest entry of `ROUTE_ACCESS` above it.
+ *
+ * @param pathname - The path requested, without its query string.
+ * @returns The access it needs, or null for a public page.
+ */
+export function requiredAccess(pathname: string): RouteAccess | null {
+  const route = Object.keys(ROUTE_ACCESS)
+    .filter((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  return route ? ROUTE_ACCESS[route] : null;
+}
+
+/**
+ * Whether a role opens pages needing the given access.
+ */
+export function hasAccess(role: string | null, access: RouteAccess): boolean {
+  if (!role) return false;
+  return access === "user" || role === access;
+}
+
+/**
+ * loginPath
+ * ----------------------------------
+ * The login page, coming back to a page after logging in.
+ *
+ * @param returnTo - The path (and query string) to return to.
+ */
+export function loginPath(returnTo: string): string {
+  return `/login?redirect=${encodeURIComponent(returnTo)}`;
+}
+
+/**
+ * safeRedirectPath
+ * ----------------------------------
+ * The page to go to after logging in, from a `?redirect=` parameter. Only paths on this site
+ * are followed, so a crafted login link cannot send the user to another site.
+ *
+ * @returns The path, or the home page when it is missing or points elsewhere.
+ */
+export function safeRedirectPath(target: string | null | undefined): string {
+  if (!target || !target.startsWith("/") || target.startsWith("//") || target.startsWith("/\\")) return "/";
+  return target;
+}
@@ -0,0 +1,154 @@
+/**
+ * @file lib/session.ts
+ * @description
+ * Server-side sessions: who is logged in, read from the `session` cookie.
+ *
+ * Key points:
+ * - The cookie holds a random token and its HMAC-SHA256 signature (keyed with `SESSION_SECRET`),
+ *   so a forged or edited cookie is refused before the database is even read.
+ * - Each token is backed by a `Session` document (see `models/Session.ts`) holding its expiry,
+ *   so sessions can be revoked server-side: on logout, or all of a user's at once.
+ * - The name and role returned by `getSession` are read from the user's record, never from
+ *   the cookie, so a role change or a deleted account takes effect on the next request.
+ * - Server-only: reads and writes cookies and the database.
+ */
+
+import { cache } from "react";
+import { cookies } from "next/headers";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import connectDB from "@/lib/mongoose";
+import Session from "@/models/Session";
+import User from "@/models/User";
+import { SessionType } from "@/app/types";
+
+/**
+ * Name of the cookie the session token is kept in.
+ */
+export const SESSION_COOKIE = "session";
+
+/**
+ * How long a session lasts after logging in, in seconds.
+ */
+export const SESSION_MAX_AGE = 60 * 60 * 24;
+
+/**
+ * The key tokens are signed with.
+ * @throws When `SESSION_SECRET` is not set, rather than signing with a guessable key.
+ */
+function secret(): string {
+  const key = process.env.SESSION_SECRET;
+  if (!key) throw new Error("SESSION_SECRET is not set.");
+  return key;
+}
+
+/**
+ * Signs a token, in base64url.
+ */
+function sign(token: string): string {
+  return createHmac("sha256", secret()).update(token).digest("base64url");
+}
+
+/**
+ * The hash a token is stored under.
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("base64url");
+}
+
+/**
+ * Checks a cookie value's signature.
+ * @returns The token it carries, or null when it is malformed or tampered with.
+ */
+function verifyCookie(value: string): string | null {
+  const [token, signature, ...rest] = value.split(".");
+  if (!token || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(token));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  return token;
+}
+
+/**
+ * createSession
+ * ----------------------------------
+ * Logs a user in: stores a new session for them and sets its signed cookie.
+ *
+ * @param userId - The user the session belongs to.
+ */
+export async function createSession(userId: string): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE * 1000);
+
+  await connectDB();
+  await Session.create({ tokenHash: hashToken(token), user: userId, expiresAt });
+
+  (await cookies()).set(SESSION_COOKIE, `${token}.${sign(token)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    expires: expiresAt,
+    path: "/",
+  });
+}
+
+/**
+ * getSession
+ * ----------------------------------
+ * Reads the current request's session. Cached for the request, so the layout and the page
+ * share one lookup.
+ *
+ * @returns The logged-in user's ID, name and role, or null when the cookie is missing, forged,
+ *          expired or revoked, or the user no longer exists.
+ */
+export const getSession = cache(async (): Promise<SessionType | null> => {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value;
+  const token = value ? verifyCookie(value) : null;
+  if (!token) return null;
+
+  try {
+    await connectDB();
+    const session = await Session.findOne({
+      tokenHash: hashToken(token),
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!session) return null;
+
+    const user = await User.findById(session.user).select("name role isGuest");
+    if (!user || user.isGuest) return null;
+    return { userId: String(user._id), name: user.name, role: user.role };
+  } catch (error) {
+    console.error("Failed to read the session:", error);
+    return null;
+  }
+});
+
+/**
+ * destroySession
+ * ----------------------------------
+ * Logs the current request out: revokes its session and clears the cookie.
+ */
+export async function destroySession(): Promise<void> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(SESSION_COOKIE)?.value;
+  const token = value ? verifyCookie(value) : null;
+  if (token) {
+    await connectDB();
+    await Session.updateOne({ tokenHash: hashToken(token) }, { revokedAt: new Date() });
+  }
+  cookieStore.set(SESSION_COOKIE, "", { expires: new Date(0), path: "/" });
+}
+
+/**
+ * revokeUserSessions
+ * ----------------------------------
+ * Logs a user out everywhere, e.g. when their account is deleted or their password changes.
+ *
+ * @returns The number of sessions revoked.
+ */
+export async function revokeUserSessions(userId: string): Promise<number> {
+  await connectDB();
+  const { modifiedCount } = await Session.updateMany({ user: userId, revokedAt: null }, { revokedAt: new Date() });
+  return modifiedCount;
+}
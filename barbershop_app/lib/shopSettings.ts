@@ -0,0 +1,174 @@
+/**
+ * @file lib/shopSettings.ts
+ * @description
+ * Loads and validates the shop-wide settings (opening hours, breaks, slot interval, time zone,
+ * cancellation policy, reminder offsets)
+ * stored in the single `ShopSettings` document.
+ *
+ * Key points:
+ * - `getShopSettings()` always returns a complete configuration, falling back to
+ *   the defaults (every day 09:00 to 17:00 on a 30-minute grid) when nothing is stored.
+ * - The time zone defaults to `SHOP_TIME_ZONE` from the environment, or "America/Sao_Paulo".
+ * - By default, clients must cancel or reschedule at least 24 hours ahead; later
+ *   cancellations are still allowed but flagged as late.
+ * - Clients are reminded 24 hours and 2 hours before their appointments unless configured otherwise.
+ * - `validateShopSettings()` is used by the admin action before persisting changes.
+ */
+
+import connectDB from "@/lib/mongoose";
+import ShopSettings from "@/models/ShopSettings";
+import { DayHours, ShopSettingsType } from "@/app/types";
+import { timeToMinutes } from "@/lib/availability";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Longest cancellation notice an admin can require: one week.
+const MAX_NOTICE_HOURS = 7 * 24;
+
+// Reminders can be sent up to a week ahead, at no more than this many offsets.
+const MAX_REMINDER_HOURS = 7 * 24;
+const MAX_REMINDERS = 4;
+
+/**
+ * Time zone used until an admin picks one.
+ */
+const DEFAULT_TIME_ZONE = process.env.SHOP_TIME_ZONE || "America/Sao_Paulo";
+
+/**
+ * Settings used until an admin saves their own.
+ */
+export const DEFAULT_SHOP_SETTINGS: ShopSettingsType = {
+  weeklyHours: [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+    dayOfWeek,
+    isOpen: true,
+    open: "09:00",
+    close: "17:00",
+    breaks: [],
+  })),
+  slotInterval: 30,
+  timeZone: DEFAULT_TIME_ZONE,
+  cancellationPolicy: { noticeHours: 24, allowLateCancel: true },
+  reminderHours: [24, 2],
+};
+
+/**
+ * normalizeShopSettings
+ * ----------------------------------
+ * Returns settings with exactly one entry per weekday (ordered Sunday to Saturday),
+ * filling any missing weekday from the defaults.
+ */
+export function normalizeShopSettings(settings: Partial<ShopSettingsType>): ShopSettingsType {
+  const weeklyHours = DEFAULT_SHOP_SETTINGS.weeklyHours.map((defaults) => {
+    const stored = settings.weeklyHours?.find((day) => day.dayOfWeek === defaults.dayOfWeek);
+    return stored
+      ? {
+          dayOfWeek: stored.dayOfWeek,
+          isOpen: stored.isOpen,
+          open: stored.open,
+          close: stored.close,
+          breaks: (stored.breaks ?? []).map(({ start, end }) => ({ start, end })),
+        }
+      : defaults;
+  });
+
+  return {
+    weeklyHours,
+    slotInterval: settings.slotInterval || DEFAULT_SHOP_SETTINGS.slotInterval,
+    timeZone: settings.timeZone || DEFAULT_SHOP_SETTINGS.timeZone,
+    cancellationPolicy: settings.cancellationPolicy
+      ? {
+          noticeHours: settings.cancellationPolicy.noticeHours,
+          allowLateCancel: settings.cancellationPolicy.allowLateCancel,
+        }
+      : DEFAULT_SHOP_SETTINGS.cancellationPolicy,
+    reminderHours: settings.reminderHours ?? DEFAULT_SHOP_SETTINGS.reminderHours,
+  };
+}
+
+/**
+ * getShopSettings
+ * ----------------------------------
+ * Reads the stored shop settings as a plain, serializable object.
+ */
+export async function getShopSettings(): Promise<ShopSettingsType> {
+  await connectDB();
+  const stored = await ShopSettings.findOne({}).lean();
+  if (!stored) return DEFAULT_SHOP_SETTINGS;
+  return normalizeShopSettings(JSON.parse(JSON.stringify(stored)));
+}
+
+/**
+ * validateDayHours
+ * ----------------------------------
+ * Checks that a weekday's times are well-formed and that its breaks fall inside opening hours.
+ *
+ * @returns An error message, or null when the day is valid.
+ */
+function validateDayHours(day: DayHours): string | null {
+  if (!day.isOpen) return null;
+
+  const times = [day.open, day.close, ...day.breaks.flatMap((b) => [b.start, b.end])];
+  if (times.some((time) => !TIME_PATTERN.test(time))) {
+    return "Times must use the HH:mm format.";
+  }
+  if (timeToMinutes(day.open) >= timeToMinutes(day.close)) {
+    return "Opening time must be before closing time.";
+  }
+  for (const b of day.breaks) {
+    const start = timeToMinutes(b.start);
+    const end = timeToMinutes(b.end);
+    if (start >= end || start < timeToMinutes(day.open) || end > timeToMinutes(day.close)) {
+      return "Breaks must start before they end and fall within opening hours.";
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a string is an IANA time zone name known to the runtime (e.g. "Europe/Lisbon").
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * validateShopSettings
+ * ----------------------------------
+ * Validates a full settings object before it is saved.
+ *
+ * @returns An error message, or null when the settings are valid.
+ */
+export function validateShopSettings(settings: ShopSettingsType): string | null {
+  if (!Number.isInteger(settings.slotInterval) || settings.slotInterval < 5 || settings.slotInterval > 240) {
+    return "Slot interval must be a whole number of minutes between 5 and 240.";
+  }
+  if (!isValidTimeZone(settings.timeZone)) {
+    return `Unknown time zone "${settings.timeZone}". Use an IANA name such as America/Sao_Paulo.`;
+  }
+  const { noticeHours } = settings.cancellationPolicy;
+  if (!Number.isInteger(noticeHours) || noticeHours < 0 || noticeHours > MAX_NOTICE_HOURS) {
+    return `Cancellation notice must be a whole number of hours between 0 and ${MAX_NOTICE_HOURS}.`;
+  }
+  const { reminderHours } = settings;
+  if (reminderHours.length > MAX_REMINDERS) {
+    return `At most ${MAX_REMINDERS} reminders can be sent per appointment.`;
+  }
+  if (reminderHours.some((hours) => !Number.isInteger(hours) || hours < 1 || hours > MAX_REMINDER_HOURS)) {
+    return `Reminders must be a whole number of hours between 1 and ${MAX_REMINDER_HOURS} before the appointment.`;
+  }
+  if (new Set(reminderHours).size !== reminderHours.length) {
+    return "Each reminder must be sent at a different time.";
+  }
+
+  const dayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+  for (const day of settings.weeklyHours) {
+    const error = validateDayHours(day);
+    if (error) return `${dayNames[day.dayOfWeek]}: ${error}`;
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+/**
+ * @file lib/visit.ts
+ * @description
+ * Visits: one appointment covering several services performed back to back by the same
+ * barber (e.g. a haircut and a beard trim).
+ *
+ * Key points:
+ * - A visit's services are stored as line items on the appointment, in the order they are
+ *   performed; the visit lasts their combined duration and costs their combined price.
+ * - Appointments booked before visits could hold several services have no line items and
+ *   consist of their `service` alone.
+ * - Contains no database access, so it can run on the server and in the browser.
+ */
+
+import { Appointment, VisitItem } from "@/app/types";
+import { Buffers, NO_BUFFERS } from "@/lib/availability";
+
+/**
+ * Most services a single visit can include.
+ */
+export const MAX_VISIT_SERVICES = 4;
+
+/**
+ * validateVisit
+ * ----------------------------------
+ * Checks the services chosen for a visit.
+ *
+ * @returns An error message, or null when the selection is valid.
+ */
+export function validateVisit(serviceIds: string[]): string | null {
+  if (serviceIds.length === 0) {
+    return "Please select at least one service.";
+  }
+  if (serviceIds.length > MAX_VISIT_SERVICES) {
+    return `A visit can include at most ${MAX_VISIT_SERVICES} services.`;
+  }
+  if (new Set(serviceIds).size !== serviceIds.length) {
+    return "Each service can only be added once per visit.";
+  }
+  return null;
+}
+
+/**
+ * Combined duration of a visit's services, in minutes.
+ */
+export function visitDuration(items: Pick<VisitItem, "duration">[]): number {
+  return items.reduce((total, item) => total + item.duration, 0);
+}
+
+/**
+ * Combined price of a visit's services.
+ */
+export function visitPrice(items: Pick<VisitItem, "price">[]): number {
+  return items.reduce((total, item) => total + item.price, 0);
+}
+
+/**
+ * The buffers kept around a visit: before its first service and after its last one,
+ * as the services in between follow each other without a break.
+ */
+export function visitBuffers(items: Pick<VisitItem, "bufferBefore" | "bufferAfter">[]): Buffers {
+  if (items.length === 0) return NO_BUFFERS;
+  return { before: items[0].bufferBefore ?? 0, after: items[items.length - 1].bufferAfter ?? 0 };
+}
+
+/**
+ * The names of an appointment's services, e.g. "Haircut + Beard Trim".
+ */
+export function describeVisit(appointment: Pick<Appointment, "service" | "items">): string {
+  if (appointment.items && appointment.items.length > 0) {
+    return appointment.items.map((item) => item.name).join(" + ");
+  }
+  return appointment.service?.name || "Service not found";
+}
+
+/**
+ * The IDs of an appointment's services, in order.
+ */
+export function visitServiceIds(appointment: Pick<Appointment, "service" | "items">): string[] {
+  if (appointment.items && appointment.items.length > 0) {
+    return appointment.items.map((item) => String(item.service));
+  }
+  return appointment.service?._id ? [appointment.service._id] : [];
+}
@@ -0,0 +1,206 @@
+/**
+ * @file lib/waitlist.ts
+ * @description
+ * Server-side waitlist: clients wait for a slot on a given day, within a time window,
+ * and are offered freed slots in the order they joined.
+ *
+ * Key points:
+ * - Whenever an appointment is canceled, moved or deleted, `offerFreedSlots` looks for
+ *   waiting clients on that day whose window now has a bookable start time.
+ * - An offer holds its slot, with the buffers around it, for `OFFER_MINUTES` (see
+ *   `getOfferIntervals` in `lib/booking.ts`); the client is told of it (see `notifyWaitlistOffer`)
+ *   and accepts it to turn it into an appointment.
+ * - Lapsed offers are expired by the periodic notification job and before an offer is accepted
+ *   (see `refreshWaitlist`); an expired offer passes its slot to the next client in line.
+ *   Reading the waitlist never writes to it.
+ */
+
+import connectDB from "@/lib/mongoose";
+import WaitlistEntry from "@/models/WaitlistEntry";
+import { getShopSettings } from "@/lib/shopSettings";
+import { notifyWaitlistOffer } from "@/lib/notifications";
+import { getDaySchedule, getVisitItems } from "@/lib/booking";
+import { visitBuffers, visitDuration } from "@/lib/visit";
+import {
+  addMinutesTo,
+  assignSlot,
+  combineBuffers,
+  findAvailableTimes,
+  formatInZone,
+  toDateTime,
+} from "@/lib/availability";
+import { WaitlistEntryType } from "@/app/types";
+import "@/models/Service"; // Registers the models used by populate()
+import "@/models/Barber";
+
+/**
+ * How long, in minutes, a waitlisted client has to accept an offered slot.
+ */
+export const OFFER_MINUTES = 30;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * The services a waitlist entry waits for, in order; older entries have only `service`.
+ */
+export function entryServiceIds(entry: { service: unknown; services?: unknown[] }): string[] {
+  return entry.services && entry.services.length > 0 ? entry.services.map(String) : [String(entry.service)];
+}
+
+/**
+ * validateWaitlistWindow
+ * ----------------------------------
+ * Checks the time window a client is willing to start an appointment in.
+ *
+ * @returns An error message, or null when the window is valid.
+ */
+export function validateWaitlistWindow(windowStart: string, windowEnd: string): string | null {
+  if (!TIME_PATTERN.test(windowStart) || !TIME_PATTERN.test(windowEnd)) {
+    return "Times must use the HH:mm format.";
+  }
+  if (windowStart > windowEnd) {
+    return "The window must start before it ends.";
+  }
+  return null;
+}
+
+/**
+ * offerSlotsOn
+ * ----------------------------------
+ * Walks the waiting clients of a day in the order they joined and offers each one the
+ * earliest free start time inside their window, letting them know. Slots offered earlier
+ * in the walk count as busy for the clients after them.
+ * Each offer keeps the buffers its appointment will reserve (the visit's, or the assigned
+ * barber's where longer), so nothing is offered or booked in them before it is accepted.
+ *
+ * @param date - A 'YYYY-MM-DD' date in the shop's time zone.
+ * @returns The number of offers made.
+ */
+export async function offerSlotsOn(date: string): Promise<number> {
+  const entries = await WaitlistEntry.find({ date, status: 'waiting' }).sort({ createdAt: 1 });
+  if (entries.length === 0) return 0;
+
+  const schedule = await getDaySchedule(date);
+  const busy = [...schedule.busy];
+  let offers = 0;
+
+  for (const entry of entries) {
+    const items = await getVisitItems(entryServiceIds(entry));
+    if (!items) continue;
+    const duration = visitDuration(items);
+    const buffers = visitBuffers(items);
+
+    const barberId = entry.barber ? String(entry.barber) : undefined;
+    const time = findAvailableTimes({ ...schedule, date, duration, buffers, busy, requestedBarberId: barberId })
+      .find((t) => t >= entry.windowStart && t <= entry.windowEnd);
+    if (!time) continue;
+
+    const start = toDateTime(date, time, schedule.timeZone);
+    const assignment = assignSlot(
+      start,
+      duration,
+      busy,
+      schedule.activeBarberIds,
+      barberId,
+      buffers,
+      schedule.barberBuffers
+    );
+    if (!assignment.available) continue;
+
+    const reserved = assignment.barberId
+      ? combineBuffers(buffers, schedule.barberBuffers[assignment.barberId])
+      : buffers;
+    const offer = {
+      start,
+      end: addMinutesTo(start, duration),
+      barber: assignment.barberId,
+      bufferBefore: reserved.before,
+      bufferAfter: reserved.after,
+      expiresAt: addMinutesTo(new Date(), OFFER_MINUTES),
+    };
+    // Only claim entries still waiting, in case another request got to them first.
+    const claimed = await WaitlistEntry.findOneAndUpdate(
+      { _id: entry._id, status: 'waiting' },
+      { status: 'offered', offer }
+    );
+    if (!claimed) continue;
+
+    busy.push({ start: offer.start, end: offer.end, barberId: offer.barber, buffers: reserved });
+    offers++;
+    await notifyWaitlistOffer(String(entry._id));
+  }
+
+  return offers;
+}
+
+/**
+ * offerFreedSlots
+ * ----------------------------------
+ * Offers the time freed by canceled, moved or deleted appointments to waiting clients.
+ * Failures are logged rather than thrown, so they never undo the change that freed the slot.
+ *
+ * @param starts - The former start times of the appointments.
+ */
+export async function offerFreedSlots(starts: Date[]): Promise<void> {
+  try {
+    await connectDB();
+    const { timeZone } = await getShopSettings();
+    const dates = new Set(starts.map((start) => formatInZone(start, "yyyy-MM-dd", timeZone)));
+    for (const date of dates) {
+      await offerSlotsOn(date);
+    }
+  } catch (error) {
+    console.error("Failed to offer freed slots to the waitlist:", error);
+  }
+}
+
+/**
+ * refreshWaitlist
+ * ----------------------------------
+ * Expires offers that were not accepted in time and passes their slots on to the next
+ * clients in line. Entries for days that have already passed stop waiting.
+ * Run by the periodic notification job (see `dispatchNotifications`).
+ *
+ * @returns The number of lapsed offers expired.
+ */
+export async function refreshWaitlist(): Promise<number> {
+  await connectDB();
+  const { timeZone } = await getShopSettings();
+  const today = formatInZone(new Date(), "yyyy-MM-dd", timeZone);
+
+  await WaitlistEntry.updateMany(
+    { status: { $in: ['waiting', 'offered'] }, date: { $lt: today } },
+    { status: 'expired' }
+  );
+
+  const lapsed = await WaitlistEntry.find({ status: 'offered', 'offer.expiresAt': { $lte: new Date() } })
+    .select('date');
+  if (lapsed.length === 0) return 0;
+
+  await WaitlistEntry.updateMany(
+    { _id: { $in: lapsed.map((entry) => entry._id) }, status: 'offered' },
+    { status: 'expired' }
+  );
+  for (const date of new Set<string>(lapsed.map((entry) => entry.date))) {
+    await offerSlotsOn(date);
+  }
+  return lapsed.length;
+}
+
+/**
+ * getUserWaitlist
+ * ----------------------------------
+ * Lists a client's open waitlist entries (waiting or holding an offer), soonest day first,
+ * as plain serializable objects. Read-only: an offer that lapsed since the last run of the
+ * notification job is still listed, and accepting it fails.
+ */
+export async function getUserWaitlist(userId: string): Promise<WaitlistEntryType[]> {
+  await connectDB();
+  const entries = await WaitlistEntry.find({ user: userId, status: { $in: ['waiting', 'offered'] } })
+    .sort({ date: 1, windowStart: 1 })
+    .populate('service', 'name')
+    .populate('services', 'name')
+    .populate('barber', 'name')
+    .lean();
+  return JSON.parse(JSON.stringify(entries));
+}
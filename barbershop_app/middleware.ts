@@ -0,0 +1,68 @@
+/**
+ * @file middleware.ts
+ * @description
+ * Route protection: runs before any page or server component of a protected route
+ * (see `ROUTE_ACCESS` in `lib/routeAccess.ts`) and checks the session of the request.
+ *
+ * Key points:
+ * - Visitors who are not logged in are redirected to `/login?redirect=<page>`; logged-in users
+ *   without the page's role are redirected home.
+ * - The session is checked in full (signature, expiry, revocation and the user's current role)
+ *   by `/api/auth/session`, as the Edge runtime the middleware runs on cannot reach the database.
+ *   It is called on the site's own address (`APP_URL`), never on the request's Host header,
+ *   which the client controls and could point at a server answering with any role.
+ * - If that check fails, the visitor is treated as logged out.
+ * - Server actions still check the caller themselves (see `lib/authorization.ts`).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { FORBIDDEN_REDIRECT, hasAccess, loginPath, requiredAccess } from "@/lib/routeAccess";
+
+/**
+ * The session check's URL, on the site's configured address.
+ */
+function sessionCheckUrl(): URL {
+  return new URL("/api/auth/session", process.env.APP_URL || "http://localhost:3000");
+}
+
+/**
+ * The role of the request's session, or null when it has none or it cannot be checked.
+ */
+async function sessionRole(request: NextRequest): Promise<string | null> {
+  try {
+    const response = await fetch(sessionCheckUrl(), {
+      headers: { cookie: request.headers.get("cookie") ?? "" },
+      cache: "no-store",
+    });
+    if (!response.ok) return null;
+    const { role } = await response.json();
+    return typeof role === "string" ? role : null;
+  } catch (error) {
+    console.error("Failed to check the session:", error);
+    return null;
+  }
+}
+
+/**
+ * Lets the request through to a public page, or to a protected one the session gives access to;
+ * redirects it otherwise.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const access = requiredAccess(pathname);
+  if (!access) {
+    return NextResponse.next();
+  }
+
+  const role = await sessionRole(request);
+  if (hasAccess(role, access)) {
+    return NextResponse.next();
+  }
+  const target = role ? FORBIDDEN_REDIRECT : loginPath(`${pathname}${search}`);
+  return NextResponse.redirect(new URL(target, request.url));
+}
+
+export const config = {
+  // Every page; API routes (including the session check itself), build assets and uploads are skipped.
+  matcher: ["/((?!api|_next/static|_next/image|uploads|favicon.ico).*)"],
+};
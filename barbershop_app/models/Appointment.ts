@@ -6,6 +6,14 @@ export interface IAppointment extends Document {
   status: string;
   user: mongoose.Schema.Types.ObjectId;
   service: mongoose.Schema.Types.ObjectId;
+  items: { service: mongoose.Schema.Types.ObjectId; name: string; price: number; duration: number; bufferBefore?: number; bufferAfter?: number }[];
+  barber?: mongoose.Schema.Types.ObjectId | null;
+  series?: mongoose.Schema.Types.ObjectId | null;
+  statusHistory: { status: string; changedAt: Date }[];
+  lateCancellation: boolean;
+  clientNotes: string;
+  staffNotes: string;
+  photos: string[];
 }
 
 const AppointmentSchema: Schema = new Schema({
@@ -13,11 +21,43 @@ const AppointmentSchema: Schema = new Schema({
   status: { 
     type: String, 
     required: true, 
-    // CORREÇÃO AQUI: Adicionamos 'cancelled' para aceitar os dados do seu db.json
-    enum: ['scheduled', 'completed', 'canceled', 'cancelled'] 
+    // Lifecycle and allowed changes: see lib/appointmentStatus.ts. Older data spelled 'canceled'
+    // (run `npm run migrate:statuses` to normalize it).
+    enum: ['pending', 'scheduled', 'checked-in', 'in-progress', 'completed', 'cancelled', 'no-show'] 
   },
   user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  // The visit's first service. The whole visit is in `items`.
   service: { type: mongoose.Schema.Types.ObjectId, ref: 'Service', required: true },
+  // Line items of the visit, in the order they are performed, as priced and timed when booked.
+  // Appointments booked before visits could hold several services have none and consist of `service` alone.
+  items: {
+    type: [new Schema({
+      service: { type: mongoose.Schema.Types.ObjectId, ref: 'Service', required: true },
+      name: { type: String, required: true },
+      price: { type: Number, required: true },
+      duration: { type: Number, required: true }, // Minutes
+      // Minutes kept free before and after the service, as set when booked. Older items have none.
+      bufferBefore: { type: Number, required: false },
+      bufferAfter: { type: Number, required: false },
+    }, { _id: false })],
+    default: [],
+  },
+  // Optional: appointments created before staff existed have no barber and use the shop's single chair.
+  barber: { type: mongoose.Schema.Types.ObjectId, ref: 'Barber', required: false, default: null },
+  // Optional: shared by every occurrence of a recurring booking ("every N weeks").
+  series: { type: mongoose.Schema.Types.ObjectId, required: false, default: null, index: true },
+  // Every status change after creation, oldest first.
+  statusHistory: {
+    type: [new Schema({ status: { type: String, required: true }, changedAt: { type: Date, required: true } }, { _id: false })],
+    default: [],
+  },
+  // Set when the client cancelled inside the cancellation notice period.
+  lateCancellation: { type: Boolean, default: false },
+  // What the client asked for when booking, and what staff noted after the visit (not shown to the client).
+  clientNotes: { type: String, default: '', maxlength: 1000 },
+  staffNotes: { type: String, default: '', maxlength: 1000 },
+  // URLs of the reference photos attached when booking (see lib/photoStorage.ts).
+  photos: { type: [String], default: [] },
 }, {
   timestamps: true
 });
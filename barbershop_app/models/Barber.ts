@@ -0,0 +1,26 @@
+// models/Barber.ts
+import mongoose, { Schema, Document, models, model } from 'mongoose';
+
+export interface IBarber extends Document {
+  name: string;
+  email?: string;
+  phone?: string;
+  active: boolean;
+  bufferBefore: number;
+  bufferAfter: number;
+}
+
+const BarberSchema: Schema = new Schema({
+  name: { type: String, required: true },
+  email: { type: String, required: false },
+  phone: { type: String, required: false },
+  // Inactive barbers stay linked to their past appointments but receive no new bookings.
+  active: { type: Boolean, default: true },
+  // Minutes the barber keeps free before and after each appointment, on top of the service's own (the longer applies).
+  bufferBefore: { type: Number, default: 0, min: 0 },
+  bufferAfter: { type: Number, default: 0, min: 0 },
+}, {
+  timestamps: true
+});
+
+export default models.Barber || model<IBarber>('Barber', BarberSchema);
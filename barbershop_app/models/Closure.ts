@@ -0,0 +1,28 @@
+// models/Closure.ts
+import mongoose, { Schema, Document, models, model } from 'mongoose';
+
+// A period when the shop (or a single barber) takes no bookings: holidays, renovations, days off.
+export interface IClosure extends Document {
+  startDate: string;
+  endDate: string;
+  startTime?: string;
+  endTime?: string;
+  barber?: mongoose.Schema.Types.ObjectId | null;
+  reason: string;
+}
+
+const ClosureSchema: Schema = new Schema({
+  // Calendar dates ('YYYY-MM-DD'), both inclusive; a single day has startDate === endDate.
+  startDate: { type: String, required: true },
+  endDate: { type: String, required: true },
+  // Optional 'HH:mm' range applied on every day of the period; omitted for full-day closures.
+  startTime: { type: String, required: false },
+  endTime: { type: String, required: false },
+  // Optional: closures without a barber apply to the whole shop.
+  barber: { type: mongoose.Schema.Types.ObjectId, ref: 'Barber', required: false, default: null },
+  reason: { type: String, required: true },
+}, {
+  timestamps: true
+});
+
+export default models.Closure || model<IClosure>('Closure', ClosureSchema);
@@ -0,0 +1,62 @@
+// models/Notification.ts
+import mongoose, { Schema, Document, models, model } from 'mongoose';
+import { NotificationChannel, NotificationKind } from '@/app/types';
+
+// A message sent (or to be sent) to a client about their appointments, or a slot offered from the waitlist.
+export interface INotification extends Document {
+  user: mongoose.Schema.Types.ObjectId;
+  appointments: mongoose.Schema.Types.ObjectId[];
+  waitlistEntry?: mongoose.Schema.Types.ObjectId | null;
+  kind: NotificationKind;
+  channel: NotificationChannel;
+  to: string;
+  subject: string;
+  text: string;
+  status: 'pending' | 'sent' | 'failed';
+  attempts: number;
+  lastError?: string;
+  sentAt?: Date | null;
+  reminder?: {
+    appointment: mongoose.Schema.Types.ObjectId;
+    start: Date;
+    hours: number;
+  } | null;
+  createdAt: Date;
+}
+
+const NotificationSchema: Schema = new Schema({
+  user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  appointments: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Appointment' }],
+  // For offers: the waitlist entry holding the offered slot.
+  waitlistEntry: { type: mongoose.Schema.Types.ObjectId, ref: 'WaitlistEntry', required: false, default: null },
+  kind: { type: String, required: true, enum: ['booked', 'rescheduled', 'cancelled', 'reminder', 'offer'] },
+  channel: { type: String, required: true, enum: ['email', 'sms'] },
+  // Email address or phone number, as it was when the message was written.
+  to: { type: String, required: true },
+  subject: { type: String, required: true },
+  text: { type: String, required: true },
+  status: { type: String, required: true, enum: ['pending', 'sent', 'failed'], default: 'pending', index: true },
+  attempts: { type: Number, default: 0 },
+  lastError: { type: String, required: false },
+  sentAt: { type: Date, required: false, default: null },
+  // For reminders: which appointment start and offset it covers, so each is sent once.
+  reminder: {
+    type: new Schema({
+      appointment: { type: mongoose.Schema.Types.ObjectId, ref: 'Appointment', required: true },
+      start: { type: Date, required: true },
+      hours: { type: Number, required: true },
+    }, { _id: false }),
+    required: false,
+    default: null,
+  },
+}, {
+  timestamps: true
+});
+
+// One reminder per appointment start, offset and channel, even if two dispatchers run at once.
+NotificationSchema.index(
+  { 'reminder.appointment': 1, 'reminder.start': 1, 'reminder.hours': 1, channel: 1 },
+  { unique: true, partialFilterExpression: { kind: 'reminder' } }
+);
+
+export default models.Notification || model<INotification>('Notification', NotificationSchema);
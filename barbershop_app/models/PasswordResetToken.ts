@@ -0,0 +1,24 @@
+// models/PasswordResetToken.ts
+import mongoose, { Schema, Document, models, model } from 'mongoose';
+
+// A link sent to reset a forgotten password (see lib/passwordReset.ts). The link carries a random
+// token; only its SHA-256 hash is stored here, so the collection alone cannot be used to reset a password.
+export interface IPasswordResetToken extends Document {
+  tokenHash: string;
+  user: mongoose.Schema.Types.ObjectId;
+  expiresAt: Date;
+  usedAt?: Date | null;
+}
+
+const PasswordResetTokenSchema: Schema = new Schema({
+  tokenHash: { type: String, required: true, unique: true },
+  user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  // MongoDB deletes the token once it expires (TTL index).
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  // Set when the password is reset with it, or when a newer link is requested; used tokens are refused.
+  usedAt: { type: Date, required: false, default: null },
+}, {
+  timestamps: true
+});
+
+export default models.PasswordResetToken || model<IPasswordResetToken>('PasswordResetToken', PasswordResetTokenSchema);
@@ -6,6 +6,8 @@ export interface IService extends Document {
   description: string;
   price: number;
   duration: number;
+  bufferBefore: number;
+  bufferAfter: number;
   image: string;
   icon?: string; // Adicionando o campo opcional 'icon'
 }
@@ -15,6 +17,9 @@ const ServiceSchema: Schema = new Schema({
   description: { type: String, required: true },
   price: { type: Number, required: true },
   duration: { type: Number, required: true },
+  // Minutos livres antes e depois do serviço (preparação e limpeza); veja lib/availability.ts.
+  bufferBefore: { type: Number, default: 0, min: 0 },
+  bufferAfter: { type: Number, default: 0, min: 0 },
   image: { type: String, required: true },
   icon: { type: String, required: false }, // ADICIONADO AQUI
 }, {
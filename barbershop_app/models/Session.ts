@@ -0,0 +1,24 @@
+// models/Session.ts
+import mongoose, { Schema, Document, models, model } from 'mongoose';
+
+// A logged-in session (see lib/session.ts). The cookie carries a signed random token; only its
+// SHA-256 hash is stored here, so the collection alone cannot be used to log in.
+export interface ISession extends Document {
+  tokenHash: string;
+  user: mongoose.Schema.Types.ObjectId;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+}
+
+const SessionSchema: Schema = new Schema({
+  tokenHash: { type: String, required: true, unique: true },
+  user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true, index: true },
+  // MongoDB deletes the session once it expires (TTL index).
+  expiresAt: { type: Date, required: true, index: { expires: 0 } },
+  // Set on logout or when the user's sessions are revoked; revoked sessions are refused until they expire.
+  revokedAt: { type: Date, required: false, default: null },
+}, {
+  timestamps: true
+});
+
+export default models.Session || model<ISession>('Session', SessionSchema);
@@ -0,0 +1,47 @@
+// models/ShopSettings.ts
+import { Schema, Document, models, model } from 'mongoose';
+import { CancellationPolicy, DayHours } from '@/app/types';
+
+// A single document holds the shop-wide configuration.
+export interface IShopSettings extends Document {
+  weeklyHours: DayHours[];
+  slotInterval: number;
+  timeZone: string;
+  cancellationPolicy: CancellationPolicy;
+  reminderHours?: number[];
+}
+
+const TimeRangeSchema: Schema = new Schema({
+  start: { type: String, required: true }, // 'HH:mm'
+  end: { type: String, required: true }, // 'HH:mm'
+}, { _id: false });
+
+const DayHoursSchema: Schema = new Schema({
+  dayOfWeek: { type: Number, required: true, min: 0, max: 6 }, // 0 = Sunday
+  isOpen: { type: Boolean, default: true },
+  open: { type: String, required: true }, // 'HH:mm'
+  close: { type: String, required: true }, // 'HH:mm'
+  breaks: { type: [TimeRangeSchema], default: [] }, // e.g. lunch
+}, { _id: false });
+
+const ShopSettingsSchema: Schema = new Schema({
+  weeklyHours: { type: [DayHoursSchema], default: [] },
+  // Minutes between the start times offered to clients.
+  slotInterval: { type: Number, required: true, min: 5, default: 30 },
+  // IANA time zone the opening hours and booked times are expressed in.
+  timeZone: { type: String, required: false },
+  // Notice clients must give to cancel or reschedule online.
+  cancellationPolicy: {
+    type: new Schema({
+      noticeHours: { type: Number, required: true, min: 0 },
+      allowLateCancel: { type: Boolean, default: true },
+    }, { _id: false }),
+    required: false,
+  },
+  // Hours before each appointment at which the client is reminded of it; unset means the defaults.
+  reminderHours: { type: [Number], required: false, default: undefined },
+}, {
+  timestamps: true
+});
+
+export default models.ShopSettings || model<IShopSettings>('ShopSettings', ShopSettingsSchema);
@@ -0,0 +1,23 @@
+// models/SlotReservation.ts
+import mongoose, { Schema, Document, models, model } from 'mongoose';
+
+// One document per chair per minute an appointment occupies (see RESERVATION_BLOCK in lib/booking.ts).
+// The unique index on { chair, slot } lets MongoDB, not the application, decide which
+// of two concurrent bookings for the same time wins.
+export interface ISlotReservation extends Document {
+  chair: string;
+  slot: Date;
+  appointment: mongoose.Schema.Types.ObjectId;
+}
+
+const SlotReservationSchema: Schema = new Schema({
+  // The barber's ID, or 'shop' for the single chair used when no barbers are registered.
+  chair: { type: String, required: true },
+  // Start of the minute.
+  slot: { type: Date, required: true },
+  appointment: { type: mongoose.Schema.Types.ObjectId, ref: 'Appointment', required: true, index: true },
+});
+
+SlotReservationSchema.index({ chair: 1, slot: 1 }, { unique: true });
+
+export default models.SlotReservation || model<ISlotReservation>('SlotReservation', SlotReservationSchema);
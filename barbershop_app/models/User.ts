@@ -9,6 +9,10 @@ export interface IUser extends Document {
   phone: string;
   role: 'admin' | 'client';
   address?: any;
+  lateCancellations: number;
+  noShows: number;
+  styleProfile: string;
+  isGuest: boolean;
 }
 
 const AddressSchema: Schema = new Schema({
@@ -23,13 +27,23 @@ const UserSchema: Schema = new Schema({
   name: { type: String, required: true },
   email: { type: String, required: true, unique: true },
   
-  // A senha agora é apenas uma String simples.
+  // A senha é guardada como hash scrypt (veja lib/passwords.ts); contas antigas podem ainda ter texto puro,
+  // convertido no próximo login ou por `npm run migrate:passwords`.
   // A opção 'select: false' ainda é uma boa prática para não expor a senha em buscas gerais.
-  password: { type: String, required: true, select: false },
+  // Guests book without an account, so they have no password until they sign up.
+  password: { type: String, required: function (this: IUser) { return !this.isGuest; }, select: false },
   
   phone: { type: String, required: true },
   role: { type: String, required: true, enum: ['admin', 'client'], default: 'client' },
   address: { type: AddressSchema, required: false },
+  // Cancellation policy record: late cancellations and missed appointments.
+  lateCancellations: { type: Number, default: 0 },
+  noShows: { type: Number, default: 0 },
+  // How the client usually has their hair done (e.g. "0.5 guard on sides, scissor top"),
+  // kept by the client and staff and shown with each appointment.
+  styleProfile: { type: String, default: '', maxlength: 1000 },
+  // Created by a guest booking; becomes a regular client when they sign up with the same email.
+  isGuest: { type: Boolean, default: false },
 }, {
   timestamps: true
 });
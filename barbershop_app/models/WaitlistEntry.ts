@@ -0,0 +1,63 @@
+// models/WaitlistEntry.ts
+import mongoose, { Schema, Document, models, model } from 'mongoose';
+
+// A client waiting for a slot to free up on a given day, within a time window.
+export interface IWaitlistEntry extends Document {
+  user: mongoose.Schema.Types.ObjectId;
+  service: mongoose.Schema.Types.ObjectId;
+  services: mongoose.Schema.Types.ObjectId[];
+  barber?: mongoose.Schema.Types.ObjectId | null;
+  date: string;
+  windowStart: string;
+  windowEnd: string;
+  status: string;
+  offer?: {
+    start: Date;
+    end: Date;
+    barber: mongoose.Schema.Types.ObjectId | null;
+    bufferBefore: number;
+    bufferAfter: number;
+    expiresAt: Date;
+  } | null;
+  appointment?: mongoose.Schema.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const WaitlistEntrySchema: Schema = new Schema({
+  user: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+  service: { type: mongoose.Schema.Types.ObjectId, ref: 'Service', required: true },
+  // Every service of the visit waited for, in order (the first is `service`); empty on older entries.
+  services: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Service' }],
+  // Optional: entries without a barber accept any barber.
+  barber: { type: mongoose.Schema.Types.ObjectId, ref: 'Barber', required: false, default: null },
+  // Calendar date ('YYYY-MM-DD') and the 'HH:mm' range the appointment may start in, in the shop's time zone.
+  date: { type: String, required: true, index: true },
+  windowStart: { type: String, required: true },
+  windowEnd: { type: String, required: true },
+  status: {
+    type: String,
+    required: true,
+    enum: ['waiting', 'offered', 'booked', 'expired', 'cancelled'],
+    default: 'waiting',
+  },
+  // The freed slot held for this client while the offer is open.
+  offer: {
+    type: new Schema({
+      start: { type: Date, required: true },
+      end: { type: Date, required: true },
+      barber: { type: mongoose.Schema.Types.ObjectId, ref: 'Barber', default: null },
+      // Minutes held free before and after the slot, as the appointment will reserve them.
+      bufferBefore: { type: Number, default: 0 },
+      bufferAfter: { type: Number, default: 0 },
+      expiresAt: { type: Date, required: true },
+    }, { _id: false }),
+    required: false,
+    default: null,
+  },
+  // The appointment created when the offer was accepted.
+  appointment: { type: mongoose.Schema.Types.ObjectId, ref: 'Appointment', required: false, default: null },
+}, {
+  timestamps: true
+});
+
+export default models.WaitlistEntry || model<IWaitlistEntry>('WaitlistEntry', WaitlistEntrySchema);
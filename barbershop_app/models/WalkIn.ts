@@ -0,0 +1,32 @@
+// models/WalkIn.ts
+import mongoose, { Schema, Document, models, model } from 'mongoose';
+
+// A client who came in without an appointment and joined the shop's queue at the kiosk.
+export interface IWalkIn extends Document {
+  name: string;
+  service: mongoose.Schema.Types.ObjectId;
+  duration: number;
+  date: string;
+  status: 'waiting' | 'called' | 'left';
+  calledAt?: Date | null;
+  barber?: mongoose.Schema.Types.ObjectId | null;
+  createdAt: Date;
+}
+
+const WalkInSchema: Schema = new Schema({
+  name: { type: String, required: true, trim: true },
+  service: { type: mongoose.Schema.Types.ObjectId, ref: 'Service', required: true },
+  // The service's duration in minutes when the client joined, used for the wait estimates.
+  duration: { type: Number, required: true },
+  // The day of the queue ('YYYY-MM-DD', in the shop's time zone); older days are ignored.
+  date: { type: String, required: true, index: true },
+  // Waiting in line, called to a chair, or gone without being served.
+  status: { type: String, required: true, enum: ['waiting', 'called', 'left'], default: 'waiting' },
+  calledAt: { type: Date, required: false, default: null },
+  // The barber the client was called to, when one was assigned.
+  barber: { type: mongoose.Schema.Types.ObjectId, ref: 'Barber', required: false, default: null },
+}, {
+  timestamps: true
+});
+
+export default models.WalkIn || model<IWalkIn>('WalkIn', WalkInSchema);
@@ -13,6 +13,14 @@ const nextConfig: NextConfig = {
     // Útil para finalizar projetos quando os erros não são críticos para o funcionamento.
     ignoreBuildErrors: true,
   },
+
+  // Reference photos are uploaded through a server action; the default 1 MB body limit
+  // would not fit MAX_PHOTOS photos of MAX_PHOTO_BYTES each (see lib/appointmentNotes.ts).
+  experimental: {
+    serverActions: {
+      bodySizeLimit: "13mb",
+    },
+  },
 };
 
 export default nextConfig;
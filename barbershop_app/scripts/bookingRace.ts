@@ -0,0 +1,91 @@
+// scripts/bookingRace.ts
+// Concurrency check for atomic booking: fires parallel bookings for the same barber and
+// time and verifies that exactly one wins while the others get the "no longer available" error.
+// Runs against the database in MONGODB_URI (which must be a replica set, e.g. Atlas) and
+// removes everything it creates. tests/lib/booking.test.ts runs the same check with every test run,
+// against an in-memory stand-in for the database. Usage: npm run check:booking-race
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import connectDB from '../lib/mongoose';
+import Appointment from '../models/Appointment';
+import Barber from '../models/Barber';
+import Service from '../models/Service';
+import SlotReservation from '../models/SlotReservation';
+import { bookSlot, getDaySchedule, SLOT_TAKEN_MESSAGE } from '../lib/booking';
+import { findAvailableTimes } from '../lib/availability';
+
+const PARALLEL_REQUESTS = 10;
+const DURATION = 30;
+
+/**
+ * Finds the first bookable time for the barber, starting a week from today.
+ */
+async function findFreeSlot(barberId: string) {
+  for (let offset = 7; offset < 60; offset++) {
+    const date = new Date(Date.now() + offset * 24 * 60 * 60_000).toISOString().slice(0, 10);
+    const schedule = await getDaySchedule(date);
+    const [time] = findAvailableTimes({ date, duration: DURATION, ...schedule, requestedBarberId: barberId });
+    if (time) return { date, time };
+  }
+  throw new Error('No free slot found in the next two months.');
+}
+
+async function runRaceCheck() {
+  await connectDB();
+
+  const barber = await Barber.create({ name: 'Race Check Barber', active: true });
+  const service = await Service.create({
+    name: 'Race Check Service',
+    description: 'Temporary service created by scripts/bookingRace.ts',
+    price: 0,
+    duration: DURATION,
+    image: '/placeholder.png',
+  });
+  const barberId = String(barber._id);
+
+  try {
+    const { date, time } = await findFreeSlot(barberId);
+    console.log(`Firing ${PARALLEL_REQUESTS} parallel bookings for ${date} ${time}...`);
+
+    const results = await Promise.all(
+      Array.from({ length: PARALLEL_REQUESTS }, () =>
+        bookSlot({ date, time, duration: DURATION, barberId }, async ({ start, barberId }, session) => {
+          const [appointment] = await Appointment.create([{
+            user: new mongoose.Types.ObjectId(),
+            service: service._id,
+            barber: barberId,
+            date: start,
+            status: 'scheduled',
+          }], { session });
+          return String(appointment._id);
+        })
+      )
+    );
+
+    const winners = results.filter((result) => result.ok).length;
+    const rejected = results.filter((result) => !result.ok && result.message === SLOT_TAKEN_MESSAGE).length;
+    const stored = await Appointment.countDocuments({ barber: barber._id, status: 'scheduled' });
+    console.log(`Succeeded: ${winners}, rejected as taken: ${rejected}, appointments stored: ${stored}`);
+
+    if (winners !== 1 || rejected !== PARALLEL_REQUESTS - 1 || stored !== 1) {
+      console.error('FAIL: the slot was not booked exactly once.');
+      process.exitCode = 1;
+    } else {
+      console.log('PASS: exactly one booking won the slot.');
+    }
+  } finally {
+    const appointments = await Appointment.find({ barber: barber._id }).select('_id');
+    await SlotReservation.deleteMany({ appointment: { $in: appointments.map((a) => a._id) } });
+    await Appointment.deleteMany({ barber: barber._id });
+    await Barber.findByIdAndDelete(barber._id);
+    await Service.findByIdAndDelete(service._id);
+    await mongoose.disconnect();
+  }
+}
+
+runRaceCheck().catch((error) => {
+  console.error('Race check failed to run:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,29 @@
+// scripts/dispatchNotifications.ts
+// Periodic notification job (lib/notifications.ts): passes lapsed waitlist offers on to the next
+// clients in line, sends the appointment reminders that have come due and retries messages that
+// failed to send. Run it every few minutes, e.g. from cron:
+//   */5 * * * * cd /path/to/barbershop_app && npm run notifications:dispatch
+// Usage: npm run notifications:dispatch
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import connectDB from '../lib/mongoose';
+import { dispatchNotifications } from '../lib/notifications';
+
+async function runDispatch() {
+  await connectDB();
+  try {
+    const { expiredOffers, reminders, retried } = await dispatchNotifications();
+    console.log(
+      `Expired ${expiredOffers} waitlist offer(s), sent ${reminders} reminder(s), retried ${retried} failed notification(s).`
+    );
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+runDispatch().catch((error) => {
+  console.error('Notification dispatch failed:', error);
+  process.exitCode = 1;
+});
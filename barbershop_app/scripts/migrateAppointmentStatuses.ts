@@ -0,0 +1,54 @@
+// scripts/migrateAppointmentStatuses.ts
+// One-off migration to the appointment status lifecycle (lib/appointmentStatus.ts): rewrites
+// legacy spellings left over from db.json (e.g. 'canceled', 'Scheduled') to their canonical status,
+// for appointments and waitlist entries. Statuses it does not recognize are reported, not changed.
+// Safe to run more than once. Usage: npm run migrate:statuses
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import connectDB from '../lib/mongoose';
+import Appointment from '../models/Appointment';
+import WaitlistEntry from '../models/WaitlistEntry';
+import { APPOINTMENT_STATUSES, normalizeStatus } from '../lib/appointmentStatus';
+
+async function migrateAppointments() {
+  const statuses: string[] = await Appointment.distinct('status');
+
+  for (const status of statuses) {
+    if (APPOINTMENT_STATUSES.includes(status as (typeof APPOINTMENT_STATUSES)[number])) continue;
+
+    const normalized = normalizeStatus(status);
+    if (!normalized) {
+      const count = await Appointment.countDocuments({ status });
+      console.warn(`Skipped ${count} appointment(s) with unknown status "${status}".`);
+      continue;
+    }
+
+    const { modifiedCount } = await Appointment.updateMany({ status }, { $set: { status: normalized } });
+    console.log(`Appointments: "${status}" -> "${normalized}" (${modifiedCount} updated).`);
+  }
+}
+
+async function migrateWaitlist() {
+  const { modifiedCount } = await WaitlistEntry.updateMany({ status: 'canceled' }, { $set: { status: 'cancelled' } });
+  if (modifiedCount > 0) {
+    console.log(`Waitlist entries: "canceled" -> "cancelled" (${modifiedCount} updated).`);
+  }
+}
+
+async function runMigration() {
+  await connectDB();
+  try {
+    await migrateAppointments();
+    await migrateWaitlist();
+    console.log('Status migration complete.');
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+runMigration().catch((error) => {
+  console.error('Status migration failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,43 @@
+// scripts/migratePasswords.ts
+// One-off migration to hashed passwords (lib/passwords.ts): replaces every password still stored
+// in plain text with its scrypt hash. Users who log in before it runs are migrated then, so running it
+// is only needed for the accounts nobody logs into. Safe to run more than once: hashes are left as they are.
+// Usage: npm run migrate:passwords
+import dotenv from 'dotenv';
+dotenv.config();
+
+import mongoose from 'mongoose';
+import connectDB from '../lib/mongoose';
+import User from '../models/User';
+import { hashPassword, isPasswordHash } from '../lib/passwords';
+
+async function migratePasswords() {
+  const users = await User.find({ password: { $exists: true, $ne: '' } }).select('+password');
+  let migrated = 0;
+
+  for (const user of users) {
+    if (isPasswordHash(user.password)) continue;
+    // Only rewrite the password it was read with, in case the user changed it meanwhile.
+    const { modifiedCount } = await User.updateOne(
+      { _id: user._id, password: user.password },
+      { $set: { password: await hashPassword(user.password) } }
+    );
+    migrated += modifiedCount;
+  }
+  console.log(`Passwords: ${migrated} of ${users.length} hashed (the rest were already hashed).`);
+}
+
+async function runMigration() {
+  await connectDB();
+  try {
+    await migratePasswords();
+    console.log('Password migration complete.');
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+runMigration().catch((error) => {
+  console.error('Password migration failed:', error);
+  process.exitCode = 1;
+});
@@ -8,6 +8,14 @@ import Service from '../models/Service';
 import Product from '../models/Product';
 import User from '../models/User';
 import Appointment from '../models/Appointment';
+import Barber from '../models/Barber';
+import SlotReservation from '../models/SlotReservation';
+import WaitlistEntry from '../models/WaitlistEntry';
+import Notification from '../models/Notification';
+import { toDateTime } from '../lib/availability';
+import { DEFAULT_SHOP_SETTINGS } from '../lib/shopSettings';
+import { normalizeStatus } from '../lib/appointmentStatus';
+import { hashPassword } from '../lib/passwords';
 
 import dbData from '../db.json';
 
@@ -18,22 +26,32 @@ async function seedDatabase() {
   try {
     console.log('Limpando coleções antigas...');
     await Appointment.deleteMany({});
+    await SlotReservation.deleteMany({});
+    await WaitlistEntry.deleteMany({});
+    await Notification.deleteMany({});
     await Service.deleteMany({});
     await Product.deleteMany({});
+    await Barber.deleteMany({});
     await User.deleteMany({});
     console.log('Coleções limpas.');
 
     console.log('Inserindo Produtos...');
     await Product.insertMany(dbData.products);
     console.log('Produtos inseridos.');
+
+    console.log('Inserindo Barbeiros...');
+    await Barber.insertMany(dbData.barbers);
+    console.log('Barbeiros inseridos.');
     
     // MUDANÇA IMPORTANTE AQUI:
     // Vamos criar os usuários e serviços e garantir que temos a referência correta.
     console.log('Inserindo Usuários e Serviços...');
-    const usersToInsert = dbData.users.map(user => ({
+    // As senhas do db.json estão em texto puro; são guardadas como hash.
+    const usersToInsert = await Promise.all(dbData.users.map(async user => ({
       ...user,
+      password: await hashPassword(user.password),
       address: typeof user.address === 'object' ? user.address : undefined,
-    }));
+    })));
     
     // Usamos 'create' para ter acesso aos documentos recém-criados
     const createdUsers = await User.create(usersToInsert);
@@ -56,16 +74,16 @@ async function seedDatabase() {
     console.log('Processando e Inserindo Agendamentos (Appointments)...');
 
     const appointmentsToInsert = dbData.appointments.map(appt => {
-      const [year, month, day] = appt.date.split('-').map(Number);
-      const [hour, minute] = appt.time.split(':').map(Number);
-      const appointmentDate = new Date(year, month - 1, day, hour, minute);
+      // As horas do db.json são horários locais da barbearia, não do servidor.
+      const appointmentDate = toDateTime(appt.date, appt.time, DEFAULT_SHOP_SETTINGS.timeZone);
 
       // A lógica aqui continua a mesma, mas agora o .get() vai funcionar
       return {
         user: userIdMap.get(appt.clientId),
         service: serviceIdMap.get(appt.serviceId),
         date: appointmentDate,
-        status: appt.status.toLowerCase(),
+        // db.json usa as grafias 'canceled' e 'cancelled'; ambas viram 'cancelled'.
+        status: normalizeStatus(appt.status) ?? 'scheduled',
       };
     }).filter(appt => appt.user && appt.service);
 
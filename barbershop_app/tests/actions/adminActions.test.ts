@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import * as adminActions from "@/app/actions/adminActions";
+import { FORBIDDEN_MESSAGE } from "@/lib/authorization";
+import { releaseSlot, reserveSlot } from "@/lib/booking";
+import Appointment from "@/models/Appointment";
+import { ADMIN, APPOINTMENT_ID, CLIENT, setSession } from "../helpers";
+
+// Updates without a database: the transaction runs as is, and reservations are only recorded.
+vi.mock("@/lib/booking", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/booking")>()),
+  runBookingTransaction: vi.fn((work: (session: unknown) => unknown) => work({})),
+  releaseSlot: vi.fn(async () => undefined),
+  reserveSlot: vi.fn(async () => undefined),
+}));
+vi.mock("@/lib/shopSettings", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/shopSettings")>();
+  return { ...actual, getShopSettings: vi.fn(async () => actual.DEFAULT_SHOP_SETTINGS) };
+});
+vi.mock("@/lib/waitlist", () => ({ offerFreedSlots: vi.fn(async () => undefined) }));
+
+// Every admin action takes at most a few plain arguments; the guard runs before any of them is read.
+const actions = Object.entries(adminActions) as [string, (...args: unknown[]) => Promise<{ success: boolean; message: string }>][];
+
+describe("adminActions", () => {
+  it("exports only admin actions", () => {
+    expect(actions.map(([name]) => name).sort()).toEqual([
+      "callNextClient",
+      "createAppointment",
+      "deleteAppointment",
+      "deleteBarber",
+      "deleteClosure",
+      "deleteProduct",
+      "deleteService",
+      "deleteUser",
+      "removeWalkIn",
+      "saveBarber",
+      "saveClosure",
+      "saveProduct",
+      "saveService",
+      "saveShopSettings",
+      "updateAppointment",
+      "updateUser",
+    ]);
+  });
+
+  describe.each(actions)("%s", (_name, action) => {
+    it("is refused without a session", async () => {
+      setSession(null);
+      const result = await action("64b000000000000000000099", {});
+      expect(result).toMatchObject({ success: false, message: FORBIDDEN_MESSAGE, forbidden: true });
+    });
+
+    it("is refused for a client", async () => {
+      setSession(CLIENT);
+      const result = await action("64b000000000000000000099", {});
+      expect(result).toMatchObject({ success: false, forbidden: true });
+    });
+  });
+
+  it("lets an admin through", async () => {
+    setSession(ADMIN);
+    // Fails on validation instead, after the guard.
+    const result = await adminActions.saveClosure({});
+    expect(result).toMatchObject({ success: false, affected: [] });
+    expect(result).not.toHaveProperty("forbidden");
+  });
+
+  describe("updateAppointment", () => {
+    const booked = {
+      _id: APPOINTMENT_ID,
+      date: new Date("2030-01-07T13:00:00Z"),
+      status: "scheduled",
+      user: CLIENT.userId,
+      barber: null,
+      service: "64b0000000000000000000e1",
+      items: [{ service: "64b0000000000000000000e1", name: "Haircut", price: 30, duration: 30 }],
+    };
+
+    function stored(changes: object) {
+      vi.spyOn(Appointment, "findById").mockReturnValue({ select: async () => booked } as never);
+      return vi.spyOn(Appointment, "findByIdAndUpdate").mockResolvedValue({ ...booked, ...changes } as never);
+    }
+
+    it("leaves the reservations of an appointment that does not move alone", async () => {
+      setSession(ADMIN);
+      vi.mocked(releaseSlot).mockClear();
+      vi.mocked(reserveSlot).mockClear();
+      const update = stored({ staffNotes: "Fade, number 2." });
+
+      const result = await adminActions.updateAppointment(APPOINTMENT_ID, { staffNotes: "Fade, number 2." });
+
+      expect(result).toMatchObject({ success: true });
+      expect(update).toHaveBeenCalled();
+      expect(releaseSlot).not.toHaveBeenCalled();
+      expect(reserveSlot).not.toHaveBeenCalled();
+    });
+
+    it("releases the reservations of an appointment that stops taking up time", async () => {
+      setSession(ADMIN);
+      vi.mocked(releaseSlot).mockClear();
+      vi.mocked(reserveSlot).mockClear();
+      stored({ status: "cancelled" });
+
+      const result = await adminActions.updateAppointment(APPOINTMENT_ID, { status: "cancelled" });
+
+      expect(result).toMatchObject({ success: true });
+      expect(releaseSlot).toHaveBeenCalledWith(APPOINTMENT_ID, expect.anything());
+      expect(reserveSlot).not.toHaveBeenCalled();
+    });
+
+    it.each([{ date: "2030-01-08" }, { time: "11:00" }])("refuses a move without both a date and a time: %o", async (move) => {
+      setSession(ADMIN);
+      const update = stored(move);
+
+      const result = await adminActions.updateAppointment(APPOINTMENT_ID, move);
+
+      expect(result).toMatchObject({ success: false });
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+});
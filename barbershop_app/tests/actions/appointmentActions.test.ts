@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from "vitest";
+import * as appointmentActions from "@/app/actions/appointmentActions";
+import {
+  bookAppointmentAction,
+  bookRecurringAppointmentAction,
+  cancelAppointmentAction,
+  updateAppointmentAction,
+  uploadReferencePhotosAction,
+} from "@/app/actions/appointmentActions";
+import { FORBIDDEN_MESSAGE } from "@/lib/authorization";
+import { createManageToken } from "@/lib/manageLinks";
+import Appointment from "@/models/Appointment";
+import { ADMIN, APPOINTMENT_ID, CLIENT, OTHER_CLIENT_ID, setSession } from "../helpers";
+
+const BOOKING = { serviceIds: ["64b0000000000000000000e1"], date: "2030-01-07", time: "10:00" };
+const FORBIDDEN_RESULT = { success: false, message: FORBIDDEN_MESSAGE, forbidden: true };
+
+/**
+ * Makes the appointment look booked by `userId` to the ownership check.
+ */
+function appointmentOf(userId: string) {
+  return vi.spyOn(Appointment, "findById").mockReturnValue({ select: async () => ({ user: userId }) } as never);
+}
+
+describe("appointmentActions", () => {
+  it("exports the actions whose access is tested here, and the public look-ups", () => {
+    expect(Object.keys(appointmentActions).sort()).toEqual([
+      "bookAppointmentAction",
+      "bookRecurringAppointmentAction",
+      "cancelAppointmentAction",
+      // Public: availability look-ups.
+      "getAvailableTimes",
+      "getClosedDates",
+      "getMonthAvailability",
+      "getNextAvailableSlots",
+      "updateAppointmentAction",
+      "uploadReferencePhotosAction",
+    ]);
+  });
+
+  describe("uploadReferencePhotosAction", () => {
+    it("is refused without a session or a guest's contact details", async () => {
+      setSession(null);
+      vi.stubEnv("MANAGE_LINK_SECRET", "test-secret");
+      expect(await uploadReferencePhotosAction(new FormData())).toEqual({ ...FORBIDDEN_RESULT, photos: [] });
+    });
+
+    it("is refused for a guest while guest booking is off", async () => {
+      setSession(null);
+      vi.stubEnv("MANAGE_LINK_SECRET", "");
+      const formData = new FormData();
+      formData.set("name", "Guest");
+      formData.set("email", "guest@example.com");
+      formData.set("phone", "555-0100");
+      expect(await uploadReferencePhotosAction(formData)).toMatchObject(FORBIDDEN_RESULT);
+    });
+  });
+
+  describe("bookAppointmentAction", () => {
+    it("is refused without a session", async () => {
+      setSession(null);
+      expect(await bookAppointmentAction(BOOKING)).toEqual(FORBIDDEN_RESULT);
+    });
+  });
+
+  describe("bookRecurringAppointmentAction", () => {
+    it("is refused without a session", async () => {
+      setSession(null);
+      expect(await bookRecurringAppointmentAction(BOOKING, { intervalWeeks: 1, count: 2 })).toEqual({
+        ...FORBIDDEN_RESULT,
+        conflicts: [],
+      });
+    });
+  });
+
+  describe.each([
+    ["cancelAppointmentAction", (manageToken?: string) => cancelAppointmentAction(APPOINTMENT_ID, "one", manageToken)],
+    [
+      "updateAppointmentAction",
+      (manageToken?: string) => updateAppointmentAction(APPOINTMENT_ID, "2030-01-08", "11:00", "one", manageToken),
+    ],
+  ])("%s", (_name, action) => {
+    it("is refused without a session", async () => {
+      setSession(null);
+      expect(await action()).toMatchObject(FORBIDDEN_RESULT);
+    });
+
+    it("is refused on someone else's appointment", async () => {
+      setSession(CLIENT);
+      const findById = appointmentOf(OTHER_CLIENT_ID);
+      expect(await action()).toMatchObject(FORBIDDEN_RESULT);
+      expect(findById).toHaveBeenCalledWith(APPOINTMENT_ID);
+    });
+
+    it("is refused with a manage link issued for another appointment", async () => {
+      setSession(null);
+      vi.stubEnv("MANAGE_LINK_SECRET", "test-secret");
+      const token = createManageToken("64b0000000000000000000a2", new Date("2030-01-07T13:00:00Z"));
+      expect(await action(token)).toMatchObject(FORBIDDEN_RESULT);
+    });
+
+    it("lets the appointment's client and admins past the check", async () => {
+      setSession(CLIENT);
+      appointmentOf(CLIENT.userId);
+      expect(await action()).not.toHaveProperty("forbidden");
+
+      setSession(ADMIN);
+      expect(await action()).not.toHaveProperty("forbidden");
+    });
+  });
+});
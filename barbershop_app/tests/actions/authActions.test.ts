@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+import { signupAction } from "@/app/actions/authActions";
+import { requestAccountActivation } from "@/lib/passwordReset";
+import User from "@/models/User";
+import { setSession } from "../helpers";
+
+vi.mock("@/lib/passwordReset", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/passwordReset")>()),
+  requestAccountActivation: vi.fn(async () => undefined),
+}));
+
+function signupForm(email: string): FormData {
+  const formData = new FormData();
+  formData.set("name", "Someone");
+  formData.set("email", email);
+  formData.set("phone", "555-0199");
+  formData.set("password", "a-new-password");
+  formData.set("confirmPassword", "a-new-password");
+  return formData;
+}
+
+describe("signupAction", () => {
+  it("only emails a guest a link to finish signing up, leaving their record as it is", async () => {
+    setSession(null);
+    const guest = { isGuest: true, set: vi.fn(), save: vi.fn() };
+    vi.spyOn(User, "findOne").mockResolvedValue(guest as never);
+    const create = vi.spyOn(User, "create");
+
+    const result = await signupAction(signupForm("guest@example.com"));
+
+    expect(result).toMatchObject({ message: expect.stringMatching(/link/) });
+    expect(requestAccountActivation).toHaveBeenCalledWith("guest@example.com");
+    expect(guest.set).not.toHaveBeenCalled();
+    expect(guest.save).not.toHaveBeenCalled();
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it, vi } from "vitest";
+import { checkoutAction } from "@/app/actions/cartActions";
+import { FORBIDDEN_MESSAGE } from "@/lib/authorization";
+import Appointment from "@/models/Appointment";
+import { CartItem } from "@/app/types";
+import { CLIENT, OTHER_CLIENT_ID, setSession } from "../helpers";
+
+// Books without a database: the transaction and the slot check are skipped, the write runs as is.
+vi.mock("@/lib/booking", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/booking")>()),
+  runBookingTransaction: vi.fn((work: (session: unknown) => unknown) => work({})),
+  getVisitItems: vi.fn(async () => [{ service: "64b0000000000000000000e1", name: "Haircut", price: 30, duration: 30 }]),
+  holdSlot: vi.fn(async (_req, write: (slot: object, session: unknown) => Promise<string>, session: unknown) => {
+    const start = new Date("2030-01-07T13:00:00Z");
+    const appointmentId = await write({ start, barberId: null }, session);
+    return { ok: true, start, barberId: null, buffers: { before: 0, after: 0 }, appointmentId };
+  }),
+}));
+
+const SERVICE: CartItem = {
+  id: "64b0000000000000000000e1",
+  name: "Haircut",
+  price: 30,
+  image: "",
+  quantity: 1,
+  type: "service",
+  date: "2030-01-07",
+  time: "10:00",
+};
+
+describe("checkoutAction", () => {
+  it("is refused without a session", async () => {
+    setSession(null);
+    expect(await checkoutAction([SERVICE])).toEqual({ success: false, message: FORBIDDEN_MESSAGE, forbidden: true });
+  });
+
+  it("books for the logged-in user, ignoring a user ID passed by the browser", async () => {
+    setSession(CLIENT);
+    const create = vi.spyOn(Appointment, "create").mockResolvedValue([{ _id: "64b0000000000000000000a1" }] as never);
+
+    // Older clients sent the user's ID as a second argument.
+    await (checkoutAction as (...args: unknown[]) => Promise<unknown>)([SERVICE], OTHER_CLIENT_ID);
+
+    expect(create).toHaveBeenCalledOnce();
+    expect(create.mock.calls[0][0]).toEqual([expect.objectContaining({ user: CLIENT.userId })]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  bookGuestAppointmentAction,
+  cancelGuestAppointmentAction,
+  rescheduleGuestAppointmentAction,
+} from "@/app/actions/guestActions";
+import { createManageToken } from "@/lib/manageLinks";
+import { bookVisit } from "@/lib/booking";
+import Appointment from "@/models/Appointment";
+import User from "@/models/User";
+import { APPOINTMENT_ID, setSession } from "../helpers";
+
+// Books without a database: any visit is found and booked.
+vi.mock("@/lib/booking", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/booking")>()),
+  getVisitItems: vi.fn(async () => [{ service: "64b0000000000000000000e1", name: "Haircut", price: 30, duration: 30 }]),
+  bookVisit: vi.fn(async () => ({ ok: true, appointmentId: "64b0000000000000000000a1" })),
+}));
+
+// A manage link for the appointment, signed with another secret.
+function forgedToken(): string {
+  vi.stubEnv("MANAGE_LINK_SECRET", "someone-elses-secret");
+  const token = createManageToken(APPOINTMENT_ID, new Date("2030-01-07T13:00:00Z"));
+  vi.stubEnv("MANAGE_LINK_SECRET", "test-secret");
+  return token;
+}
+
+describe("bookGuestAppointmentAction", () => {
+  it("keeps the name and phone of an existing guest record", async () => {
+    setSession(null);
+    vi.stubEnv("MANAGE_LINK_SECRET", "test-secret");
+    const guest = { _id: "64b000000000000000000003", name: "Owner", phone: "555-0100", isGuest: true, save: vi.fn() };
+    vi.spyOn(User, "findOne").mockResolvedValue(guest as never);
+    vi.spyOn(Appointment, "findById").mockReturnValue({ select: async () => null } as never);
+
+    const result = await bookGuestAppointmentAction(
+      { name: "Someone else", email: "owner@example.com", phone: "555-0199" },
+      { serviceIds: ["64b0000000000000000000e1"], date: "2030-01-07", time: "10:00" }
+    );
+
+    expect(result).toMatchObject({ success: true });
+    expect(guest).toMatchObject({ name: "Owner", phone: "555-0100" });
+    expect(bookVisit).toHaveBeenCalledWith(guest._id, expect.anything(), expect.anything());
+  });
+});
+
+describe.each([
+  ["rescheduleGuestAppointmentAction", (token: string) => rescheduleGuestAppointmentAction(token, "2030-01-08", "11:00")],
+  ["cancelGuestAppointmentAction", (token: string) => cancelGuestAppointmentAction(token)],
+])("%s", (_name, action) => {
+  it("is refused with a forged manage link", async () => {
+    setSession(null);
+    expect(await action(forgedToken())).toMatchObject({ success: false, message: expect.stringMatching(/link/i) });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from "vitest";
+import { updateUserProfileAction } from "@/app/actions/userActions";
+import { FORBIDDEN_MESSAGE } from "@/lib/authorization";
+import User from "@/models/User";
+import { CLIENT, OTHER_CLIENT_ID, setSession } from "../helpers";
+
+const PROFILE = {
+  name: "Client",
+  phone: "555-0100",
+  styleProfile: "Short on the sides.",
+  address: { street: "1 Main St", city: "Springfield", state: "SP", zip: "01000" },
+};
+
+describe("updateUserProfileAction", () => {
+  it("is refused without a session", async () => {
+    setSession(null);
+    expect(await updateUserProfileAction(PROFILE)).toEqual({ success: false, message: FORBIDDEN_MESSAGE, forbidden: true });
+  });
+
+  it("updates the logged-in user's profile fields only, ignoring a user ID or role passed by the browser", async () => {
+    setSession(CLIENT);
+    const update = vi.spyOn(User, "findByIdAndUpdate").mockResolvedValue(null);
+
+    const result = await updateUserProfileAction({ ...PROFILE, _id: OTHER_CLIENT_ID, userId: OTHER_CLIENT_ID, role: "admin" } as typeof PROFILE);
+
+    expect(result).toMatchObject({ success: true });
+    expect(update).toHaveBeenCalledWith(CLIENT.userId, PROFILE);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { acceptWaitlistOfferAction, joinWaitlistAction, leaveWaitlistAction } from "@/app/actions/waitlistActions";
+import { FORBIDDEN_MESSAGE } from "@/lib/authorization";
+import { setSession } from "../helpers";
+
+const ENTRY_ID = "64b0000000000000000000f1";
+
+describe.each([
+  [
+    "joinWaitlistAction",
+    () =>
+      joinWaitlistAction({
+        serviceIds: ["64b0000000000000000000e1"],
+        date: "2030-01-07",
+        windowStart: "10:00",
+        windowEnd: "12:00",
+      }),
+  ],
+  ["leaveWaitlistAction", () => leaveWaitlistAction(ENTRY_ID)],
+  ["acceptWaitlistOfferAction", () => acceptWaitlistOfferAction(ENTRY_ID)],
+])("%s", (_name, action) => {
+  it("is refused without a session", async () => {
+    setSession(null);
+    expect(await action()).toEqual({ success: false, message: FORBIDDEN_MESSAGE, forbidden: true });
+  });
+});
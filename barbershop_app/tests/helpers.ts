@@ -0,0 +1,21 @@
+/**
+ * @file tests/helpers.ts
+ * @description
+ * Callers the action tests run as, set through the mocked session (see `tests/setup.ts`).
+ */
+
+import { vi } from "vitest";
+import { getSession } from "@/lib/session";
+import { SessionType } from "@/app/types";
+
+export const CLIENT: SessionType = { userId: "64b000000000000000000001", name: "Client", role: "client" };
+export const OTHER_CLIENT_ID = "64b000000000000000000002";
+export const ADMIN: SessionType = { userId: "64b0000000000000000000ad", name: "Admin", role: "admin" };
+export const APPOINTMENT_ID = "64b0000000000000000000a1";
+
+/**
+ * Makes the next actions run as a logged-in user, or as a visitor without a session (null).
+ */
+export function setSession(session: SessionType | null): void {
+  vi.mocked(getSession).mockResolvedValue(session);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { formatInZone, toDateTime } from "@/lib/availability";
+
+// New York moves its clocks forward at 02:00 on 2025-03-09 and back at 02:00 on 2025-11-02.
+const TIME_ZONE = "America/New_York";
+
+function hoursBetween(from: Date, to: Date) {
+  return (to.getTime() - from.getTime()) / 3_600_000;
+}
+
+describe("toDateTime", () => {
+  it("reads the time on the shop's wall clock", () => {
+    expect(toDateTime("2025-01-15", "09:30", TIME_ZONE)).toEqual(new Date("2025-01-15T14:30:00Z"));
+    expect(toDateTime("2025-07-15", "09:30", TIME_ZONE)).toEqual(new Date("2025-07-15T13:30:00Z"));
+  });
+
+  it("resolves 24:00 to the following midnight", () => {
+    expect(toDateTime("2025-01-15", "24:00", TIME_ZONE)).toEqual(toDateTime("2025-01-16", "00:00", TIME_ZONE));
+    expect(toDateTime("2025-12-31", "24:00", TIME_ZONE)).toEqual(toDateTime("2026-01-01", "00:00", TIME_ZONE));
+  });
+
+  it("spans 23 hours on the day the clocks go forward", () => {
+    const start = toDateTime("2025-03-09", "00:00", TIME_ZONE);
+    const end = toDateTime("2025-03-09", "24:00", TIME_ZONE);
+
+    expect(hoursBetween(start, end)).toBe(23);
+    expect(end).toEqual(toDateTime("2025-03-10", "00:00", TIME_ZONE));
+  });
+
+  it("spans 25 hours on the day the clocks go back", () => {
+    const start = toDateTime("2025-11-02", "00:00", TIME_ZONE);
+    const end = toDateTime("2025-11-02", "24:00", TIME_ZONE);
+
+    expect(hoursBetween(start, end)).toBe(25);
+    expect(end).toEqual(toDateTime("2025-11-03", "00:00", TIME_ZONE));
+  });
+
+  it("moves a time in the hour skipped by the clocks going forward an hour later", () => {
+    const start = toDateTime("2025-03-09", "02:30", TIME_ZONE);
+
+    expect(start).toEqual(new Date("2025-03-09T07:30:00Z"));
+    expect(formatInZone(start, "HH:mm", TIME_ZONE)).toBe("03:30");
+  });
+
+  it("reads a time in the hour repeated by the clocks going back as its first occurrence", () => {
+    expect(toDateTime("2025-11-02", "01:30", TIME_ZONE)).toEqual(new Date("2025-11-02T05:30:00Z"));
+  });
+});
+
+describe("formatInZone", () => {
+  it("round-trips the times of a normal day", () => {
+    for (const time of ["00:00", "09:30", "23:59"]) {
+      expect(formatInZone(toDateTime("2025-01-15", time, TIME_ZONE), "HH:mm", TIME_ZONE)).toBe(time);
+    }
+  });
+
+  it("shows both occurrences of the repeated hour as the same wall-clock time", () => {
+    expect(formatInZone(new Date("2025-11-02T05:30:00Z"), "yyyy-MM-dd HH:mm", TIME_ZONE)).toBe("2025-11-02 01:30");
+    expect(formatInZone(new Date("2025-11-02T06:30:00Z"), "yyyy-MM-dd HH:mm", TIME_ZONE)).toBe("2025-11-02 01:30");
+  });
+
+  it("shows 24:00 as midnight of the next day", () => {
+    const end = toDateTime("2025-03-09", "24:00", TIME_ZONE);
+
+    expect(formatInZone(end, "yyyy-MM-dd HH:mm", TIME_ZONE)).toBe("2025-03-10 00:00");
+  });
+
+  it("accepts ISO strings", () => {
+    expect(formatInZone("2025-03-09T07:00:00.000Z", "HH:mm", TIME_ZONE)).toBe("03:00");
+  });
+});
@@ -0,0 +1,170 @@
+import mongoose from "mongoose";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { checkoutAction } from "@/app/actions/cartActions";
+import { CartItem } from "@/app/types";
+import { bookSlot, SLOT_TAKEN_MESSAGE } from "@/lib/booking";
+import Appointment from "@/models/Appointment";
+import Barber from "@/models/Barber";
+import Service from "@/models/Service";
+import SlotReservation from "@/models/SlotReservation";
+import WaitlistEntry from "@/models/WaitlistEntry";
+import { CLIENT, setSession } from "../helpers";
+
+vi.mock("@/lib/shopSettings", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/shopSettings")>();
+  return { ...actual, getShopSettings: vi.fn(async () => actual.DEFAULT_SHOP_SETTINGS) };
+});
+vi.mock("@/lib/closures", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/closures")>()),
+  getClosures: vi.fn(async () => []),
+}));
+
+/**
+ * An in-memory stand-in for MongoDB, as far as booking uses it: appointments and slot
+ * reservations written in transactions, with the unique index on { chair, slot }.
+ * As in MongoDB, a reservation conflicts with committed ones and with those of transactions
+ * still running, and a transaction's writes are only seen by others once it commits.
+ */
+interface FakeSession {
+  appointments: { _id: string; date: Date; barber: string | null; items: object[]; status: string }[];
+  reservations: { key: string; appointment: string }[];
+}
+
+let appointments: FakeSession["appointments"];
+let reservations: Map<string, string>;
+let running: Set<FakeSession>;
+
+function duplicateKeyError() {
+  return Object.assign(new Error("E11000 duplicate key error"), { code: 11000 });
+}
+
+/**
+ * A query chain ending in `lean()`, resolving to `result()`.
+ */
+function query(result: () => unknown[]) {
+  const chain = { select: () => chain, sort: () => chain, populate: () => chain, lean: async () => result() };
+  return chain;
+}
+
+beforeEach(() => {
+  appointments = [];
+  reservations = new Map();
+  running = new Set();
+
+  vi.spyOn(mongoose.connection, "transaction").mockImplementation((async (work: (session: FakeSession) => Promise<unknown>) => {
+    const session: FakeSession = { appointments: [], reservations: [] };
+    running.add(session);
+    try {
+      const result = await work(session);
+      appointments.push(...session.appointments);
+      session.reservations.forEach(({ key, appointment }) => reservations.set(key, appointment));
+      return result;
+    } finally {
+      running.delete(session);
+    }
+  }) as never);
+
+  vi.spyOn(SlotReservation, "init").mockResolvedValue(undefined as never);
+  vi.spyOn(SlotReservation, "insertMany").mockImplementation((async (
+    docs: { chair: string; slot: Date; appointment: string }[],
+    { session }: { session: FakeSession }
+  ) => {
+    // A tick in between, so concurrent transactions interleave.
+    await Promise.resolve();
+    const pending = [...running].filter((other) => other !== session).flatMap((other) => other.reservations);
+    for (const doc of docs) {
+      const key = `${doc.chair}|${doc.slot.toISOString()}`;
+      if (reservations.has(key) || pending.some((reservation) => reservation.key === key)) throw duplicateKeyError();
+      session.reservations.push({ key, appointment: doc.appointment });
+    }
+    return [];
+  }) as never);
+  vi.spyOn(SlotReservation, "deleteMany").mockResolvedValue({ deletedCount: 0 } as never);
+
+  vi.spyOn(Appointment, "create").mockImplementation((async (
+    [doc]: [Omit<FakeSession["appointments"][number], "_id">],
+    { session }: { session: FakeSession }
+  ) => {
+    const appointment = { ...doc, _id: new mongoose.Types.ObjectId().toString() };
+    session.appointments.push(appointment);
+    return [appointment];
+  }) as never);
+  vi.spyOn(Appointment, "find").mockImplementation((() => query(() => appointments)) as never);
+  // A single chair: no barbers are registered.
+  vi.spyOn(Barber, "find").mockImplementation((() => query(() => [])) as never);
+  vi.spyOn(WaitlistEntry, "find").mockImplementation((() => query(() => [])) as never);
+});
+
+/**
+ * Books a visit of `duration` minutes at `time` on a Monday the shop is open.
+ */
+function book(time: string, duration: number) {
+  return bookSlot({ date: "2030-01-07", time, duration }, async ({ start, barberId }, session) => {
+    const [appointment] = await Appointment.create(
+      [{ date: start, barber: barberId, items: [{ name: "Haircut", price: 30, duration }], status: "scheduled" }],
+      { session }
+    );
+    return String(appointment._id);
+  });
+}
+
+describe("bookSlot", () => {
+  it("books exactly one of several concurrent requests for the same slot", async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => book("10:00", 30)));
+
+    expect(results.filter((result) => result.ok)).toHaveLength(1);
+    expect(results.filter((result) => !result.ok)).toEqual(Array(4).fill({ ok: false, message: SLOT_TAKEN_MESSAGE }));
+    expect(appointments).toHaveLength(1);
+  });
+
+  it("books exactly one of two concurrent requests that overlap by a minute", async () => {
+    const results = await Promise.all([book("10:00", 7), book("10:06", 30)]);
+
+    expect(results.filter((result) => result.ok)).toHaveLength(1);
+    expect(appointments).toHaveLength(1);
+  });
+
+  it("books back-to-back visits that do not start on a multiple of five minutes", async () => {
+    expect(await book("10:00", 7)).toMatchObject({ ok: true });
+    expect(await book("10:07", 30)).toMatchObject({ ok: true });
+    expect(appointments).toHaveLength(2);
+  });
+
+  it("keeps the buffers of a slot offered to a waitlisted client free", async () => {
+    // 10:00 to 10:30 in São Paulo, held with 10 minutes free after it.
+    const offer = {
+      start: new Date("2030-01-07T13:00:00Z"),
+      end: new Date("2030-01-07T13:30:00Z"),
+      barber: null,
+      bufferBefore: 0,
+      bufferAfter: 10,
+    };
+    vi.spyOn(WaitlistEntry, "find").mockImplementation((() => query(() => [{ offer }])) as never);
+
+    expect(await book("10:35", 30)).toEqual({ ok: false, message: SLOT_TAKEN_MESSAGE });
+    expect(await book("10:40", 30)).toMatchObject({ ok: true });
+  });
+});
+
+describe("checkoutAction", () => {
+  const haircut = { _id: "64b0000000000000000000e1", name: "Haircut", price: 30, duration: 30 };
+  const beard = { _id: "64b0000000000000000000e2", name: "Beard trim", price: 20, duration: 20 };
+  const barbers = [{ _id: "64b0000000000000000000b1" }, { _id: "64b0000000000000000000b2" }];
+
+  function cartItem(service: typeof haircut, time: string): CartItem {
+    const { _id: id, name, price } = service;
+    return { id, name, price, image: "", quantity: 1, type: "service", date: "2030-01-07", time };
+  }
+
+  it("books overlapping services of one cart with different barbers", async () => {
+    setSession(CLIENT);
+    vi.spyOn(Barber, "find").mockImplementation((() => query(() => barbers)) as never);
+    vi.spyOn(Service, "find").mockImplementation(((filter: { _id: { $in: string[] } }) =>
+      query(() => [haircut, beard].filter((service) => filter._id.$in.includes(service._id)))) as never);
+
+    const result = await checkoutAction([cartItem(haircut, "10:00"), cartItem(beard, "10:15")]);
+
+    expect(result).toBeUndefined();
+    expect(appointments.map((appointment) => appointment.barber)).toEqual(barbers.map((barber) => barber._id));
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from "vitest";
+import { OutgoingMessage, setTransport } from "@/lib/notificationTransports";
+import { DEFAULT_SHOP_SETTINGS, getShopSettings } from "@/lib/shopSettings";
+import { refreshWaitlist } from "@/lib/waitlist";
+import Notification from "@/models/Notification";
+import WaitlistEntry from "@/models/WaitlistEntry";
+
+vi.mock("@/lib/shopSettings", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/shopSettings")>();
+  return { ...actual, getShopSettings: vi.fn(async () => ({ ...actual.DEFAULT_SHOP_SETTINGS, timeZone: "UTC" })) };
+});
+vi.mock("@/lib/waitlist", () => ({ refreshWaitlist: vi.fn(async () => 2) }));
+
+// tests/setup.ts replaces the pipeline for the actions; this file tests the real one.
+const { dispatchNotifications, notifyWaitlistOffer } = await vi.importActual<typeof import("@/lib/notifications")>("@/lib/notifications");
+
+describe("notifyWaitlistOffer", () => {
+  it("tells the client which slot is held for them, until when, and where to accept it", async () => {
+    vi.stubEnv("APP_URL", "https://shop.example.com");
+    const sent: OutgoingMessage[] = [];
+    setTransport("email", { name: "test", send: async (message) => void sent.push(message) });
+    setTransport("sms", null);
+
+    const entry = {
+      _id: "64b0000000000000000000f1",
+      user: { _id: "64b000000000000000000001", name: "Client", email: "client@example.com" },
+      services: [{ name: "Haircut" }, { name: "Beard Trim" }],
+      offer: {
+        start: new Date("2030-01-07T10:00:00Z"),
+        expiresAt: new Date("2030-01-06T18:30:00Z"),
+        barber: { name: "John" },
+      },
+    };
+    const chain = { populate: () => chain, lean: async () => entry };
+    vi.spyOn(WaitlistEntry, "findById").mockReturnValue(chain as never);
+    const create = vi
+      .spyOn(Notification, "create")
+      .mockImplementation((async (doc: object) => ({ ...doc, attempts: 0, save: async () => undefined })) as never);
+
+    await notifyWaitlistOffer(entry._id);
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ kind: "offer", waitlistEntry: entry._id, channel: "email" }));
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("client@example.com");
+    expect(sent[0].subject).toMatch(/Haircut \+ Beard Trim on Jan 7 at 10:00 AM/);
+    expect(sent[0].text).toContain("with John");
+    expect(sent[0].text).toContain("held for you until 6:30 PM");
+    expect(sent[0].text).toContain("https://shop.example.com/appointments");
+  });
+});
+
+describe("dispatchNotifications", () => {
+  it("passes lapsed waitlist offers on", async () => {
+    vi.mocked(getShopSettings).mockResolvedValueOnce({ ...DEFAULT_SHOP_SETTINGS, reminderHours: [] });
+    vi.spyOn(Notification, "find").mockReturnValue({ sort: async () => [] } as never);
+
+    const result = await dispatchNotifications(new Date("2030-01-07T10:00:00Z"));
+
+    expect(refreshWaitlist).toHaveBeenCalled();
+    expect(result).toEqual({ expiredOffers: 2, reminders: 0, retried: 0 });
+  });
+});
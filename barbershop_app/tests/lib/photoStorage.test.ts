@@ -0,0 +1,77 @@
+import os from "node:os";
+import path from "node:path";
+import { mkdtemp, readdir, rm, utimes } from "node:fs/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { detectPhotoType, keepPhotos, readPhoto, savePhotos } from "@/lib/photoStorage";
+import { PHOTO_URL_PREFIX } from "@/lib/appointmentNotes";
+
+const JPEG = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10];
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00];
+const WEBP = [...Buffer.from("RIFF"), 0x24, 0x00, 0x00, 0x00, ...Buffer.from("WEBPVP8 ")];
+
+function photo(bytes: number[], type: string): File {
+  return new File([new Uint8Array(bytes)], "photo", { type });
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(os.tmpdir(), "uploads-"));
+  vi.stubEnv("UPLOAD_DIR", dir);
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("detectPhotoType", () => {
+  it("reads the type from the file signature", () => {
+    expect(detectPhotoType(new Uint8Array(JPEG))).toBe("image/jpeg");
+    expect(detectPhotoType(new Uint8Array(PNG))).toBe("image/png");
+    expect(detectPhotoType(new Uint8Array(WEBP))).toBe("image/webp");
+    expect(detectPhotoType(Buffer.from("<svg onload=alert(1)>"))).toBeNull();
+  });
+});
+
+describe("savePhotos", () => {
+  it("refuses a file whose bytes do not match an image type, whatever type it declares", async () => {
+    await expect(savePhotos([photo([...Buffer.from("<html>")], "image/png")])).rejects.toThrow(/JPEG, PNG or WebP/);
+  });
+
+  it("stores photos with the extension of their real type, pending until booked", async () => {
+    const [url] = await savePhotos([photo(PNG, "image/jpeg")]);
+    expect(url).toMatch(/\.png$/);
+
+    const name = url.slice(PHOTO_URL_PREFIX.length);
+    expect(await readdir(path.join(dir, "pending"))).toEqual([name]);
+    expect(await readPhoto(name)).toBeNull();
+  });
+
+  it("deletes pending photos older than a day", async () => {
+    const [stale] = await savePhotos([photo(JPEG, "image/jpeg")]);
+    const staleName = stale.slice(PHOTO_URL_PREFIX.length);
+    const twoDaysAgo = new Date(Date.now() - 48 * 60 * 60 * 1000);
+    await utimes(path.join(dir, "pending", staleName), twoDaysAgo, twoDaysAgo);
+
+    const [fresh] = await savePhotos([photo(JPEG, "image/jpeg")]);
+
+    expect(await readdir(path.join(dir, "pending"))).toEqual([fresh.slice(PHOTO_URL_PREFIX.length)]);
+  });
+});
+
+describe("keepPhotos", () => {
+  it("moves booked photos out of the pending folder, and accepts them again", async () => {
+    const urls = await savePhotos([photo(WEBP, "image/webp")]);
+    await keepPhotos(urls);
+    await keepPhotos(urls);
+
+    expect(await readdir(path.join(dir, "pending"))).toEqual([]);
+    expect(await readPhoto(urls[0].slice(PHOTO_URL_PREFIX.length))).toMatchObject({ type: "image/webp" });
+  });
+
+  it("refuses a photo that was never uploaded", async () => {
+    await expect(keepPhotos([`${PHOTO_URL_PREFIX}00000000-0000-0000-0000-000000000000.jpg`])).rejects.toThrow(
+      /could not be found/
+    );
+  });
+});
@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { middleware } from "@/middleware";
+
+describe("middleware", () => {
+  it("checks the session on APP_URL, whatever host the request names", async () => {
+    vi.stubEnv("APP_URL", "https://shop.example.com");
+    const fetch = vi.fn(async () => Response.json({ role: "client" }));
+    vi.stubGlobal("fetch", fetch);
+
+    const response = await middleware(
+      new NextRequest("https://attacker.example.com/admin", { headers: { cookie: "session=abc" } })
+    );
+
+    expect(fetch).toHaveBeenCalledWith(new URL("https://shop.example.com/api/auth/session"), expect.anything());
+    // A client is not an admin.
+    expect(response.headers.get("location")).toMatch(/\/$/);
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * @file tests/setup.ts
+ * @description
+ * Runs before every test file. The tests run without Next.js or MongoDB:
+ * - The session (see `lib/session.ts`) is mocked; tests pick who is calling with `setSession`.
+ * - Next.js's cache and navigation helpers, the database connection and client
+ *   notifications are replaced by no-op mocks.
+ * - Mongoose does not queue queries for a connection that never comes, so a test that
+ *   reaches the database by mistake fails at once instead of timing out.
+ */
+
+import mongoose from "mongoose";
+import { afterEach, vi } from "vitest";
+
+vi.mock("@/lib/session", () => ({
+  SESSION_COOKIE: "session",
+  SESSION_MAX_AGE: 60 * 60 * 24,
+  getSession: vi.fn(async () => null),
+  createSession: vi.fn(async () => undefined),
+  destroySession: vi.fn(async () => undefined),
+  revokeUserSessions: vi.fn(async () => 0),
+}));
+
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+vi.mock("next/navigation", () => ({ redirect: vi.fn() }));
+vi.mock("@/lib/mongoose", () => ({ default: vi.fn(async () => undefined) }));
+vi.mock("@/lib/notifications", () => ({
+  notifyAppointments: vi.fn(async () => undefined),
+  notifyWaitlistOffer: vi.fn(async () => undefined),
+  dispatchNotifications: vi.fn(async () => undefined),
+}));
+
+mongoose.set("bufferCommands", false);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});